@@ -2,6 +2,7 @@ import esbuild from "esbuild";
 import process from "process";
 import builtins from "builtin-modules";
 import { copyFileSync } from "fs";
+import path from "path";
 
 try {
 	copyFileSync("node_modules/sql.js/dist/sql-wasm.wasm", "sql-wasm.wasm");
@@ -19,6 +20,41 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = (process.argv[2] === "production");
 
+// Resolves `worker:<path>` imports by bundling that file on its own and inlining the
+// result as a string, so the plugin still ships as a single main.js
+const inlineWorkerPlugin = {
+	name: "inline-worker",
+	setup(build) {
+		build.onResolve({ filter: /^worker:/ }, (args) => ({
+			path: path.resolve(args.resolveDir, args.path.slice("worker:".length) + ".ts"),
+			namespace: "inline-worker",
+		}));
+
+		build.onLoad({ filter: /.*/, namespace: "inline-worker" }, async (args) => {
+			const result = await esbuild.build({
+				entryPoints: [args.path],
+				bundle: true,
+				write: false,
+				metafile: true,
+				format: "iife",
+				platform: "browser",
+				// sql.js only reaches for these when it runs under Node, never inside a worker
+				external: builtins,
+				target: "es2018",
+				minify: prod,
+				sourcemap: prod ? false : "inline",
+				logLevel: "silent",
+			});
+
+			return {
+				contents: result.outputFiles[0].text,
+				loader: "text",
+				watchFiles: Object.keys(result.metafile.inputs).map((input) => path.resolve(input)),
+			};
+		});
+	},
+};
+
 const context = await esbuild.context({
 	banner: {
 		js: banner,
@@ -46,6 +82,7 @@ const context = await esbuild.context({
 	sourcemap: prod ? false : "inline",
 	treeShaking: true,
 	outfile: "main.js",
+	plugins: [inlineWorkerPlugin],
 	loader: { 
 	   ".png": "base64",
 	   ".svg": "base64",
@@ -35,6 +35,8 @@ export interface PreviewResult {
 export interface FileIndexedEvent {
   path: string;
   isUpdate: boolean;
+  /** Tables whose rows changed while indexing the file */
+  tables: string[];
 }
 
 /**
@@ -42,6 +44,8 @@ export interface FileIndexedEvent {
  */
 export interface FileRemovedEvent {
   path: string;
+  /** Tables that held rows for the file before it was removed */
+  tables: string[];
 }
 
 /**
@@ -51,6 +55,8 @@ export interface VaultIndexedEvent {
   filesIndexed: number;
   filesRemoved: number;
   isForced: boolean;
+  /** Tables whose rows changed while indexing and syncing files; removed notes are reported by file-removed */
+  tables: string[];
 }
 
 /**
@@ -85,6 +91,22 @@ export interface IndexingStats {
  */
 export type NoteSource = string | TFile;
 
+/**
+ * Bind values for a query: an array for positional `?` placeholders,
+ * or an object for named `:name` placeholders (the leading colon is optional in keys).
+ */
+export type QueryParams = Array<string | number | null> | Record<string, string | number | null>;
+
+/**
+ * Cancellation and timeout options for a query.
+ */
+export interface QueryOptions {
+  /** Abort the query when this signal fires */
+  signal?: AbortSignal;
+  /** Override the query timeout from settings, in milliseconds. 0 disables the timeout. */
+  timeoutMs?: number;
+}
+
 /**
  * The VaultQuery public API interface.
  */
@@ -92,10 +114,13 @@ export interface IVaultQueryAPI {
   /**
    * Execute a SQL query against the indexed vault.
    * @param sql - The SQL query to execute
-   * @param noteSource - Optional TFile or path for {this.*} template variable substitution
+   * @param params - Optional bind values for `?` or `:name` placeholders
+   * @param noteSource - Optional TFile or path for {this.*} template variable substitution in the SQL and in string params
+   * @param options - Optional abort signal and timeout override; the query timeout from settings applies otherwise
    * @returns Array of query results
    */
   query(sql: string, noteSource?: NoteSource): Promise<QueryResult[]>;
+  query(sql: string, params: QueryParams, noteSource?: NoteSource, options?: QueryOptions): Promise<QueryResult[]>;
 
   /**
    * Wait for indexing to complete.
@@ -128,7 +153,9 @@ export interface IVaultQueryAPI {
 
   /**
    * Execute a SQL statement that doesn't return results (DDL, etc.)
-   * @returns Number of rows affected
+   * The statement runs in the database worker after the call returns, so a failure is
+   * only logged to the console. Queries made after this call see its effect.
+   * @returns Always 0
    */
   execute(sql: string): number;
 
@@ -140,10 +167,10 @@ export interface IVaultQueryAPI {
   /**
    * Preview a DML operation before applying it.
    * @param sql - The DML query (INSERT, UPDATE, DELETE)
-   * @param params - Query parameters
+   * @param params - Bind values: an array for `?` placeholders or an object for named `:name` placeholders
    * @param noteSource - Optional TFile or path for template variables
    */
-  previewQuery(sql: string, params?: unknown[], noteSource?: NoteSource): Promise<PreviewResult>;
+  previewQuery(sql: string, params?: QueryParams, noteSource?: NoteSource): Promise<PreviewResult>;
 
   /**
    * Apply a previewed DML operation.
@@ -156,6 +183,12 @@ export interface IVaultQueryAPI {
    */
   getSchemaInfo(): string;
 
+  /**
+   * Get the tables and views a query reads from. Views are expanded to the
+   * tables they are built on.
+   */
+  getReferencedTables(sql: string): string[];
+
   /**
    * Get current plugin capabilities based on user settings.
    */
@@ -169,8 +202,15 @@ export interface IVaultQueryAPI {
       tasks: boolean;
       headings: boolean;
       links: boolean;
+      embeds: boolean;
       tags: boolean;
       listItems: boolean;
+      callouts: boolean;
+      codeBlocks: boolean;
+      inlineFields: boolean;
+      files: boolean;
+      canvases: boolean;
+      fullText: boolean;
     };
   };
 
@@ -184,6 +224,28 @@ export interface IVaultQueryAPI {
    */
   removeNote(notePath: string): void;
 
+  /**
+   * Record any vault file in the files table (no-op when file indexing is disabled).
+   * @returns true if the file was recorded
+   */
+  indexFileRecord(file: TFile): Promise<boolean>;
+
+  /**
+   * Remove a file from the files table (does not delete the file).
+   */
+  removeFileRecord(filePath: string): Promise<void>;
+
+  /**
+   * Parse a .canvas file into canvas_nodes and canvas_edges (no-op when canvas indexing is disabled).
+   * @returns true if the canvas was indexed
+   */
+  indexCanvas(file: TFile): Promise<boolean>;
+
+  /**
+   * Remove a canvas's nodes and edges from the index (does not delete the file).
+   */
+  removeCanvas(filePath: string): Promise<void>;
+
   /**
    * Check if a file should be indexed based on settings.
    */
@@ -1,16 +1,18 @@
 import { App, MarkdownPostProcessorContext } from 'obsidian';
-import { checkIndexingAndWait } from '../utils/IndexingUtils';
-import { parseConfigSection } from '../utils/QueryParsingUtils';
+import { checkIndexingAndWait, runWithCancellableLoading } from '../utils/IndexingUtils';
+import { parseConfigSection, extractParamsSection } from '../utils/QueryParsingUtils';
 import { getErrorMessage } from '../utils/ErrorMessages';
 import VaultQueryPlugin from '../main';
 import { ChartRenderer } from '../Renderers/ChartRenderer';
 import { BaseRenderer } from '../Renderers/BaseRenderer';
 import type { PendingBlock } from '../utils/IndexingUtils';
 import type { ChartConfig } from '../Renderers/ChartRenderer';
+import type { QueryParams } from '../types';
 
 interface ParsedChartBlock {
   query: string;
   config: ChartConfig;
+  params?: QueryParams;
 }
 
 export class ChartCodeBlockProcessor {
@@ -59,7 +61,10 @@ export class ChartCodeBlockProcessor {
     const api = this.plugin.api;
     if (!api) return;
 
-    const results = await api.query(parsed.query, ctx.sourcePath);
+    this.plugin.liveQueryManager.register(container, parsed.query, () => this.refreshChart(container, parsed, source, ctx), ctx.sourcePath, ctx);
+
+    const results = await runWithCancellableLoading(container, signal =>
+      api.query(parsed.query, parsed.params ?? [], ctx.sourcePath, { signal }));
 
     if (!results || !Array.isArray(results) || results.length === 0) {
       container.createDiv({
@@ -72,14 +77,26 @@ export class ChartCodeBlockProcessor {
     ChartRenderer.renderChart({ results, container, config: parsed.config });
 
     const buttonContainer = container.createDiv({ cls: 'vaultquery-floating-buttons' });
-    BaseRenderer.addRefreshButton(buttonContainer, async () => {
-      container.empty();
+    BaseRenderer.addRefreshButton(buttonContainer, () => this.refreshChart(container, parsed, source, ctx));
+  }
+
+  private async refreshChart(container: HTMLElement, parsed: ParsedChartBlock, source: string, ctx: MarkdownPostProcessorContext): Promise<void> {
+    container.empty();
+
+    try {
       await this.executeChart(container, parsed, source, ctx);
-    });
+    }
+    catch (error: unknown) {
+      container.createDiv({
+        cls: 'vaultquery-error',
+        text: getErrorMessage(error) || 'Unknown error occurred'
+      });
+    }
   }
 
   private parseChartBlock(source: string): ParsedChartBlock {
-    const content = source.trim();
+    const { source: querySource, params } = extractParamsSection(source);
+    const content = querySource.trim();
     const semicolonIndex = content.indexOf(';');
 
     if (semicolonIndex === -1) {
@@ -99,7 +116,7 @@ export class ChartCodeBlockProcessor {
       throw new Error('Chart type required. Add "type: bar" (or line, pie, doughnut, scatter)');
     }
 
-    return { query, config };
+    return { query, config, params };
   }
 
   private parseConfig(configText: string): ChartConfig {
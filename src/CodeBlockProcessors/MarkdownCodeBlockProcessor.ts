@@ -1,8 +1,10 @@
 import { App, MarkdownPostProcessorContext, MarkdownRenderer, Component } from 'obsidian';
-import { checkIndexingAndWait } from '../utils/IndexingUtils';
+import { checkIndexingAndWait, runWithCancellableLoading } from '../utils/IndexingUtils';
 import { BaseRenderer } from '../Renderers/BaseRenderer';
 import VaultQueryPlugin from '../main';
+import { extractParamsSection } from '../utils/QueryParsingUtils';
 import type { PendingBlock } from '../utils/IndexingUtils';
+import type { QueryParams } from '../types';
 
 interface MarkdownConfig {
   alignment?: ('left' | 'center' | 'right')[];
@@ -11,6 +13,7 @@ interface MarkdownConfig {
 interface ParsedMarkdownQuery {
   query: string;
   config: MarkdownConfig;
+  params?: QueryParams;
 }
 
 export class MarkdownCodeBlockProcessor {
@@ -53,7 +56,8 @@ export class MarkdownCodeBlockProcessor {
     }
   }
 
-  private parseMarkdownBlock(source: string): ParsedMarkdownQuery {
+  private parseMarkdownBlock(blockSource: string): ParsedMarkdownQuery {
+    const { source, params } = extractParamsSection(blockSource);
     const lines = source.split('\n');
     const configIndex = lines.findIndex(line => line.trim().toLowerCase() === 'config:');
 
@@ -85,15 +89,21 @@ export class MarkdownCodeBlockProcessor {
       }
     }
 
-    return { query, config };
+    return { query, config, params };
   }
 
   private async processQueryInContainer(container: HTMLElement, parsed: ParsedMarkdownQuery, ctx: MarkdownPostProcessorContext): Promise<void> {
     const api = this.plugin.api;
     if (!api) return;
 
+    this.plugin.liveQueryManager.register(container, parsed.query, async () => {
+      container.empty();
+      await this.processQueryInContainer(container, parsed, ctx);
+    }, ctx.sourcePath, ctx);
+
     try {
-      const results = await api.query(parsed.query, ctx.sourcePath);
+      const results = await runWithCancellableLoading(container, signal =>
+        api.query(parsed.query, parsed.params ?? [], ctx.sourcePath, { signal }));
 
       if (!results || !Array.isArray(results)) {
         container.createDiv({
@@ -1,6 +1,6 @@
 import { App, MarkdownPostProcessorContext, MarkdownRenderer } from 'obsidian';
-import { checkIndexingAndWait } from '../utils/IndexingUtils';
-import { parseQueryBlock } from '../utils/QueryParsingUtils';
+import { checkIndexingAndWait, runWithCancellableLoading } from '../utils/IndexingUtils';
+import { parseQueryBlock, containsWriteOperations } from '../utils/QueryParsingUtils';
 import { BaseRenderer } from '../Renderers/BaseRenderer';
 import { QueryRenderer, RenderContext } from '../Renderers/QueryRenderer';
 import { getErrorMessage } from '../utils/ErrorMessages';
@@ -52,7 +52,7 @@ export class QueryCodeBlockProcessor {
     if (!api) return;
 
     try {
-      if (this.containsWriteOperations(parsed.query)) {
+      if (containsWriteOperations(parsed.query)) {
         container.createDiv({
           cls: 'vaultquery-error',
           text: 'Write operations (INSERT, UPDATE, DELETE) are not allowed in regular vaultquery blocks. Use vaultquery-write blocks for write operations.'
@@ -60,7 +60,10 @@ export class QueryCodeBlockProcessor {
         return;
       }
 
-      const results = await api.query(parsed.query, ctx.sourcePath);
+      this.plugin.liveQueryManager.register(container, parsed.query, () => this.refreshQuery(container, parsed, ctx.sourcePath), ctx.sourcePath, ctx);
+
+      const results = await runWithCancellableLoading(container, signal =>
+        api.query(parsed.query, parsed.params ?? [], ctx.sourcePath, { signal }));
 
       if (!results || !Array.isArray(results)) {
         console.error('VaultQuery: Invalid results from query:', typeof results, results);
@@ -103,7 +106,8 @@ export class QueryCodeBlockProcessor {
 
     try {
       container.empty();
-      const results = await api.query(parsed.query, sourcePath);
+      const results = await runWithCancellableLoading(container, signal =>
+        api.query(parsed.query, parsed.params ?? [], sourcePath, { signal }));
 
       const renderContext: RenderContext = {
         results,
@@ -130,16 +134,6 @@ export class QueryCodeBlockProcessor {
     }
   }
 
-  private containsWriteOperations(query: string): boolean {
-    const upperQuery = query.toUpperCase().trim();
-    const writeOperations = ['INSERT', 'UPDATE', 'DELETE', 'DROP', 'CREATE', 'ALTER'];
-    
-    return writeOperations.some(op => {
-      const regex = new RegExp(`\\b${op}\\b`, 'i');
-      return regex.test(upperQuery);
-    });
-  }
-
   public getPendingBlocks(): Set<PendingBlock> {
     return this.pendingBlocks;
   }
@@ -48,8 +48,8 @@ export class ViewCodeBlockProcessor {
     }
 
     try {
-      this.plugin.api.execute(`DROP VIEW IF EXISTS "${viewName}"`);
-      this.plugin.api.execute(sql);
+      await this.plugin.api.executeStatement(`DROP VIEW IF EXISTS "${viewName}"`);
+      await this.plugin.api.executeStatement(sql);
 
       await this.renderViewPreview(container, viewName);
     }
@@ -48,6 +48,8 @@ export class WriteCodeBlockProcessor {
         return;
       }
 
+      this.plugin.liveQueryManager.register(container, parsed.query, () => this.processWriteBlockInContainer(container, parsed, ctx.sourcePath), ctx.sourcePath, ctx);
+
       const blockInfo: PendingBlock = { container, source, el, ctx, type: 'vaultquery-write' };
 
       const { ready } = checkIndexingAndWait({
@@ -67,7 +69,7 @@ export class WriteCodeBlockProcessor {
     }
   }
 
-  private async processWriteBlockInContainer(container: HTMLElement, parsed: ParsedQuery, sourcePath?: string): Promise<void> {
+  public async processWriteBlockInContainer(container: HTMLElement, parsed: ParsedQuery, sourcePath?: string): Promise<void> {
     const api = this.plugin.api;
     if (!api) return;
 
@@ -84,7 +86,7 @@ export class WriteCodeBlockProcessor {
     const loading = createLoadingIndicator(writeContainer, 'Generating preview...');
 
     try {
-      currentPreviewResult = await api.previewQuery(parsed.query, [], sourcePath);
+      currentPreviewResult = await api.previewQuery(parsed.query, parsed.params ?? [], sourcePath);
 
       if (this.activeRequests.get(container) !== requestId) {
         return;
@@ -110,9 +112,12 @@ export class WriteCodeBlockProcessor {
           }
         },
         onApply: async () => {
+          // Applying reindexes the affected notes, which would replace the result with a new preview
+          this.plugin.liveQueryManager.unregister(container);
           await this.applyPreview(currentPreviewResult!, previewContainer!, parsed, sourcePath);
         },
         onCancel: () => {
+          this.plugin.liveQueryManager.unregister(container);
           if (previewContainer) {
             previewContainer.remove();
             previewContainer = null;
@@ -175,12 +180,12 @@ export class WriteCodeBlockProcessor {
         if (hasPendingIndexing) {
           loading.setText('Regenerating preview...');
         }
-        freshPreviewResult = await api.previewQuery(parsed.query, [], sourcePath);
+        freshPreviewResult = await api.previewQuery(parsed.query, parsed.params ?? [], sourcePath);
       }
       affectedPaths = await api.applyPreview(freshPreviewResult);
 
       if (previewContainer.id) {
-        SlickGridRenderer.unregisterRefreshCallback(previewContainer.id);
+        SlickGridRenderer.destroyGrids(previewContainer.id);
       }
 
       previewContainer.empty();
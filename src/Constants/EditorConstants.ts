@@ -15,6 +15,14 @@ export const SQL_HIGHLIGHTED_LANGUAGES = [
   'vaultquery-view',
 ] as const;
 
+export const SQL_COMPLETION_LANGUAGES = new Set([
+  'vaultquery',
+  'vaultquery-write',
+  'vaultquery-view',
+  'vaultquery-chart',
+  'vaultquery-markdown',
+]);
+
 export const JS_HIGHLIGHTED_LANGUAGES = [
   'vaultquery-function',
 ] as const;
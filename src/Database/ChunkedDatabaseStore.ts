@@ -0,0 +1,164 @@
+import type { VaultFileAdapter } from './DatabaseService';
+
+// Bump when the on-disk layout changes so older stores are discarded instead of misread
+const STORE_FORMAT_VERSION = 1;
+
+// A multiple of the SQLite page size so a changed page only dirties the chunk it lives in
+const CHUNK_SIZE = 1024 * 1024;
+
+const MANIFEST_FILENAME = 'manifest.json';
+
+interface ChunkManifest {
+  formatVersion: number;
+  byteLength: number;
+  chunkSize: number;
+  chunks: string[];
+  savedAt: number;
+}
+
+/**
+ * FNV-1a over raw bytes. Used to detect which chunks changed between saves and
+ * to verify chunks on load, not for anything security related.
+ */
+function hashBytes(bytes: Uint8Array): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Persists the sql.js database image as fixed-size chunks plus a manifest.
+ *
+ * SQLite updates pages in place, so after a small change most chunks hash the same
+ * as the previous save and only the changed ones are written. A partially written
+ * store is ignored on load so the caller can start from an empty database; schema
+ * changes are handled by the migrations that run once the database is open.
+ */
+export class ChunkedDatabaseStore {
+  private lastManifest: ChunkManifest | null = null;
+
+  public constructor(private adapter: VaultFileAdapter, private directory: string) {}
+
+  public async load(): Promise<Uint8Array | null> {
+    const manifest = await this.readManifest();
+    if (!manifest) return null;
+
+    if (manifest.formatVersion !== STORE_FORMAT_VERSION || manifest.chunkSize !== CHUNK_SIZE) {
+      console.debug('[VaultQuery] Stored database was written in a different format, starting fresh');
+      return null;
+    }
+
+    const data = new Uint8Array(manifest.byteLength);
+    let offset = 0;
+
+    for (let index = 0; index < manifest.chunks.length; index++) {
+      const chunkPath = this.getChunkPath(index);
+      if (!(await this.adapter.exists(chunkPath))) {
+        console.warn(`[VaultQuery] Stored database chunk ${index} is missing, starting fresh`);
+        return null;
+      }
+
+      const chunk = new Uint8Array(await this.adapter.readBinary(chunkPath));
+      if (hashBytes(chunk) !== manifest.chunks[index] || offset + chunk.length > data.length) {
+        console.warn(`[VaultQuery] Stored database chunk ${index} does not match its manifest, starting fresh`);
+        return null;
+      }
+
+      data.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    if (offset !== manifest.byteLength) {
+      return null;
+    }
+
+    this.lastManifest = manifest;
+    return data;
+  }
+
+  /**
+   * Write the chunks that changed since the last save, then the manifest.
+   * @returns Number of chunks written
+   */
+  public async save(data: Uint8Array): Promise<number> {
+    if (!(await this.adapter.exists(this.directory))) {
+      await this.adapter.mkdir(this.directory);
+    }
+
+    // Only trust hashes from a manifest this instance loaded or wrote; anything else may
+    // describe chunk files that were never fully written, so rewrite every chunk
+    const previousChunks = this.lastManifest?.chunks ?? [];
+    const staleChunkCount = (this.lastManifest ?? await this.readManifest())?.chunks.length ?? 0;
+
+    const chunks: string[] = [];
+    let written = 0;
+
+    for (let offset = 0, index = 0; offset < data.length; offset += CHUNK_SIZE, index++) {
+      const chunk = data.subarray(offset, Math.min(offset + CHUNK_SIZE, data.length));
+      const hash = hashBytes(chunk);
+      chunks.push(hash);
+
+      if (previousChunks[index] !== hash) {
+        const buffer = chunk.buffer.slice(chunk.byteOffset, chunk.byteOffset + chunk.byteLength) as ArrayBuffer;
+        await this.adapter.writeBinary(this.getChunkPath(index), buffer);
+        written++;
+      }
+    }
+
+    for (let index = chunks.length; index < staleChunkCount; index++) {
+      await this.removeFile(this.getChunkPath(index));
+    }
+
+    const manifest: ChunkManifest = {
+      formatVersion: STORE_FORMAT_VERSION,
+      byteLength: data.length,
+      chunkSize: CHUNK_SIZE,
+      chunks,
+      savedAt: Date.now()
+    };
+
+    const encoded = new TextEncoder().encode(JSON.stringify(manifest));
+    await this.adapter.writeBinary(this.getManifestPath(), encoded.buffer as ArrayBuffer);
+    this.lastManifest = manifest;
+
+    return written;
+  }
+
+  private async readManifest(): Promise<ChunkManifest | null> {
+    const manifestPath = this.getManifestPath();
+
+    try {
+      if (!(await this.adapter.exists(manifestPath))) return null;
+      const raw = new TextDecoder().decode(await this.adapter.readBinary(manifestPath));
+      return JSON.parse(raw) as ChunkManifest;
+    }
+    catch (error) {
+      console.warn('[VaultQuery] Failed to read stored database manifest:', error);
+      return null;
+    }
+  }
+
+  private async removeFile(path: string): Promise<void> {
+    if (!this.adapter.remove) return;
+
+    try {
+      if (await this.adapter.exists(path)) {
+        await this.adapter.remove(path);
+      }
+    }
+    catch (error) {
+      console.warn('[VaultQuery] Failed to remove stale database chunk:', path, error);
+    }
+  }
+
+  private getManifestPath(): string {
+    return `${this.directory}/${MANIFEST_FILENAME}`;
+  }
+
+  private getChunkPath(index: number): string {
+    return `${this.directory}/chunk-${index.toString().padStart(4, '0')}.bin`;
+  }
+}
@@ -1,15 +1,24 @@
 import { Database } from 'sql.js';
-import { App } from 'obsidian';
+import type { LinkResolver } from './LinkResolver';
 
 export class CustomSQLFunctions {
-
-  static register(db: Database, app: App): void {
+  // Keep in sync with the create_function calls below; used for editor autocompletion
+  static readonly FUNCTION_NAMES: readonly string[] = [
+    'regexp', 'regexp_replace',
+    'parse_date', 'format_date',
+    'link', 'link_heading', 'link_block',
+    'filename', 'path_basename', 'path_name', 'path_extension', 'path_parent',
+    'geo_lat', 'geo_lng', 'geo_distance_km', 'geo_distance_mi',
+    'resolve_link',
+  ];
+
+  static register(db: Database, linkResolver: LinkResolver): void {
     this.registerRegexFunctions(db);
     this.registerDateFunctions(db);
     this.registerLinkFunctions(db);
     this.registerPathFunctions(db);
     this.registerGeoFunctions(db);
-    this.registerResolveFunctions(db, app);
+    this.registerResolveFunctions(db, linkResolver);
   }
 
   private static registerRegexFunctions(db: Database): void {
@@ -381,22 +390,22 @@ export class CustomSQLFunctions {
     return R * c;
   }
 
-  private static registerResolveFunctions(db: Database, app: App): void {
+  private static registerResolveFunctions(db: Database, linkResolver: LinkResolver): void {
     // resolve_link(wikilink) - resolve a wikilink to a full path
     // Accepts: "[[Note Name]]", "Note Name", or "[[Note Name|Display]]"
     // Returns: full path like "folder/Note Name.md" or null if not found
     db.create_function('resolve_link', (wikilink: string) => {
-      return this.resolveLink(app, wikilink, '');
+      return this.resolveLink(linkResolver, wikilink, '');
     });
 
     // resolve_link(wikilink, sourcePath) - resolve relative to a source file
     // Useful when the link might be relative to a specific location
     db.create_function('resolve_link', (wikilink: string, sourcePath: string) => {
-      return this.resolveLink(app, wikilink, sourcePath);
+      return this.resolveLink(linkResolver, wikilink, sourcePath);
     });
   }
 
-  private static resolveLink(app: App, wikilink: string, sourcePath: string): string | null {
+  private static resolveLink(linkResolver: LinkResolver, wikilink: string, sourcePath: string): string | null {
     if (wikilink === null || wikilink === undefined) return null;
 
     // Strip [[ and ]] if present
@@ -421,8 +430,6 @@ export class CustomSQLFunctions {
     linkText = linkText.trim();
     if (!linkText) return null;
 
-    // Use Obsidian's metadata cache to resolve the link
-    const resolved = app.metadataCache.getFirstLinkpathDest(linkText, sourcePath || '');
-    return resolved?.path ?? null;
+    return linkResolver.resolve(linkText, sourcePath || '');
   }
 }
@@ -0,0 +1,1343 @@
+import initSqlJs from 'sql.js';
+import type { Database, Statement } from 'sql.js';
+import { PreviewService } from '../Services/PreviewService';
+import { getTablesOnlySQL, getIndexesForFeatures, getFullTextSearchSQL, getDropViewsAndTriggersSQL, EnabledFeatures } from './DatabaseSchema';
+import { runSchemaMigrations } from './SchemaMigrations';
+import { CustomSQLFunctions } from './CustomSQLFunctions';
+import { DatabaseSchemaManager } from './DatabaseSchemaManager';
+import { LinkResolver } from './LinkResolver';
+import { buildRow } from '../utils/RowUtils';
+import { getErrorMessage, ERROR_MESSAGES, WARNING_MESSAGES, CONSOLE_ERRORS } from '../utils/ErrorMessages';
+import type { IndexNoteData, DatabaseTableCell, NoteRecord, ListItemData, TaskData, EmbedData, CalloutData, CodeBlockData, InlineFieldData, FrontmatterJsonData, FileRecord, QueryParams, CanvasNodeData, CanvasEdgeData } from '../types';
+import type { PreviewResult } from '../Services/PreviewService';
+import { parseTaskIdList } from '../utils/TaskFormatUtils';
+
+export type BindParams = (string | number | null)[] | Record<string, string | number | null>;
+
+export interface DatabaseOpenOptions {
+  /** Null to let sql.js fetch the binary from wasmUrl */
+  wasmBinary: ArrayBuffer | null;
+  wasmUrl: string;
+  /** The stored image to open, or null for a new database */
+  data: Uint8Array | null;
+  /** Run the schema migrations and create the schema. A replica opens an image that already has it. */
+  createSchema: boolean;
+  /** Paths of every file in the vault, for resolve_link */
+  linkTargets: string[];
+  functions: CustomFunctionSource[];
+}
+
+export interface CustomFunctionSource {
+  name: string;
+  source: string;
+}
+
+export interface DatabaseImage {
+  data: Uint8Array;
+  /** Whether the image holds changes that were not written to disk yet */
+  unsaved: boolean;
+  /** Functions registered on the connection, which the image doesn't carry */
+  functions: CustomFunctionSource[];
+}
+
+/**
+ * What the main thread answers its synchronous schema lookups from. The database worker sends
+ * a new one along with the reply to whichever call changed it.
+ */
+export interface DatabaseSchemaSnapshot {
+  viewNames: string[];
+  queryableObjects: Array<{ name: string; type: 'table' | 'view' }>;
+  /** Column names of every table and view */
+  columns: Record<string, string[]>;
+  /** CREATE VIEW statements by lower-cased view name */
+  viewDefinitions: Record<string, string>;
+  propertyKeys: string[];
+  userViews: Array<{ view_name: string; path: string; sql: string }>;
+  userFunctions: Array<{ function_name: string; path: string; source: string }>;
+  fullTextSearchEnabled: boolean;
+  /**
+   * True when a destructive schema migration ran on open, so the next reindex must
+   * rebuild the whole index rather than only the notes that changed.
+   */
+  fullReindexRequired: boolean;
+}
+
+/** Names of the engine methods, each of which the database worker accepts as a message */
+export type DatabaseMethod = {
+  [K in keyof DatabaseEngine]: DatabaseEngine[K] extends (...args: never[]) => unknown ? K : never
+}[keyof DatabaseEngine];
+
+export type DatabaseMethodArgs<M extends DatabaseMethod> = DatabaseEngine[M] extends (...args: infer A) => unknown ? A : never;
+
+export type DatabaseMethodResult<M extends DatabaseMethod> = DatabaseEngine[M] extends (...args: never[]) => infer R ? R : never;
+
+/**
+ * Owns the sql.js database and every statement run against it. All methods are synchronous
+ * and take and return structured-cloneable values, so the database worker can call them one
+ * message at a time; VaultDatabase is the facade the rest of the plugin talks to. Nothing
+ * here may depend on 'obsidian' at runtime.
+ */
+export class DatabaseEngine {
+  private db: Database;
+  private linkResolver: LinkResolver;
+  // Schema cookie of the image last exported or loaded from disk; null until the database matches one
+  private exportedSchemaVersion: number | null = null;
+  private customFunctions = new Map<string, { source: string; fn: (...args: unknown[]) => unknown }>();
+
+  private preparedStatements = new Map<string, Statement>();
+  // Bumped by every export, which frees all statements and resets total_changes()
+  private exportCount = 0;
+  private previewService: PreviewService;
+  private schemaManager: DatabaseSchemaManager;
+
+  private txDepth = 0;
+
+  private indexesCreated = false;
+  private enabledFeatures: EnabledFeatures | null = null;
+  private fullTextSearchEnabled = false;
+  private fullReindexRequired = false;
+
+  private snapshot: DatabaseSchemaSnapshot | null = null;
+  private snapshotJson = '';
+  private snapshotSchemaVersion: number | null = null;
+  private snapshotDataStamp = '';
+
+  private constructor(db: Database, linkResolver: LinkResolver) {
+    this.db = db;
+    this.linkResolver = linkResolver;
+    this.previewService = new PreviewService(db);
+    this.schemaManager = new DatabaseSchemaManager(db);
+  }
+
+  public static async open(options: DatabaseOpenOptions): Promise<DatabaseEngine> {
+    const sqlJs = await initSqlJs({
+      wasmBinary: options.wasmBinary ?? undefined,
+      locateFile: options.wasmBinary ? undefined : (() => options.wasmUrl)
+    });
+
+    const engine = new DatabaseEngine(new sqlJs.Database(options.data ?? undefined), new LinkResolver(options.linkTargets));
+    // Migrations and schema setup below are changes to the stored image like any other
+    if (options.data && engine.db.exec('SELECT 1 FROM sqlite_master LIMIT 1').length > 0) {
+      engine.exportedSchemaVersion = engine.getSchemaVersion();
+    }
+
+    engine.runPragmaStatements();
+    CustomSQLFunctions.register(engine.db, engine.linkResolver);
+    for (const { name, source } of options.functions) {
+      engine.registerCustomFunction(name, source);
+    }
+
+    if (options.createSchema) {
+      engine.createSchema();
+
+      try {
+        engine.db.run('PRAGMA optimize');
+      }
+      catch (error) {
+        console.warn(`[VaultQuery] ${WARNING_MESSAGES.PRAGMA_OPTIMIZE_UNAVAILABLE}:`, error);
+      }
+    }
+
+    return engine;
+  }
+
+  /**
+   * Export the database, or return null when `onlyIfChanged` is set and nothing changed since
+   * the last export or load. An export the caller doesn't write to disk right away is still
+   * flagged as unsaved, since the change counters it resets can't tell anymore.
+   */
+  public exportImage(onlyIfChanged: boolean): DatabaseImage | null {
+    const unsaved = this.hasChangesSinceExport();
+    if (onlyIfChanged && !unsaved) return null;
+
+    return {
+      data: this.exportDatabase(),
+      unsaved,
+      functions: [...this.customFunctions].map(([name, { source }]) => ({ name, source }))
+    };
+  }
+
+  /**
+   * Whether the database changed since it was last exported or loaded. total_changes() counts
+   * rows written since the connection was opened, which export() reopens, but not DDL; the
+   * schema cookie moves with every CREATE, DROP and ALTER, including view rebuilds.
+   */
+  private hasChangesSinceExport(): boolean {
+    if (this.exportedSchemaVersion === null) return true;
+
+    try {
+      return this.getTotalChanges() > 0 || this.getSchemaVersion() !== this.exportedSchemaVersion;
+    }
+    catch {
+      return true;
+    }
+  }
+
+  private getSchemaVersion(): number {
+    const result = this.db.exec('PRAGMA schema_version');
+    return Number(result[0]?.values[0]?.[0] ?? 0);
+  }
+
+  /**
+   * sql.js closes and reopens the connection to export it, which frees prepared
+   * statements, drops registered functions and resets pragmas. Restore all three.
+   */
+  private exportDatabase(): Uint8Array {
+    const array = this.db.export();
+    this.exportCount++;
+    this.exportedSchemaVersion = this.getSchemaVersion();
+
+    this.preparedStatements.clear();
+    this.runPragmaStatements();
+    CustomSQLFunctions.register(this.db, this.linkResolver);
+    for (const [name, { fn }] of this.customFunctions) {
+      this.db.create_function(name, fn);
+    }
+
+    return array;
+  }
+
+  /**
+   * The schema lookups of the main thread, or null when nothing they cover changed since the
+   * last call. Tables, views and columns are only re-read when the schema cookie moved, property
+   * keys and user views and functions when rows were written.
+   */
+  public takeSchemaSnapshot(): DatabaseSchemaSnapshot | null {
+    const schemaVersion = this.getSchemaVersion();
+    const dataStamp = `${this.exportCount}:${this.getTotalChanges()}`;
+    const previous = this.snapshot;
+
+    let schema: Pick<DatabaseSchemaSnapshot, 'viewNames' | 'queryableObjects' | 'columns' | 'viewDefinitions'>;
+    if (previous && schemaVersion === this.snapshotSchemaVersion) {
+      schema = previous;
+    }
+    else {
+      schema = this.readSchemaObjects();
+      this.snapshotSchemaVersion = schemaVersion;
+    }
+
+    let data: Pick<DatabaseSchemaSnapshot, 'propertyKeys' | 'userViews' | 'userFunctions'>;
+    if (previous && dataStamp === this.snapshotDataStamp) {
+      data = previous;
+    }
+    else {
+      data = {
+        propertyKeys: this.schemaManager.getAllPropertyKeys(),
+        userViews: this.getAllUserViews(),
+        userFunctions: this.getAllUserFunctions()
+      };
+      this.snapshotDataStamp = dataStamp;
+    }
+
+    const snapshot: DatabaseSchemaSnapshot = {
+      viewNames: schema.viewNames,
+      queryableObjects: schema.queryableObjects,
+      columns: schema.columns,
+      viewDefinitions: schema.viewDefinitions,
+      propertyKeys: data.propertyKeys,
+      userViews: data.userViews,
+      userFunctions: data.userFunctions,
+      fullTextSearchEnabled: this.fullTextSearchEnabled,
+      fullReindexRequired: this.fullReindexRequired
+    };
+    this.snapshot = snapshot;
+
+    const json = JSON.stringify(snapshot);
+    if (json === this.snapshotJson) return null;
+    this.snapshotJson = json;
+    return snapshot;
+  }
+
+  private readSchemaObjects(): Pick<DatabaseSchemaSnapshot, 'viewNames' | 'queryableObjects' | 'columns' | 'viewDefinitions'> {
+    const viewNames = this.schemaManager.getViewNames();
+    const queryableObjects = this.schemaManager.getQueryableObjects();
+
+    const columns: Record<string, string[]> = {};
+    for (const name of new Set([...viewNames, ...queryableObjects.map(object => object.name)])) {
+      columns[name] = this.schemaManager.getViewColumns(name);
+    }
+
+    const viewDefinitions: Record<string, string> = {};
+    const result = this.db.exec("SELECT name, sql FROM sqlite_master WHERE type = 'view'");
+    for (const [name, sql] of result[0]?.values ?? []) {
+      viewDefinitions[String(name).toLowerCase()] = String(sql);
+    }
+
+    return { viewNames, queryableObjects, columns, viewDefinitions };
+  }
+
+  private runPragmaStatements(): void {
+    try {
+      this.db.run('PRAGMA journal_mode = MEMORY');
+      this.db.run('PRAGMA synchronous = OFF');
+      this.db.run('PRAGMA cache_size = -64000');  // 64MB cache (negative = KB)
+      this.db.run('PRAGMA temp_store = MEMORY');
+      this.db.run('PRAGMA locking_mode = EXCLUSIVE');
+      this.db.run('PRAGMA page_size = 4096');
+      this.db.run('PRAGMA mmap_size = 268435456');  // 256MB memory-mapped I/O
+    }
+    catch (error) {
+      console.warn(`[VaultQuery] ${WARNING_MESSAGES.DATABASE_OPTIMIZATIONS_UNAVAILABLE}:`, error);
+    }
+  }
+
+  private withTx<T>(fn: () => T, opts: { deferFK?: boolean } = {}): T {
+    const nested = this.txDepth > 0;
+    const sp = `sp_${this.txDepth + 1}`;
+
+    this.txDepth++;
+    try {
+      if (!nested) {
+        this.db.run('BEGIN TRANSACTION');
+        if (opts.deferFK) {
+          this.db.exec('PRAGMA defer_foreign_keys = ON');
+        }
+      }
+      else {
+        this.db.exec(`SAVEPOINT ${sp}`);
+      }
+
+      const result = fn();
+
+      if (!nested) {
+        if (opts.deferFK) {
+          this.db.exec('PRAGMA defer_foreign_keys = OFF');
+        }
+        this.db.run('COMMIT');
+      }
+      else {
+        this.db.exec(`RELEASE ${sp}`);
+      }
+
+      return result;
+    }
+    catch (error) {
+      if (!nested) {
+        try {
+          this.db.run('ROLLBACK');
+        }
+        catch (rollbackError) {
+          console.error(`[VaultQuery] ${CONSOLE_ERRORS.DATABASE_ROLLBACK_FAILED}:`, rollbackError);
+        }
+      }
+      else {
+        try {
+          this.db.exec(`ROLLBACK TO ${sp}; RELEASE ${sp}`);
+        }
+        catch (rollbackError) {
+          console.error(`[VaultQuery] ${CONSOLE_ERRORS.DATABASE_SAVEPOINT_ROLLBACK_FAILED}:`, rollbackError);
+        }
+      }
+      throw error;
+    } finally {
+      this.txDepth--;
+    }
+  }
+
+  private getPreparedStatement(sql: string): Statement {
+    if (!this.preparedStatements.has(sql)) {
+      try {
+        const stmt = this.db.prepare(sql);
+        this.preparedStatements.set(sql, stmt);
+      }
+      catch (error: unknown) {
+        throw new Error(getErrorMessage(error) || ERROR_MESSAGES.SQL_PREPARE_FAILED);
+      }
+    }
+
+    const stmt = this.preparedStatements.get(sql);
+    if (!stmt) {
+      throw new Error(ERROR_MESSAGES.SQL_STATEMENT_NOT_FOUND);
+    }
+    return stmt;
+  }
+
+  private cleanupPreparedStatements(): void {
+    for (const [, stmt] of this.preparedStatements) {
+      try {
+        stmt.free();
+      }
+      catch (error) {
+        console.warn(`[VaultQuery] ${WARNING_MESSAGES.STATEMENT_FREE_ERROR}:`, error);
+      }
+    }
+    this.preparedStatements.clear();
+  }
+
+  private execSchemaBundle(sql: string): void {
+    this.db.run('BEGIN');
+    try {
+      this.db.run('PRAGMA foreign_keys = ON;');
+      this.db.exec(sql);
+      this.db.run('COMMIT');
+    }
+    catch (e) {
+      this.db.run('ROLLBACK');
+      throw e;
+    }
+  }
+
+  private createSchema(): void {
+    const migration = runSchemaMigrations(this.db);
+
+    if (migration.applied.length > 0 || migration.requiresReindex) {
+      console.debug(`[VaultQuery] Migrated database schema from version ${migration.fromVersion} to ${migration.toVersion}`);
+      this.execSchemaBundle(getDropViewsAndTriggersSQL());
+    }
+
+    this.execSchemaBundle(getTablesOnlySQL());
+    this.indexesCreated = false;
+
+    if (migration.requiresReindex) {
+      this.fullReindexRequired = true;
+    }
+    else if (migration.applied.length > 0) {
+      // Dropping the static views replaced the dynamic properties views with their empty defaults
+      this.schemaManager.rebuildPropertiesView();
+    }
+  }
+
+  public clearFullReindexRequired(): void {
+    this.fullReindexRequired = false;
+  }
+
+  public createIndexes(features?: EnabledFeatures): void {
+    if (features) {
+      this.enabledFeatures = features;
+    }
+
+    if (this.indexesCreated) return;
+
+    try {
+      const effectiveFeatures = this.enabledFeatures ?? {
+        indexContent: true,
+        indexFrontmatter: true,
+        indexTables: true,
+        indexTasks: true,
+        indexHeadings: true,
+        indexLinks: true,
+        indexEmbeds: true,
+        indexTags: true,
+        indexListItems: true,
+        indexCallouts: true,
+        indexCodeBlocks: true,
+        indexInlineFields: true,
+        indexFiles: true,
+        indexCanvases: true,
+        indexFullText: false
+      };
+      this.execSchemaBundle(getIndexesForFeatures(effectiveFeatures));
+      this.indexesCreated = true;
+    }
+    catch (error) {
+      console.warn('[VaultQuery] Error creating indexes (may already exist):', error);
+      this.indexesCreated = true; 
+    }
+  }
+
+  private isFullTextSearchAvailable(): boolean {
+    try {
+      const result = this.db.exec("SELECT sqlite_compileoption_used('ENABLE_FTS5')");
+      return result[0]?.values[0]?.[0] === 1;
+    }
+    catch (error) {
+      console.warn('[VaultQuery] Could not check for FTS5 support:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Create or drop the notes_fts table and the triggers that keep it in sync with notes.
+   * When the table is (re)created against an existing index it is backfilled from notes.
+   */
+  public configureFullTextSearch(enabled: boolean): void {
+    if (enabled && !this.isFullTextSearchAvailable()) {
+      console.warn(`[VaultQuery] ${WARNING_MESSAGES.FTS5_UNAVAILABLE}`);
+      enabled = false;
+    }
+
+    if (!enabled) {
+      this.fullTextSearchEnabled = false;
+      if (!this.hasTable('notes_fts')) return;
+
+      // Not wrapped in a transaction so the triggers are gone even if notes_fts itself
+      // can't be dropped (e.g. the database was written by an FTS5-enabled WASM build)
+      try {
+        this.db.exec(getFullTextSearchSQL(false));
+      }
+      catch (error) {
+        console.warn('[VaultQuery] Failed to drop notes_fts:', error);
+      }
+      return;
+    }
+
+    this.execSchemaBundle(getFullTextSearchSQL(true));
+    this.fullTextSearchEnabled = true;
+
+    const result = this.db.exec('SELECT (SELECT COUNT(*) FROM notes) - (SELECT COUNT(*) FROM notes_fts)');
+    if (result[0]?.values[0]?.[0] !== 0) {
+      this.execSchemaBundle(`
+DELETE FROM notes_fts;
+INSERT INTO notes_fts(rowid, path, title, content) SELECT rowid, path, title, content FROM notes;
+`);
+    }
+  }
+
+  private hasTable(name: string): boolean {
+    const result = this.db.exec("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?", [name]);
+    return result.length > 0;
+  }
+
+  /**
+   * Index a single note and return the tables it wrote to or cleared, so live query
+   * blocks can skip re-running when nothing they read was touched. Rewriting a note's
+   * rows with identical values still counts as a change.
+   */
+  public indexNote(data: IndexNoteData): string[] {
+    this.createIndexes();
+    const changedTables = new Set<string>();
+    this.withTx(() => {
+      this.performIndexingOperations(data, false, changedTables);
+      if (data.tasks !== undefined && this.resolveTaskDependencies() > 0) {
+        changedTables.add('task_dependencies');
+      }
+    });
+
+    return this.withFullTextTable(changedTables);
+  }
+
+  private withFullTextTable(changedTables: Set<string>): string[] {
+    if (changedTables.has('notes') && this.fullTextSearchEnabled) {
+      changedTables.add('notes_fts');
+    }
+    return [...changedTables];
+  }
+
+  private performIndexingOperations = (data: IndexNoteData, skipDeletes: boolean, changedTables?: Set<string>): void => {
+    const { note, frontmatterData, frontmatterJson, tables, tableCells, tasks, headings, links, embeds, tags, listItems, callouts, codeBlocks, inlineFields, userViews, userFunctions } = data;
+
+    // total_changes() moves when a statement writes rows, which is cheaper than diffing old and
+    // new rows. It doesn't count foreign key cascades, so a table that held rows for the note and
+    // is now empty is reported as well. Without deletes the note had no rows to begin with.
+    const track = (table: string, operation: () => void): void => {
+      if (!changedTables || changedTables.has(table)) {
+        operation();
+        return;
+      }
+
+      const hadRows = !skipDeletes && this.hasRowsForPath(table, note.path);
+      const before = this.getTotalChanges();
+      operation();
+      if (this.getTotalChanges() !== before || (hadRows && !this.hasRowsForPath(table, note.path))) {
+        changedTables.add(table);
+      }
+    };
+
+    track('notes', () => this.insertNote(note));
+
+    if (frontmatterData !== undefined) {
+      track('properties', () => this.replaceProperties(note.path, frontmatterData, skipDeletes));
+    }
+    if (frontmatterJson !== undefined) {
+      track('note_frontmatter', () => this.replaceFrontmatterJson(note.path, frontmatterJson, skipDeletes));
+    }
+    if (tables !== undefined) {
+      track('tables', () => this.replaceTables(note.path, tables, skipDeletes));
+    }
+    if (tableCells !== undefined) {
+      track('table_cells', () => this.replaceTableCells(note.path, tableCells, skipDeletes));
+    }
+    if (tasks !== undefined) {
+      track('tasks', () => this.replaceTasks(note.path, tasks, skipDeletes));
+      track('task_dependencies', () => this.replaceTaskDependencies(note.path, tasks, skipDeletes));
+    }
+    if (headings !== undefined) {
+      track('headings', () => this.replaceHeadings(note.path, headings, skipDeletes));
+    }
+    if (links !== undefined) {
+      track('links', () => this.replaceLinks(note.path, links, skipDeletes));
+    }
+    if (embeds !== undefined) {
+      track('embeds', () => this.replaceEmbeds(note.path, embeds, skipDeletes));
+    }
+    if (tags !== undefined) {
+      track('tags', () => this.replaceTags(note.path, tags, skipDeletes));
+    }
+    if (listItems !== undefined) {
+      track('list_items', () => this.replaceListItems(note.path, listItems, skipDeletes));
+    }
+    if (callouts !== undefined) {
+      track('callouts', () => this.replaceCallouts(note.path, callouts, skipDeletes));
+    }
+    if (codeBlocks !== undefined) {
+      track('code_blocks', () => this.replaceCodeBlocks(note.path, codeBlocks, skipDeletes));
+    }
+    // After tasks and list items so the containing item ids can be resolved
+    if (inlineFields !== undefined) {
+      track('properties', () => this.replaceInlineFields(note.path, inlineFields, skipDeletes));
+    }
+    if (headings !== undefined) {
+      this.linkHeadings(note.path);
+    }
+
+    track('_user_views', () => this.replaceUserViews(note.path, userViews, skipDeletes));
+    track('_user_functions', () => this.replaceUserFunctions(note.path, userFunctions, skipDeletes));
+  };
+
+  private hasRowsForPath(table: string, path: string): boolean {
+    return this.db.exec(`SELECT 1 FROM "${table}" WHERE path = ? LIMIT 1`, [path]).length > 0;
+  }
+
+  private getTotalChanges(): number {
+    const result = this.db.exec('SELECT total_changes()');
+    return Number(result[0]?.values[0]?.[0] ?? 0);
+  }
+
+  /**
+   * Remove a note and everything indexed from it, and return the tables that held rows
+   * for it, which the cascading delete touched.
+   */
+  public removeNote(path: string): string[] {
+    const tables = this.getTablesContainingPath(path);
+    this.runWithPreparedStatement('DELETE FROM notes WHERE path = ?', [path]);
+    return tables;
+  }
+
+  private getTablesContainingPath(path: string): string[] {
+    try {
+      const result = this.db.exec(`
+        SELECT DISTINCT m.name FROM sqlite_master m, pragma_table_info(m.name) c
+        WHERE m.type = 'table' AND c.name = 'path' AND m.name NOT LIKE 'sqlite\\_%' ESCAPE '\\'
+      `);
+      if (result.length === 0) return [];
+
+      return result[0].values
+        .map(row => row[0] as string)
+        .filter(table => this.db.exec(`SELECT 1 FROM "${table.replace(/"/g, '""')}" WHERE path = ? LIMIT 1`, [path]).length > 0);
+    }
+    catch (e) {
+      console.warn('[VaultQuery] DatabaseEngine.getTablesContainingPath: Query failed', path, e);
+      return [];
+    }
+  }
+
+  private insertNote = (note: NoteRecord): void => {
+    // An upsert rather than INSERT OR REPLACE, whose delete would cascade to every row the note owns
+    const insertNoteSQL = `INSERT INTO notes (path, title, content, created, modified, size) VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(path) DO UPDATE SET title = excluded.title, content = excluded.content, created = excluded.created, modified = excluded.modified, size = excluded.size`;
+    this.runWithPreparedStatement(insertNoteSQL, [note.path, note.title, note.content, note.created, note.modified, note.size]);
+  };
+
+  private replaceFrontmatterJson = (path: string, frontmatterJson: FrontmatterJsonData[], skipDeletes: boolean = false): void => {
+    if (!skipDeletes) {
+      this.runWithPreparedStatement('DELETE FROM note_frontmatter WHERE path = ?', [path]);
+    }
+
+    if (frontmatterJson.length > 0) {
+      const rows = frontmatterJson.map(entry => [path, entry.key, entry.value_json]);
+      this.runMultiRowInsert('INSERT INTO note_frontmatter (path, key, value_json) VALUES ', 3, rows);
+    }
+  };
+
+  private replaceProperties = (path: string, propertiesData?: Array<{key: string; value: string; valueType: string; arrayIndex: number | null}>, skipDeletes: boolean = false): void => {
+    if (!skipDeletes) {
+      this.runWithPreparedStatement('DELETE FROM properties WHERE path = ? AND source = \'frontmatter\'', [path]);
+    }
+
+    if (propertiesData?.length) {
+      const insertSQL = 'INSERT INTO properties (path, key, value, value_type, array_index) VALUES (?, ?, ?, ?, ?)';
+      for (const property of propertiesData) {
+        try {
+          this.runWithPreparedStatement(insertSQL, [
+            path,
+            property.key,
+            property.value,
+            property.valueType,
+            property.arrayIndex
+          ]);
+        }
+        catch (error: unknown) {
+          console.warn(`[VaultQuery] ${WARNING_MESSAGES.DUPLICATE_PROPERTY_SKIPPED(path, property.key, property.arrayIndex)}`, getErrorMessage(error));
+        }
+      }
+    }
+  };
+
+  private replaceTableCells = (path: string, tableCells?: DatabaseTableCell[], skipDeletes: boolean = false): void => {
+    if (!skipDeletes) {
+      this.runWithPreparedStatement('DELETE FROM table_cells WHERE path = ?', [path]);
+    }
+
+    if (tableCells?.length) {
+      const rows = tableCells.map(cell => [path, cell.tableIndex, cell.tableName, cell.rowIndex, cell.columnName, cell.cellValue, 'string', cell.lineNumber]);
+      this.runMultiRowInsert('INSERT INTO table_cells (path, table_index, table_name, row_index, column_name, cell_value, value_type, line_number) VALUES ', 8, rows);
+    }
+  };
+
+
+  private replaceLinks = (path: string, links?: Array<{link_text: string; link_target: string; link_target_path: string | null; link_type: string; line_number: number}>, skipDeletes: boolean = false): void => {
+    if (!skipDeletes) {
+      this.runWithPreparedStatement('DELETE FROM links WHERE path = ?', [path]);
+    }
+
+    if (links?.length) {
+      const rows = links.map(link => [path, link.link_text, link.link_target, link.link_target_path, link.link_type, link.line_number]);
+      this.runMultiRowInsert('INSERT INTO links (path, link_text, link_target, link_target_path, link_type, line_number) VALUES ', 6, rows);
+    }
+  };
+
+  private replaceEmbeds = (path: string, embeds?: EmbedData[], skipDeletes: boolean = false): void => {
+    if (!skipDeletes) {
+      this.runWithPreparedStatement('DELETE FROM embeds WHERE path = ?', [path]);
+    }
+
+    if (embeds?.length) {
+      const rows = embeds.map(embed => [path, embed.embed_target, embed.embed_target_path, embed.subpath, embed.alt_text, embed.width, embed.height, embed.embed_type, embed.markup, embed.line_number]);
+      this.runMultiRowInsert('INSERT INTO embeds (path, embed_target, embed_target_path, subpath, alt_text, width, height, embed_type, markup, line_number) VALUES ', 10, rows);
+    }
+  };
+
+  private replaceTags = (path: string, tags?: Array<{tag_name: string; line_number: number}>, skipDeletes: boolean = false): void => {
+    if (!skipDeletes) {
+      this.runWithPreparedStatement('DELETE FROM tags WHERE path = ?', [path]);
+    }
+
+    if (tags?.length) {
+      const rows = tags.map(tag => [path, tag.tag_name, tag.line_number]);
+      this.runMultiRowInsert('INSERT INTO tags (path, tag_name, line_number) VALUES ', 3, rows);
+    }
+  };
+
+  public run(sql: string, params: (string | number | null)[] = []): number {
+    this.db.run(sql, params);
+    return this.db.getRowsModified();
+  }
+
+  public registerCustomFunction(name: string, source: string): void {
+    const fn = new Function(`return (${source})`)();
+
+    if (typeof fn !== 'function') {
+      throw new Error(`Invalid function definition: expected a function, got ${typeof fn}`);
+    }
+
+    this.db.create_function(name, fn);
+    this.customFunctions.set(name, { source, fn });
+  }
+
+  public updateLinkTargets(added: string[], removed: string[]): void {
+    this.linkResolver.update(added, removed);
+  }
+
+  /**
+   * Run a read and return its rows. sql.js can't interrupt a statement, so the timeout is only
+   * checked between rows; VaultDatabase terminates the reader worker to stop one mid-step.
+   */
+  public query(sql: string, params: BindParams = [], timeoutMs: number = 0): Record<string, unknown>[] {
+    const stmt = this.getPreparedStatement(sql);
+    const startTime = performance.now();
+
+    try {
+      const hasParams = Array.isArray(params) ? params.length > 0 : Object.keys(params).length > 0;
+      if (hasParams) {
+        stmt.bind(params);
+      }
+
+      const results: Record<string, unknown>[] = [];
+      const columnNames = stmt.getColumnNames();
+      while (stmt.step()) {
+        results.push(buildRow(columnNames, stmt.get()));
+        if (timeoutMs && performance.now() - startTime > timeoutMs) {
+          throw new Error(ERROR_MESSAGES.QUERY_TIMED_OUT(timeoutMs / 1000));
+        }
+      }
+      return results;
+    }
+    finally {
+      try {
+        stmt.reset();
+      }
+      catch (error) {
+        console.warn(`[VaultQuery] ${WARNING_MESSAGES.STATEMENT_RESET_ERROR}:`, error);
+      }
+    }
+  }
+
+  private runWithPreparedStatement(sql: string, params: (string | number | null)[] = []): void {
+    try {
+      const stmt = this.getPreparedStatement(sql);
+
+      try {
+        if (params.length > 0) {
+          stmt.bind(params);
+        }
+        stmt.step();
+        stmt.reset();
+      }
+      catch (error) {
+        try {
+          stmt.reset();
+        }
+        catch (resetError) {
+          console.warn(`[VaultQuery] ${WARNING_MESSAGES.STATEMENT_RESET_ERROR}:`, resetError);
+        }
+        throw error;
+      }
+    }
+    catch (error: unknown) {
+      throw new Error(ERROR_MESSAGES.SQL_RUN_FAILED(getErrorMessage(error)));
+    }
+  }
+
+  private runMultiRowInsert(baseSQL: string, columnsCount: number, rows: (string | number | null)[][], maxRowsPerBatch: number = 100): void {
+    if (rows.length === 0) return;
+
+    const placeholder = `(${Array(columnsCount).fill('?').join(', ')})`;
+
+    for (let i = 0; i < rows.length; i += maxRowsPerBatch) {
+      const batch = rows.slice(i, i + maxRowsPerBatch);
+      const values = Array(batch.length).fill(placeholder).join(', ');
+      const sql = baseSQL + values;
+      const params = batch.flat();
+
+      this.db.run(sql, params);
+    }
+  }
+
+  /**
+   * Index a batch of notes in one transaction and return the tables the batch wrote to or
+   * cleared, like indexNote.
+   */
+  public indexNotesBatch(notesData: IndexNoteData[], isInitialIndexing: boolean = false): string[] {
+    if (notesData.length === 0) return [];
+
+    const changedTables = new Set<string>();
+
+    if (isInitialIndexing) {
+      this.db.run('PRAGMA foreign_keys = OFF');
+    }
+
+    try {
+      this.withTx(() => this.performBatchIndexing(notesData, isInitialIndexing, changedTables));
+    } finally {
+      if (isInitialIndexing) {
+        this.db.run('PRAGMA foreign_keys = ON');
+      }
+    }
+
+    if (isInitialIndexing) {
+      try {
+        this.db.run('ANALYZE');
+      }
+      catch (error) {
+        console.warn('[VaultQuery] ANALYZE failed after batch indexing:', error);
+      }
+    }
+
+    return this.withFullTextTable(changedTables);
+  }
+
+  private performBatchIndexing = (notesData: IndexNoteData[], skipDeletes: boolean, changedTables: Set<string>): void => {
+    const seen = new Set<string>();
+    const duplicates: string[] = [];
+
+    for (const data of notesData) {
+      if (seen.has(data.note.path)) {
+        duplicates.push(data.note.path);
+      }
+      else {
+        seen.add(data.note.path);
+      }
+    }
+
+    if (duplicates.length > 0) {
+      console.warn(`[VaultQuery] ${WARNING_MESSAGES.DUPLICATE_NOTES_IN_BATCH(duplicates.length, duplicates)}`);
+    }
+
+    notesData.forEach(data => this.performIndexingOperations(data, skipDeletes, changedTables));
+  };
+
+  /**
+   * Bring the files table in line with `files`, which lists every file that should be recorded.
+   * Only new files, files whose mtime changed and files that are gone are written, so a vault
+   * index pass doesn't dirty every stored chunk. Returns whether any row was written.
+   */
+  public syncFileRecords(files: FileRecord[]): boolean {
+    let changed = false;
+    this.withTx(() => {
+      const storedMtimes = new Map<string, unknown>();
+      const result = this.db.exec('SELECT path, mtime FROM files');
+      for (const [path, mtime] of result[0]?.values ?? []) {
+        storedMtimes.set(String(path), mtime);
+      }
+
+      for (const file of files) {
+        if (storedMtimes.get(file.path) !== file.mtime) {
+          this.upsertFileRecord(file);
+          changed = true;
+        }
+        storedMtimes.delete(file.path);
+      }
+
+      for (const path of storedMtimes.keys()) {
+        this.removeFileRecord(path);
+        changed = true;
+      }
+    });
+    return changed;
+  }
+
+  public upsertFileRecord(file: FileRecord): void {
+    this.runWithPreparedStatement(
+      'INSERT OR REPLACE INTO files (path, name, basename, extension, folder, size, ctime, mtime) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      this.toFileRecordParams(file)
+    );
+  }
+
+  public removeFileRecord(path: string): void {
+    this.runWithPreparedStatement('DELETE FROM files WHERE path = ?', [path]);
+  }
+
+  private toFileRecordParams(file: FileRecord): (string | number)[] {
+    return [file.path, file.name, file.basename, file.extension, file.folder, file.size, file.ctime, file.mtime];
+  }
+
+  /**
+   * Modification times of the canvases that have rows, by path. Null for rows stored before
+   * modification times were recorded.
+   */
+  public getIndexedCanvasMtimes(): Map<string, number | null> {
+    const result = this.db.exec(`
+      SELECT p.path, i.mtime
+      FROM (SELECT path FROM _canvas_index UNION SELECT path FROM canvas_nodes UNION SELECT path FROM canvas_edges) p
+      LEFT JOIN _canvas_index i ON i.path = p.path
+    `);
+    return new Map((result[0]?.values ?? []).map(([path, mtime]) => [String(path), typeof mtime === 'number' ? mtime : null]));
+  }
+
+  /**
+   * Apply a vault index pass over the canvases: replace the rows of canvases that changed
+   * and remove those that are gone, leaving every other canvas untouched.
+   */
+  public syncCanvases(changed: Map<string, { mtime: number; nodes: CanvasNodeData[]; edges: CanvasEdgeData[] }>, removed: string[]): void {
+    this.withTx(() => {
+      removed.forEach(path => this.removeCanvas(path));
+      for (const [path, { mtime, nodes, edges }] of changed) {
+        this.removeCanvas(path);
+        this.insertCanvasRows(path, mtime, nodes, edges);
+      }
+    });
+  }
+
+  public replaceCanvas(path: string, mtime: number, nodes: CanvasNodeData[], edges: CanvasEdgeData[]): void {
+    this.withTx(() => {
+      this.removeCanvas(path);
+      this.insertCanvasRows(path, mtime, nodes, edges);
+    });
+  }
+
+  public removeCanvas(path: string): void {
+    this.runWithPreparedStatement('DELETE FROM canvas_nodes WHERE path = ?', [path]);
+    this.runWithPreparedStatement('DELETE FROM canvas_edges WHERE path = ?', [path]);
+    this.runWithPreparedStatement('DELETE FROM _canvas_index WHERE path = ?', [path]);
+  }
+
+  private insertCanvasRows(path: string, mtime: number, nodes: CanvasNodeData[], edges: CanvasEdgeData[]): void {
+    this.runWithPreparedStatement('INSERT INTO _canvas_index (path, mtime) VALUES (?, ?)', [path, mtime]);
+    this.runMultiRowInsert(
+      'INSERT INTO canvas_nodes (path, node_id, type, text, file, subpath, url, label, x, y, width, height, color) VALUES ',
+      13,
+      nodes.map(node => [path, node.node_id, node.type, node.text, node.file, node.subpath, node.url, node.label, node.x, node.y, node.width, node.height, node.color])
+    );
+    this.runMultiRowInsert(
+      'INSERT INTO canvas_edges (path, edge_id, from_node, from_side, from_end, to_node, to_side, to_end, label, color) VALUES ',
+      10,
+      edges.map(edge => [path, edge.edge_id, edge.from_node, edge.from_side, edge.from_end, edge.to_node, edge.to_side, edge.to_end, edge.label, edge.color])
+    );
+  }
+
+  public previewDML(sql: string, params: QueryParams = []): PreviewResult {
+    return this.previewService.previewDmlFromSql(sql, params);
+  }
+
+  public applyDML(previewResult: PreviewResult): void {
+    this.withTx(() => {
+      this.applyDMLWithoutTransaction(previewResult);
+    });
+  }
+
+  private applyDMLWithoutTransaction(previewResult: PreviewResult): void {
+    for (const { sql, params } of previewResult.sqlToApply) {
+      const stmt = this.db.prepare(sql);
+      try {
+        stmt.run(params ?? []);
+      } finally {
+        stmt.free();
+      }
+    }
+  }
+
+
+  public close(): void {
+    this.cleanupPreparedStatements();
+    this.db.close();
+  }
+
+
+  private replaceTables(path: string, tables: Array<{ table_index: number; table_name?: string; block_id?: string; start_offset: number; end_offset: number }>, skipDeletes: boolean = false): void {
+    if (!skipDeletes) {
+      this.runWithPreparedStatement('DELETE FROM tables WHERE path = ?', [path]);
+    }
+
+    if (tables?.length) {
+      const rows = tables.map(table => [path, table.table_index, table.table_name || null, table.block_id || null, table.start_offset, table.end_offset]);
+      this.runMultiRowInsert('INSERT INTO tables (path, table_index, table_name, block_id, start_offset, end_offset) VALUES ', 6, rows);
+    }
+  }
+
+  private replaceTasks(path: string, tasks: TaskData[], skipDeletes: boolean = false): void {
+    if (!skipDeletes) {
+      this.runWithPreparedStatement('DELETE FROM tasks WHERE path = ?', [path]);
+    }
+
+    if (tasks?.length) {
+      const rows = tasks.map(task => [
+        path,
+        task.task_text,
+        task.status || 'TODO',
+        task.status_symbol ?? null,
+        task.status_type ?? null,
+        task.priority || null,
+        task.due_date || null,
+        task.scheduled_date || null,
+        task.start_date || null,
+        task.created_date || null,
+        task.done_date || null,
+        task.cancelled_date ?? null,
+        task.recurrence ?? null,
+        task.on_completion ?? null,
+        task.task_id ?? null,
+        task.depends_on ?? null,
+        task.tags ?? null,
+        task.line_number,
+        task.block_id ?? null,
+        task.start_offset ?? null,
+        task.end_offset ?? null,
+        task.anchor_hash ?? null,
+        task.section_heading ?? null,
+        task.indent_level ?? 0,
+        task.task_index ?? null
+      ]);
+      this.runMultiRowInsert('INSERT INTO tasks (path, task_text, status, status_symbol, status_type, priority, due_date, scheduled_date, start_date, created_date, done_date, cancelled_date, recurrence, on_completion, task_id, depends_on, tags, line_number, block_id, start_offset, end_offset, anchor_hash, section_heading, indent_level, task_index) VALUES ', 25, rows);
+
+      // Parents are referenced by line until the ids exist
+      const nested = tasks.filter(task => task.parent_line_number != null);
+      if (nested.length > 0) {
+        const taskIds = this.getItemIdsByLine('tasks', path);
+        for (const task of nested) {
+          const id = taskIds.get(task.line_number);
+          const parentId = taskIds.get(task.parent_line_number!);
+          if (id !== undefined && parentId !== undefined) {
+            this.runWithPreparedStatement('UPDATE tasks SET parent_task_id = ? WHERE id = ?', [parentId, id]);
+          }
+        }
+      }
+    }
+  }
+
+  private replaceHeadings(path: string, headings: NonNullable<IndexNoteData['headings']>, skipDeletes: boolean = false): void {
+    if (!skipDeletes) {
+      this.runWithPreparedStatement('DELETE FROM headings WHERE path = ?', [path]);
+    }
+
+    if (headings?.length) {
+      const rows = headings.map(heading => [
+        path,
+        heading.level,
+        heading.heading_text,
+        heading.line_number,
+        heading.block_id ?? null,
+        heading.start_offset ?? null,
+        heading.end_offset ?? null,
+        heading.anchor_hash ?? null,
+        heading.heading_path ?? null,
+        heading.section_end_offset ?? null,
+        heading.section_end_line ?? null,
+        heading.body ?? null
+      ]);
+      this.runMultiRowInsert('INSERT INTO headings (path, level, heading_text, line_number, block_id, start_offset, end_offset, anchor_hash, heading_path, section_end_offset, section_end_line, body) VALUES ', 12, rows);
+    }
+  }
+
+  /**
+   * Point headings at their parent heading, and tasks, list items and table rows at the
+   * heading they sit under. Runs after every table of the note has been replaced, since
+   * heading ids only exist once the headings are inserted.
+   */
+  private linkHeadings(path: string): void {
+    const result = this.db.exec('SELECT id, level, line_number FROM headings WHERE path = ? AND line_number IS NOT NULL ORDER BY line_number', [path]);
+    const headings = (result[0]?.values ?? []).map(([id, level, lineNumber]) => ({ id: Number(id), level: Number(level), lineNumber: Number(lineNumber) }));
+    if (headings.length === 0) return;
+
+    const ancestors: typeof headings = [];
+    for (const heading of headings) {
+      while (ancestors.length > 0 && ancestors[ancestors.length - 1].level >= heading.level) {
+        ancestors.pop();
+      }
+      const parentId = ancestors[ancestors.length - 1]?.id ?? null;
+      if (parentId !== null) {
+        this.runWithPreparedStatement('UPDATE headings SET parent_heading_id = ? WHERE id = ?', [parentId, heading.id]);
+      }
+      ancestors.push(heading);
+    }
+
+    const lastFirst = [...headings].reverse();
+    for (const table of ['tasks', 'list_items', 'table_cells'] as const) {
+      const rows = this.db.exec(`SELECT id, line_number FROM ${table} WHERE path = ? AND line_number IS NOT NULL`, [path]);
+      for (const [id, lineNumber] of rows[0]?.values ?? []) {
+        const heading = lastFirst.find(h => h.lineNumber < Number(lineNumber));
+        if (heading) {
+          this.runWithPreparedStatement(`UPDATE ${table} SET heading_id = ? WHERE id = ?`, [heading.id, Number(id)]);
+        }
+      }
+    }
+  }
+
+  private replaceListItems(path: string, listItems: ListItemData[], skipDeletes: boolean = false): void {
+    if (!skipDeletes) {
+      this.runWithPreparedStatement('DELETE FROM list_items WHERE path = ?', [path]);
+    }
+
+    if (listItems?.length) {
+      const rows = listItems.map(item => [
+        path,
+        item.list_index,
+        item.item_index,
+        item.parent_index,
+        item.content,
+        item.list_type,
+        item.indent_level,
+        item.line_number,
+        item.block_id ?? null,
+        item.start_offset,
+        item.end_offset,
+        item.anchor_hash ?? null
+      ]);
+      this.runMultiRowInsert('INSERT INTO list_items (path, list_index, item_index, parent_index, content, list_type, indent_level, line_number, block_id, start_offset, end_offset, anchor_hash) VALUES ', 12, rows);
+    }
+  }
+
+  private replaceCallouts(path: string, callouts: CalloutData[], skipDeletes: boolean = false): void {
+    if (!skipDeletes) {
+      this.runWithPreparedStatement('DELETE FROM callouts WHERE path = ?', [path]);
+    }
+
+    if (callouts?.length) {
+      const rows = callouts.map(callout => [
+        path,
+        callout.type,
+        callout.title,
+        callout.fold_state,
+        callout.body,
+        callout.line_number,
+        callout.end_line_number,
+        callout.block_id ?? null,
+        callout.section_heading ?? null,
+        callout.start_offset,
+        callout.end_offset,
+        callout.anchor_hash ?? null
+      ]);
+      this.runMultiRowInsert('INSERT INTO callouts (path, type, title, fold_state, body, line_number, end_line_number, block_id, section_heading, start_offset, end_offset, anchor_hash) VALUES ', 12, rows);
+    }
+  }
+
+  private replaceCodeBlocks(path: string, codeBlocks: CodeBlockData[], skipDeletes: boolean = false): void {
+    if (!skipDeletes) {
+      this.runWithPreparedStatement('DELETE FROM code_blocks WHERE path = ?', [path]);
+    }
+
+    if (codeBlocks?.length) {
+      const rows = codeBlocks.map(block => [path, block.language, block.info_string, block.content, block.line_number, block.end_line_number, block.section_heading ?? null]);
+      this.runMultiRowInsert('INSERT INTO code_blocks (path, language, info_string, content, line_number, end_line_number, section_heading) VALUES ', 7, rows);
+    }
+  }
+
+  private replaceInlineFields(path: string, inlineFields: InlineFieldData[], skipDeletes: boolean = false): void {
+    if (!skipDeletes) {
+      this.runWithPreparedStatement('DELETE FROM properties WHERE path = ? AND source = \'inline\'', [path]);
+    }
+
+    if (inlineFields?.length) {
+      const taskIds = this.getItemIdsByLine('tasks', path);
+      const listItemIds = this.getItemIdsByLine('list_items', path);
+
+      const rows = inlineFields.map(field => {
+        const itemIds = field.item_type === 'task' ? taskIds : listItemIds;
+        const itemId = field.item_line_number !== null ? itemIds.get(field.item_line_number) ?? null : null;
+        return [path, field.key, field.value, field.value_type, null, 'inline', field.line_number, field.item_type, itemId];
+      });
+      this.runMultiRowInsert('INSERT INTO properties (path, key, value, value_type, array_index, source, line_number, item_type, item_id) VALUES ', 9, rows);
+    }
+  }
+
+  private replaceTaskDependencies(path: string, tasks: TaskData[], skipDeletes: boolean = false): void {
+    if (!skipDeletes) {
+      this.runWithPreparedStatement('DELETE FROM task_dependencies WHERE path = ?', [path]);
+    }
+
+    const dependent = tasks.filter(task => task.depends_on);
+    if (dependent.length === 0) return;
+
+    // Targets can live in any note, so they are linked afterwards by resolveTaskDependencies
+    const taskIds = this.getItemIdsByLine('tasks', path);
+    const rows = dependent.flatMap(task => {
+      const id = taskIds.get(task.line_number);
+      return id === undefined ? [] : parseTaskIdList(task.depends_on).map(dependsOn => [path, id, dependsOn]);
+    });
+    this.runMultiRowInsert('INSERT INTO task_dependencies (path, task_row_id, depends_on_task_id) VALUES ', 3, rows);
+  }
+
+  /**
+   * Point task_dependencies rows at the task carrying their depends_on_task_id. Reindexing
+   * a note re-creates its tasks with new ids, so this runs after every single-note index and
+   * once after a reindex, where foreign keys were off and old targets may be left dangling.
+   * Returns the number of rows changed.
+   */
+  public resolveTaskDependencies(): number {
+    const before = this.getTotalChanges();
+    this.db.run(`
+      UPDATE task_dependencies SET target_task_row_id = NULL
+      WHERE target_task_row_id IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM tasks t WHERE t.id = task_dependencies.target_task_row_id)
+    `);
+    this.db.run(`
+      UPDATE task_dependencies
+      SET target_task_row_id = (SELECT MIN(t.id) FROM tasks t WHERE t.task_id = task_dependencies.depends_on_task_id)
+      WHERE target_task_row_id IS NULL
+        AND EXISTS (SELECT 1 FROM tasks t WHERE t.task_id = task_dependencies.depends_on_task_id)
+    `);
+    return this.getTotalChanges() - before;
+  }
+
+  private getItemIdsByLine(table: 'tasks' | 'list_items', path: string): Map<number, number> {
+    const ids = new Map<number, number>();
+    const result = this.db.exec(`SELECT line_number, id FROM ${table} WHERE path = ?`, [path]);
+    for (const [lineNumber, id] of result[0]?.values ?? []) {
+      ids.set(Number(lineNumber), Number(id));
+    }
+    return ids;
+  }
+
+  private replaceUserViews(path: string, userViews?: Array<{view_name: string; sql: string}>, skipDeletes: boolean = false): void {
+    if (!skipDeletes) {
+      const existingViews = this.getViewsForPath(path);
+
+      this.runWithPreparedStatement('DELETE FROM _user_views WHERE path = ?', [path]);
+
+      for (const viewName of existingViews) {
+        try {
+          this.db.run(`DROP VIEW IF EXISTS "${viewName}"`);
+        }
+        catch (error) {
+          console.warn(`[VaultQuery] Failed to drop view "${viewName}":`, error);
+        }
+      }
+    }
+
+    if (userViews?.length) {
+      const insertSQL = 'INSERT OR REPLACE INTO _user_views (view_name, path, sql) VALUES (?, ?, ?)';
+      for (const view of userViews) {
+        this.runWithPreparedStatement(insertSQL, [view.view_name, path, view.sql]);
+      }
+
+      for (const { view_name, sql } of userViews) {
+        try {
+          this.db.run(`DROP VIEW IF EXISTS "${view_name}"`);
+          this.db.run(sql);
+        }
+        catch (error) {
+          console.error(`[VaultQuery] Failed to create view "${view_name}":`, error);
+        }
+      }
+    }
+  }
+
+  private getViewsForPath(path: string): string[] {
+    try {
+      const results = this.db.exec('SELECT view_name FROM _user_views WHERE path = ?', [path]);
+      if (results.length === 0 || !results[0].values) return [];
+      return results[0].values.map(row => row[0] as string);
+    }
+    catch (e) {
+      console.warn('[VaultQuery] DatabaseEngine.getViewsForPath: Query failed', path, e);
+      return [];
+    }
+  }
+
+  private replaceUserFunctions(path: string, userFunctions?: Array<{function_name: string; source: string}>, skipDeletes: boolean = false): void {
+    if (!skipDeletes) {
+      this.runWithPreparedStatement('DELETE FROM _user_functions WHERE path = ?', [path]);
+    }
+
+    if (userFunctions?.length) {
+      const insertSQL = 'INSERT OR REPLACE INTO _user_functions (function_name, path, source) VALUES (?, ?, ?)';
+      for (const func of userFunctions) {
+        this.runWithPreparedStatement(insertSQL, [func.function_name, path, func.source]);
+      }
+
+      for (const { function_name, source } of userFunctions) {
+        try {
+          this.registerCustomFunction(function_name, source);
+        }
+        catch (error) {
+          console.error(`[VaultQuery] Failed to register function "${function_name}":`, error);
+        }
+      }
+    }
+  }
+
+  private getAllUserViews(): Array<{view_name: string; path: string; sql: string}> {
+    try {
+      const results = this.db.exec('SELECT view_name, path, sql FROM _user_views');
+      if (results.length === 0 || !results[0].values) return [];
+      return results[0].values.map(row => ({
+        view_name: row[0] as string,
+        path: row[1] as string,
+        sql: row[2] as string
+      }));
+    }
+    catch (e) {
+      console.warn('[VaultQuery] DatabaseEngine.getAllUserViews: Query failed', e);
+      return [];
+    }
+  }
+
+  private getAllUserFunctions(): Array<{function_name: string; path: string; source: string}> {
+    try {
+      const results = this.db.exec('SELECT function_name, path, source FROM _user_functions');
+      if (results.length === 0 || !results[0].values) return [];
+      return results[0].values.map(row => ({
+        function_name: row[0] as string,
+        path: row[1] as string,
+        source: row[2] as string
+      }));
+    }
+    catch (e) {
+      console.warn('[VaultQuery] DatabaseEngine.getAllUserFunctions: Query failed', e);
+      return [];
+    }
+  }
+
+  public rebuildPropertiesView(): void {
+    this.schemaManager.rebuildPropertiesView();
+  }
+
+  public rebuildTableViews(enableDynamicTableViews: boolean): void {
+    this.schemaManager.rebuildTableViews(enableDynamicTableViews);
+  }
+}
+
+/** Runs a call that arrived as a message; every public method of the engine can be called this way */
+export function callDatabaseEngine(engine: DatabaseEngine, method: DatabaseMethod, args: unknown[]): unknown {
+  const fn = engine[method] as (...args: unknown[]) => unknown;
+  return fn.apply(engine, args);
+}
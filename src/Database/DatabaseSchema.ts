@@ -13,11 +13,26 @@ CREATE TABLE IF NOT EXISTS properties (
   key TEXT NOT NULL,
   value TEXT NOT NULL,
   value_type TEXT NOT NULL,
+  value_num REAL,
+  value_date TEXT,
   array_index INTEGER,
+  source TEXT NOT NULL DEFAULT 'frontmatter',
+  line_number INTEGER,
+  item_type TEXT,
+  item_id INTEGER,
   PRIMARY KEY (path, key, array_index),
   FOREIGN KEY (path) REFERENCES notes(path) ON DELETE CASCADE
 );
 
+-- Each top-level frontmatter property as JSON, keeping the nesting properties flattens away
+CREATE TABLE IF NOT EXISTS note_frontmatter (
+  path TEXT NOT NULL,
+  key TEXT NOT NULL,
+  value_json TEXT NOT NULL,
+  PRIMARY KEY (path, key),
+  FOREIGN KEY (path) REFERENCES notes(path) ON DELETE CASCADE
+);
+
 CREATE TABLE IF NOT EXISTS table_cells (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   path TEXT NOT NULL,
@@ -28,6 +43,7 @@ CREATE TABLE IF NOT EXISTS table_cells (
   cell_value TEXT NOT NULL,
   value_type TEXT NOT NULL DEFAULT 'text',
   line_number INTEGER,
+  heading_id INTEGER REFERENCES headings(id) ON DELETE SET NULL,
   FOREIGN KEY (path) REFERENCES notes(path) ON DELETE CASCADE
 );
 
@@ -36,6 +52,8 @@ CREATE TABLE IF NOT EXISTS tasks (
   path TEXT NOT NULL,
   task_text TEXT NOT NULL,
   status TEXT NOT NULL DEFAULT 'TODO',
+  status_symbol TEXT,
+  status_type TEXT,
   priority TEXT,
   due_date TEXT,
   scheduled_date TEXT,
@@ -54,6 +72,19 @@ CREATE TABLE IF NOT EXISTS tasks (
   end_offset INTEGER,
   anchor_hash TEXT,
   section_heading TEXT,
+  heading_id INTEGER REFERENCES headings(id) ON DELETE SET NULL,
+  parent_task_id INTEGER REFERENCES tasks(id) ON DELETE CASCADE,
+  indent_level INTEGER NOT NULL DEFAULT 0,
+  task_index INTEGER,
+  FOREIGN KEY (path) REFERENCES notes(path) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS task_dependencies (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  path TEXT NOT NULL,
+  task_row_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  depends_on_task_id TEXT NOT NULL,
+  target_task_row_id INTEGER REFERENCES tasks(id) ON DELETE SET NULL,
   FOREIGN KEY (path) REFERENCES notes(path) ON DELETE CASCADE
 );
 
@@ -67,6 +98,11 @@ CREATE TABLE IF NOT EXISTS headings (
   start_offset INTEGER,
   end_offset INTEGER,
   anchor_hash TEXT,
+  parent_heading_id INTEGER REFERENCES headings(id) ON DELETE SET NULL,
+  heading_path TEXT,
+  section_end_offset INTEGER,
+  section_end_line INTEGER,
+  body TEXT,
   FOREIGN KEY (path) REFERENCES notes(path) ON DELETE CASCADE
 );
 
@@ -82,6 +118,21 @@ CREATE TABLE IF NOT EXISTS links (
   FOREIGN KEY (path) REFERENCES notes(path) ON DELETE CASCADE
 );
 
+CREATE TABLE IF NOT EXISTS embeds (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  path TEXT NOT NULL,
+  embed_target TEXT NOT NULL,
+  embed_target_path TEXT,
+  subpath TEXT,
+  alt_text TEXT,
+  width INTEGER,
+  height INTEGER,
+  embed_type TEXT NOT NULL DEFAULT 'wikilink',
+  markup TEXT NOT NULL,
+  line_number INTEGER,
+  FOREIGN KEY (path) REFERENCES notes(path) ON DELETE CASCADE
+);
+
 CREATE TABLE IF NOT EXISTS tags (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   path TEXT NOT NULL,
@@ -105,6 +156,7 @@ CREATE TABLE IF NOT EXISTS list_items (
   start_offset INTEGER,
   end_offset INTEGER,
   anchor_hash TEXT,
+  heading_id INTEGER REFERENCES headings(id) ON DELETE SET NULL,
   FOREIGN KEY (path) REFERENCES notes(path) ON DELETE CASCADE
 );
 
@@ -120,6 +172,83 @@ CREATE TABLE IF NOT EXISTS tables (
   FOREIGN KEY (path) REFERENCES notes(path) ON DELETE CASCADE
 );
 
+CREATE TABLE IF NOT EXISTS callouts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  path TEXT NOT NULL,
+  type TEXT,
+  title TEXT,
+  fold_state TEXT,
+  body TEXT NOT NULL DEFAULT '',
+  line_number INTEGER,
+  end_line_number INTEGER,
+  block_id TEXT,
+  section_heading TEXT,
+  start_offset INTEGER,
+  end_offset INTEGER,
+  anchor_hash TEXT,
+  FOREIGN KEY (path) REFERENCES notes(path) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS code_blocks (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  path TEXT NOT NULL,
+  language TEXT,
+  info_string TEXT,
+  content TEXT NOT NULL DEFAULT '',
+  line_number INTEGER,
+  end_line_number INTEGER,
+  section_heading TEXT,
+  FOREIGN KEY (path) REFERENCES notes(path) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS files (
+  path TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  basename TEXT NOT NULL,
+  extension TEXT NOT NULL,
+  folder TEXT NOT NULL,
+  size INTEGER NOT NULL DEFAULT 0,
+  ctime INTEGER,
+  mtime INTEGER
+);
+
+CREATE TABLE IF NOT EXISTS canvas_nodes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  path TEXT NOT NULL,
+  node_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  text TEXT,
+  file TEXT,
+  subpath TEXT,
+  url TEXT,
+  label TEXT,
+  x INTEGER,
+  y INTEGER,
+  width INTEGER,
+  height INTEGER,
+  color TEXT
+);
+
+CREATE TABLE IF NOT EXISTS canvas_edges (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  path TEXT NOT NULL,
+  edge_id TEXT NOT NULL,
+  from_node TEXT NOT NULL,
+  from_side TEXT,
+  from_end TEXT,
+  to_node TEXT NOT NULL,
+  to_side TEXT,
+  to_end TEXT,
+  label TEXT,
+  color TEXT
+);
+
+-- Modification time of each indexed canvas, so vault index passes only re-read changed ones
+CREATE TABLE IF NOT EXISTS _canvas_index (
+  path TEXT PRIMARY KEY,
+  mtime INTEGER NOT NULL
+);
+
 CREATE TABLE IF NOT EXISTS _constraint_checks (
   table_name TEXT PRIMARY KEY,
   constraints_validated INTEGER DEFAULT 0
@@ -142,17 +271,27 @@ CREATE TABLE IF NOT EXISTS _user_functions (
 
 const CORE_INDEXES = `
 CREATE INDEX IF NOT EXISTS idx_properties_key ON properties(key);
+CREATE INDEX IF NOT EXISTS idx_properties_path_source ON properties(path, source);
+CREATE INDEX IF NOT EXISTS idx_properties_key_num ON properties(key, value_num);
+CREATE INDEX IF NOT EXISTS idx_properties_key_date ON properties(key, value_date);
 `;
 
 const TASK_INDEXES = `
 CREATE INDEX IF NOT EXISTS idx_tasks_path ON tasks(path);
 CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
 CREATE INDEX IF NOT EXISTS idx_tasks_due_date ON tasks(due_date);
+CREATE INDEX IF NOT EXISTS idx_tasks_heading_id ON tasks(heading_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_parent ON tasks(parent_task_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_task_id ON tasks(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_path ON task_dependencies(path);
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_task ON task_dependencies(task_row_id);
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_target ON task_dependencies(target_task_row_id);
 CREATE UNIQUE INDEX IF NOT EXISTS ux_tasks_natural ON tasks(path, COALESCE(block_id, anchor_hash)) WHERE COALESCE(block_id, anchor_hash) IS NOT NULL;
 `;
 
 const HEADING_INDEXES = `
 CREATE INDEX IF NOT EXISTS idx_headings_path ON headings(path);
+CREATE INDEX IF NOT EXISTS idx_headings_parent ON headings(parent_heading_id);
 CREATE UNIQUE INDEX IF NOT EXISTS ux_headings_natural ON headings(path, COALESCE(block_id, anchor_hash)) WHERE COALESCE(block_id, anchor_hash) IS NOT NULL;
 `;
 
@@ -161,6 +300,11 @@ CREATE INDEX IF NOT EXISTS idx_links_path ON links(path);
 CREATE INDEX IF NOT EXISTS idx_links_target ON links(link_target);
 `;
 
+const EMBED_INDEXES = `
+CREATE INDEX IF NOT EXISTS idx_embeds_path ON embeds(path);
+CREATE INDEX IF NOT EXISTS idx_embeds_target_path ON embeds(embed_target_path);
+`;
+
 const TAG_INDEXES = `
 CREATE INDEX IF NOT EXISTS idx_tags_path ON tags(path);
 CREATE INDEX IF NOT EXISTS idx_tags_name ON tags(tag_name);
@@ -168,12 +312,37 @@ CREATE INDEX IF NOT EXISTS idx_tags_name ON tags(tag_name);
 
 const LIST_ITEM_INDEXES = `
 CREATE INDEX IF NOT EXISTS idx_list_items_path ON list_items(path);
+CREATE INDEX IF NOT EXISTS idx_list_items_heading_id ON list_items(heading_id);
 CREATE UNIQUE INDEX IF NOT EXISTS ux_list_items_natural ON list_items(path, COALESCE(block_id, anchor_hash)) WHERE COALESCE(block_id, anchor_hash) IS NOT NULL;
 `;
 
+const CALLOUT_INDEXES = `
+CREATE INDEX IF NOT EXISTS idx_callouts_path ON callouts(path);
+CREATE INDEX IF NOT EXISTS idx_callouts_type ON callouts(type);
+CREATE UNIQUE INDEX IF NOT EXISTS ux_callouts_natural ON callouts(path, COALESCE(block_id, anchor_hash)) WHERE COALESCE(block_id, anchor_hash) IS NOT NULL;
+`;
+
+const CODE_BLOCK_INDEXES = `
+CREATE INDEX IF NOT EXISTS idx_code_blocks_path ON code_blocks(path);
+CREATE INDEX IF NOT EXISTS idx_code_blocks_language ON code_blocks(language);
+`;
+
+const FILE_INDEXES = `
+CREATE INDEX IF NOT EXISTS idx_files_extension ON files(extension);
+CREATE INDEX IF NOT EXISTS idx_files_folder ON files(folder);
+CREATE INDEX IF NOT EXISTS idx_links_target_path ON links(link_target_path);
+`;
+
+const CANVAS_INDEXES = `
+CREATE INDEX IF NOT EXISTS idx_canvas_nodes_path ON canvas_nodes(path);
+CREATE INDEX IF NOT EXISTS idx_canvas_nodes_file ON canvas_nodes(file);
+CREATE INDEX IF NOT EXISTS idx_canvas_edges_path ON canvas_edges(path);
+`;
+
 const TABLE_CELL_INDEXES = `
 CREATE INDEX IF NOT EXISTS idx_table_cells_path ON table_cells(path);
 CREATE INDEX IF NOT EXISTS idx_table_cells_composite ON table_cells(path, table_index, row_index, column_name);
+CREATE INDEX IF NOT EXISTS idx_table_cells_heading_id ON table_cells(heading_id);
 `;
 
 export interface EnabledFeatures {
@@ -183,8 +352,15 @@ export interface EnabledFeatures {
   indexTasks: boolean;
   indexHeadings: boolean;
   indexLinks: boolean;
+  indexEmbeds: boolean;
   indexTags: boolean;
   indexListItems: boolean;
+  indexCallouts: boolean;
+  indexCodeBlocks: boolean;
+  indexInlineFields: boolean;
+  indexFiles: boolean;
+  indexCanvases: boolean;
+  indexFullText: boolean;
 }
 
 export function getIndexesForFeatures(features: EnabledFeatures): string {
@@ -193,13 +369,31 @@ export function getIndexesForFeatures(features: EnabledFeatures): string {
   if (features.indexTasks) sql += TASK_INDEXES;
   if (features.indexHeadings) sql += HEADING_INDEXES;
   if (features.indexLinks) sql += LINK_INDEXES;
+  if (features.indexEmbeds) sql += EMBED_INDEXES;
   if (features.indexTags) sql += TAG_INDEXES;
   if (features.indexListItems) sql += LIST_ITEM_INDEXES;
+  if (features.indexCallouts) sql += CALLOUT_INDEXES;
+  if (features.indexCodeBlocks) sql += CODE_BLOCK_INDEXES;
+  if (features.indexFiles) sql += FILE_INDEXES;
+  if (features.indexCanvases) sql += CANVAS_INDEXES;
   if (features.indexTables) sql += TABLE_CELL_INDEXES;
 
   return sql;
 }
 
+/** SET clause deriving properties.value_num and value_date from the row's value and value_type */
+const TYPED_PROPERTY_VALUES = `
+    value_num = CASE
+      WHEN value_type = 'number' AND trim(value) GLOB '*[0-9]*' AND trim(value) NOT GLOB '*[^0-9.eE+-]*' THEN CAST(trim(value) AS REAL)
+      WHEN value_type = 'checkbox' THEN CASE lower(trim(value)) WHEN 'true' THEN 1 WHEN 'false' THEN 0 END
+    END,
+    value_date = CASE
+      -- date() rolls 2024-02-30 over into March instead of rejecting it
+      WHEN date(trim(value)) IS NOT substr(trim(value), 1, 10) THEN NULL
+      WHEN value_type = 'date' THEN date(trim(value))
+      WHEN value_type = 'datetime' THEN strftime('%Y-%m-%dT%H:%M:%S', trim(value))
+    END`;
+
 const VIEWS_AND_TRIGGERS = `
 PRAGMA foreign_keys = ON;
 
@@ -292,7 +486,7 @@ BEGIN
 END;
 
 CREATE VIEW IF NOT EXISTS headings_view AS
-SELECT path, level, line_number, heading_text, block_id, start_offset, end_offset, anchor_hash
+SELECT path, level, line_number, heading_text, block_id, start_offset, end_offset, anchor_hash, heading_path, parent_heading_id
 FROM headings;
 
 CREATE TRIGGER IF NOT EXISTS trg_headings_view_update
@@ -349,20 +543,24 @@ SELECT
   n.title,
   p.key,
   p.value,
-  p.value_type
+  p.value_type,
+  p.value_num,
+  p.value_date
 FROM notes n
 LEFT JOIN properties p ON n.path = p.path AND p.array_index IS NULL;
 
--- tasks_view with computed columns for easier querying
+-- tasks_view with computed columns for easier querying. Custom statuses are ordered
+-- and completed by their status_type; rows inserted without one fall back to status.
 CREATE VIEW IF NOT EXISTS tasks_view AS
 SELECT
   t.*,
-  CASE t.status
+  CASE COALESCE(t.status_type, t.status)
     WHEN 'IN_PROGRESS' THEN 1
     WHEN 'TODO' THEN 2
-    WHEN 'DONE' THEN 3
-    WHEN 'CANCELLED' THEN 4
-    ELSE 5
+    WHEN 'ON_HOLD' THEN 3
+    WHEN 'DONE' THEN 4
+    WHEN 'CANCELLED' THEN 5
+    ELSE 6
   END AS status_order,
   CASE t.priority
     WHEN 'highest' THEN 1
@@ -372,8 +570,8 @@ SELECT
     WHEN 'lowest' THEN 5
     ELSE 6
   END AS priority_order,
-  CASE WHEN t.status IN ('DONE', 'CANCELLED') THEN 1 ELSE 0 END AS is_complete,
-  CASE WHEN t.status NOT IN ('DONE', 'CANCELLED') AND t.due_date IS NOT NULL AND t.due_date < date('now') THEN 1 ELSE 0 END AS is_overdue,
+  CASE WHEN COALESCE(t.status_type, t.status) IN ('DONE', 'CANCELLED') THEN 1 ELSE 0 END AS is_complete,
+  CASE WHEN COALESCE(t.status_type, t.status) NOT IN ('DONE', 'CANCELLED') AND t.due_date IS NOT NULL AND t.due_date < date('now') THEN 1 ELSE 0 END AS is_overdue,
   CASE WHEN t.due_date IS NOT NULL THEN CAST(julianday(t.due_date) - julianday('now') AS INTEGER) ELSE NULL END AS days_until_due
 FROM tasks t;
 
@@ -381,7 +579,7 @@ CREATE TRIGGER IF NOT EXISTS trg_tasks_view_insert
 INSTEAD OF INSERT ON tasks_view
 BEGIN
   INSERT INTO tasks (
-    path, task_text, status, priority, due_date, scheduled_date, start_date,
+    path, task_text, status, status_symbol, status_type, priority, due_date, scheduled_date, start_date,
     created_date, done_date, cancelled_date, recurrence, on_completion,
     task_id, depends_on, tags, line_number, block_id, section_heading
   )
@@ -389,6 +587,8 @@ BEGIN
     NEW.path,
     NEW.task_text,
     COALESCE(NEW.status, 'TODO'),
+    NEW.status_symbol,
+    NEW.status_type,
     NEW.priority,
     NEW.due_date,
     NEW.scheduled_date,
@@ -413,6 +613,8 @@ BEGIN
   UPDATE tasks SET
     task_text = COALESCE(NEW.task_text, task_text),
     status = COALESCE(NEW.status, status),
+    status_symbol = NEW.status_symbol,
+    status_type = NEW.status_type,
     priority = NEW.priority,
     due_date = NEW.due_date,
     scheduled_date = NEW.scheduled_date,
@@ -537,11 +739,28 @@ WHEN NEW.value_type IS NULL OR NEW.value_type = ''
 BEGIN
   UPDATE properties
   SET value_type = CASE
-    WHEN NEW.value IN ('true', 'false') THEN 'boolean'
+    WHEN lower(NEW.value) IN ('true', 'false') THEN 'checkbox'
     WHEN NEW.value GLOB '[0-9]*' AND NEW.value NOT GLOB '*[^0-9.]*' THEN 'number'
-    ELSE 'string'
+    WHEN NEW.value GLOB '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9]' AND date(NEW.value) = NEW.value THEN 'date'
+    WHEN NEW.value GLOB '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9][T ][0-9][0-9]:[0-9][0-9]*' AND datetime(NEW.value) IS NOT NULL THEN 'datetime'
+    ELSE 'text'
   END
-  WHERE path = NEW.path AND key = NEW.key AND COALESCE(array_index, -1) = COALESCE(NEW.array_index, -1);
+  WHERE rowid = NEW.rowid;
+END;
+
+-- Fill properties.value_num and value_date from value for typed rows, so numbers and dates
+-- compare and sort without CAST. value_date is ISO: YYYY-MM-DD, or YYYY-MM-DDTHH:MM:SS for datetime
+CREATE TRIGGER IF NOT EXISTS trg_properties_typed_values_insert
+AFTER INSERT ON properties
+WHEN NEW.value_type IN ('number', 'checkbox', 'date', 'datetime')
+BEGIN
+  UPDATE properties SET ${TYPED_PROPERTY_VALUES} WHERE rowid = NEW.rowid;
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_properties_typed_values_update
+AFTER UPDATE OF value, value_type ON properties
+BEGIN
+  UPDATE properties SET ${TYPED_PROPERTY_VALUES} WHERE rowid = NEW.rowid;
 END;
 
 -- Auto-derive links.link_type and link_text on INSERT
@@ -567,6 +786,151 @@ BEGIN
   WHERE id = NEW.id;
 END;
 
+-- Non-markdown files that no indexed link or embed resolves to
+CREATE VIEW IF NOT EXISTS orphaned_attachments AS
+SELECT f.*
+FROM files f
+WHERE f.extension != 'md'
+  AND NOT EXISTS (SELECT 1 FROM links l WHERE l.link_target_path = f.path)
+  AND NOT EXISTS (SELECT 1 FROM embeds e WHERE e.embed_target_path = f.path)
+  AND NOT EXISTS (SELECT 1 FROM canvas_nodes c WHERE c.file = f.path);
+
+-- Every task with its position in the nesting tree and completion counts over all of
+-- its descendants. A task counts as complete when its status type is DONE or CANCELLED.
+CREATE VIEW IF NOT EXISTS task_tree AS
+WITH RECURSIVE
+  tree(id, root_task_id, depth, tree_path) AS (
+    SELECT id, id, 0, printf('%06d', COALESCE(task_index, 0))
+    FROM tasks WHERE parent_task_id IS NULL
+    UNION ALL
+    SELECT t.id, tree.root_task_id, tree.depth + 1, tree.tree_path || '/' || printf('%06d', COALESCE(t.task_index, 0))
+    FROM tasks t JOIN tree ON t.parent_task_id = tree.id
+  ),
+  descendants(ancestor_id, id) AS (
+    SELECT parent_task_id, id FROM tasks WHERE parent_task_id IS NOT NULL
+    UNION ALL
+    SELECT d.ancestor_id, t.id FROM tasks t JOIN descendants d ON t.parent_task_id = d.id
+  ),
+  progress(id, descendant_count, complete_count) AS (
+    SELECT d.ancestor_id, COUNT(*), SUM(COALESCE(t.status_type, t.status) IN ('DONE', 'CANCELLED'))
+    FROM descendants d JOIN tasks t ON t.id = d.id
+    GROUP BY d.ancestor_id
+  )
+SELECT
+  t.id,
+  t.path,
+  t.task_text,
+  t.status,
+  t.status_symbol,
+  t.line_number,
+  t.task_index,
+  t.indent_level,
+  t.parent_task_id,
+  tree.root_task_id,
+  tree.depth,
+  tree.tree_path,
+  (SELECT COUNT(*) FROM tasks c WHERE c.parent_task_id = t.id) AS child_count,
+  COALESCE(p.descendant_count, 0) AS descendant_count,
+  COALESCE(p.complete_count, 0) AS complete_descendant_count,
+  COALESCE(p.descendant_count - p.complete_count, 0) AS open_descendant_count,
+  CASE WHEN p.descendant_count > 0 THEN ROUND(100.0 * p.complete_count / p.descendant_count, 1) END AS completion_percent,
+  CASE WHEN COALESCE(t.status_type, t.status) IN ('DONE', 'CANCELLED') THEN 1 ELSE 0 END AS is_complete
+FROM tasks t
+JOIN tree ON tree.id = t.id
+LEFT JOIN progress p ON p.id = t.id;
+
+-- Open tasks waiting on at least one open task they depend on. Dependencies on task IDs
+-- that no task carries are ignored, as in the Tasks plugin.
+CREATE VIEW IF NOT EXISTS blocked_tasks AS
+SELECT
+  t.id,
+  t.path,
+  t.task_text,
+  t.status,
+  t.line_number,
+  t.task_id,
+  t.priority,
+  t.due_date,
+  COUNT(*) AS blocking_count,
+  group_concat(d.depends_on_task_id, ',') AS blocking_task_ids
+FROM tasks t
+JOIN task_dependencies d ON d.task_row_id = t.id
+JOIN tasks b ON b.id = d.target_task_row_id
+WHERE COALESCE(t.status_type, t.status) NOT IN ('DONE', 'CANCELLED')
+  AND COALESCE(b.status_type, b.status) NOT IN ('DONE', 'CANCELLED')
+GROUP BY t.id;
+
+-- Open tasks with nothing open left to wait for, including tasks without dependencies
+CREATE VIEW IF NOT EXISTS ready_tasks AS
+SELECT
+  t.id,
+  t.path,
+  t.task_text,
+  t.status,
+  t.line_number,
+  t.task_id,
+  t.priority,
+  t.due_date,
+  (SELECT COUNT(*) FROM task_dependencies d WHERE d.task_row_id = t.id) AS dependency_count
+FROM tasks t
+WHERE COALESCE(t.status_type, t.status) NOT IN ('DONE', 'CANCELLED')
+  AND t.id NOT IN (SELECT id FROM blocked_tasks);
+
+-- Tasks that depend on themselves through a chain of dependencies, one row per task in
+-- a loop. cycle lists the task IDs along the shortest loop back to the task.
+CREATE VIEW IF NOT EXISTS task_dependency_cycles AS
+WITH RECURSIVE chain(start_id, current_id, visited, cycle, cycle_length) AS (
+  SELECT d.task_row_id, d.target_task_row_id, ',' || d.task_row_id || ',', s.task_id || ' -> ' || d.depends_on_task_id, 1
+  FROM task_dependencies d
+  JOIN tasks s ON s.id = d.task_row_id
+  WHERE d.target_task_row_id IS NOT NULL
+  UNION ALL
+  SELECT c.start_id, d.target_task_row_id, c.visited || c.current_id || ',', c.cycle || ' -> ' || d.depends_on_task_id, c.cycle_length + 1
+  FROM chain c
+  JOIN task_dependencies d ON d.task_row_id = c.current_id
+  WHERE d.target_task_row_id IS NOT NULL
+    AND c.current_id != c.start_id
+    AND instr(c.visited, ',' || c.current_id || ',') = 0
+)
+SELECT
+  t.id,
+  t.path,
+  t.task_text,
+  t.task_id,
+  t.line_number,
+  MIN(c.cycle_length) AS cycle_length,
+  c.cycle
+FROM chain c
+JOIN tasks t ON t.id = c.start_id
+WHERE c.current_id = c.start_id
+GROUP BY t.id;
+
+-- One row per heading. content is the whole section including subsections, rebuilt from
+-- each heading's own body; subsection heading lines are regenerated from level and text.
+CREATE VIEW IF NOT EXISTS sections AS
+SELECT
+  h.id AS heading_id,
+  h.path,
+  h.level,
+  h.heading_text,
+  h.heading_path,
+  h.parent_heading_id,
+  h.line_number,
+  h.section_end_line AS end_line_number,
+  h.start_offset,
+  h.section_end_offset AS end_offset,
+  h.body,
+  trim((
+    SELECT group_concat(
+      CASE WHEN d.id = h.id THEN COALESCE(d.body, '')
+           ELSE substr('######', 1, d.level) || ' ' || d.heading_text || char(10) || COALESCE(d.body, '')
+      END,
+      char(10) || char(10) ORDER BY d.line_number)
+    FROM headings d
+    WHERE d.path = h.path AND d.line_number >= h.line_number AND d.line_number <= h.section_end_line
+  ), char(10)) AS content
+FROM headings h;
+
 -- Auto-derive table_cells.value_type from cell_value if not provided
 CREATE TRIGGER IF NOT EXISTS trg_table_cells_auto_type
 AFTER INSERT ON table_cells
@@ -590,6 +954,79 @@ FROM notes;
   return TABLE_DEFINITIONS + '\n' + VIEWS_AND_TRIGGERS + '\n' + initialPropertiesView;
 }
 
+/**
+ * Drop the static views and triggers so the next schema bundle recreates them from the
+ * current definitions. CREATE ... IF NOT EXISTS alone would keep the old ones after a migration.
+ */
+export function getDropViewsAndTriggersSQL(): string {
+  const statements: string[] = [];
+  for (const match of VIEWS_AND_TRIGGERS.matchAll(/CREATE (VIEW|TRIGGER) IF NOT EXISTS (\w+)/g)) {
+    statements.push(`DROP ${match[1]} IF EXISTS ${match[2]};`);
+  }
+  return statements.join('\n');
+}
+
+// notes_fts shares rowids with notes. The BEFORE INSERT trigger clears the old entry because
+// INSERT OR REPLACE does not fire DELETE triggers while recursive_triggers is off.
+const FULL_TEXT_SEARCH = `
+CREATE VIRTUAL TABLE IF NOT EXISTS notes_fts USING fts5(
+  path UNINDEXED,
+  title,
+  content,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER IF NOT EXISTS trg_notes_fts_before_insert
+BEFORE INSERT ON notes
+BEGIN
+  DELETE FROM notes_fts WHERE rowid IN (SELECT rowid FROM notes WHERE path = NEW.path);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_notes_fts_insert
+AFTER INSERT ON notes
+BEGIN
+  INSERT INTO notes_fts(rowid, path, title, content)
+  VALUES (NEW.rowid, NEW.path, NEW.title, NEW.content);
+END;
+
+-- Recreated on every load: the BEFORE INSERT trigger also fires for an upsert that ends up
+-- updating, so the row is re-added here rather than updated in place
+DROP TRIGGER IF EXISTS trg_notes_fts_update;
+CREATE TRIGGER trg_notes_fts_update
+AFTER UPDATE OF path, title, content ON notes
+BEGIN
+  DELETE FROM notes_fts WHERE rowid = OLD.rowid;
+  INSERT INTO notes_fts(rowid, path, title, content)
+  VALUES (NEW.rowid, NEW.path, NEW.title, NEW.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_notes_fts_delete
+AFTER DELETE ON notes
+BEGIN
+  DELETE FROM notes_fts WHERE rowid = OLD.rowid;
+END;
+`;
+
+const DROP_FULL_TEXT_SEARCH = `
+DROP TRIGGER IF EXISTS trg_notes_fts_before_insert;
+DROP TRIGGER IF EXISTS trg_notes_fts_insert;
+DROP TRIGGER IF EXISTS trg_notes_fts_update;
+DROP TRIGGER IF EXISTS trg_notes_fts_delete;
+DROP TABLE IF EXISTS notes_fts;
+`;
+
+export function getFullTextSearchSQL(enabled: boolean): string {
+  return enabled ? FULL_TEXT_SEARCH : DROP_FULL_TEXT_SEARCH;
+}
+
+/**
+ * The scalar row a property view column shows. A key can have several scalar rows once
+ * inline fields are indexed; frontmatter wins, then the first inline field in the note.
+ */
+function scalarPropertyRowId(pathExpression: string, escapedKey: string): string {
+  return `(SELECT rowid FROM properties WHERE path = ${pathExpression} AND key = '${escapedKey}' AND array_index IS NULL ORDER BY source = 'inline', line_number LIMIT 1)`;
+}
+
 export function generateDynamicPropertiesView(propertyKeys: string[]): string {
   if (propertyKeys.length === 0) {
     return `
@@ -615,22 +1052,25 @@ FROM notes;
   ).join(',\n');
 
   const propertyJoins = sanitizedKeys.map(({original, alias}) =>
-    `LEFT JOIN properties ${alias} ON n.path = ${alias}.path AND ${alias}.key = '${original.replace(/'/g, "''")}' AND ${alias}.array_index IS NULL`
+    `LEFT JOIN properties ${alias} ON ${alias}.rowid = ${scalarPropertyRowId('n.path', original.replace(/'/g, "''"))}`
   ).join('\n');
 
   const updateStatements = sanitizedKeys.map(({original, sanitized}) => {
     const escapedKey = original.replace(/'/g, "''");
     return `  -- Update ${sanitized}
   DELETE FROM properties WHERE path = OLD.path AND key = '${escapedKey}' AND array_index IS NULL AND NEW.${sanitized} IS NULL;
-  INSERT OR REPLACE INTO properties (path, key, value, value_type, array_index)
-  SELECT OLD.path, '${escapedKey}', NEW.${sanitized}, 'string', NULL
-  WHERE NEW.${sanitized} IS NOT NULL;`;
+  UPDATE properties SET value = NEW.${sanitized}
+  WHERE rowid = ${scalarPropertyRowId('OLD.path', escapedKey)} AND NEW.${sanitized} IS NOT NULL;
+  INSERT INTO properties (path, key, value, value_type, array_index)
+  SELECT OLD.path, '${escapedKey}', NEW.${sanitized}, '', NULL
+  WHERE NEW.${sanitized} IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM properties WHERE path = OLD.path AND key = '${escapedKey}' AND array_index IS NULL);`;
   }).join('\n');
 
   const insertStatements = sanitizedKeys.map(({original, sanitized}) => {
     const escapedKey = original.replace(/'/g, "''");
     return `  INSERT INTO properties (path, key, value, value_type, array_index)
-  SELECT NEW.path, '${escapedKey}', NEW.${sanitized}, 'string', NULL
+  SELECT NEW.path, '${escapedKey}', NEW.${sanitized}, '', NULL
   WHERE NEW.${sanitized} IS NOT NULL;`;
   }).join('\n');
 
@@ -712,22 +1152,25 @@ SELECT DISTINCT path FROM properties;
   ).join(',\n');
 
   const propertyJoins = sanitizedKeys.map(({original, alias}) =>
-    `LEFT JOIN properties ${alias} ON base.path = ${alias}.path AND ${alias}.key = '${original.replace(/'/g, "''")}' AND ${alias}.array_index IS NULL`
+    `LEFT JOIN properties ${alias} ON ${alias}.rowid = ${scalarPropertyRowId('base.path', original.replace(/'/g, "''"))}`
   ).join('\n');
 
   const updateStatements = sanitizedKeys.map(({original, sanitized}) => {
     const escapedKey = original.replace(/'/g, "''");
     return `  -- Update ${sanitized}
   DELETE FROM properties WHERE path = OLD.path AND key = '${escapedKey}' AND array_index IS NULL AND NEW.${sanitized} IS NULL;
-  INSERT OR REPLACE INTO properties (path, key, value, value_type, array_index)
-  SELECT OLD.path, '${escapedKey}', NEW.${sanitized}, 'string', NULL
-  WHERE NEW.${sanitized} IS NOT NULL;`;
+  UPDATE properties SET value = NEW.${sanitized}
+  WHERE rowid = ${scalarPropertyRowId('OLD.path', escapedKey)} AND NEW.${sanitized} IS NOT NULL;
+  INSERT INTO properties (path, key, value, value_type, array_index)
+  SELECT OLD.path, '${escapedKey}', NEW.${sanitized}, '', NULL
+  WHERE NEW.${sanitized} IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM properties WHERE path = OLD.path AND key = '${escapedKey}' AND array_index IS NULL);`;
   }).join('\n');
 
   const insertStatements = sanitizedKeys.map(({original, sanitized}) => {
     const escapedKey = original.replace(/'/g, "''");
     return `  INSERT INTO properties (path, key, value, value_type, array_index)
-  SELECT NEW.path, '${escapedKey}', NEW.${sanitized}, 'string', NULL
+  SELECT NEW.path, '${escapedKey}', NEW.${sanitized}, '', NULL
   WHERE NEW.${sanitized} IS NOT NULL;`;
   }).join('\n');
 
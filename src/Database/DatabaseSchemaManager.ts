@@ -36,6 +36,50 @@ export class DatabaseSchemaManager {
     }
   }
 
+  /**
+   * List the tables and views that queries can reference, skipping SQLite internals,
+   * plugin bookkeeping tables (prefixed with an underscore) and FTS shadow tables.
+   */
+  getQueryableObjects(): Array<{ name: string; type: 'table' | 'view' }> {
+    try {
+      const result = this.db.exec(`
+        SELECT name, type FROM sqlite_master
+        WHERE type IN ('table', 'view')
+          AND name NOT LIKE 'sqlite\\_%' ESCAPE '\\'
+          AND name NOT LIKE '\\_%' ESCAPE '\\'
+          AND name NOT LIKE 'notes\\_fts\\_%' ESCAPE '\\'
+        ORDER BY name
+      `);
+      if (result.length === 0 || result[0].values.length === 0) {
+        return [];
+      }
+      return result[0].values.map(row => ({
+        name: row[0] as string,
+        type: row[1] as 'table' | 'view'
+      }));
+    }
+
+    catch (e) {
+      console.warn('[VaultQuery] DatabaseSchemaManager.getQueryableObjects: Query failed', e);
+      return [];
+    }
+  }
+
+  getViewDefinition(viewName: string): string | null {
+    try {
+      const result = this.db.exec("SELECT sql FROM sqlite_master WHERE type = 'view' AND name = ? COLLATE NOCASE", [viewName]);
+      if (result.length === 0 || result[0].values.length === 0) {
+        return null;
+      }
+      return result[0].values[0][0] as string;
+    }
+
+    catch (e) {
+      console.warn('[VaultQuery] DatabaseSchemaManager.getViewDefinition: Query failed', viewName, e);
+      return null;
+    }
+  }
+
   getViewColumns(viewName: string): string[] {
     try {
       const result = this.db.exec(`PRAGMA table_info('${viewName.replace(/'/g, "''")}')`);
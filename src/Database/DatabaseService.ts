@@ -1,52 +1,92 @@
-import initSqlJs, { Database, Statement } from 'sql.js';
-import { App } from 'obsidian';
-import { getDatabaseDir, getDatabasePath } from '../Settings/Settings';
+import { App, TFile } from 'obsidian';
+import type { EventRef, TAbstractFile } from 'obsidian';
+import { getDatabaseDir, getDatabasePath, getDatabaseChunksDir } from '../Settings/Settings';
 import type { WasmSettings } from '../Settings/Settings';
-import { PreviewService } from '../Services/PreviewService';
-import { getTablesOnlySQL, getIndexesForFeatures, EnabledFeatures } from './DatabaseSchema';
-import { CustomSQLFunctions } from './CustomSQLFunctions';
-import { DatabaseSchemaManager } from './DatabaseSchemaManager';
+import type { EnabledFeatures } from './DatabaseSchema';
+import { ChunkedDatabaseStore } from './ChunkedDatabaseStore';
+import { DatabaseWorkerClient, DatabaseTerminatedError } from './DatabaseWorkerClient';
+import type { BindParams, DatabaseMethod, DatabaseMethodArgs, DatabaseMethodResult, DatabaseOpenOptions, DatabaseSchemaSnapshot } from './DatabaseEngine';
 import { getErrorMessage, ERROR_MESSAGES, WARNING_MESSAGES, CONSOLE_ERRORS } from '../utils/ErrorMessages';
-import type { IndexNoteData, DatabaseTableCell, NoteRecord, ListItemData, TaskData } from '../types';
+import type { IndexNoteData, FileRecord, QueryParams, CanvasNodeData, CanvasEdgeData } from '../types';
 import type { PreviewResult } from '../Services/PreviewService';
 
 const CDN_URL = 'https://sql.js.org/dist/sql-wasm.wasm';
 const DEFAULT_WASM_FILENAME = 'sql-wasm.wasm';
 
+const EMPTY_SCHEMA: DatabaseSchemaSnapshot = {
+  viewNames: [],
+  queryableObjects: [],
+  columns: {},
+  viewDefinitions: {},
+  propertyKeys: [],
+  userViews: [],
+  userFunctions: [],
+  fullTextSearchEnabled: false,
+  fullReindexRequired: false
+};
+
 export interface VaultFileAdapter {
   readBinary(path: string): Promise<ArrayBuffer>;
   writeBinary(path: string, data: ArrayBuffer): Promise<void>;
   exists(path: string): Promise<boolean>;
   mkdir(path: string): Promise<void>;
+  remove?(path: string): Promise<void>;
+}
+
+export interface QueryExecutionOptions {
+  /** Stop the query after this many milliseconds. 0 or undefined disables the timeout. */
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  /**
+   * Run the query in the reader worker, which is terminated to stop a statement mid-step.
+   * Otherwise it runs in the database worker, where the timeout is only checked between rows.
+   */
+  interruptible?: boolean;
 }
 
 declare const activeWindow: Window;
 
+/**
+ * The database the rest of the plugin talks to. sql.js and every statement run in the database
+ * worker (see DatabaseEngine), so every call that touches the database is asynchronous and
+ * answered in the order it was made. The schema lookups that callers need synchronously are
+ * answered from the snapshot the worker sends along whenever the schema changed.
+ *
+ * Interruptible queries run in a second worker, the reader, which holds a replica of the
+ * database: it opens an export of the database worker's, then every write is replayed on it.
+ * Stopping a query terminates the reader, and the next interruptible query starts a new one.
+ */
 export class VaultDatabase {
-  private db: Database;
+  private app: App;
+  private database: DatabaseWorkerClient;
   private fileAdapter: VaultFileAdapter | null;
   private databasePath: string;
   private configDir: string;
   public readonly useMemoryStorage: boolean;
-
-  private preparedStatements = new Map<string, Statement>();
-  private previewService: PreviewService;
-  private schemaManager: DatabaseSchemaManager;
-
-  private txDepth = 0;
-
-  private dbLock: Promise<void> = Promise.resolve();
-  private indexesCreated = false;
-  private enabledFeatures: EnabledFeatures | null = null;
-
-  private constructor(db: Database, fileAdapter: VaultFileAdapter | null, useMemoryStorage: boolean, databasePath: string, configDir: string) {
-    this.db = db;
+  private chunkStore: ChunkedDatabaseStore | null;
+  // An export whose write to disk failed, written by the next save unless a newer one replaces it
+  private unsavedExport: Uint8Array | null = null;
+  private schema: DatabaseSchemaSnapshot = EMPTY_SCHEMA;
+  private vaultEvents: EventRef[] = [];
+  // What the database worker's resolve_link resolves against, for opening a reader with the same
+  private linkTargets: Set<string>;
+  private wasm: Pick<DatabaseOpenOptions, 'wasmBinary' | 'wasmUrl'>;
+  private reader: DatabaseWorkerClient | null = null;
+  private readerUnavailable = false;
+
+  private constructor(app: App, openOptions: DatabaseOpenOptions, fileAdapter: VaultFileAdapter | null, useMemoryStorage: boolean, databasePath: string, configDir: string, chunkStore: ChunkedDatabaseStore | null) {
+    this.app = app;
     this.fileAdapter = fileAdapter;
     this.useMemoryStorage = useMemoryStorage;
     this.databasePath = databasePath;
     this.configDir = configDir;
-    this.previewService = new PreviewService(db);
-    this.schemaManager = new DatabaseSchemaManager(db);
+    this.chunkStore = chunkStore;
+    this.linkTargets = new Set(openOptions.linkTargets);
+    this.wasm = { wasmBinary: openOptions.wasmBinary, wasmUrl: openOptions.wasmUrl };
+    this.database = new DatabaseWorkerClient(Promise.resolve(openOptions), {
+      inProcessFallback: true,
+      onSchema: snapshot => { this.schema = snapshot; }
+    });
   }
 
   /**
@@ -126,7 +166,7 @@ export class VaultDatabase {
     }
   }
 
-  public static async create(app: App, configDir: string, fileAdapter: VaultFileAdapter | null = null, useMemoryStorage: boolean = true, databasePath?: string, pluginDir?: string, wasmAdapter?: VaultFileAdapter, wasmSettings?: WasmSettings): Promise<VaultDatabase> {
+  public static async create(app: App, configDir: string, fileAdapter: VaultFileAdapter | null = null, useMemoryStorage: boolean = true, databasePath?: string, pluginDir?: string, wasmAdapter?: VaultFileAdapter, wasmSettings?: WasmSettings, incrementalStorage: boolean = false): Promise<VaultDatabase> {
     const actualDatabasePath = databasePath || getDatabasePath(configDir);
     const adapter = wasmAdapter || fileAdapter;
 
@@ -148,515 +188,335 @@ export class VaultDatabase {
       }
     }
 
-    const sqlJs = await initSqlJs({
-      wasmBinary,
-      locateFile: wasmBinary ? undefined : (() => CDN_URL)
-    });
-
-    let db: Database;
+    let data: Uint8Array | null = null;
+    const chunkStore = !useMemoryStorage && incrementalStorage && fileAdapter
+      ? new ChunkedDatabaseStore(fileAdapter, getDatabaseChunksDir(configDir))
+      : null;
+    const storedChunks = chunkStore ? await chunkStore.load() : null;
 
-    if (useMemoryStorage || !(fileAdapter && await fileAdapter.exists(actualDatabasePath))) {
-      db = new sqlJs.Database();
+    if (storedChunks) {
+      data = storedChunks;
     }
-    else {
+    // Incremental storage falls back to a single-file database so switching modes keeps the existing index
+    else if (!useMemoryStorage && fileAdapter && await fileAdapter.exists(actualDatabasePath)) {
       try {
-        const data = await fileAdapter.readBinary(actualDatabasePath);
-        db = new sqlJs.Database(new Uint8Array(data));
+        data = new Uint8Array(await fileAdapter.readBinary(actualDatabasePath));
       }
       catch (error) {
         throw new Error(ERROR_MESSAGES.DATABASE_READ_FAILED(actualDatabasePath, error instanceof Error ? error.message : 'Unknown error'));
       }
     }
 
-    const instance = new VaultDatabase(db, fileAdapter, useMemoryStorage, actualDatabasePath, configDir);
-
-    instance.runPragmaStatements();
-    CustomSQLFunctions.register(db, app);
-    instance.createSchema();
+    const openOptions: DatabaseOpenOptions = {
+      wasmBinary: wasmBinary ?? null,
+      wasmUrl: CDN_URL,
+      data,
+      createSchema: true,
+      linkTargets: app.vault.getFiles().map(file => file.path),
+      functions: []
+    };
+    const instance = new VaultDatabase(app, openOptions, fileAdapter, useMemoryStorage, actualDatabasePath, configDir, chunkStore);
 
     try {
-      instance.db.run('PRAGMA optimize');
+      await instance.database.opened;
     }
     catch (error) {
-      console.warn(`[VaultQuery] ${WARNING_MESSAGES.PRAGMA_OPTIMIZE_UNAVAILABLE}:`, error);
+      instance.database.terminate();
+      throw error;
     }
 
+    instance.trackLinkTargets();
     return instance;
   }
-  
+
+  /** resolve_link runs in the workers, which learn about the vault's files from here */
+  private trackLinkTargets(): void {
+    const update = (added: string[], removed: string[]) => {
+      removed.forEach(path => this.linkTargets.delete(path));
+      added.forEach(path => this.linkTargets.add(path));
+      this.write('updateLinkTargets', added, removed).catch(error => {
+        console.error(`[VaultQuery] ${CONSOLE_ERRORS.LINK_TARGETS_UPDATE_FAILED}:`, error);
+      });
+    };
+
+    this.vaultEvents = [
+      this.app.vault.on('create', (file: TAbstractFile) => {
+        if (file instanceof TFile) update([file.path], []);
+      }),
+      this.app.vault.on('delete', (file: TAbstractFile) => {
+        if (file instanceof TFile) update([], [file.path]);
+      }),
+      this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+        if (file instanceof TFile) update([file.path], [oldPath]);
+      })
+    ];
+  }
+
   public async saveToDisk(): Promise<void> {
     if (this.useMemoryStorage || !this.fileAdapter) return;
 
+    let array: Uint8Array | null = null;
     try {
-      const array = this.db.export();
+      // The worker only exports when something changed since the last export or load
+      const image = await this.database.call('exportImage', true);
+      array = image?.data ?? this.unsavedExport;
+      this.unsavedExport = null;
+      if (!array) return;
+
       const databaseDir = getDatabaseDir(this.configDir);
       if (!(await this.fileAdapter.exists(databaseDir))) {
         await this.fileAdapter.mkdir(databaseDir);
       }
-      
-      const ab = array.buffer.slice(array.byteOffset, array.byteOffset + array.byteLength);
-      await this.fileAdapter.writeBinary(this.databasePath, ab as ArrayBuffer);
-    }
-    catch (error) {
-      console.error(`[VaultQuery] ${CONSOLE_ERRORS.DATABASE_SAVE_FAILED}:`, error);
-    }
-  }
-  
-  
-  private runPragmaStatements(): void {
-    try {
-      this.db.run('PRAGMA journal_mode = MEMORY');
-      this.db.run('PRAGMA synchronous = OFF');
-      this.db.run('PRAGMA cache_size = -64000');  // 64MB cache (negative = KB)
-      this.db.run('PRAGMA temp_store = MEMORY');
-      this.db.run('PRAGMA locking_mode = EXCLUSIVE');
-      this.db.run('PRAGMA page_size = 4096');
-      this.db.run('PRAGMA mmap_size = 268435456');  // 256MB memory-mapped I/O
-    }
-    catch (error) {
-      console.warn(`[VaultQuery] ${WARNING_MESSAGES.DATABASE_OPTIMIZATIONS_UNAVAILABLE}:`, error);
-    }
-  }
-
-  public async acquireDbLock(): Promise<() => void> {
-    let releaseLock: () => void;
-    const lockPromise = new Promise<void>(resolve => { releaseLock = resolve; });
-    const previousLock = this.dbLock;
-    this.dbLock = lockPromise;
-    await previousLock;
-    return releaseLock!;
-  }
-
-  public async withTx<T>(fn: () => T | Promise<T>, opts: { deferFK?: boolean } = {}): Promise<T> {
-    const needsLock = this.txDepth === 0;
-    let releaseLock: (() => void) | undefined;
-
-    if (needsLock) {
-      releaseLock = await this.acquireDbLock();
-    }
-
-    const nested = this.txDepth > 0;
-    const sp = `sp_${this.txDepth + 1}`;
-
-    this.txDepth++;
-    try {
-      if (!nested) {
-        this.db.run('BEGIN TRANSACTION');
-        if (opts.deferFK) {
-          this.db.exec('PRAGMA defer_foreign_keys = ON');
-        }
-      }
-      else {
-        this.db.exec(`SAVEPOINT ${sp}`);
-      }
-
-      const result = await fn();
 
-      if (!nested) {
-        if (opts.deferFK) {
-          this.db.exec('PRAGMA defer_foreign_keys = OFF');
-        }
-        this.db.run('COMMIT');
+      if (this.chunkStore) {
+        const written = await this.chunkStore.save(array);
+        console.debug(`[VaultQuery] Saved database incrementally (${written} changed chunks)`);
       }
       else {
-        this.db.exec(`RELEASE ${sp}`);
+        const ab = array.buffer.slice(array.byteOffset, array.byteOffset + array.byteLength);
+        await this.fileAdapter.writeBinary(this.databasePath, ab as ArrayBuffer);
       }
-
-      return result;
     }
     catch (error) {
-      if (!nested) {
-        try {
-          this.db.run('ROLLBACK');
-        }
-        catch (rollbackError) {
-          console.error(`[VaultQuery] ${CONSOLE_ERRORS.DATABASE_ROLLBACK_FAILED}:`, rollbackError);
-        }
-      }
-      else {
-        try {
-          this.db.exec(`ROLLBACK TO ${sp}; RELEASE ${sp}`);
-        }
-        catch (rollbackError) {
-          console.error(`[VaultQuery] ${CONSOLE_ERRORS.DATABASE_SAVEPOINT_ROLLBACK_FAILED}:`, rollbackError);
-        }
-      }
-      throw error;
-    } finally {
-      this.txDepth--;
-      if (releaseLock) {
-        releaseLock();
-      }
+      // The export already reset the change counters, so keep it for the next save
+      this.unsavedExport ??= array;
+      console.error(`[VaultQuery] ${CONSOLE_ERRORS.DATABASE_SAVE_FAILED}:`, error);
     }
   }
 
-  private getPreparedStatement(sql: string): Statement {
-    if (!this.preparedStatements.has(sql)) {
-      try {
-        const stmt = this.db.prepare(sql);
-        this.preparedStatements.set(sql, stmt);
-      }
-      catch (error: unknown) {
-        throw new Error(getErrorMessage(error) || ERROR_MESSAGES.SQL_PREPARE_FAILED);
-      }
-    }
-
-    const stmt = this.preparedStatements.get(sql);
-    if (!stmt) {
-      throw new Error(ERROR_MESSAGES.SQL_STATEMENT_NOT_FOUND);
-    }
-    return stmt;
+  public isFullReindexRequired(): boolean {
+    return this.schema.fullReindexRequired;
   }
 
-  private cleanupPreparedStatements(): void {
-    for (const [, stmt] of this.preparedStatements) {
-      try {
-        stmt.free();
-      }
-      catch (error) {
-        console.warn(`[VaultQuery] ${WARNING_MESSAGES.STATEMENT_FREE_ERROR}:`, error);
-      }
-    }
-    this.preparedStatements.clear();
+  public async clearFullReindexRequired(): Promise<void> {
+    await this.write('clearFullReindexRequired');
   }
 
-  private execSchemaBundle(sql: string): void {
-    this.db.run('BEGIN');
-    try {
-      this.db.run('PRAGMA foreign_keys = ON;');
-      this.db.exec(sql);
-      this.db.run('COMMIT');
-    }
-    catch (e) {
-      this.db.run('ROLLBACK');
-      throw e;
-    }
+  public async createIndexes(features?: EnabledFeatures): Promise<void> {
+    await this.write('createIndexes', features);
   }
 
-  private createSchema(): void {
-    this.execSchemaBundle(getTablesOnlySQL());
-    this.indexesCreated = false;
+  public isFullTextSearchEnabled(): boolean {
+    return this.schema.fullTextSearchEnabled;
   }
 
-  public createIndexes(features?: EnabledFeatures): void {
-    if (features) {
-      this.enabledFeatures = features;
-    }
-
-    if (this.indexesCreated) return;
-
-    try {
-      const effectiveFeatures = this.enabledFeatures ?? {
-        indexContent: true,
-        indexFrontmatter: true,
-        indexTables: true,
-        indexTasks: true,
-        indexHeadings: true,
-        indexLinks: true,
-        indexTags: true,
-        indexListItems: true
-      };
-      this.execSchemaBundle(getIndexesForFeatures(effectiveFeatures));
-      this.indexesCreated = true;
-    }
-    catch (error) {
-      console.warn('[VaultQuery] Error creating indexes (may already exist):', error);
-      this.indexesCreated = true; 
-    }
+  public async configureFullTextSearch(enabled: boolean): Promise<void> {
+    await this.write('configureFullTextSearch', enabled);
   }
 
-  public async indexNote(data: IndexNoteData): Promise<void> {
-    this.createIndexes();
-    return this.withTx(() => this.performIndexingOperations(data, false));
+  /** Index a note and return the tables it wrote to or cleared */
+  public indexNote(data: IndexNoteData): Promise<string[]> {
+    return this.write('indexNote', data);
   }
 
-  private performIndexingOperations = (data: IndexNoteData, skipDeletes: boolean): void => {
-    const { note, frontmatterData, tables, tableCells, tasks, headings, links, tags, listItems, userViews, userFunctions } = data;
-
-    this.insertNote(note);
-
-    if (frontmatterData !== undefined) {
-      this.replaceProperties(note.path, frontmatterData, skipDeletes);
-    }
-    if (tables !== undefined) {
-      this.replaceTables(note.path, tables, skipDeletes);
-    }
-    if (tableCells !== undefined) {
-      this.replaceTableCells(note.path, tableCells, skipDeletes);
-    }
-    if (tasks !== undefined) {
-      this.replaceTasks(note.path, tasks, skipDeletes);
-    }
-    if (headings !== undefined) {
-      this.replaceHeadings(note.path, headings, skipDeletes);
-    }
-    if (links !== undefined) {
-      this.replaceLinks(note.path, links, skipDeletes);
-    }
-    if (tags !== undefined) {
-      this.replaceTags(note.path, tags, skipDeletes);
-    }
-    if (listItems !== undefined) {
-      this.replaceListItems(note.path, listItems, skipDeletes);
-    }
-
-    this.replaceUserViews(note.path, userViews, skipDeletes);
-    this.replaceUserFunctions(note.path, userFunctions, skipDeletes);
-  };
-
-  private insertNote = (note: NoteRecord): void => {
-    const insertNoteSQL = 'INSERT OR REPLACE INTO notes (path, title, content, created, modified, size) VALUES (?, ?, ?, ?, ?, ?)';
-    this.runWithPreparedStatement(insertNoteSQL, [note.path, note.title, note.content, note.created, note.modified, note.size]);
-  };
-
-  private replaceProperties = (path: string, propertiesData?: Array<{key: string; value: string; valueType: string; arrayIndex: number | null}>, skipDeletes: boolean = false): void => {
-    if (!skipDeletes) {
-      this.runWithPreparedStatement('DELETE FROM properties WHERE path = ?', [path]);
-    }
-
-    if (propertiesData?.length) {
-      const insertSQL = 'INSERT INTO properties (path, key, value, value_type, array_index) VALUES (?, ?, ?, ?, ?)';
-      for (const property of propertiesData) {
-        try {
-          this.runWithPreparedStatement(insertSQL, [
-            path,
-            property.key,
-            property.value,
-            property.valueType,
-            property.arrayIndex
-          ]);
-        }
-        catch (error: unknown) {
-          console.warn(`[VaultQuery] ${WARNING_MESSAGES.DUPLICATE_PROPERTY_SKIPPED(path, property.key, property.arrayIndex)}`, getErrorMessage(error));
-        }
-      }
-    }
-  };
-
-  private replaceTableCells = (path: string, tableCells?: DatabaseTableCell[], skipDeletes: boolean = false): void => {
-    if (!skipDeletes) {
-      this.runWithPreparedStatement('DELETE FROM table_cells WHERE path = ?', [path]);
-    }
-
-    if (tableCells?.length) {
-      const rows = tableCells.map(cell => [path, cell.tableIndex, cell.tableName, cell.rowIndex, cell.columnName, cell.cellValue, 'string', cell.lineNumber]);
-      this.runMultiRowInsert('INSERT INTO table_cells (path, table_index, table_name, row_index, column_name, cell_value, value_type, line_number) VALUES ', 8, rows);
-    }
-  };
-
-
-  private replaceLinks = (path: string, links?: Array<{link_text: string; link_target: string; link_target_path: string | null; link_type: string; line_number: number}>, skipDeletes: boolean = false): void => {
-    if (!skipDeletes) {
-      this.runWithPreparedStatement('DELETE FROM links WHERE path = ?', [path]);
-    }
-
-    if (links?.length) {
-      const rows = links.map(link => [path, link.link_text, link.link_target, link.link_target_path, link.link_type, link.line_number]);
-      this.runMultiRowInsert('INSERT INTO links (path, link_text, link_target, link_target_path, link_type, line_number) VALUES ', 6, rows);
-    }
-  };
-
-  private replaceTags = (path: string, tags?: Array<{tag_name: string; line_number: number}>, skipDeletes: boolean = false): void => {
-    if (!skipDeletes) {
-      this.runWithPreparedStatement('DELETE FROM tags WHERE path = ?', [path]);
-    }
-
-    if (tags?.length) {
-      const rows = tags.map(tag => [path, tag.tag_name, tag.line_number]);
-      this.runMultiRowInsert('INSERT INTO tags (path, tag_name, line_number) VALUES ', 3, rows);
-    }
-  };
+  /** Remove a note's rows and return the tables they were removed from */
+  public removeNote(path: string): Promise<string[]> {
+    return this.write('removeNote', path);
+  }
 
-  public run(sql: string, params: (string | number | null)[] = []): number {
-    this.db.run(sql, params);
-    return this.db.getRowsModified();
+  public run(sql: string, params: (string | number | null)[] = []): Promise<number> {
+    return this.write('run', sql, params);
   }
 
+  /**
+   * Checked here so an invalid definition throws to the caller, then registered with the
+   * worker. Calls made after this one already see the function.
+   */
   public registerCustomFunction(name: string, source: string): void {
-    const fn = new Function(`return (${source})`)();
+    const fn: unknown = new Function(`return (${source})`)();
 
     if (typeof fn !== 'function') {
       throw new Error(`Invalid function definition: expected a function, got ${typeof fn}`);
     }
 
-    this.db.create_function(name, fn);
+    this.write('registerCustomFunction', name, source).catch(error => {
+      console.error(`[VaultQuery] ${CONSOLE_ERRORS.CUSTOM_FUNCTION_REGISTER_FAILED(name)}:`, error);
+    });
   }
 
-  public async all(sql: string, params: (string | number | null)[] = []): Promise<Record<string, unknown>[]> {
+  /**
+   * Run a read. Interruptible queries run in the reader unless it can't be started. In the
+   * database worker the timeout is checked between result rows, and an aborted query stops
+   * waiting for its rows right away while the worker finishes the statement.
+   */
+  public async all(sql: string, params: BindParams = [], options?: QueryExecutionOptions): Promise<Record<string, unknown>[]> {
     try {
-      const stmt = this.getPreparedStatement(sql);
-
-      try {
-        if (params.length > 0) {
-          stmt.bind(params);
-        }
-
-        const results: Record<string, unknown>[] = [];
-        const columnNames = stmt.getColumnNames();
-
-        while (stmt.step()) {
-          // Use custom object building instead of getAsObject() to handle duplicate column names
-          // With "first wins" behavior - important for LEFT JOINs where left table columns come first
-          const values = stmt.get();
-          const row: Record<string, unknown> = {};
-          for (let i = 0; i < columnNames.length; i++) {
-            const colName = columnNames[i];
-            // Only set if this column name hasn't been seen yet (first wins)
-            if (!(colName in row)) {
-              row[colName] = values[i];
-            }
-          }
-          results.push(row);
-        }
-        stmt.reset();
-
-        if (results.length > 1000) {
-          await new Promise(resolve => activeWindow.setTimeout(resolve, 0));
-        }
-
-        return results;
-      }
-      catch (error) {
-        try {
-          stmt.reset();
-        }
-        catch (resetError) {
-          console.warn(`[VaultQuery] ${WARNING_MESSAGES.STATEMENT_RESET_ERROR}:`, resetError);
-        }
-        throw error;
+      if (options?.interruptible) {
+        const rows = await this.queryReader(sql, params, options);
+        if (rows) return rows;
       }
+
+      const rows = this.database.call('query', sql, params, options?.timeoutMs ?? 0);
+      return await (options?.signal ? whenNotAborted(rows, options.signal) : rows);
     }
     catch (error: unknown) {
       throw new Error(ERROR_MESSAGES.SQL_QUERY_FAILED(getErrorMessage(error)));
     }
   }
 
-  public runWithPreparedStatement(sql: string, params: (string | number | null)[] = []): void {
+  /**
+   * Run a query in the reader, terminating it when the query is aborted or times out. Null
+   * when there is no reader, or when another query's interruption terminated it under this one.
+   */
+  private async queryReader(sql: string, params: BindParams, options: QueryExecutionOptions): Promise<Record<string, unknown>[] | null> {
+    const reader = this.getReader();
+    if (!reader) return null;
+
+    const interruption = watchForInterruption(options, () => this.dropReader(reader));
     try {
-      const stmt = this.getPreparedStatement(sql);
+      const opened = await Promise.race([reader.opened.then(() => true, () => false), interruption.promise]);
+      if (!opened) return null;
 
-      try {
-        if (params.length > 0) {
-          stmt.bind(params);
-        }
-        stmt.step();
-        stmt.reset();
-      }
-      catch (error) {
-        try {
-          stmt.reset();
-        }
-        catch (resetError) {
-          console.warn(`[VaultQuery] ${WARNING_MESSAGES.STATEMENT_RESET_ERROR}:`, resetError);
-        }
-        throw error;
-      }
+      return await Promise.race([reader.call('query', sql, params, 0), interruption.promise]);
     }
-    catch (error: unknown) {
-      throw new Error(ERROR_MESSAGES.SQL_RUN_FAILED(getErrorMessage(error)));
+    catch (error) {
+      if (!(error instanceof DatabaseTerminatedError)) throw error;
+      this.dropReader(reader);
+      return null;
+    }
+    finally {
+      interruption.dispose();
     }
   }
 
-  private runMultiRowInsert(baseSQL: string, columnsCount: number, rows: (string | number | null)[][], maxRowsPerBatch: number = 100): void {
-    if (rows.length === 0) return;
-
-    const placeholder = `(${Array(columnsCount).fill('?').join(', ')})`;
+  /**
+   * The reader, opened from an export of the database that is taken in line with every other
+   * call, so the writes made after this call are exactly the ones write() replays on it.
+   */
+  private getReader(): DatabaseWorkerClient | null {
+    if (this.reader || this.readerUnavailable) return this.reader;
+
+    const linkTargets = [...this.linkTargets];
+    const openOptions = this.database.call('exportImage', false).then(image => {
+      if (!image) throw new Error('Database export returned no image');
+      // The export reset the change counters, so the next save writes this image if nothing else changed
+      if (image.unsaved && !this.useMemoryStorage) {
+        this.unsavedExport = image.data;
+      }
+
+      const options: DatabaseOpenOptions = {
+        ...this.wasm,
+        data: image.data,
+        createSchema: false,
+        linkTargets,
+        functions: image.functions
+      };
+      return options;
+    });
 
-    for (let i = 0; i < rows.length; i += maxRowsPerBatch) {
-      const batch = rows.slice(i, i + maxRowsPerBatch);
-      const values = Array(batch.length).fill(placeholder).join(', ');
-      const sql = baseSQL + values;
-      const params = batch.flat();
+    const reader = new DatabaseWorkerClient(openOptions, { inProcessFallback: false });
+    this.reader = reader;
+    reader.opened.catch(error => {
+      if (error instanceof DatabaseTerminatedError || this.reader !== reader) return;
+      console.warn(`[VaultQuery] ${WARNING_MESSAGES.QUERY_READER_UNAVAILABLE}:`, error);
+      this.readerUnavailable = true;
+      this.dropReader(reader);
+    });
+    return reader;
+  }
 
-      this.db.run(sql, params);
+  private dropReader(reader: DatabaseWorkerClient): void {
+    reader.terminate();
+    if (this.reader === reader) {
+      this.reader = null;
     }
   }
 
-  public async indexNotesBatch(notesData: IndexNoteData[], isInitialIndexing: boolean = false, skipDiskSave: boolean = false): Promise<void> {
-    if (notesData.length === 0) return;
+  /**
+   * Run a call that changes the database in the database worker, and replay it on the reader.
+   * A reader whose outcome differs no longer matches the database, so it is dropped.
+   */
+  private write<M extends DatabaseMethod>(method: M, ...args: DatabaseMethodArgs<M>): Promise<DatabaseMethodResult<M>> {
+    const result = this.database.call(method, ...args);
 
-    if (isInitialIndexing) {
-      this.db.run('PRAGMA foreign_keys = OFF');
+    const reader = this.reader;
+    if (reader) {
+      const replayed = reader.call(method, ...args);
+      void Promise.allSettled([result, replayed]).then(([primary, replica]) => {
+        if (primary.status !== replica.status) this.dropReader(reader);
+      });
     }
 
-    try {
-      await this.withTx(() => this.performBatchIndexing(notesData, isInitialIndexing));
-    } finally {
-      if (isInitialIndexing) {
-        this.db.run('PRAGMA foreign_keys = ON');
-      }
-    }
+    return result;
+  }
 
-    if (isInitialIndexing) {
-      try {
-        this.db.run('ANALYZE');
-      }
-      catch (error) {
-        console.warn('[VaultQuery] ANALYZE failed after batch indexing:', error);
-      }
-    }
+  /**
+   * Index a batch of notes in one transaction and return the tables the batch wrote to or
+   * cleared, like indexNote.
+   */
+  public async indexNotesBatch(notesData: IndexNoteData[], isInitialIndexing: boolean = false, skipDiskSave: boolean = false): Promise<string[]> {
+    if (notesData.length === 0) return [];
+
+    const tables = await this.write('indexNotesBatch', notesData, isInitialIndexing);
 
     if (!skipDiskSave) {
       await this.saveToDisk();
     }
+
+    return tables;
   }
 
-  private performBatchIndexing = (notesData: IndexNoteData[], skipDeletes: boolean = false): void => {
-    const seen = new Set<string>();
-    const duplicates: string[] = [];
+  /**
+   * Bring the files table in line with `files`, which lists every file that should be recorded.
+   * Returns whether any row was written.
+   */
+  public syncFileRecords(files: FileRecord[]): Promise<boolean> {
+    return this.write('syncFileRecords', files);
+  }
 
-    for (const data of notesData) {
-      if (seen.has(data.note.path)) {
-        duplicates.push(data.note.path);
-      }
-      else {
-        seen.add(data.note.path);
-      }
-    }
+  public async upsertFileRecord(file: FileRecord): Promise<void> {
+    await this.write('upsertFileRecord', file);
+  }
 
-    if (duplicates.length > 0) {
-      console.warn(`[VaultQuery] ${WARNING_MESSAGES.DUPLICATE_NOTES_IN_BATCH(duplicates.length, duplicates)}`);
-    }
+  public async removeFileRecord(path: string): Promise<void> {
+    await this.write('removeFileRecord', path);
+  }
 
-    notesData.forEach(data => this.performIndexingOperations(data, skipDeletes));
-  };
+  /**
+   * Modification times of the canvases that have rows, by path. Null for rows stored before
+   * modification times were recorded.
+   */
+  public getIndexedCanvasMtimes(): Promise<Map<string, number | null>> {
+    return this.database.call('getIndexedCanvasMtimes');
+  }
 
-  public async previewDML(sql: string, params: unknown[] = []): Promise<PreviewResult> {
-    const releaseLock = await this.acquireDbLock();
-    try {
-      return this.previewService.previewDmlFromSql(sql, params);
-    } finally {
-      releaseLock();
-    }
+  /**
+   * Apply a vault index pass over the canvases: replace the rows of canvases that changed
+   * and remove those that are gone, leaving every other canvas untouched.
+   */
+  public async syncCanvases(changed: Map<string, { mtime: number; nodes: CanvasNodeData[]; edges: CanvasEdgeData[] }>, removed: string[]): Promise<void> {
+    await this.write('syncCanvases', changed, removed);
+  }
+
+  public async replaceCanvas(path: string, mtime: number, nodes: CanvasNodeData[], edges: CanvasEdgeData[]): Promise<void> {
+    await this.write('replaceCanvas', path, mtime, nodes, edges);
+  }
+
+  public async removeCanvas(path: string): Promise<void> {
+    await this.write('removeCanvas', path);
+  }
+
+  public previewDML(sql: string, params: QueryParams = []): Promise<PreviewResult> {
+    return this.database.call('previewDML', sql, params);
   }
 
   public async applyDML(previewResult: PreviewResult): Promise<void> {
-    return this.withTx(() => {
-      this.applyDMLWithoutTransaction(previewResult);
-    });
+    await this.write('applyDML', previewResult);
   }
 
-  private applyDMLWithoutTransaction(previewResult: PreviewResult): void {
-    for (const { sql, params } of previewResult.sqlToApply) {
-      const stmt = this.db.prepare(sql);
-      try {
-        stmt.run(params as (string | number | null)[] || []);
-      } finally {
-        stmt.free();
-      }
-    }
+  public resolveTaskDependencies(): Promise<number> {
+    return this.write('resolveTaskDependencies');
   }
 
   public async close(): Promise<boolean> {
+    this.vaultEvents.forEach(ref => this.app.vault.offref(ref));
+    this.vaultEvents = [];
+
     try {
+      this.reader?.terminate();
+      this.reader = null;
       await this.saveToDisk();
-
-      this.cleanupPreparedStatements();
-
-      if (typeof this.db.close === 'function') {
-        this.db.close();
-      }
-
+      this.database.terminate();
       return true;
     }
     catch (error) {
@@ -665,215 +525,88 @@ export class VaultDatabase {
     }
   }
 
-  private replaceTables(path: string, tables: Array<{ table_index: number; table_name?: string; block_id?: string; start_offset: number; end_offset: number }>, skipDeletes: boolean = false): void {
-    if (!skipDeletes) {
-      this.runWithPreparedStatement('DELETE FROM tables WHERE path = ?', [path]);
-    }
-
-    if (tables?.length) {
-      const rows = tables.map(table => [path, table.table_index, table.table_name || null, table.block_id || null, table.start_offset, table.end_offset]);
-      this.runMultiRowInsert('INSERT INTO tables (path, table_index, table_name, block_id, start_offset, end_offset) VALUES ', 6, rows);
-    }
+  public getAllUserViews(): Array<{view_name: string; path: string; sql: string}> {
+    return this.schema.userViews;
   }
 
-  private replaceTasks(path: string, tasks: TaskData[], skipDeletes: boolean = false): void {
-    if (!skipDeletes) {
-      this.runWithPreparedStatement('DELETE FROM tasks WHERE path = ?', [path]);
-    }
-
-    if (tasks?.length) {
-      const rows = tasks.map(task => [
-        path,
-        task.task_text,
-        task.status || 'TODO',
-        task.priority || null,
-        task.due_date || null,
-        task.scheduled_date || null,
-        task.start_date || null,
-        task.created_date || null,
-        task.done_date || null,
-        task.cancelled_date ?? null,
-        task.recurrence ?? null,
-        task.on_completion ?? null,
-        task.task_id ?? null,
-        task.depends_on ?? null,
-        task.tags ?? null,
-        task.line_number,
-        task.block_id ?? null,
-        task.start_offset ?? null,
-        task.end_offset ?? null,
-        task.anchor_hash ?? null,
-        task.section_heading ?? null
-      ]);
-      this.runMultiRowInsert('INSERT INTO tasks (path, task_text, status, priority, due_date, scheduled_date, start_date, created_date, done_date, cancelled_date, recurrence, on_completion, task_id, depends_on, tags, line_number, block_id, start_offset, end_offset, anchor_hash, section_heading) VALUES ', 21, rows);
-    }
+  public getAllUserFunctions(): Array<{function_name: string; path: string; source: string}> {
+    return this.schema.userFunctions;
   }
 
-  private replaceHeadings(path: string, headings: Array<{ level: number; heading_text: string; line_number: number; block_id?: string; start_offset?: number; end_offset?: number; anchor_hash?: string }>, skipDeletes: boolean = false): void {
-    if (!skipDeletes) {
-      this.runWithPreparedStatement('DELETE FROM headings WHERE path = ?', [path]);
-    }
-
-    if (headings?.length) {
-      const rows = headings.map(heading => [
-        path,
-        heading.level,
-        heading.heading_text,
-        heading.line_number,
-        heading.block_id ?? null,
-        heading.start_offset ?? null,
-        heading.end_offset ?? null,
-        heading.anchor_hash ?? null
-      ]);
-      this.runMultiRowInsert('INSERT INTO headings (path, level, heading_text, line_number, block_id, start_offset, end_offset, anchor_hash) VALUES ', 8, rows);
-    }
+  public getAllPropertyKeys(): string[] {
+    return this.schema.propertyKeys;
   }
 
-  private replaceListItems(path: string, listItems: ListItemData[], skipDeletes: boolean = false): void {
-    if (!skipDeletes) {
-      this.runWithPreparedStatement('DELETE FROM list_items WHERE path = ?', [path]);
-    }
-
-    if (listItems?.length) {
-      const rows = listItems.map(item => [
-        path,
-        item.list_index,
-        item.item_index,
-        item.parent_index,
-        item.content,
-        item.list_type,
-        item.indent_level,
-        item.line_number,
-        item.block_id ?? null,
-        item.start_offset,
-        item.end_offset,
-        item.anchor_hash ?? null
-      ]);
-      this.runMultiRowInsert('INSERT INTO list_items (path, list_index, item_index, parent_index, content, list_type, indent_level, line_number, block_id, start_offset, end_offset, anchor_hash) VALUES ', 12, rows);
-    }
+  public getViewNames(): string[] {
+    return this.schema.viewNames;
   }
 
-  private replaceUserViews(path: string, userViews?: Array<{view_name: string; sql: string}>, skipDeletes: boolean = false): void {
-    if (!skipDeletes) {
-      const existingViews = this.getViewsForPath(path);
-
-      this.runWithPreparedStatement('DELETE FROM _user_views WHERE path = ?', [path]);
+  public getViewColumns(viewName: string): string[] {
+    return this.schema.columns[viewName] ?? [];
+  }
 
-      for (const viewName of existingViews) {
-        try {
-          this.db.run(`DROP VIEW IF EXISTS "${viewName}"`);
-        }
-        catch (error) {
-          console.warn(`[VaultQuery] Failed to drop view "${viewName}":`, error);
-        }
-      }
-    }
+  public getViewDefinition(viewName: string): string | null {
+    return this.schema.viewDefinitions[viewName.toLowerCase()] ?? null;
+  }
 
-    if (userViews?.length) {
-      const insertSQL = 'INSERT OR REPLACE INTO _user_views (view_name, path, sql) VALUES (?, ?, ?)';
-      for (const view of userViews) {
-        this.runWithPreparedStatement(insertSQL, [view.view_name, path, view.sql]);
-      }
+  public getQueryableObjects(): Array<{ name: string; type: 'table' | 'view' }> {
+    return this.schema.queryableObjects;
+  }
 
-      for (const { view_name, sql } of userViews) {
-        try {
-          this.db.run(`DROP VIEW IF EXISTS "${view_name}"`);
-          this.db.run(sql);
-        }
-        catch (error) {
-          console.error(`[VaultQuery] Failed to create view "${view_name}":`, error);
-        }
-      }
-    }
+  public async rebuildPropertiesView(): Promise<void> {
+    await this.write('rebuildPropertiesView');
   }
 
-  private getViewsForPath(path: string): string[] {
-    try {
-      const results = this.db.exec('SELECT view_name FROM _user_views WHERE path = ?', [path]);
-      if (results.length === 0 || !results[0].values) return [];
-      return results[0].values.map(row => row[0] as string);
-    }
-    catch (e) {
-      console.warn('[VaultQuery] DatabaseService.getViewsForPath: Query failed', path, e);
-      return [];
-    }
+  public async rebuildTableViews(enableDynamicTableViews: boolean): Promise<void> {
+    await this.write('rebuildTableViews', enableDynamicTableViews);
   }
+}
 
-  private replaceUserFunctions(path: string, userFunctions?: Array<{function_name: string; source: string}>, skipDeletes: boolean = false): void {
-    if (!skipDeletes) {
-      this.runWithPreparedStatement('DELETE FROM _user_functions WHERE path = ?', [path]);
-    }
+/** Rejects when the query is aborted or times out, after calling `interrupt` to stop it */
+function watchForInterruption(options: QueryExecutionOptions, interrupt: () => void): { promise: Promise<never>; dispose: () => void } {
+  let timer: number | null = null;
+  let onAbort: (() => void) | null = null;
 
-    if (userFunctions?.length) {
-      const insertSQL = 'INSERT OR REPLACE INTO _user_functions (function_name, path, source) VALUES (?, ?, ?)';
-      for (const func of userFunctions) {
-        this.runWithPreparedStatement(insertSQL, [func.function_name, path, func.source]);
-      }
+  const promise = new Promise<never>((_resolve, reject) => {
+    const stop = (message: string): void => {
+      // Rejected first so the race settles with this error rather than the termination one
+      reject(new Error(message));
+      interrupt();
+    };
 
-      for (const { function_name, source } of userFunctions) {
-        try {
-          this.registerCustomFunction(function_name, source);
-        }
-        catch (error) {
-          console.error(`[VaultQuery] Failed to register function "${function_name}":`, error);
-        }
-      }
+    if (options.signal?.aborted) {
+      reject(new Error(ERROR_MESSAGES.QUERY_CANCELLED));
+      return;
     }
-  }
 
-  public getAllUserViews(): Array<{view_name: string; path: string; sql: string}> {
-    try {
-      const results = this.db.exec('SELECT view_name, path, sql FROM _user_views');
-      if (results.length === 0 || !results[0].values) return [];
-      return results[0].values.map(row => ({
-        view_name: row[0] as string,
-        path: row[1] as string,
-        sql: row[2] as string
-      }));
-    }
-    catch (e) {
-      console.warn('[VaultQuery] DatabaseService.getAllUserViews: Query failed', e);
-      return [];
-    }
-  }
+    onAbort = () => stop(ERROR_MESSAGES.QUERY_CANCELLED);
+    options.signal?.addEventListener('abort', onAbort);
 
-  public getAllUserFunctions(): Array<{function_name: string; path: string; source: string}> {
-    try {
-      const results = this.db.exec('SELECT function_name, path, source FROM _user_functions');
-      if (results.length === 0 || !results[0].values) return [];
-      return results[0].values.map(row => ({
-        function_name: row[0] as string,
-        path: row[1] as string,
-        source: row[2] as string
-      }));
+    const timeoutMs = options.timeoutMs;
+    if (timeoutMs) {
+      timer = activeWindow.setTimeout(() => stop(ERROR_MESSAGES.QUERY_TIMED_OUT(timeoutMs / 1000)), timeoutMs);
     }
-    catch (e) {
-      console.warn('[VaultQuery] DatabaseService.getAllUserFunctions: Query failed', e);
-      return [];
-    }
-  }
-
-  public getAllPropertyKeys(): string[] {
-    return this.schemaManager.getAllPropertyKeys();
-  }
+  });
+  // Only observed while a race is pending
+  promise.catch(() => undefined);
 
-  public getViewNames(): string[] {
-    return this.schemaManager.getViewNames();
-  }
-
-  public getViewColumns(viewName: string): string[] {
-    return this.schemaManager.getViewColumns(viewName);
-  }
-
-  public rebuildPropertiesView(): void {
-    this.schemaManager.rebuildPropertiesView();
-  }
+  return {
+    promise,
+    dispose: () => {
+      if (timer !== null) activeWindow.clearTimeout(timer);
+      if (onAbort) options.signal?.removeEventListener('abort', onAbort);
+    }
+  };
+}
 
-  public discoverTableStructures(): import('./DatabaseSchema').TableStructure[] {
-    return this.schemaManager.discoverTableStructures();
+function whenNotAborted<T>(result: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(new Error(ERROR_MESSAGES.QUERY_CANCELLED));
   }
 
-  public rebuildTableViews(enableDynamicTableViews: boolean): void {
-    this.schemaManager.rebuildTableViews(enableDynamicTableViews);
-  }
-}
\ No newline at end of file
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new Error(ERROR_MESSAGES.QUERY_CANCELLED));
+    signal.addEventListener('abort', onAbort, { once: true });
+    void result.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
@@ -0,0 +1,213 @@
+import databaseWorkerSource from 'worker:../Workers/DatabaseWorker';
+import { DatabaseEngine, callDatabaseEngine } from './DatabaseEngine';
+import type { DatabaseMethod, DatabaseMethodArgs, DatabaseMethodResult, DatabaseOpenOptions, DatabaseSchemaSnapshot } from './DatabaseEngine';
+import { WARNING_MESSAGES, CONSOLE_ERRORS } from '../utils/ErrorMessages';
+
+export type DatabaseWorkerRequest =
+  | { id: number; type: 'open'; options: DatabaseOpenOptions; reportSchema: boolean }
+  | { id: number; type: 'call'; method: DatabaseMethod; args: unknown[] };
+
+export type DatabaseWorkerResponse =
+  | { id: number; result: unknown; schema: DatabaseSchemaSnapshot | null }
+  | { id: number; error: string; schema: DatabaseSchemaSnapshot | null };
+
+/** Calls fail with this when the client was terminated, or its worker failed, before they were answered */
+export class DatabaseTerminatedError extends Error {}
+
+export interface DatabaseClientOptions {
+  /** Run the engine on the main thread when the worker can't be started */
+  inProcessFallback: boolean;
+  /** Receives the schema snapshot sent along with every call that changed it */
+  onSchema?: (snapshot: DatabaseSchemaSnapshot) => void;
+}
+
+interface DatabaseHost {
+  call(method: DatabaseMethod, args: unknown[]): Promise<unknown>;
+  terminate(): void;
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Message-based facade over a database worker, which runs a DatabaseEngine. Calls are answered
+ * in the order they were made, including the ones made while the database is still opening.
+ */
+export class DatabaseWorkerClient {
+  private host: Promise<DatabaseHost>;
+  private startedHost: DatabaseHost | null = null;
+  private terminated = false;
+
+  /** Resolves once the database is open, rejects when it couldn't be opened */
+  public readonly opened: Promise<void>;
+
+  public constructor(options: Promise<DatabaseOpenOptions>, private clientOptions: DatabaseClientOptions) {
+    this.host = options.then(open => this.start(open));
+    this.opened = this.host.then(() => undefined);
+    // A failed open is surfaced by every call as well, so it may go unobserved here
+    this.opened.catch(() => undefined);
+  }
+
+  public call<M extends DatabaseMethod>(method: M, ...args: DatabaseMethodArgs<M>): Promise<DatabaseMethodResult<M>> {
+    return this.host.then(host => host.call(method, args)) as Promise<DatabaseMethodResult<M>>;
+  }
+
+  public terminate(): void {
+    this.terminated = true;
+    this.startedHost?.terminate();
+  }
+
+  private async start(options: DatabaseOpenOptions): Promise<DatabaseHost> {
+    let worker: WorkerDatabaseHost | null = null;
+    try {
+      worker = new WorkerDatabaseHost(this.clientOptions.onSchema);
+    }
+    catch (error) {
+      if (!this.clientOptions.inProcessFallback) throw error;
+      console.warn(`[VaultQuery] ${WARNING_MESSAGES.DATABASE_WORKER_UNAVAILABLE}:`, error);
+    }
+
+    if (worker) {
+      this.startedHost = worker;
+      if (this.terminated) worker.terminate();
+
+      try {
+        await worker.open(options);
+        return worker;
+      }
+      catch (error) {
+        if (!this.clientOptions.inProcessFallback || this.terminated) throw error;
+        console.warn(`[VaultQuery] ${WARNING_MESSAGES.DATABASE_WORKER_UNAVAILABLE}:`, error);
+        worker.terminate();
+      }
+    }
+
+    const host = await InProcessDatabaseHost.open(options, this.clientOptions.onSchema);
+    this.startedHost = host;
+    if (this.terminated) host.terminate();
+    return host;
+  }
+}
+
+class WorkerDatabaseHost implements DatabaseHost {
+  private worker: Worker;
+  private workerUrl: string;
+  private nextRequestId = 0;
+  private pending = new Map<number, PendingRequest>();
+  private failure: Error | null = null;
+
+  public constructor(private onSchema?: (snapshot: DatabaseSchemaSnapshot) => void) {
+    this.workerUrl = URL.createObjectURL(new Blob([databaseWorkerSource], { type: 'text/javascript' }));
+    try {
+      this.worker = new Worker(this.workerUrl);
+    }
+    catch (error) {
+      URL.revokeObjectURL(this.workerUrl);
+      throw error;
+    }
+
+    this.worker.addEventListener('message', (event: MessageEvent<DatabaseWorkerResponse>) => {
+      const response = event.data;
+      if (response.schema) {
+        this.onSchema?.(response.schema);
+      }
+
+      const pending = this.pending.get(response.id);
+      if (!pending) return;
+
+      this.pending.delete(response.id);
+      if ('error' in response) {
+        pending.reject(new Error(response.error));
+      }
+      else {
+        pending.resolve(response.result);
+      }
+    });
+
+    this.worker.addEventListener('error', (event: ErrorEvent) => {
+      console.error(`[VaultQuery] ${CONSOLE_ERRORS.DATABASE_WORKER_FAILED}:`, event.message);
+      this.stop(new DatabaseTerminatedError(event.message || CONSOLE_ERRORS.DATABASE_WORKER_FAILED));
+    });
+  }
+
+  public async open(options: DatabaseOpenOptions): Promise<void> {
+    await this.request({ id: this.nextRequestId++, type: 'open', options, reportSchema: this.onSchema !== undefined });
+  }
+
+  public call(method: DatabaseMethod, args: unknown[]): Promise<unknown> {
+    return this.request({ id: this.nextRequestId++, type: 'call', method, args });
+  }
+
+  public terminate(): void {
+    this.stop(new DatabaseTerminatedError('Database worker terminated'));
+  }
+
+  private stop(error: Error): void {
+    if (this.failure) return;
+    this.failure = error;
+
+    this.worker.terminate();
+    URL.revokeObjectURL(this.workerUrl);
+
+    const pending = [...this.pending.values()];
+    this.pending.clear();
+    pending.forEach(request => request.reject(error));
+  }
+
+  private request(message: DatabaseWorkerRequest): Promise<unknown> {
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise<unknown>((resolve, reject) => {
+      this.pending.set(message.id, { resolve, reject });
+      try {
+        this.worker.postMessage(message);
+      }
+      catch (error) {
+        // DataCloneError when an argument holds something structured clone cannot copy
+        this.pending.delete(message.id);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+}
+
+/** Runs the engine on the main thread, for when no worker can be started */
+class InProcessDatabaseHost implements DatabaseHost {
+  private constructor(private engine: DatabaseEngine | null, private onSchema?: (snapshot: DatabaseSchemaSnapshot) => void) {}
+
+  public static async open(options: DatabaseOpenOptions, onSchema?: (snapshot: DatabaseSchemaSnapshot) => void): Promise<InProcessDatabaseHost> {
+    const host = new InProcessDatabaseHost(await DatabaseEngine.open(options), onSchema);
+    host.reportSchema();
+    return host;
+  }
+
+  public call(method: DatabaseMethod, args: unknown[]): Promise<unknown> {
+    if (!this.engine) {
+      return Promise.reject(new DatabaseTerminatedError('Database closed'));
+    }
+
+    try {
+      return Promise.resolve(callDatabaseEngine(this.engine, method, args));
+    }
+    catch (error) {
+      return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+    }
+    finally {
+      this.reportSchema();
+    }
+  }
+
+  public terminate(): void {
+    this.engine?.close();
+    this.engine = null;
+  }
+
+  private reportSchema(): void {
+    const snapshot = this.onSchema && this.engine?.takeSchemaSnapshot();
+    if (snapshot) {
+      this.onSchema?.(snapshot);
+    }
+  }
+}
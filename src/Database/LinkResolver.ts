@@ -0,0 +1,91 @@
+/**
+ * Resolves link text to a vault path for resolve_link, which runs in the database worker
+ * where Obsidian's metadata cache isn't available. VaultDatabase keeps it fed with the paths
+ * of every vault file. Follows getFirstLinkpathDest: a path relative to the source note or
+ * the vault root wins, then a file whose path ends with the link, preferring the source note's
+ * folder and then the shortest path. Matching ignores case, like Obsidian's.
+ */
+export class LinkResolver {
+  // Lower-cased path to the path as stored
+  private paths = new Map<string, string>();
+  // Lower-cased file name to the lower-cased paths of the files carrying it
+  private byName = new Map<string, Set<string>>();
+
+  public constructor(paths: string[] = []) {
+    this.update(paths, []);
+  }
+
+  public update(added: string[], removed: string[]): void {
+    for (const path of removed) {
+      const key = path.toLowerCase();
+      this.paths.delete(key);
+      this.byName.get(fileName(key))?.delete(key);
+    }
+
+    for (const path of added) {
+      const key = path.toLowerCase();
+      this.paths.set(key, path);
+
+      const name = fileName(key);
+      let sameName = this.byName.get(name);
+      if (!sameName) {
+        sameName = new Set();
+        this.byName.set(name, sameName);
+      }
+      sameName.add(key);
+    }
+  }
+
+  public resolve(linkpath: string, sourcePath: string): string | null {
+    const link = linkpath.toLowerCase();
+    const sourceFolder = folderOf(sourcePath.toLowerCase());
+
+    // [[Note]] links a markdown file, [[image.png]] the file as named
+    const candidates = [`${link}.md`, link];
+
+    if (link.startsWith('./') || link.startsWith('../')) {
+      for (const candidate of candidates) {
+        const path = this.paths.get(joinPath(sourceFolder, candidate));
+        if (path) return path;
+      }
+      return null;
+    }
+
+    for (const candidate of candidates) {
+      const path = this.paths.get(candidate);
+      if (path) return path;
+    }
+
+    const matches = candidates.flatMap(candidate =>
+      [...this.byName.get(fileName(candidate)) ?? []].filter(path => path === candidate || path.endsWith(`/${candidate}`)));
+    if (matches.length === 0) return null;
+
+    matches.sort((a, b) =>
+      Number(folderOf(b) === sourceFolder) - Number(folderOf(a) === sourceFolder)
+      || a.length - b.length
+      || a.localeCompare(b));
+    return this.paths.get(matches[0]) ?? null;
+  }
+}
+
+function fileName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+function folderOf(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+function joinPath(folder: string, relative: string): string {
+  const segments = folder ? folder.split('/') : [];
+  for (const segment of relative.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    }
+    else if (segment !== '.' && segment !== '') {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
@@ -0,0 +1,235 @@
+import type { Database } from 'sql.js';
+import { WARNING_MESSAGES, CONSOLE_ERRORS } from '../utils/ErrorMessages';
+
+export interface SchemaMigration {
+  version: number;
+  description: string;
+  /**
+   * The migration drops indexed data, or adds columns that are only filled in while
+   * indexing, so the vault has to be reindexed from scratch afterwards.
+   */
+  destructive?: boolean;
+  up(db: Database): void;
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: SchemaMigration[];
+  requiresReindex: boolean;
+}
+
+const SCHEMA_VERSION_TABLE = `
+CREATE TABLE IF NOT EXISTS schema_version (
+  version INTEGER NOT NULL,
+  applied_at INTEGER NOT NULL
+);
+`;
+
+/**
+ * Ordered by version. Append new migrations here whenever DatabaseSchema.ts changes a
+ * table that already exists on disk, e.g. `ALTER TABLE tasks ADD COLUMN ...`.
+ * New tables, views and triggers need no migration: the schema bundle creates
+ * missing ones, and static views and triggers are recreated after any migration.
+ * A new table that is filled while indexing notes still needs a destructive migration,
+ * even an empty one, so notes indexed before it existed get their rows.
+ */
+export const SCHEMA_MIGRATIONS: readonly SchemaMigration[] = [
+  {
+    version: 1,
+    description: 'Rebuild databases created before schema versioning',
+    destructive: true,
+    up: db => dropAllSchemaObjects(db)
+  },
+  {
+    version: 2,
+    description: 'Add inline field columns to properties',
+    destructive: true,
+    up: db => {
+      addColumnIfMissing(db, 'properties', 'source', 'TEXT NOT NULL DEFAULT \'frontmatter\'');
+      addColumnIfMissing(db, 'properties', 'line_number', 'INTEGER');
+      addColumnIfMissing(db, 'properties', 'item_type', 'TEXT');
+      addColumnIfMissing(db, 'properties', 'item_id', 'INTEGER');
+    }
+  },
+  {
+    version: 3,
+    description: 'Add heading hierarchy columns and heading_id references',
+    destructive: true,
+    up: db => {
+      addColumnIfMissing(db, 'headings', 'parent_heading_id', 'INTEGER REFERENCES headings(id) ON DELETE SET NULL');
+      addColumnIfMissing(db, 'headings', 'heading_path', 'TEXT');
+      addColumnIfMissing(db, 'headings', 'section_end_offset', 'INTEGER');
+      addColumnIfMissing(db, 'headings', 'section_end_line', 'INTEGER');
+      addColumnIfMissing(db, 'headings', 'body', 'TEXT');
+      addColumnIfMissing(db, 'tasks', 'heading_id', 'INTEGER REFERENCES headings(id) ON DELETE SET NULL');
+      addColumnIfMissing(db, 'list_items', 'heading_id', 'INTEGER REFERENCES headings(id) ON DELETE SET NULL');
+      addColumnIfMissing(db, 'table_cells', 'heading_id', 'INTEGER REFERENCES headings(id) ON DELETE SET NULL');
+    }
+  },
+  {
+    version: 4,
+    description: 'Add task nesting columns',
+    destructive: true,
+    up: db => {
+      addColumnIfMissing(db, 'tasks', 'parent_task_id', 'INTEGER REFERENCES tasks(id) ON DELETE CASCADE');
+      addColumnIfMissing(db, 'tasks', 'indent_level', 'INTEGER NOT NULL DEFAULT 0');
+      addColumnIfMissing(db, 'tasks', 'task_index', 'INTEGER');
+    }
+  },
+  {
+    version: 5,
+    description: 'Add task status symbol and type columns',
+    destructive: true,
+    up: db => {
+      addColumnIfMissing(db, 'tasks', 'status_symbol', 'TEXT');
+      addColumnIfMissing(db, 'tasks', 'status_type', 'TEXT');
+    }
+  },
+  {
+    version: 6,
+    description: 'Add typed property value columns',
+    destructive: true,
+    up: db => {
+      addColumnIfMissing(db, 'properties', 'value_num', 'REAL');
+      addColumnIfMissing(db, 'properties', 'value_date', 'TEXT');
+    }
+  },
+  {
+    version: 7,
+    description: 'Fill the note_frontmatter and task_dependencies tables',
+    destructive: true,
+    up: () => {
+      // Both tables are created by the schema bundle; the reindex fills them
+    }
+  }
+];
+
+export const LATEST_SCHEMA_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+/**
+ * Bring the database up to LATEST_SCHEMA_VERSION. Must run before the schema bundle so
+ * views and triggers are created against the migrated tables.
+ *
+ * A new database is stamped with the latest version without running anything. A database
+ * with tables but no schema_version predates versioning and starts from version 0.
+ */
+export function runSchemaMigrations(db: Database): MigrationResult {
+  const isNewDatabase = !hasTable(db, 'notes');
+  db.exec(SCHEMA_VERSION_TABLE);
+
+  const storedVersion = getSchemaVersion(db);
+
+  if (storedVersion === null && isNewDatabase) {
+    setSchemaVersion(db, LATEST_SCHEMA_VERSION);
+    return { fromVersion: LATEST_SCHEMA_VERSION, toVersion: LATEST_SCHEMA_VERSION, applied: [], requiresReindex: false };
+  }
+
+  const fromVersion = storedVersion ?? 0;
+
+  // Written by a newer plugin version, so there is no way to know what changed
+  if (fromVersion > LATEST_SCHEMA_VERSION) {
+    console.warn(`[VaultQuery] ${WARNING_MESSAGES.SCHEMA_NEWER_THAN_PLUGIN(fromVersion, LATEST_SCHEMA_VERSION)}`);
+    resetSchema(db);
+    return { fromVersion, toVersion: LATEST_SCHEMA_VERSION, applied: [], requiresReindex: true };
+  }
+
+  const pending = SCHEMA_MIGRATIONS.filter(migration => migration.version > fromVersion);
+  const applied: SchemaMigration[] = [];
+
+  for (const migration of pending) {
+    console.debug(`[VaultQuery] Applying schema migration ${migration.version}: ${migration.description}`);
+    try {
+      runInTransaction(db, () => {
+        migration.up(db);
+        setSchemaVersion(db, migration.version);
+      });
+      applied.push(migration);
+    }
+    catch (error) {
+      // The index is derived from the vault, so rebuilding it is always a safe way forward
+      console.error(`[VaultQuery] ${CONSOLE_ERRORS.SCHEMA_MIGRATION_FAILED} (version ${migration.version}):`, error);
+      resetSchema(db);
+      return { fromVersion, toVersion: LATEST_SCHEMA_VERSION, applied, requiresReindex: true };
+    }
+  }
+
+  return {
+    fromVersion,
+    toVersion: getSchemaVersion(db) ?? fromVersion,
+    applied,
+    requiresReindex: applied.some(migration => migration.destructive)
+  };
+}
+
+export function getSchemaVersion(db: Database): number | null {
+  const result = db.exec('SELECT MAX(version) FROM schema_version');
+  const value = result[0]?.values[0]?.[0];
+  return value === null || value === undefined ? null : Number(value);
+}
+
+/**
+ * Add a column unless it already exists, so migrations stay safe to re-run against
+ * databases that were partially migrated or already had the column.
+ */
+export function addColumnIfMissing(db: Database, table: string, column: string, definition: string): void {
+  const result = db.exec(`PRAGMA table_info(${table})`);
+  const exists = result[0]?.values.some(row => row[1] === column) ?? false;
+  if (!exists) {
+    db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+function setSchemaVersion(db: Database, version: number): void {
+  db.run('INSERT INTO schema_version (version, applied_at) VALUES (?, ?)', [version, Date.now()]);
+}
+
+function hasTable(db: Database, name: string): boolean {
+  const result = db.exec('SELECT 1 FROM sqlite_master WHERE type = \'table\' AND name = ?', [name]);
+  return result.length > 0;
+}
+
+/**
+ * Drop every table, view and trigger except schema_version. The schema bundle recreates
+ * them empty and the vault is reindexed.
+ */
+function dropAllSchemaObjects(db: Database): void {
+  const result = db.exec(`
+    SELECT type, name FROM sqlite_master
+    WHERE type IN ('view', 'trigger', 'table')
+      AND name NOT LIKE 'sqlite_%'
+      AND name != 'schema_version'
+    ORDER BY CASE type WHEN 'trigger' THEN 0 WHEN 'view' THEN 1 ELSE 2 END
+  `);
+
+  for (const [type, name] of result[0]?.values ?? []) {
+    const quotedName = `"${String(name).replace(/"/g, '""')}"`;
+    try {
+      // IF EXISTS because dropping a virtual table also drops its shadow tables
+      db.run(`DROP ${String(type).toUpperCase()} IF EXISTS ${quotedName}`);
+    }
+    catch (error) {
+      console.warn(`[VaultQuery] Failed to drop ${String(type)} ${String(name)} during schema migration:`, error);
+    }
+  }
+}
+
+function resetSchema(db: Database): void {
+  runInTransaction(db, () => {
+    dropAllSchemaObjects(db);
+    db.run('DELETE FROM schema_version');
+    setSchemaVersion(db, LATEST_SCHEMA_VERSION);
+  });
+}
+
+function runInTransaction(db: Database, fn: () => void): void {
+  db.run('BEGIN');
+  try {
+    fn();
+    db.run('COMMIT');
+  }
+  catch (error) {
+    db.run('ROLLBACK');
+    throw error;
+  }
+}
@@ -0,0 +1,100 @@
+import { ContentLocationService } from '../Services/ContentLocationService';
+import type { CalloutRow, ReplaceRangeEdit, EntityPlanResult, EntityPlannerContext } from './types';
+import { formatCallout, parseCalloutLines, type CalloutFoldState } from '../utils/CalloutUtils';
+
+export class CalloutEditPlanner {
+  public constructor(private readonly contentLocationService: ContentLocationService) {}
+
+  public planCalloutEdits(ctx: EntityPlannerContext, callouts: CalloutRow[], calloutsToDelete: CalloutRow[]): EntityPlanResult {
+    const edits: ReplaceRangeEdit[] = [];
+    const warnings: string[] = [];
+    const newCallouts: CalloutRow[] = [];
+
+    for (const row of callouts) {
+      if (row.line_number === -1) {
+        newCallouts.push(row);
+        continue;
+      }
+
+      if (row.line_number != null && row.line_number > 0 && row.start_offset == null && row.end_offset == null && !row.block_id) {
+        // Surrounding blank lines keep the new callout from merging into a neighbouring quote
+        const insertionPoint = ContentLocationService.findInsertionPointAtLine(ctx.content, row.line_number);
+        const prefix = insertionPoint.needsNewlineBefore ? '\n\n' : '';
+        const suffix = insertionPoint.needsNewlineAfter ? '\n\n' : '';
+
+        edits.push({
+          type: "replaceRange",
+          path: ctx.path,
+          range: { start: insertionPoint.offset, end: insertionPoint.offset },
+          text: prefix + this.emitCallout(row) + suffix,
+          reason: "insert callout at specified line"
+        });
+        continue;
+      }
+
+      const loc = this.contentLocationService.locateCallout(ctx.content, row);
+      if (loc.kind === "miss") {
+        warnings.push(`${ctx.path}: callout at line ${row.line_number ?? '?'} - ${loc.reason}`);
+        continue;
+      }
+      const existing = ctx.content.slice(loc.range.start, loc.range.end);
+      const next = this.emitCallout(row, existing);
+      if (next !== existing) {
+        edits.push({ type: "replaceRange", path: ctx.path, range: loc.range, text: next, reason: "update callout" });
+      }
+    }
+
+    if (newCallouts.length > 0) {
+      const insertionPoint = ContentLocationService.findTableInsertionPoint(ctx.content);
+      const newCalloutText = newCallouts.map(callout => this.emitCallout(callout)).join('\n\n');
+
+      let prefix = '';
+      if (ctx.content.length > 0) {
+        prefix = insertionPoint.needsNewlineBefore ? '\n\n' : '\n';
+      }
+
+      edits.push({
+        type: "replaceRange",
+        path: ctx.path,
+        range: { start: insertionPoint.offset, end: insertionPoint.offset },
+        text: prefix + newCalloutText,
+        reason: "insert new callouts"
+      });
+    }
+
+    for (const row of calloutsToDelete) {
+      const loc = this.contentLocationService.locateCallout(ctx.content, row);
+      if (loc.kind === "miss") {
+        warnings.push(`${ctx.path}: callout at line ${row.line_number ?? '?'} to delete - ${loc.reason}`);
+        continue;
+      }
+      const deleteRange = ContentLocationService.expandRangeToIncludeNewline(ctx.content, loc.range);
+      edits.push({
+        type: "replaceRange",
+        path: ctx.path,
+        range: deleteRange,
+        text: "",
+        reason: "delete callout"
+      });
+    }
+
+    return { edits, warnings };
+  }
+
+  /**
+   * Rebuild the callout markup. A block id written inline on the last line is carried over;
+   * one on its own line after the callout lies outside the replaced range and is left alone.
+   */
+  public emitCallout(row: CalloutRow, existing?: string): string {
+    const inlineBlockId = existing !== undefined ? parseCalloutLines(existing.split('\n')).blockId : row.block_id;
+    const foldState = row.fold_state === '+' || row.fold_state === '-' ? row.fold_state as CalloutFoldState : null;
+
+    return formatCallout({
+      type: row.type || null,
+      title: row.title || null,
+      foldState,
+      body: row.body ?? '',
+      blockId: inlineBlockId ? (row.block_id || inlineBlockId) : null
+    });
+  }
+}
@@ -0,0 +1,171 @@
+import { ContentLocationService } from '../Services/ContentLocationService';
+import type { PropertyRow, ReplaceRangeEdit, EntityPlanResult, EntityPlannerContext } from './types';
+import { findInlineFields, formatInlineField, type InlineFieldMatch } from '../utils/InlineFieldUtils';
+
+interface LocatedField {
+  lineStart: number;
+  line: string;
+  field: InlineFieldMatch;
+}
+
+/**
+ * Plans edits for properties that come from inline fields (key:: value) in the note body.
+ * Fields are found again by key on their indexed line, falling back to the first field
+ * with that key anywhere in the note when the line has moved.
+ */
+export class InlineFieldEditPlanner {
+  public planInlineFieldEdits(ctx: EntityPlannerContext, fields: PropertyRow[], fieldsToDelete: PropertyRow[]): EntityPlanResult {
+    const edits: ReplaceRangeEdit[] = [];
+    const warnings: string[] = [];
+    const newFields: PropertyRow[] = [];
+
+    for (const row of fields) {
+      if (row.is_new) {
+        if (row.line_number != null && row.line_number > 0) {
+          const edit = this.planInsertOnLine(ctx, row);
+          if (edit) {
+            edits.push(edit);
+          }
+          else {
+            warnings.push(`${ctx.path}: line ${row.line_number} for inline field "${row.key}" does not exist`);
+          }
+        }
+        else {
+          newFields.push(row);
+        }
+        continue;
+      }
+
+      const located = this.locateField(ctx.content, row.previous_key ?? row.key, row.line_number);
+      if (!located) {
+        warnings.push(`${ctx.path}: inline field "${row.previous_key ?? row.key}" not found`);
+        continue;
+      }
+
+      const { lineStart, field } = located;
+      if (row.value === null) {
+        edits.push(this.createDeleteEdit(ctx, located));
+        continue;
+      }
+
+      const next = formatInlineField(row.key, row.value, field.syntax);
+      const existing = ctx.content.slice(lineStart + field.start, lineStart + field.end);
+      if (next !== existing) {
+        edits.push({
+          type: "replaceRange",
+          path: ctx.path,
+          range: { start: lineStart + field.start, end: lineStart + field.end },
+          text: next,
+          reason: "update inline field"
+        });
+      }
+    }
+
+    if (newFields.length > 0) {
+      const lines = newFields.map(row => formatInlineField(row.key, row.value ?? '', 'line')).join('\n');
+      const needsNewline = ctx.content.length > 0 && !ctx.content.endsWith('\n');
+
+      edits.push({
+        type: "replaceRange",
+        path: ctx.path,
+        range: { start: ctx.content.length, end: ctx.content.length },
+        text: (needsNewline ? '\n' : '') + lines,
+        reason: "insert inline fields"
+      });
+    }
+
+    for (const row of fieldsToDelete) {
+      const located = this.locateField(ctx.content, row.key, row.line_number);
+      if (!located) {
+        warnings.push(`${ctx.path}: inline field "${row.key}" to delete not found`);
+        continue;
+      }
+      edits.push(this.createDeleteEdit(ctx, located));
+    }
+
+    return { edits, warnings };
+  }
+
+  private locateField(content: string, key: string, lineNumber?: number | null): LocatedField | null {
+    const lines = content.split('\n');
+    const lineStarts: number[] = [];
+    let offset = 0;
+    for (const line of lines) {
+      lineStarts.push(offset);
+      offset += line.length + 1;
+    }
+
+    const findOnLine = (lineIndex: number): LocatedField | null => {
+      const line = lines[lineIndex].replace(/\r$/, '');
+      const field = findInlineFields(line).find(candidate => candidate.key === key);
+      return field ? { lineStart: lineStarts[lineIndex], line, field } : null;
+    };
+
+    if (lineNumber != null && lineNumber > 0 && lineNumber <= lines.length) {
+      const located = findOnLine(lineNumber - 1);
+      if (located) return located;
+    }
+
+    for (let i = 0; i < lines.length; i++) {
+      const located = findOnLine(i);
+      if (located) return located;
+    }
+
+    return null;
+  }
+
+  private planInsertOnLine(ctx: EntityPlannerContext, row: PropertyRow): ReplaceRangeEdit | null {
+    const lines = ctx.content.split('\n');
+    const lineIndex = (row.line_number ?? 0) - 1;
+    if (lineIndex < 0 || lineIndex >= lines.length) return null;
+
+    let lineStart = 0;
+    for (let i = 0; i < lineIndex; i++) {
+      lineStart += lines[i].length + 1;
+    }
+
+    // Keep a trailing block id last so the block reference still resolves
+    const line = lines[lineIndex].replace(/\r$/, '');
+    const blockIdMatch = line.match(/\s+\^[\w-]+\s*$/);
+    const insertAt = lineStart + (blockIdMatch ? line.length - blockIdMatch[0].length : line.trimEnd().length);
+    const field = formatInlineField(row.key, row.value ?? '', 'bracket');
+
+    return {
+      type: "replaceRange",
+      path: ctx.path,
+      range: { start: insertAt, end: insertAt },
+      text: line.trim() === '' ? field : ` ${field}`,
+      reason: "insert inline field"
+    };
+  }
+
+  /**
+   * A whole-line field takes its line with it; a bracketed field takes one neighbouring space.
+   */
+  private createDeleteEdit(ctx: EntityPlannerContext, located: LocatedField): ReplaceRangeEdit {
+    const { lineStart, line, field } = located;
+
+    if (field.syntax === 'line') {
+      const lineEnd = ctx.content.indexOf('\n', lineStart);
+      const range = ContentLocationService.expandRangeToIncludeNewline(ctx.content, { start: lineStart, end: lineEnd === -1 ? ctx.content.length : lineEnd });
+      return { type: "replaceRange", path: ctx.path, range, text: "", reason: "delete inline field" };
+    }
+
+    let start = field.start;
+    let end = field.end;
+    if (start > 0 && line[start - 1] === ' ') {
+      start--;
+    }
+    else if (line[end] === ' ') {
+      end++;
+    }
+
+    return {
+      type: "replaceRange",
+      path: ctx.path,
+      range: { start: lineStart + start, end: lineStart + end },
+      text: "",
+      reason: "delete inline field"
+    };
+  }
+}
@@ -1,11 +1,19 @@
 import { ContentLocationService } from '../Services/ContentLocationService';
-import type { TaskRow, ReplaceRangeEdit, EntityPlanResult, EntityPlannerContext } from './types';
+import { DEFAULT_SETTINGS } from '../Settings/Settings';
+import { resolveTaskStatus, symbolForTaskStatus } from '../utils/TaskStatusUtils';
+import { todayDateString } from '../utils/DateUtils';
+import { nextOccurrenceDates, parseRecurrence } from '../utils/RecurrenceUtils';
+import { formatDataviewTaskField, parseTaskIdList, resolveTaskWriteFormat, stripDataviewTaskFields, type DataviewTaskColumn } from '../utils/TaskFormatUtils';
+import type { TaskRow, ReplaceRangeEdit, EntityPlanResult, EntityPlannerContext, Range, TaskWriteOptions } from './types';
 import { getBlockIdSuffix } from './types';
 
-interface TaskStyle { bullet: "-" | "*" | "+"; indent: string; }
+interface TaskStyle { bullet: "-" | "*" | "+"; indent: string; symbol?: string; }
 
 export class TaskEditPlanner {
-  public constructor(private readonly contentLocationService: ContentLocationService) {}
+  public constructor(
+    private readonly contentLocationService: ContentLocationService,
+    private readonly getTaskOptions: () => TaskWriteOptions = () => ({ statuses: [], format: 'emoji', transitions: DEFAULT_SETTINGS.taskTransitions })
+  ) {}
 
   public planTaskEdits(ctx: EntityPlannerContext, tasks: TaskRow[], tasksToDelete: TaskRow[]): EntityPlanResult {
     const edits: ReplaceRangeEdit[] = [];
@@ -13,27 +21,50 @@ export class TaskEditPlanner {
     const newTasks: TaskRow[] = [];
     const tasksWithLineNumber: TaskRow[] = [];
 
-    for (const row of tasks) {
-      if (row.line_number === -1) {
-        newTasks.push(row);
+    for (const original of tasks) {
+      if (original.line_number === -1) {
+        newTasks.push(this.applyStatusTransition(original));
         continue;
       }
 
-      if (row.line_number != null && row.line_number > 0 && row.start_offset == null && row.end_offset == null && !row.block_id) {
-        tasksWithLineNumber.push(row);
+      if (original.line_number != null && original.line_number > 0 && original.start_offset == null && original.end_offset == null && !original.block_id) {
+        tasksWithLineNumber.push(this.applyStatusTransition(original));
         continue;
       }
 
-      const loc = this.contentLocationService.locateTask(ctx.content, row);
+      const loc = this.contentLocationService.locateTask(ctx.content, original);
       if (loc.kind === "miss") {
-        warnings.push(`${ctx.path}: task ${row.id} - ${loc.reason}`);
+        warnings.push(`${ctx.path}: task ${original.id} - ${loc.reason}`);
         continue;
       }
       const existing = ctx.content.slice(loc.range.start, loc.range.end);
+      const row = this.applyStatusTransition(original, existing);
       const next = this.emitTaskLine(row, !!row.completed, existing);
-      if (next !== existing) {
+      const occurrence = this.emitNextOccurrence(ctx.path, row, existing, next, warnings);
+
+      // 🏁 delete: the completed instance makes way for the next one
+      if (occurrence !== null && row.on_completion?.trim().toLowerCase() === 'delete') {
+        edits.push({ type: "replaceRange", path: ctx.path, range: loc.range, text: occurrence, reason: "replace completed recurring task" });
+        continue;
+      }
+
+      const moveEdits = row.previous_line_number != null && row.line_number != null && row.line_number > 0
+        ? this.planMove(ctx, row, loc.range, next, warnings)
+        : null;
+
+      if (moveEdits) {
+        edits.push(...moveEdits);
+      }
+      else if (next !== existing) {
         edits.push({ type: "replaceRange", path: ctx.path, range: loc.range, text: next, reason: "update task" });
       }
+
+      // Pushed after the task's own edit, which may start at the same offset, so it lands above the task
+      if (occurrence !== null) {
+        const lineStart = ctx.content.lastIndexOf('\n', loc.range.start - 1) + 1;
+        const linePrefix = ctx.content.slice(lineStart, loc.range.start);
+        edits.push({ type: "replaceRange", path: ctx.path, range: { start: lineStart, end: lineStart }, text: `${linePrefix}${occurrence}\n`, reason: "insert next occurrence of recurring task" });
+      }
     }
 
     if (tasksWithLineNumber.length > 0) {
@@ -80,17 +111,35 @@ export class TaskEditPlanner {
       });
     }
 
+    // Subtasks go with their parent, so a deleted task takes its nested lines along.
+    // Subtrees of several deleted tasks can nest or touch, so they are merged first.
+    const deleteRanges: Range[] = [];
     for (const row of tasksToDelete) {
       const loc = this.contentLocationService.locateTask(ctx.content, row);
       if (loc.kind === "miss") {
         warnings.push(`${ctx.path}: task ${row.id} to delete - ${loc.reason}`);
         continue;
       }
-      const deleteRange = ContentLocationService.expandRangeToIncludeNewline(ctx.content, loc.range);
+      deleteRanges.push(this.getSubtreeRange(ctx.content, loc.range));
+    }
+
+    deleteRanges.sort((a, b) => a.start - b.start);
+    const mergedRanges: Range[] = [];
+    for (const range of deleteRanges) {
+      const last = mergedRanges[mergedRanges.length - 1];
+      if (last && range.start <= last.end + 1) {
+        last.end = Math.max(last.end, range.end);
+      }
+      else {
+        mergedRanges.push({ ...range });
+      }
+    }
+
+    for (const range of mergedRanges) {
       edits.push({
         type: "replaceRange",
         path: ctx.path,
-        range: deleteRange,
+        range: ContentLocationService.expandRangeToIncludeNewline(ctx.content, range),
         text: "",
         reason: "delete task"
       });
@@ -99,60 +148,240 @@ export class TaskEditPlanner {
     return { edits, warnings };
   }
 
-  private parseTaskStyle(existing: string): TaskStyle {
-    const m = existing.match(/^(\s*)([-*+])\s+\[[ xX]\]/);
-    return { indent: m?.[1] ?? "", bullet: (m?.[2] as "-" | "*" | "+") ?? "-" };
+  /**
+   * Fill in the dates a status change implies, like checking a box in the Tasks plugin:
+   * ✅ when a task becomes DONE, ❌ when it becomes CANCELLED and ➕ on inserted tasks,
+   * each only when the row does not already carry the date. `existing` is the current
+   * line, or undefined for an inserted task.
+   */
+  private applyStatusTransition(row: TaskRow, existing?: string): TaskRow {
+    const { statuses, transitions } = this.getTaskOptions();
+    const existingSymbol = existing !== undefined ? this.parseTaskStyle(existing).symbol : undefined;
+    const before = existing !== undefined ? resolveTaskStatus(existingSymbol ?? ' ', statuses).type : null;
+    const after = resolveTaskStatus(this.chooseStatusSymbol(row, !!row.completed, existingSymbol), statuses).type;
+    const today = todayDateString();
+    const result = { ...row };
+
+    if (after === 'DONE' && before !== 'DONE' && transitions.stampDoneDate && !result.done_date) {
+      result.done_date = today;
+    }
+    if (after === 'CANCELLED' && before !== 'CANCELLED' && transitions.stampCancelledDate && !result.cancelled_date) {
+      result.cancelled_date = today;
+    }
+    if (existing === undefined && transitions.stampCreatedDate && !result.created_date) {
+      result.created_date = today;
+    }
+
+    return result;
   }
 
-  public emitTaskLine(base: TaskRow, completed: boolean, existing?: string): string {
-    const style = existing ? this.parseTaskStyle(existing) : { indent: "", bullet: "-" as const };
-    const blockIdSuffix = getBlockIdSuffix(base.block_id, existing);
+  /**
+   * Line for the next occurrence when this update completes a recurring task, like
+   * checking it off in the Tasks plugin. Null when the task is not recurring, was already
+   * complete, or stays open.
+   */
+  private emitNextOccurrence(path: string, row: TaskRow, existing: string, next: string, warnings: string[]): string | null {
+    if (!row.recurrence) return null;
+
+    const { statuses } = this.getTaskOptions();
+    const isDone = (line: string): boolean => resolveTaskStatus(this.parseTaskStyle(line).symbol ?? ' ', statuses).type === 'DONE';
+    if (isDone(existing) || !isDone(next)) return null;
+
+    const rule = parseRecurrence(row.recurrence);
+    if (!rule) {
+      warnings.push(`${path}: task ${row.id} - recurrence "${row.recurrence}" is not understood, so no next occurrence was created`);
+      return null;
+    }
 
-    const status = base.status?.toUpperCase() ?? '';
+    const today = todayDateString();
+    const occurrence: TaskRow = {
+      ...row,
+      ...nextOccurrenceDates(rule, row, row.done_date ?? today),
+      status: 'TODO',
+      status_symbol: null,
+      created_date: row.created_date ? today : null,
+      done_date: null,
+      cancelled_date: null,
+      // Task IDs must stay unique, and the block ID belongs to the completed instance
+      task_id: null,
+      block_id: null
+    };
+
+    return this.emitTaskLine(occurrence, false, existing.replace(/\s+\^[\w-]+\s*$/, ''));
+  }
 
-    let box: string;
-    if (status === 'CANCELLED') {
-      box = "[-]";
+  /**
+   * Move a task together with its subtasks so it starts where line_number currently is.
+   * Returns null when the task stays where it is and only needs an in-place update.
+   */
+  private planMove(ctx: EntityPlannerContext, row: TaskRow, taskRange: Range, taskLine: string, warnings: string[]): ReplaceRangeEdit[] | null {
+    const subtree = this.getSubtreeRange(ctx.content, taskRange);
+    const deleteRange = ContentLocationService.expandRangeToIncludeNewline(ctx.content, subtree);
+    const insertionPoint = ContentLocationService.findInsertionPointAtLine(ctx.content, row.line_number!);
+    const offset = insertionPoint.offset;
+
+    if (offset === subtree.start || (offset > subtree.end && offset <= deleteRange.end)) {
+      return null;
     }
-
-    else if (status === 'IN_PROGRESS') {
-      box = "[/]";
+    if (offset > subtree.start && offset <= subtree.end) {
+      warnings.push(`${ctx.path}: task ${row.id} cannot move to line ${row.line_number}, which is inside its own subtasks`);
+      return null;
     }
 
-    else if (status === 'DONE' || completed) {
-      box = "[x]";
+    const block = taskLine + ctx.content.slice(taskRange.end, subtree.end).replace(/\r$/, '');
+    const prefix = insertionPoint.needsNewlineBefore ? '\n' : '';
+    const suffix = insertionPoint.needsNewlineAfter ? '\n' : '';
+
+    return [
+      { type: "replaceRange", path: ctx.path, range: deleteRange, text: "", reason: "move task" },
+      { type: "replaceRange", path: ctx.path, range: { start: offset, end: offset }, text: prefix + block + suffix, reason: "move task" }
+    ];
+  }
+
+  /**
+   * Extend a task's line range over the lines nested under it: following lines indented
+   * deeper than the task, with blank lines in between. Trailing blank lines are left out.
+   */
+  private getSubtreeRange(content: string, taskRange: Range): Range {
+    const lineStart = content.lastIndexOf('\n', taskRange.start - 1) + 1;
+    const taskIndent = this.measureIndent(content.slice(lineStart, taskRange.end));
+
+    let end = taskRange.end;
+    let cursor = content.indexOf('\n', taskRange.end);
+    while (cursor !== -1 && cursor < content.length) {
+      const nextLineEnd = content.indexOf('\n', cursor + 1);
+      const lineEnd = nextLineEnd === -1 ? content.length : nextLineEnd;
+      const line = content.slice(cursor + 1, lineEnd).replace(/\r$/, '');
+
+      if (line.trim() !== '') {
+        if (this.measureIndent(line) <= taskIndent) break;
+        end = lineEnd;
+      }
+      cursor = nextLineEnd;
     }
 
-    else {
-      box = "[ ]";
+    return { start: taskRange.start, end };
+  }
+
+  // Indentation after any blockquote markers, counting a tab as four spaces
+  private measureIndent(line: string): number {
+    const whitespace = line.replace(/^(?:\s*>)*/, '').match(/^[ \t]*/)?.[0] ?? '';
+    return whitespace.replace(/\t/g, '    ').length;
+  }
+
+  private parseTaskStyle(existing: string): TaskStyle {
+    const m = existing.match(/^(\s*)([-*+])\s+\[([^\]])\]/);
+    return { indent: m?.[1] ?? "", bullet: (m?.[2] as "-" | "*" | "+") ?? "-", symbol: m?.[3] };
+  }
+
+  /**
+   * Checkbox symbol for a task row. A known status picks its symbol, keeping the current
+   * one when it already stands for that status. Without a status (the handler clears it
+   * when only status_symbol was changed) the symbol is written as given.
+   */
+  private chooseStatusSymbol(base: TaskRow, completed: boolean, existingSymbol?: string): string {
+    const customStatuses = this.getTaskOptions().statuses;
+    const currentSymbol = base.status_symbol ?? existingSymbol;
+
+    if (base.status) {
+      const symbol = symbolForTaskStatus(base.status, customStatuses, currentSymbol);
+      if (symbol !== null) return symbol;
+    }
+    else if (base.status_symbol?.length === 1) {
+      return base.status_symbol;
     }
 
+    return completed ? 'x' : ' ';
+  }
+
+  public emitTaskLine(base: TaskRow, completed: boolean, existing?: string): string {
+    const style = existing ? this.parseTaskStyle(existing) : { indent: "", bullet: "-" as const };
+    const blockIdSuffix = getBlockIdSuffix(base.block_id, existing);
+
+    const symbol = this.chooseStatusSymbol(base, completed, style.symbol);
+    const { statuses, format, transitions } = this.getTaskOptions();
+    const statusType = resolveTaskStatus(symbol, statuses).type;
+    const box = `[${symbol}]`;
+    // Open tasks drop their ✅ and ❌ dates unless reopening is set to keep them
+    const keepDone = statusType === 'DONE' || completed || !transitions.clearDatesOnReopen;
+    const keepCancelled = statusType === 'CANCELLED' || !transitions.clearDatesOnReopen;
+
     let text = base.task_text ?? "";
 
-    // Strip existing metadata markers from task_text to avoid duplication
-    text = text.replace(/🔺|⏫|🔼|🔽|⏬/g, '');
-    text = text.replace(/➕\s*\d{4}-\d{2}-\d{2}/g, '');
-    text = text.replace(/⏳\s*\d{4}-\d{2}-\d{2}/g, '');
-    text = text.replace(/🛫\s*\d{4}-\d{2}-\d{2}/g, '');
-    text = text.replace(/📅\s*\d{4}-\d{2}-\d{2}/g, '');
-    text = text.replace(/✅\s*\d{4}-\d{2}-\d{2}/g, '');
-    text = text.replace(/❌\s*\d{4}-\d{2}-\d{2}/g, '');
-    text = text.replace(/🔁\s*[^📅⏳🛫➕✅❌🔺⏫🔼🔽⏬🆔⛔🏁#]*/g, '');
-    text = text.replace(/🏁\s*\w+/g, '');
-    text = text.replace(/🆔\s*[\w-]+/g, '');
-    text = text.replace(/⛔\s*[\w,-]+/g, '');
+    // Strip the metadata markers the indexer parsed into columns; they are re-emitted below.
+    // Markers of a format that is not parsed stay part of the text.
+    if (format !== 'dataview') {
+      text = text.replace(/🔺|⏫|🔼|🔽|⏬/g, '');
+      text = text.replace(/➕\s*\d{4}-\d{2}-\d{2}/g, '');
+      text = text.replace(/⏳\s*\d{4}-\d{2}-\d{2}/g, '');
+      text = text.replace(/🛫\s*\d{4}-\d{2}-\d{2}/g, '');
+      text = text.replace(/📅\s*\d{4}-\d{2}-\d{2}/g, '');
+      text = text.replace(/✅\s*\d{4}-\d{2}-\d{2}/g, '');
+      text = text.replace(/❌\s*\d{4}-\d{2}-\d{2}/g, '');
+      text = text.replace(/🔁\s*[^📅⏳🛫➕✅❌🔺⏫🔼🔽⏬🆔⛔🏁#]*/g, '');
+      text = text.replace(/🏁\s*\w+/g, '');
+      text = text.replace(/🆔\s*[\w-]+/g, '');
+      text = text.replace(/⛔\s*[\w-]+(?:\s*,\s*[\w-]+)*/g, '');
+    }
+    if (format !== 'emoji') {
+      text = stripDataviewTaskFields(text);
+    }
     text = text.replace(/#[\w-]+/g, '');
     text = text.replace(/\s+\^[\w-]+\s*$/, '');
     text = text.trim();
 
     const parts: string[] = [text];
 
+    if (resolveTaskWriteFormat(format, existing) === 'dataview') {
+      parts.push(...this.emitDataviewFields(base, keepDone, keepCancelled));
+    }
+    else {
+      parts.push(...this.emitEmojiFields(base, keepDone, keepCancelled));
+    }
+
+    if (base.tags) {
+      const tagStr = base.tags.trim();
+      if (tagStr) {
+        const formattedTags = tagStr.split(/\s+/)
+          .map(tag => tag.startsWith('#') ? tag : `#${tag}`)
+          .join(' ');
+        parts.push(formattedTags);
+      }
+    }
+
+    const fullText = parts.filter(p => p).join(' ');
+    return `${style.indent}${style.bullet} ${box} ${fullText}${blockIdSuffix}`;
+  }
+
+  private emitDataviewFields(base: TaskRow, keepDone: boolean, keepCancelled: boolean): string[] {
+    const values: Record<DataviewTaskColumn, string | null | undefined> = {
+      created_date: base.created_date,
+      scheduled_date: base.scheduled_date,
+      start_date: base.start_date,
+      due_date: base.due_date,
+      done_date: keepDone ? base.done_date : null,
+      cancelled_date: keepCancelled ? base.cancelled_date : null,
+      recurrence: base.recurrence,
+      on_completion: base.on_completion,
+      priority: base.priority?.toLowerCase(),
+      task_id: base.task_id,
+      depends_on: parseTaskIdList(base.depends_on).join(',')
+    };
+
+    return (Object.keys(values) as DataviewTaskColumn[])
+      .filter(column => values[column])
+      .map(column => formatDataviewTaskField(column, values[column]!));
+  }
+
+  private emitEmojiFields(base: TaskRow, keepDone: boolean, keepCancelled: boolean): string[] {
+    const parts: string[] = [];
+
     if (base.created_date) parts.push(`➕ ${base.created_date}`);
     if (base.scheduled_date) parts.push(`⏳ ${base.scheduled_date}`);
     if (base.start_date) parts.push(`🛫 ${base.start_date}`);
     if (base.due_date) parts.push(`📅 ${base.due_date}`);
-    if (base.done_date && (status === 'DONE' || completed)) parts.push(`✅ ${base.done_date}`);
-    if (base.cancelled_date && status === 'CANCELLED') parts.push(`❌ ${base.cancelled_date}`);
+    if (base.done_date && keepDone) parts.push(`✅ ${base.done_date}`);
+    if (base.cancelled_date && keepCancelled) parts.push(`❌ ${base.cancelled_date}`);
     if (base.recurrence) parts.push(`🔁 ${base.recurrence}`);
     if (base.on_completion) parts.push(`🏁 ${base.on_completion}`);
 
@@ -167,19 +396,9 @@ export class TaskEditPlanner {
     }
 
     if (base.task_id) parts.push(`🆔 ${base.task_id}`);
-    if (base.depends_on) parts.push(`⛔ ${base.depends_on}`);
-
-    if (base.tags) {
-      const tagStr = base.tags.trim();
-      if (tagStr) {
-        const formattedTags = tagStr.split(/\s+/)
-          .map(tag => tag.startsWith('#') ? tag : `#${tag}`)
-          .join(' ');
-        parts.push(formattedTags);
-      }
-    }
+    const dependsOn = parseTaskIdList(base.depends_on);
+    if (dependsOn.length > 0) parts.push(`⛔ ${dependsOn.join(',')}`);
 
-    const fullText = parts.filter(p => p).join(' ');
-    return `${style.indent}${style.bullet} ${box} ${fullText}${blockIdSuffix}`;
+    return parts;
   }
 }
@@ -2,4 +2,6 @@ export * from './types';
 export { TaskEditPlanner } from './TaskEditPlanner';
 export { HeadingEditPlanner } from './HeadingEditPlanner';
 export { ListItemEditPlanner } from './ListItemEditPlanner';
+export { CalloutEditPlanner } from './CalloutEditPlanner';
+export { InlineFieldEditPlanner } from './InlineFieldEditPlanner';
 export { TableEditPlanner } from './TableEditPlanner';
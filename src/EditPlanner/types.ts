@@ -1,6 +1,9 @@
-import type { TaskRow, HeadingRow, ListItemRow, TableCellRow, Range } from '../Services/ContentLocationService';
+import type { TaskRow, HeadingRow, ListItemRow, CalloutRow, TableCellRow, Range } from '../Services/ContentLocationService';
+import type { TaskParseOptions } from '../Services/NoteParser';
+import type { TaskTransitionSettings } from '../Settings/Settings';
+import type { JsonPath } from '../utils/JsonPathUtils';
 
-export type { TaskRow, HeadingRow, ListItemRow, TableCellRow, Range };
+export type { TaskRow, HeadingRow, ListItemRow, CalloutRow, TableCellRow, Range };
 
 export type FrontmatterValue = string | number | boolean | null | undefined | Date | FrontmatterValue[] | { [key: string]: FrontmatterValue };
 export type FrontmatterData = { [key: string]: FrontmatterValue };
@@ -25,11 +28,28 @@ export type DeleteFileEdit = { type: "deleteFile"; path: string; reason?: string
 
 export type Edit = ReplaceRangeEdit | FrontmatterEdit | CreateFileEdit | DeleteFileEdit;
 
+/** Task settings the planner reads on every write, so settings changes apply right away */
+export interface TaskWriteOptions extends TaskParseOptions {
+  transitions: TaskTransitionSettings;
+}
+
 export interface PropertyRow {
   path: string;
   key: string;
   value: string | null;
+  /** properties.value_type, which decides the YAML type the value is written as */
   type: string | null;
+  /** Element of a list property; null for the whole value */
+  array_index?: number | null;
+  /** Value inside the property's JSON that this row sets or removes, empty for the whole key (note_frontmatter writes) */
+  json_path?: JsonPath;
+  /** 'inline' rows are edited in the note body instead of the frontmatter */
+  source?: string | null;
+  line_number?: number | null;
+  /** Key the inline field had before a rename */
+  previous_key?: string;
+  /** Set for INSERTs, so an inline field that cannot be found is added rather than reported missing */
+  is_new?: boolean;
 }
 
 export interface TableRowGroup {
@@ -0,0 +1,181 @@
+import { autocompletion } from '@codemirror/autocomplete';
+import { EditorState, Extension } from '@codemirror/state';
+import type { Completion, CompletionContext, CompletionResult, CompletionSource } from '@codemirror/autocomplete';
+import { SQL_KEYWORDS, SQL_FUNCTIONS, getVaultqueryBlockAt } from './SqlHighlightExtension';
+import { SQL_COMPLETION_LANGUAGES } from '../Constants/EditorConstants';
+import { CustomSQLFunctions } from '../Database/CustomSQLFunctions';
+import VaultQueryPlugin from '../main';
+
+// Schema lookups run PRAGMA per table, so cache them briefly while the user types
+const SCHEMA_CACHE_TTL_MS = 10000;
+
+const TABLE_REFERENCE_PATTERN = /\b(?:from|join|update|into)\s+([A-Za-z_][\w]*)(?:\s+(?:as\s+)?([A-Za-z_][\w]*))?/gi;
+
+interface CompletionSchema {
+  tables: Map<string, { type: 'table' | 'view'; columns: string[] }>;
+  userViews: Set<string>;
+  userFunctions: string[];
+  propertyKeys: string[];
+  loadedAt: number;
+}
+
+class SchemaCache {
+  private schema: CompletionSchema | null = null;
+
+  public constructor(private plugin: VaultQueryPlugin) {}
+
+  public get(): CompletionSchema | null {
+    const api = this.plugin.api;
+    if (!api) return this.schema;
+
+    // Keep serving the previous schema while indexing rather than competing for the database
+    if (this.schema && (api.getIndexingStatus().isIndexing || Date.now() - this.schema.loadedAt < SCHEMA_CACHE_TTL_MS)) {
+      return this.schema;
+    }
+
+    const { objects, propertyKeys } = api.getCompletionSchema();
+    this.schema = {
+      tables: new Map(objects.map(object => [object.name.toLowerCase(), { type: object.type, columns: object.columns }])),
+      userViews: new Set(api.getAllUserViews().map(view => view.view_name.toLowerCase())),
+      userFunctions: api.getAllUserFunctions().map(fn => fn.function_name),
+      propertyKeys,
+      loadedAt: Date.now()
+    };
+    return this.schema;
+  }
+}
+
+/**
+ * Map table names and their aliases to the referenced table,
+ * e.g. `FROM notes n JOIN tasks t` gives n -> notes, t -> tasks.
+ */
+function collectTableReferences(query: string, schema: CompletionSchema): Map<string, string> {
+  const references = new Map<string, string>();
+
+  for (const match of query.matchAll(TABLE_REFERENCE_PATTERN)) {
+    const table = match[1].toLowerCase();
+    if (!schema.tables.has(table)) continue;
+
+    references.set(table, table);
+    const alias = match[2]?.toLowerCase();
+    if (alias && !SQL_KEYWORDS.has(alias)) {
+      references.set(alias, table);
+    }
+  }
+
+  return references;
+}
+
+function isInsideStringLiteral(lineBefore: string): boolean {
+  return (lineBefore.match(/'/g)?.length ?? 0) % 2 === 1;
+}
+
+function buildSqlCompletions(context: CompletionContext, query: string, schema: CompletionSchema): CompletionResult | null {
+  const line = context.state.doc.lineAt(context.pos);
+  const lineBefore = line.text.slice(0, context.pos - line.from);
+
+  if (isInsideStringLiteral(lineBefore)) {
+    const word = context.matchBefore(/[^'\s]*$/);
+    if (!word || schema.propertyKeys.length === 0) return null;
+    return {
+      from: word.from,
+      options: schema.propertyKeys.map(key => ({ label: key, type: 'property', detail: 'property' })),
+      validFor: /^[^'\s]*$/
+    };
+  }
+
+  const references = collectTableReferences(query, schema);
+
+  const qualified = context.matchBefore(/[A-Za-z_][\w]*\.[\w]*$/);
+  if (qualified) {
+    const dotIndex = qualified.text.indexOf('.');
+    const table = references.get(qualified.text.slice(0, dotIndex).toLowerCase());
+    const columns = table ? schema.tables.get(table)?.columns : undefined;
+    if (!table || !columns) return null;
+
+    return {
+      from: qualified.from + dotIndex + 1,
+      options: columns.map(column => ({ label: column, type: 'property', detail: table })),
+      validFor: /^\w*$/
+    };
+  }
+
+  const word = context.matchBefore(/\w*$/);
+  if (!word || (word.from === word.to && !context.explicit)) return null;
+
+  const options: Completion[] = [];
+
+  for (const [name, { type }] of schema.tables) {
+    const isUserView = schema.userViews.has(name);
+    options.push({
+      label: name,
+      type: type === 'view' ? 'interface' : 'class',
+      detail: isUserView ? 'user view' : type,
+      boost: 2
+    });
+  }
+
+  const seenColumns = new Set<string>();
+  for (const table of new Set(references.values())) {
+    for (const column of schema.tables.get(table)?.columns ?? []) {
+      if (seenColumns.has(column)) continue;
+      seenColumns.add(column);
+      options.push({ label: column, type: 'property', detail: table, boost: 3 });
+    }
+  }
+
+  for (const name of SQL_FUNCTIONS) {
+    options.push({ label: name, type: 'function', detail: 'SQLite' });
+  }
+  for (const name of CustomSQLFunctions.FUNCTION_NAMES) {
+    options.push({ label: name, type: 'function', detail: 'VaultQuery' });
+  }
+  for (const name of schema.userFunctions) {
+    options.push({ label: name, type: 'function', detail: 'user function' });
+  }
+
+  for (const keyword of SQL_KEYWORDS) {
+    options.push({ label: keyword.toUpperCase(), type: 'keyword', boost: -1 });
+  }
+
+  return { from: word.from, options, validFor: /^\w*$/ };
+}
+
+/**
+ * Completion source for a standalone SQL editor where the whole document is the query.
+ */
+export function createSqlCompletionSource(plugin: VaultQueryPlugin): CompletionSource {
+  const cache = new SchemaCache(plugin);
+
+  return (context: CompletionContext) => {
+    const schema = cache.get();
+    if (!schema) return null;
+    return buildSqlCompletions(context, context.state.doc.toString(), schema);
+  };
+}
+
+/**
+ * Schema-aware completion inside vaultquery code blocks in the markdown editor.
+ */
+export function createSqlAutocompleteExtension(plugin: VaultQueryPlugin): Extension {
+  const cache = new SchemaCache(plugin);
+
+  const source: CompletionSource = (context: CompletionContext) => {
+    const block = getVaultqueryBlockAt(context.state, context.pos);
+    if (!block || !SQL_COMPLETION_LANGUAGES.has(block.language)) return null;
+
+    const schema = cache.get();
+    if (!schema) return null;
+
+    const doc = context.state.doc.toString();
+    const blockEnd = doc.indexOf('\n```', context.pos);
+    const query = doc.slice(block.contentStart, blockEnd === -1 ? doc.length : blockEnd);
+
+    return buildSqlCompletions(context, query, schema);
+  };
+
+  return [
+    autocompletion(),
+    EditorState.languageData.of(() => [{ autocomplete: source }])
+  ];
+}
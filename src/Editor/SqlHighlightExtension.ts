@@ -10,7 +10,7 @@ import {
 } from '@codemirror/view';
 import { VAULTQUERY_LANGUAGES } from '../Constants/EditorConstants';
 
-const SQL_KEYWORDS = new Set([
+export const SQL_KEYWORDS = new Set([
   'select', 'from', 'where', 'and', 'or', 'not', 'in', 'is', 'null',
   'like', 'between', 'exists', 'case', 'when', 'then', 'else', 'end',
   'as', 'on', 'join', 'left', 'right', 'inner', 'outer', 'cross', 'full',
@@ -23,7 +23,7 @@ const SQL_KEYWORDS = new Set([
   'nulls', 'filter', 'window', 'lateral', 'natural', 'using',
 ]);
 
-const SQL_FUNCTIONS = new Set([
+export const SQL_FUNCTIONS = new Set([
   'count', 'sum', 'avg', 'min', 'max', 'coalesce', 'nullif', 'cast',
   'substr', 'substring', 'length', 'upper', 'lower', 'trim', 'ltrim', 'rtrim',
   'replace', 'instr', 'printf', 'typeof', 'abs', 'round', 'random',
@@ -602,7 +602,40 @@ export const sqlHighlightPlugin = ViewPlugin.fromClass(
   }
 );
 
-function isInsideVaultqueryBlock(state: EditorState, pos: number): boolean {
+/**
+ * Highlights a standalone SQL editor where the whole document is a query,
+ * such as the SQL console view.
+ */
+export const sqlEditorHighlightPlugin = ViewPlugin.fromClass(
+  class {
+    decorations: DecorationSet;
+
+    public constructor(view: EditorView) {
+      this.decorations = this.build(view);
+    }
+
+    update(update: ViewUpdate) {
+      if (update.docChanged) {
+        this.decorations = this.build(update.view);
+      }
+    }
+
+    private build(view: EditorView): DecorationSet {
+      const builder = new RangeSetBuilder<Decoration>();
+      tokenizeSql(view.state.doc.toString(), 0, builder);
+      return builder.finish();
+    }
+  },
+  {
+    decorations: (v) => v.decorations,
+  }
+);
+
+/**
+ * Find the vaultquery code block containing `pos`, returning its language
+ * and the offset where the block content starts.
+ */
+export function getVaultqueryBlockAt(state: EditorState, pos: number): { language: string; contentStart: number } | null {
   const tree = syntaxTree(state);
   const doc = state.doc;
 
@@ -617,19 +650,23 @@ function isInsideVaultqueryBlock(state: EditorState, pos: number): boolean {
           const lineText = doc.sliceString(searchNode.from, searchNode.to);
           const match = lineText.match(/^```(\S+)/);
           if (match && VAULTQUERY_LANGUAGES.has(match[1])) {
-            return true;
+            return { language: match[1], contentStart: searchNode.to + 1 };
           }
-          return false;
+          return null;
         }
         if (searchNode.name.includes('HyperMD-codeblock-end')) {
-          return false;
+          return null;
         }
       }
     }
     node = node.parent;
   }
 
-  return false;
+  return null;
+}
+
+function isInsideVaultqueryBlock(state: EditorState, pos: number): boolean {
+  return getVaultqueryBlockAt(state, pos) !== null;
 }
 
 export const disableAutoPairInVaultquery = EditorState.transactionFilter.of((tr: Transaction) => {
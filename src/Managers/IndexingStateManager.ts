@@ -1,5 +1,4 @@
 import { App, TFile, normalizePath } from 'obsidian';
-import { SlickGridRenderer } from '../Renderers/SlickGridRenderer';
 import type VaultQueryPlugin from '../main';
 
 declare const activeWindow: Window;
@@ -53,18 +52,29 @@ export class IndexingStateManager {
       }
 
       const file = this.app.vault.getAbstractFileByPath(normalizePath(filePath));
-      if (file && file instanceof TFile && file.extension === 'md') {
-        try {
-          this.currentlyIndexingFiles.add(filePath);
+      if (!(file instanceof TFile) || !this.plugin.api) {
+        continue;
+      }
+
+      try {
+        this.currentlyIndexingFiles.add(filePath);
+        const recorded = await this.plugin.api.indexFileRecord(file);
+        if (this.shouldProcessFile(file)) {
           await this.indexFile(file);
           indexedPaths.push(filePath);
         }
-        catch (error) {
-          console.error('[VaultQuery] Error indexing', filePath, error);
-        } finally {
-          this.currentlyIndexingFiles.delete(filePath);
+        else if (file.extension === 'canvas' && await this.plugin.api.indexCanvas(file)) {
+          indexedPaths.push(filePath);
+        }
+        else if (recorded) {
+          indexedPaths.push(filePath);
         }
       }
+      catch (error) {
+        console.error('[VaultQuery] Error indexing', filePath, error);
+      } finally {
+        this.currentlyIndexingFiles.delete(filePath);
+      }
     }
 
     if (indexedPaths.length > 0 && this.plugin.api) {
@@ -73,10 +83,6 @@ export class IndexingStateManager {
       if (this.plugin.settings.enableDynamicTableViews) {
         this.plugin.api.rebuildTableViews();
       }
-
-      if (this.plugin.settings.autoRefreshOnIndexChange) {
-        void SlickGridRenderer.refreshAllGrids(indexedPaths);
-      }
     }
   }
 
@@ -131,6 +137,22 @@ export class IndexingStateManager {
     return file instanceof TFile && file.extension === 'md' && this.plugin.api.shouldIndexFile(file);
   }
 
+  /**
+   * Besides notes, files of any type are queued while the files table is enabled, and canvases
+   * while canvas indexing is. Exclusions are checked when the queued file is processed.
+   */
+  private shouldQueueFile(file: TFile): boolean {
+    if (this.shouldProcessFile(file)) {
+      return true;
+    }
+    if (!this.plugin.api) {
+      return false;
+    }
+
+    const features = this.plugin.settings.enabledFeatures;
+    return features.indexFiles || (features.indexCanvases && file.extension === 'canvas');
+  }
+
   public canProcessFiles(): boolean {
     if (!this.plugin.api) {
       return false;
@@ -174,7 +196,7 @@ export class IndexingStateManager {
       return;
     }
 
-    if (this.shouldProcessFile(file)) {
+    if (this.shouldQueueFile(file)) {
       this.queueIndexing(file.path);
     }
   }
@@ -184,7 +206,7 @@ export class IndexingStateManager {
       return;
     }
 
-    if (!this.shouldProcessFile(file)) {
+    if (!this.shouldQueueFile(file)) {
       return;
     }
 
@@ -192,17 +214,42 @@ export class IndexingStateManager {
   }
 
   private handleFileDelete(file: TFile): void {
-    if (file instanceof TFile && file.extension === 'md' && this.canProcessFiles()) {
+    if (!(file instanceof TFile) || !this.canProcessFiles()) {
+      return;
+    }
+
+    if (file.extension === 'md') {
       this.plugin.api?.removeNote(file.path);
     }
+    else if (file.extension === 'canvas') {
+      this.plugin.api?.removeCanvas(file.path).catch(error => {
+        console.error(`[VaultQuery] Failed to remove canvas ${file.path}:`, error);
+      });
+    }
+    this.plugin.api?.removeFileRecord(file.path).catch(error => {
+      console.error(`[VaultQuery] Failed to remove file record ${file.path}:`, error);
+    });
   }
 
   private handleFileRename(file: TFile, oldPath: string): void {
-    if (file instanceof TFile && file.extension === 'md' && this.canProcessFiles()) {
+    if (!(file instanceof TFile) || !this.canProcessFiles()) {
+      return;
+    }
+
+    if (file.extension === 'md') {
       this.plugin.api?.removeNote(oldPath);
-      if (this.plugin.api?.shouldIndexFile(file)) {
-        this.queueIndexing(file.path);
-      }
+    }
+    else if (file.extension === 'canvas') {
+      this.plugin.api?.removeCanvas(oldPath).catch(error => {
+        console.error(`[VaultQuery] Failed to remove canvas ${oldPath}:`, error);
+      });
+    }
+    this.plugin.api?.removeFileRecord(oldPath).catch(error => {
+      console.error(`[VaultQuery] Failed to remove file record ${oldPath}:`, error);
+    });
+
+    if (this.shouldQueueFile(file)) {
+      this.queueIndexing(file.path);
     }
   }
 
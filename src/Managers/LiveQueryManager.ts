@@ -0,0 +1,164 @@
+import { MarkdownPostProcessorContext, MarkdownRenderChild } from 'obsidian';
+import type VaultQueryPlugin from '../main';
+import type { EventRef, FileIndexedEvent, FileRemovedEvent, VaultIndexedEvent } from '../VaultQueryAPI';
+
+declare const activeWindow: Window;
+
+const REFRESH_DEBOUNCE_MS = 300;
+
+interface LiveQuery {
+  tables: Set<string>;
+  /** Template variables like {this.status} are read from the source note */
+  sourcePath?: string;
+  usesThisNote: boolean;
+  refresh: () => Promise<void>;
+  running: boolean;
+  rerun: boolean;
+}
+
+interface PendingChanges {
+  all: boolean;
+  /** `path` is null for a vault index pass, which has no single source note */
+  changes: Array<{ path: string | null; tables: string[] }>;
+}
+
+/**
+ * Re-runs rendered query blocks when indexing touches the tables they read.
+ * Each block records its dependencies once when it registers; file-indexed,
+ * file-removed and vault-indexed events are collected for a short debounce window
+ * and only the blocks whose tables were touched are refreshed. A block that reads
+ * template variables from its note is also refreshed when that note changes, and
+ * every block is refreshed after a forced reindex.
+ */
+export class LiveQueryManager {
+  private queries = new Map<HTMLElement, LiveQuery>();
+  private eventRefs: EventRef[] = [];
+  private pending: PendingChanges = { all: false, changes: [] };
+  private flushTimer: number | null = null;
+
+  public constructor(private plugin: VaultQueryPlugin) {}
+
+  public start(): void {
+    const api = this.plugin.api;
+    if (!api || this.eventRefs.length > 0) return;
+
+    this.eventRefs = [
+      api.on('file-indexed', (event: FileIndexedEvent) => this.queueChange(event.path, event.tables)),
+      api.on('file-removed', (event: FileRemovedEvent) => this.queueChange(event.path, event.tables)),
+      // Vault index passes run in batches without per-file events; a forced one rebuilds every table
+      api.on('vault-indexed', (event: VaultIndexedEvent) => {
+        if (event.isForced) {
+          this.pending.all = true;
+          this.scheduleFlush();
+        }
+        else {
+          this.queueChange(null, event.tables);
+        }
+      })
+    ];
+  }
+
+  public stop(): void {
+    this.eventRefs.forEach(ref => this.plugin.api?.off(ref));
+    this.eventRefs = [];
+
+    if (this.flushTimer !== null) {
+      activeWindow.clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    this.pending = { all: false, changes: [] };
+    this.queries.clear();
+  }
+
+  /**
+   * Track a rendered query. Registering the same container again replaces its entry.
+   * When a post-processor context is given, the entry is dropped as soon as Obsidian
+   * unloads the block.
+   */
+  public register(container: HTMLElement, sql: string, refresh: () => Promise<void>, sourcePath?: string, ctx?: MarkdownPostProcessorContext): void {
+    const api = this.plugin.api;
+    if (!api) return;
+
+    const isNew = !this.queries.has(container);
+
+    this.queries.set(container, {
+      tables: new Set(api.getReferencedTables(sql)),
+      sourcePath,
+      usesThisNote: sql.includes('{this.'),
+      refresh,
+      running: false,
+      rerun: false
+    });
+
+    if (isNew && ctx) {
+      const child = new MarkdownRenderChild(container);
+      child.onunload = () => this.unregister(container);
+      ctx.addChild(child);
+    }
+  }
+
+  public unregister(container: HTMLElement): void {
+    this.queries.delete(container);
+  }
+
+  private queueChange(path: string | null, tables: string[]): void {
+    if (tables.length === 0) return;
+
+    this.pending.changes.push({ path, tables });
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer !== null) {
+      activeWindow.clearTimeout(this.flushTimer);
+    }
+
+    this.flushTimer = activeWindow.setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, REFRESH_DEBOUNCE_MS);
+  }
+
+  private flush(): void {
+    const pending = this.pending;
+    this.pending = { all: false, changes: [] };
+
+    if (!this.plugin.settings.autoRefreshOnIndexChange) return;
+
+    for (const query of this.queries.values()) {
+      if (pending.all || pending.changes.some(change => this.isAffected(query, change.path, change.tables))) {
+        void this.runRefresh(query);
+      }
+    }
+  }
+
+  private isAffected(query: LiveQuery, path: string | null, tables: string[]): boolean {
+    if (query.usesThisNote && path !== null && path === query.sourcePath) {
+      return true;
+    }
+
+    return tables.some(table => query.tables.has(table));
+  }
+
+  private async runRefresh(query: LiveQuery): Promise<void> {
+    if (query.running) {
+      query.rerun = true;
+      return;
+    }
+
+    query.running = true;
+    try {
+      do {
+        query.rerun = false;
+        await query.refresh();
+      } while (query.rerun);
+    }
+    catch (error) {
+      console.error('[VaultQuery] Failed to refresh live query:', error);
+    }
+    finally {
+      query.running = false;
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { App, FuzzySuggestModal, Notice, TFile } from 'obsidian';
+import { INFO_MESSAGES, getErrorMessage } from '../utils/ErrorMessages';
+
+export class SaveQueryToNoteModal extends FuzzySuggestModal<TFile> {
+  public constructor(app: App, private query: string, private language: string) {
+    super(app);
+    this.setPlaceholder('Choose a note to append the query to');
+  }
+
+  public getItems(): TFile[] {
+    return this.app.vault.getMarkdownFiles();
+  }
+
+  public getItemText(file: TFile): string {
+    return file.path;
+  }
+
+  public onChooseItem(file: TFile): void {
+    const block = `\`\`\`${this.language}\n${this.query.trim()}\n\`\`\`\n`;
+
+    void this.app.vault.process(file, (content) => {
+      if (!content) return block;
+      const separator = content.endsWith('\n') ? '\n' : '\n\n';
+      return `${content}${separator}${block}`;
+    })
+      .then(() => new Notice(INFO_MESSAGES.QUERY_SAVED_TO_NOTE(file.path)))
+      .catch((error: unknown) => new Notice(INFO_MESSAGES.COMMAND_FAILED('Save query', getErrorMessage(error))));
+  }
+}
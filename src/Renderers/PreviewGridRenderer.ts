@@ -41,7 +41,6 @@ export class PreviewGridRenderer {
 
     if (context.onRefresh) {
       BaseRenderer.addRefreshButton(buttonContainer, context.onRefresh);
-      SlickGridRenderer.registerRefreshCallback(containerId, context.onRefresh);
     }
   }
 
@@ -52,7 +52,6 @@ interface GridInstance {
 export class SlickGridRenderer extends BaseRenderer {
   private static instances = new Map<string, GridInstance>();
   private static resizeTimers = new Map<string, number>();
-  private static refreshCallbacks = new Map<string, () => Promise<void>>();
   private static columnWidthCache = new Map<string, Map<string, number>>();
 
   private static saveColumnWidths(queryHash: string, columns: Column[]): void {
@@ -77,12 +76,6 @@ export class SlickGridRenderer extends BaseRenderer {
 
     if (!results || !Array.isArray(results) || results.length === 0) {
       container.createDiv({ cls: 'vaultquery-empty', text: 'No results found' });
-
-      if (context.onRefresh) {
-        const containerId = container.id || generateUniqueId('vq-empty');
-        if (!container.id) container.id = containerId;
-        this.registerRefreshCallback(containerId, context.onRefresh);
-      }
       return;
     }
 
@@ -754,13 +747,7 @@ export class SlickGridRenderer extends BaseRenderer {
     return this.instances.size;
   }
 
-  static registerRefreshCallback(containerId: string, callback: () => Promise<void>): void {
-    this.refreshCallbacks.set(containerId, callback);
-  }
-
-  static unregisterRefreshCallback(containerId: string): void {
-    this.refreshCallbacks.delete(containerId);
-
+  static destroyGrids(containerId: string): void {
     const container = activeDocument.getElementById(containerId);
     if (container) {
       for (const [gridId, instance] of this.instances.entries()) {
@@ -772,44 +759,4 @@ export class SlickGridRenderer extends BaseRenderer {
       }
     }
   }
-
-  static async refreshAllGrids(indexedPaths?: string[]): Promise<void> {
-    const refreshPromises: Promise<void>[] = [];
-    const indexedSet = indexedPaths ? new Set(indexedPaths) : null;
-
-    for (const instance of this.instances.values()) {
-      if (instance.context.onRefresh) {
-        if (indexedSet && this.canSkipRefresh(instance.context, indexedSet)) {
-          continue;
-        }
-        refreshPromises.push(instance.context.onRefresh());
-      }
-    }
-
-    for (const [containerId, callback] of this.refreshCallbacks.entries()) {
-      if (activeDocument.getElementById(containerId)) {
-        refreshPromises.push(callback());
-      }
-      else {
-        this.refreshCallbacks.delete(containerId);
-      }
-    }
-
-    await Promise.all(refreshPromises);
-  }
-
-  private static canSkipRefresh(context: RenderContext, indexedPaths: Set<string>): boolean {
-    const query = context.parsed?.query;
-    const sourcePath = context.sourcePath;
-
-    if (!query || !sourcePath) {
-      return false;
-    }
-
-    if (query.includes('{this.path}')) {
-      return !indexedPaths.has(sourcePath);
-    }
-
-    return false;
-  }
 }
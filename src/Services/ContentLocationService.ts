@@ -1,5 +1,6 @@
 import { App, TFile, MetadataCache, normalizePath } from 'obsidian';
-import { escapeRegex, hashString } from '../utils/StringUtils';
+import { escapeRegex } from '../utils/StringUtils';
+import { computeAnchorHash, getLineOffsets, getLineStartOffset } from '../utils/LineUtils';
 import { MarkdownTableUtils } from '../utils/MarkdownTableUtils';
 
 export type Range = { start: number; end: number };
@@ -34,6 +35,7 @@ export interface TaskRow {
   task_text: string;
   completed: 0 | 1;
   status?: string | null;
+  status_symbol?: string | null;
   priority?: string | null;
   due_date?: string | null;
   scheduled_date?: string | null;
@@ -52,6 +54,8 @@ export interface TaskRow {
   end_offset?: number | null;
   anchor_hash?: string | null;
   section_heading?: string | null;
+  /** Set when an update changed line_number, which moves the task and its subtasks */
+  previous_line_number?: number | null;
 }
 
 export interface HeadingRow {
@@ -81,42 +85,31 @@ export interface ListItemRow {
   anchor_hash?: string | null;
 }
 
+export interface CalloutRow {
+  id: number;
+  path: string;
+  type: string | null;
+  title?: string | null;
+  fold_state?: string | null;
+  body: string;
+  line_number?: number | null;
+  end_line_number?: number | null;
+  block_id?: string | null;
+  section_heading?: string | null;
+  start_offset?: number | null;
+  end_offset?: number | null;
+  anchor_hash?: string | null;
+}
+
 export class ContentLocationService {
   public constructor(private app: App, private metadataCache: MetadataCache) {}
 
-  public static computeAnchorHash(content: string, lineIndex: number, lines: string[]): string {
-    const prevLine = lineIndex > 0 ? lines[lineIndex - 1] : '';
-    const currentLine = lines[lineIndex] || '';
-    const nextLine = lineIndex < lines.length - 1 ? lines[lineIndex + 1] : '';
-    
-    const contextWindow = [prevLine, currentLine, nextLine]
-      .map(line => line.trim().toLowerCase())
-      .join('\n');
-    
-    const hashInput = `${contextWindow}::L${lineIndex}`;
-    
-    return hashString(hashInput);
+  public static computeAnchorHash(_content: string, lineIndex: number, lines: string[]): string {
+    return computeAnchorHash(lineIndex, lines);
   }
 
   public static getLineOffsets(content: string, lineIndex: number): Range {
-    if (lineIndex < 0) return { start: 0, end: 0 };
-    
-    let currentPos = 0;
-    let currentLine = 0;
-    
-    while (currentLine < lineIndex && currentPos < content.length) {
-      const nextNewline = content.indexOf('\n', currentPos);
-      if (nextNewline === -1) break;
-      currentPos = nextNewline + 1;
-      currentLine++;
-    }
-    
-    const start = currentPos;
-    
-    const nextNewline = content.indexOf('\n', currentPos);
-    const end = nextNewline === -1 ? content.length : nextNewline;
-    
-    return { start, end };
+    return getLineOffsets(content, lineIndex);
   }
 
   public rangeFromBlockId(path: string, blockId: string): Range | null {
@@ -224,6 +217,36 @@ export class ContentLocationService {
     return { kind: "miss", reason: "Unable to locate list item" };
   }
 
+  /**
+   * Callouts span several lines, so every candidate range is widened from its first
+   * line to the end of the contiguous `>` block.
+   */
+  public locateCallout(content: string, row: CalloutRow): { kind: "ok"; range: Range } | { kind: "miss"; reason: string } {
+    if (row.block_id) {
+      const r = this.rangeFromBlockId(row.path, row.block_id);
+      if (r && ContentLocationService.looksLikeBlockquote(content.slice(r.start, r.end))) {
+        return { kind: "ok", range: ContentLocationService.expandToBlockquote(content, r.start) };
+      }
+    }
+
+    if (ContentLocationService.isValidRange(content, row.start_offset, row.end_offset)) {
+      const slice = content.slice(row.start_offset!, row.end_offset!);
+      const startsAtLine = row.start_offset === 0 || content[row.start_offset! - 1] === '\n';
+      if (startsAtLine && ContentLocationService.looksLikeBlockquote(slice)) {
+        return { kind: "ok", range: ContentLocationService.expandToBlockquote(content, row.start_offset!) };
+      }
+    }
+
+    if (row.anchor_hash) {
+      const r = this.searchByAnchorHash(content, row.anchor_hash);
+      if (r && ContentLocationService.looksLikeBlockquote(content.slice(r.start, r.end))) {
+        return { kind: "ok", range: ContentLocationService.expandToBlockquote(content, r.start) };
+      }
+    }
+
+    return { kind: "miss", reason: "Unable to locate callout" };
+  }
+
   public static isValidRange(content: string, start?: number | null, end?: number | null): boolean {
     if (start == null || end == null) return false;
     if (start < 0 || end < 0) return false;
@@ -241,6 +264,29 @@ export class ContentLocationService {
     return /^#{1,6}\s+/.test(slice);
   }
 
+  public static looksLikeBlockquote(slice: string): boolean {
+    return /^\s*>/.test(slice);
+  }
+
+  /**
+   * Range from the line at `start` through the last consecutive line starting with `>`
+   */
+  public static expandToBlockquote(content: string, start: number): Range {
+    let end = content.indexOf('\n', start);
+    if (end === -1) {
+      return { start, end: content.length };
+    }
+
+    while (end < content.length) {
+      const nextEnd = content.indexOf('\n', end + 1);
+      const nextLine = content.slice(end + 1, nextEnd === -1 ? content.length : nextEnd);
+      if (!ContentLocationService.looksLikeBlockquote(nextLine)) break;
+      end = nextEnd === -1 ? content.length : nextEnd;
+    }
+
+    return { start, end };
+  }
+
   public static looksLikeListItem(slice: string): boolean {
     // Match bullet lists (-, *, +) or numbered lists (1., 2), etc.)
     // Exclude task items (those have [x] or any other checkbox state)
@@ -259,7 +305,7 @@ export class ContentLocationService {
 
   private fuzzyTaskInSection(content: string, row: TaskRow): Range | null {
     const normalized = ContentLocationService.normalizeText(row.task_text ?? "");
-    const re = /^(?<indent>\s*)(?<bullet>[-*+])\s+\[[ xX]\]\s+(?<text>.*)$/gm;
+    const re = /^(?<indent>\s*)(?<bullet>[-*+])\s+\[[^\]]\]\s+(?<text>.*)$/gm;
     let best: { start: number; end: number; score: number } | null = null;
     let m: RegExpExecArray | null;
     while ((m = re.exec(content)) !== null) {
@@ -293,14 +339,7 @@ export class ContentLocationService {
   }
 
   static getLineStartOffset(content: string, lineIndex: number): number {
-    if (lineIndex <= 0) return 0;
-    let pos = 0, line = 0;
-    while (line < lineIndex && pos !== -1) {
-      pos = content.indexOf('\n', pos);
-      if (pos === -1) return content.length;
-      pos += 1; line++;
-    }
-    return pos === -1 ? content.length : pos;
+    return getLineStartOffset(content, lineIndex);
   }
 
   static getLineEndOffset(content: string, lineIndex: number): number {
@@ -362,7 +401,7 @@ export class ContentLocationService {
 
     let lastTaskLineIndex = -1;
     for (let i = lines.length - 1; i >= 0; i--) {
-      if (/^\s*[-*+]\s*\[[ xX]\]/.test(lines[i])) {
+      if (/^\s*[-*+]\s*\[[^\]]\]/.test(lines[i])) {
         lastTaskLineIndex = i;
         break;
       }
@@ -1,7 +1,8 @@
 import { App, MetadataCache } from 'obsidian';
 import { MarkdownTableUtils } from '../utils/MarkdownTableUtils';
+import { deleteAtJsonPath, getAtJsonPath, resolvePropertyPath, setAtJsonPath, type JsonPath } from '../utils/JsonPathUtils';
 import { ContentLocationService, type Range } from './ContentLocationService';
-import { TaskEditPlanner, HeadingEditPlanner, ListItemEditPlanner, TableEditPlanner, type TaskRow, type HeadingRow, type ListItemRow, type TableCellRow, type ReplaceRangeEdit, type FrontmatterEdit, type Edit, type FrontmatterValue, type FrontmatterData, type PropertyRow, type EntityPlannerContext } from '../EditPlanner';
+import { TaskEditPlanner, HeadingEditPlanner, ListItemEditPlanner, CalloutEditPlanner, InlineFieldEditPlanner, TableEditPlanner, type TaskRow, type HeadingRow, type ListItemRow, type CalloutRow, type TableCellRow, type ReplaceRangeEdit, type FrontmatterEdit, type Edit, type FrontmatterValue, type FrontmatterData, type PropertyRow, type EntityPlannerContext, type TaskWriteOptions } from '../EditPlanner';
 
 export type {
   ReplaceRangeEdit,
@@ -51,6 +52,8 @@ export interface EditPlannerPreviewResult {
   propertiesToDelete?: PropertyRow[];
   listItemsAfter?: ListItemRow[];
   listItemsToDelete?: ListItemRow[];
+  calloutsAfter?: CalloutRow[];
+  calloutsToDelete?: CalloutRow[];
   fileHashes?: Record<string, string>;
   fileMtimes?: Record<string, number>;
   filesToCreate?: Array<{ path: string; content: string }>;
@@ -64,6 +67,7 @@ export interface EditPlannerDeps {
   readFile: (path: string) => Promise<string>;
   discoverTableRange?: (content: string, tableIndex: number) => Range | null;
   queryListItemsByListIndex?: (path: string, listIndex: number) => Promise<Array<{ line_number: number | null; item_index: number }>>;
+  getTaskOptions?: () => TaskWriteOptions;
 }
 
 interface PathGroups {
@@ -74,8 +78,12 @@ interface PathGroups {
   tableCells: TableCellRow[];
   properties: PropertyRow[];
   propertiesToDelete: PropertyRow[];
+  inlineFields: PropertyRow[];
+  inlineFieldsToDelete: PropertyRow[];
   listItems: ListItemRow[];
   listItemsToDelete: ListItemRow[];
+  callouts: CalloutRow[];
+  calloutsToDelete: CalloutRow[];
 }
 
 export class EditPlanner {
@@ -83,13 +91,17 @@ export class EditPlanner {
   private readonly taskPlanner: TaskEditPlanner;
   private readonly headingPlanner: HeadingEditPlanner;
   private readonly listItemPlanner: ListItemEditPlanner;
+  private readonly calloutPlanner: CalloutEditPlanner;
+  private readonly inlineFieldPlanner: InlineFieldEditPlanner;
   private readonly tablePlanner: TableEditPlanner;
 
   public constructor(private readonly deps: EditPlannerDeps) {
     this.contentLocationService = new ContentLocationService(deps.app, deps.metadataCache);
-    this.taskPlanner = new TaskEditPlanner(this.contentLocationService);
+    this.taskPlanner = new TaskEditPlanner(this.contentLocationService, deps.getTaskOptions);
     this.headingPlanner = new HeadingEditPlanner(this.contentLocationService);
     this.listItemPlanner = new ListItemEditPlanner(this.contentLocationService);
+    this.calloutPlanner = new CalloutEditPlanner(this.contentLocationService);
+    this.inlineFieldPlanner = new InlineFieldEditPlanner();
     this.tablePlanner = new TableEditPlanner(
       this.contentLocationService,
       deps.discoverTableRange || ((content, tableIndex) => MarkdownTableUtils.findTableByIndex(content, tableIndex))
@@ -187,16 +199,36 @@ export class EditPlanner {
       );
       warnings.push(...listItemResult.warnings);
 
+      const calloutResult = this.calloutPlanner.planCalloutEdits(ctx, groups.callouts, groups.calloutsToDelete);
+      warnings.push(...calloutResult.warnings);
+
+      const inlineFieldResult = this.inlineFieldPlanner.planInlineFieldEdits(ctx, groups.inlineFields, groups.inlineFieldsToDelete);
+      warnings.push(...inlineFieldResult.warnings);
+
       if (groups.properties.length > 0 || groups.propertiesToDelete.length > 0) {
         edits.push({
           type: "frontmatter",
           path,
           mutate: (fm: FrontmatterData) => {
             for (const prop of groups.properties) {
-              fm[prop.key] = this.parsePropertyValue(prop.value, prop.type);
+              const propertyPath = this.frontmatterPathFor(fm, prop);
+              if (prop.array_index != null) {
+                this.setListElement(fm, propertyPath, prop.array_index, prop.value);
+              }
+              else {
+                setAtJsonPath(fm, propertyPath, this.parsePropertyValue(prop.value, prop.type));
+              }
             }
-            for (const prop of groups.propertiesToDelete) {
-              delete fm[prop.key];
+            // Highest index first, so removing an element does not shift the ones still to go
+            const deletions = groups.propertiesToDelete.slice().sort((a, b) => (b.array_index ?? -1) - (a.array_index ?? -1));
+            for (const prop of deletions) {
+              const propertyPath = this.frontmatterPathFor(fm, prop);
+              if (prop.array_index != null) {
+                this.deleteListElement(fm, propertyPath, prop.array_index);
+              }
+              else {
+                deleteAtJsonPath(fm, propertyPath);
+              }
             }
           },
           reason: "update properties"
@@ -204,7 +236,7 @@ export class EditPlanner {
       }
 
       const merged = this.mergeByPriorityThenValidate(
-        [tableResult.edits, headingResult.edits, taskResult.edits, listItemResult.edits],
+        [tableResult.edits, headingResult.edits, taskResult.edits, listItemResult.edits, calloutResult.edits, inlineFieldResult.edits],
         warnings
       );
       edits.push(...merged);
@@ -234,6 +266,10 @@ export class EditPlanner {
     return this.listItemPlanner.emitListItemLine(base, existing);
   }
 
+  public emitCallout(row: CalloutRow, existing?: string): string {
+    return this.calloutPlanner.emitCallout(row, existing);
+  }
+
   public buildMarkdownTable(header: string[], rows: Array<Record<string, string>>): string {
     return this.tablePlanner.buildMarkdownTable(header, rows);
   }
@@ -251,8 +287,12 @@ export class EditPlanner {
           tableCells: [],
           properties: [],
           propertiesToDelete: [],
+          inlineFields: [],
+          inlineFieldsToDelete: [],
           listItems: [],
-          listItemsToDelete: []
+          listItemsToDelete: [],
+          callouts: [],
+          calloutsToDelete: []
         });
       }
       return byPath.get(path)!;
@@ -263,10 +303,18 @@ export class EditPlanner {
     for (const h of preview.headingsAfter ?? []) getOrCreate(h.path).headings.push(h);
     for (const h of preview.headingsToDelete ?? []) getOrCreate(h.path).headingsToDelete.push(h);
     for (const c of preview.tableCellsAfter ?? []) getOrCreate(c.path).tableCells.push(c);
-    for (const p of preview.propertiesAfter ?? []) getOrCreate(p.path).properties.push(p);
-    for (const p of preview.propertiesToDelete ?? []) getOrCreate(p.path).propertiesToDelete.push(p);
+    for (const p of preview.propertiesAfter ?? []) {
+      const groups = getOrCreate(p.path);
+      (p.source === 'inline' ? groups.inlineFields : groups.properties).push(p);
+    }
+    for (const p of preview.propertiesToDelete ?? []) {
+      const groups = getOrCreate(p.path);
+      (p.source === 'inline' ? groups.inlineFieldsToDelete : groups.propertiesToDelete).push(p);
+    }
     for (const l of preview.listItemsAfter ?? []) getOrCreate(l.path).listItems.push(l);
     for (const l of preview.listItemsToDelete ?? []) getOrCreate(l.path).listItemsToDelete.push(l);
+    for (const c of preview.calloutsAfter ?? []) getOrCreate(c.path).callouts.push(c);
+    for (const c of preview.calloutsToDelete ?? []) getOrCreate(c.path).calloutsToDelete.push(c);
 
     return byPath;
   }
@@ -299,6 +347,37 @@ export class EditPlanner {
     return ok;
   }
 
+  /**
+   * Where a property row lives in the frontmatter. note_frontmatter rows always carry a JSON path,
+   * empty for the whole top-level key; flattened properties rows may have a dotted key.
+   */
+  private frontmatterPathFor(fm: FrontmatterData, prop: PropertyRow): JsonPath {
+    return prop.json_path ? [prop.key, ...prop.json_path] : resolvePropertyPath(fm, prop.key);
+  }
+
+  /** Element rows of a list property change that element only; a scalar becomes a one-element list */
+  private setListElement(fm: FrontmatterData, path: JsonPath, index: number, value: string | null): void {
+    const current = getAtJsonPath(fm, path);
+    const list = Array.isArray(current) ? current : current === null || current === undefined ? [] : [current];
+    // Object and list elements are indexed as JSON
+    const existing: unknown = list[index];
+    list[Math.min(index, list.length)] = typeof existing === 'object' && existing !== null ? this.parsePropertyValue(value, 'json') : value;
+    setAtJsonPath(fm, path, list);
+  }
+
+  /** Removing the last element removes the property, as a DELETE of all its rows should */
+  private deleteListElement(fm: FrontmatterData, path: JsonPath, index: number): void {
+    const current = getAtJsonPath(fm, path);
+    if (!Array.isArray(current)) {
+      deleteAtJsonPath(fm, path);
+      return;
+    }
+    current.splice(index, 1);
+    if (current.length === 0) {
+      deleteAtJsonPath(fm, path);
+    }
+  }
+
   private parsePropertyValue(value: string | null, type: string | null): FrontmatterValue {
     if (value === null || value === undefined) {
       return null;
@@ -310,6 +389,7 @@ export class EditPlanner {
         return isNaN(num) ? value : num;
 
       case 'boolean':
+      case 'checkbox':
         const lower = value.toLowerCase();
         if (lower === 'true' || lower === '1' || lower === 'yes') return true;
         if (lower === 'false' || lower === '0' || lower === 'no') return false;
@@ -319,7 +399,17 @@ export class EditPlanner {
       case 'datetime':
         return value;
 
+      case 'json':
+        try {
+          return JSON.parse(value) as FrontmatterValue;
+        }
+        catch {
+          // Not JSON, e.g. value_json set to a bare word, so it is written as text
+          return value;
+        }
+
       case 'list':
+      case 'multitext':
       case 'array':
         try {
           const parsed = JSON.parse(value);
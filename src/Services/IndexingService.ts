@@ -1,22 +1,33 @@
-import { App, TFile, CachedMetadata, HeadingCache, LinkCache, TagCache, ListItemCache, normalizePath } from 'obsidian';
+import { App, TFile, CachedMetadata, LinkCache, EmbedCache, normalizePath } from 'obsidian';
 import { VaultDatabase } from '../Database/DatabaseService';
 import { VaultQuerySettings } from '../Settings/Settings';
-import { MarkdownTableUtils } from '../utils/MarkdownTableUtils';
-import { ContentLocationService } from './ContentLocationService';
-import { PerformanceMonitor, IndexingTimings } from './PerformanceMonitor';
+import { PerformanceMonitor } from './PerformanceMonitor';
+import { IndexingWorkerClient } from './IndexingWorkerClient';
+import { needsContentProcessing, toNoteParseCache } from './NoteParser';
+import type { NoteParseInput } from './NoteParser';
 import { ERROR_MESSAGES, WARNING_MESSAGES, CONSOLE_ERRORS } from '../utils/ErrorMessages';
-import type { IndexNoteData, NoteRecord, IndexingStats, IndexingProgress, IndexingStatus, TableCellData, TaskData, ListItemData, UserViewData, UserFunctionData } from '../types';
+import { parseEmbedMarkup } from '../utils/EmbedUtils';
+import { parseCanvas, type ParsedCanvas } from '../utils/CanvasUtils';
+import { normalizePropertyType, type PropertyType } from '../utils/PropertyTypeUtils';
+import type { IndexNoteData, IndexingStats, IndexingProgress, IndexingStatus, FileRecord } from '../types';
 
 declare const activeWindow: Window;
 
+/** Obsidian's property type registry. Not part of the public API, so every member may be missing */
+interface MetadataTypeManager {
+  getAssignedType?(property: string): string | null;
+  properties?: Record<string, { type?: string } | undefined>;
+}
+
 export interface IndexingEventEmitter {
-  emitFileIndexed: (path: string, isUpdate: boolean) => void;
-  emitFileRemoved: (path: string) => void;
-  emitVaultIndexed: (filesIndexed: number, filesRemoved: number, isForced: boolean) => void;
+  emitFileIndexed: (path: string, isUpdate: boolean, tables: string[]) => void;
+  emitFileRemoved: (path: string, tables: string[]) => void;
+  emitVaultIndexed: (filesIndexed: number, filesRemoved: number, isForced: boolean, tables: string[]) => void;
 }
 
 export class IndexingService {
   private performanceMonitor: PerformanceMonitor;
+  private workerClient = new IndexingWorkerClient();
 
   private indexingProgress: IndexingProgress = { current: 0, total: 0, currentFile: '' };
   private isIndexing = false;
@@ -36,17 +47,14 @@ export class IndexingService {
     this.eventEmitter = emitter;
   }
 
+  public dispose(): void {
+    this.workerClient.terminate();
+  }
+
   private updateExcludePatterns(): void {
     this.excludeRegexps = this.settings.excludePatterns.map(p => new RegExp(p));
   }
   
-  private needsContentProcessing(): boolean {
-    return this.settings.enabledFeatures.indexContent ||
-         this.settings.enabledFeatures.indexTables ||
-         this.settings.enabledFeatures.indexTasks ||
-         this.settings.enabledFeatures.indexListItems;
-  }
-
   private shouldProcessFileContent(file: TFile): boolean {
     if (this.settings.enabledFeatures.indexContent) return true;
 
@@ -58,6 +66,10 @@ export class IndexingService {
     if (this.settings.enabledFeatures.indexListItems && cache?.listItems?.some(item => item.task === undefined)) return true;
 
     if (this.settings.enabledFeatures.indexHeadings && cache?.headings?.length) return true;
+    if (this.settings.enabledFeatures.indexCallouts && cache?.sections?.some(section => section.type === 'callout' || section.type === 'blockquote')) return true;
+    if (this.settings.enabledFeatures.indexCodeBlocks && cache?.sections?.some(section => section.type === 'code')) return true;
+    // Inline fields have no metadata cache entry, so any note with a body has to be read
+    if (this.settings.enabledFeatures.indexInlineFields && cache?.sections?.length) return true;
 
     return false;
   }
@@ -76,11 +88,27 @@ export class IndexingService {
 
     let filesIndexed = 0;
     let filesRemoved = 0;
+    // Removed notes report their tables through file-removed events instead
+    const changedTables = new Set<string>();
 
     try {
       let toIndex: TFile[];
       let toRemove: string[] = [];
 
+      await this.database.configureFullTextSearch(this.settings.enabledFeatures.indexFullText);
+      if (await this.syncFileRecords()) {
+        changedTables.add('files');
+      }
+      if (await this.syncCanvases(force)) {
+        changedTables.add('canvas_nodes');
+        changedTables.add('canvas_edges');
+      }
+
+      // A destructive schema migration left rows that only a full reindex can fill in
+      if (this.database.isFullReindexRequired()) {
+        force = true;
+      }
+
       if (force) {
         await this.clearAllNotes();
         toIndex = this.app.vault.getMarkdownFiles().filter(file => this.shouldIndexFile(file));
@@ -96,26 +124,38 @@ export class IndexingService {
         }
 
         if (toIndex.length === 0) {
-          this.eventEmitter?.emitVaultIndexed(0, filesRemoved, force);
+          if (this.settings.enabledFeatures.indexFiles || this.settings.enabledFeatures.indexCanvases) {
+            await this.database.saveToDisk();
+          }
+          this.eventEmitter?.emitVaultIndexed(0, filesRemoved, force, [...changedTables]);
           return;
         }
       }
 
-      await this.processFilesInBatches(toIndex, force);
+      const batchTables = await this.processFilesInBatches(toIndex, force);
+      batchTables.forEach(table => changedTables.add(table));
       filesIndexed = toIndex.length;
 
-      this.database.createIndexes(this.settings.enabledFeatures);
+      await this.database.createIndexes(this.settings.enabledFeatures);
+
+      if (this.settings.enabledFeatures.indexTasks && await this.database.resolveTaskDependencies() > 0) {
+        changedTables.add('task_dependencies');
+      }
+
+      if (force) {
+        await this.database.clearFullReindexRequired();
+      }
 
       await this.database.saveToDisk();
 
-      this.database.rebuildPropertiesView();
-      this.database.rebuildTableViews(this.settings.enableDynamicTableViews);
+      await this.database.rebuildPropertiesView();
+      await this.database.rebuildTableViews(this.settings.enableDynamicTableViews);
 
       this.setIndexingProgress(toIndex.length, toIndex.length, 'Complete');
 
       this.performanceMonitor.finishOperation(toIndex.length);
 
-      this.eventEmitter?.emitVaultIndexed(filesIndexed, filesRemoved, force);
+      this.eventEmitter?.emitVaultIndexed(filesIndexed, filesRemoved, force, [...changedTables]);
     } finally {
       this.setIndexingStatus(false);
     }
@@ -124,11 +164,11 @@ export class IndexingService {
   public async reindexNote(notePath: string): Promise<void> {
     const file = this.validateMarkdownFile(notePath);
 
-    const content = this.needsContentProcessing() ? await this.app.vault.cachedRead(file) : '';
+    const content = needsContentProcessing(this.settings.enabledFeatures) ? await this.app.vault.cachedRead(file) : '';
     const indexData = await this.prepareNoteForIndexing(file, content);
-    await this.database.indexNote(indexData);
+    const tables = await this.database.indexNote(indexData);
 
-    this.eventEmitter?.emitFileIndexed(file.path, true);
+    this.eventEmitter?.emitFileIndexed(file.path, true, tables);
   }
 
   public async indexNote(file: TFile, content?: string): Promise<void> {
@@ -145,9 +185,9 @@ export class IndexingService {
 
     const indexData = await this.prepareNoteForIndexing(file, actualContent);
 
-    await this.database.indexNote(indexData);
+    const tables = await this.database.indexNote(indexData);
 
-    this.eventEmitter?.emitFileIndexed(file.path, isUpdate);
+    this.eventEmitter?.emitFileIndexed(file.path, isUpdate, tables);
   }
 
   public getIndexingStatus(): IndexingStatus {
@@ -211,13 +251,141 @@ export class IndexingService {
     this.indexingProgress = { current, total, currentFile };
   }
 
-  public removeNote(notePath: string): void {
-    this.database.runWithPreparedStatement('DELETE FROM notes WHERE path = ?', [notePath]);
-    this.eventEmitter?.emitFileRemoved(notePath);
+  public async removeNote(notePath: string): Promise<void> {
+    const tables = await this.database.removeNote(notePath);
+    this.eventEmitter?.emitFileRemoved(notePath, tables);
+  }
+
+  /**
+   * Record a single file in the files table. Returns false when file indexing is
+   * disabled or the file matches an exclude pattern.
+   */
+  public async indexFileRecord(file: TFile): Promise<boolean> {
+    if (!this.shouldRecordFile(file)) return false;
+
+    const existingResults = await this.database.all('SELECT 1 FROM files WHERE path = ? LIMIT 1', [file.path]);
+    await this.database.upsertFileRecord(this.toFileRecord(file));
+    this.eventEmitter?.emitFileIndexed(file.path, existingResults.length > 0, ['files']);
+    return true;
+  }
+
+  public async removeFileRecord(filePath: string): Promise<void> {
+    if (!this.settings.enabledFeatures.indexFiles) return;
+
+    const existingResults = await this.database.all('SELECT 1 FROM files WHERE path = ? LIMIT 1', [filePath]);
+    if (existingResults.length === 0) return;
+
+    await this.database.removeFileRecord(filePath);
+    this.eventEmitter?.emitFileRemoved(filePath, ['files']);
+  }
+
+  /**
+   * Update the files table from the vault, or empty it when file indexing is disabled.
+   * Returns whether any row changed.
+   */
+  private async syncFileRecords(): Promise<boolean> {
+    const files = this.settings.enabledFeatures.indexFiles
+      ? this.app.vault.getFiles().filter(file => this.shouldRecordFile(file))
+      : [];
+    return this.database.syncFileRecords(files.map(file => this.toFileRecord(file)));
+  }
+
+  // Unlike notes, files are recorded regardless of size so oversized attachments can be found
+  private shouldRecordFile(file: TFile): boolean {
+    if (!this.settings.enabledFeatures.indexFiles) return false;
+    return !this.excludeRegexps.some(regex => regex.test(file.path));
+  }
+
+  private toFileRecord(file: TFile): FileRecord {
+    const folder = file.parent?.path ?? '';
+    return {
+      path: file.path,
+      name: file.name,
+      basename: file.basename,
+      extension: file.extension.toLowerCase(),
+      folder: folder === '/' ? '' : folder,
+      size: file.stat.size,
+      ctime: file.stat.ctime,
+      mtime: file.stat.mtime
+    };
   }
 
-  public clearAllNotes(): void {
-    this.database.run('DELETE FROM notes');
+  /**
+   * Parse a .canvas file into the canvas tables. Returns false when canvas indexing is
+   * disabled, the file is excluded, or its JSON cannot be parsed.
+   */
+  public async indexCanvas(file: TFile): Promise<boolean> {
+    if (!this.shouldIndexCanvas(file)) return false;
+
+    const canvas = await this.readCanvas(file);
+    if (!canvas) return false;
+
+    const existingResults = await this.database.all('SELECT 1 FROM canvas_nodes WHERE path = ? UNION ALL SELECT 1 FROM canvas_edges WHERE path = ? LIMIT 1', [file.path, file.path]);
+    await this.database.replaceCanvas(file.path, file.stat.mtime, canvas.nodes, canvas.edges);
+    this.eventEmitter?.emitFileIndexed(file.path, existingResults.length > 0, ['canvas_nodes', 'canvas_edges']);
+    return true;
+  }
+
+  public async removeCanvas(filePath: string): Promise<void> {
+    if (!this.settings.enabledFeatures.indexCanvases) return;
+
+    const existingResults = await this.database.all('SELECT 1 FROM canvas_nodes WHERE path = ? UNION ALL SELECT 1 FROM canvas_edges WHERE path = ? LIMIT 1', [filePath, filePath]);
+    if (existingResults.length === 0) return;
+
+    await this.database.removeCanvas(filePath);
+    this.eventEmitter?.emitFileRemoved(filePath, ['canvas_nodes', 'canvas_edges']);
+  }
+
+  /**
+   * Re-read the canvases whose mtime changed and drop the ones that are gone, or empty the
+   * canvas tables when canvas indexing is disabled. A forced pass re-reads every canvas.
+   * Returns whether any canvas was re-read or removed.
+   */
+  private async syncCanvases(force: boolean): Promise<boolean> {
+    const stored = await this.database.getIndexedCanvasMtimes();
+    const changed = new Map<string, ParsedCanvas & { mtime: number }>();
+    const current = new Set<string>();
+
+    if (this.settings.enabledFeatures.indexCanvases) {
+      for (const file of this.app.vault.getFiles()) {
+        if (!this.shouldIndexCanvas(file)) continue;
+        if (!force && stored.get(file.path) === file.stat.mtime) {
+          current.add(file.path);
+          continue;
+        }
+
+        // A canvas that no longer parses is dropped, like one that was deleted
+        const canvas = await this.readCanvas(file);
+        if (canvas) {
+          changed.set(file.path, { ...canvas, mtime: file.stat.mtime });
+          current.add(file.path);
+        }
+      }
+    }
+
+    const removed = [...stored.keys()].filter(path => !current.has(path));
+    if (changed.size === 0 && removed.length === 0) return false;
+
+    await this.database.syncCanvases(changed, removed);
+    return true;
+  }
+
+  private shouldIndexCanvas(file: TFile): boolean {
+    return this.settings.enabledFeatures.indexCanvases && file.extension === 'canvas' && this.shouldIndexFile(file);
+  }
+
+  private async readCanvas(file: TFile): Promise<ParsedCanvas | null> {
+    try {
+      return parseCanvas(await this.app.vault.cachedRead(file));
+    }
+    catch (error) {
+      console.warn(`[VaultQuery] ${WARNING_MESSAGES.CANVAS_PARSE_FAILED(file.path, error instanceof Error ? error.message : String(error))}`);
+      return null;
+    }
+  }
+
+  public async clearAllNotes(): Promise<void> {
+    await this.database.run('DELETE FROM notes');
   }
 
   public shouldIndexFile(file: TFile): boolean {
@@ -285,16 +453,18 @@ export class IndexingService {
     }
   }
 
-  private removeDeletedFiles(filePaths: string[]): void {
+  private async removeDeletedFiles(filePaths: string[]): Promise<void> {
     for (const pathToRemove of filePaths) {
-      this.removeNote(pathToRemove);
+      await this.removeNote(pathToRemove);
     }
   }
 
-  private async processFilesInBatches(files: TFile[], isInitialIndexing: boolean = false): Promise<void> {
+  /** Returns the tables the batches wrote to or cleared */
+  private async processFilesInBatches(files: TFile[], isInitialIndexing: boolean = false): Promise<Set<string>> {
     this.detectDuplicateFiles(files);
 
     const totalToIndex = files.length;
+    const changedTables = new Set<string>();
     let indexed = 0;
 
     this.setIndexingProgress(0, totalToIndex, 'Starting...');
@@ -302,12 +472,14 @@ export class IndexingService {
     for (let i = 0; i < files.length; i += this.BATCH_SIZE) {
       const batch = files.slice(i, i + this.BATCH_SIZE);
 
-      indexed = await this.processSingleBatch(batch, indexed, totalToIndex, isInitialIndexing);
+      indexed = await this.processSingleBatch(batch, indexed, totalToIndex, isInitialIndexing, changedTables);
 
       this.updateProgressAfterBatch(indexed, totalToIndex);
 
       await this.delayBetweenBatches(i, files.length);
     }
+
+    return changedTables;
   }
 
   private detectDuplicateFiles(files: TFile[]): void {
@@ -328,14 +500,15 @@ export class IndexingService {
     }
   }
 
-  private async processSingleBatch(batch: TFile[], currentIndexed: number, totalToIndex: number, isInitialIndexing: boolean): Promise<number> {
+  private async processSingleBatch(batch: TFile[], currentIndexed: number, totalToIndex: number, isInitialIndexing: boolean, changedTables: Set<string>): Promise<number> {
     if (this.batchHasDuplicates(batch)) {
-      return await this.processBatchIndividually(batch, currentIndexed, totalToIndex);
+      return await this.processBatchIndividually(batch, currentIndexed, totalToIndex, changedTables);
     }
 
     const batchData = await this.prepareBatchData(batch, currentIndexed, totalToIndex);
 
-    await this.database.indexNotesBatch(batchData, isInitialIndexing, true);
+    const tables = await this.database.indexNotesBatch(batchData, isInitialIndexing, true);
+    tables.forEach(table => changedTables.add(table));
 
     return currentIndexed + batch.length;
   }
@@ -345,7 +518,7 @@ export class IndexingService {
     return batchPaths.size !== batch.length;
   }
 
-  private async processBatchIndividually(batch: TFile[], currentIndexed: number, totalToIndex: number): Promise<number> {
+  private async processBatchIndividually(batch: TFile[], currentIndexed: number, totalToIndex: number, changedTables: Set<string>): Promise<number> {
     console.warn(`[VaultQuery] ${WARNING_MESSAGES.DUPLICATE_FILES_IN_BATCH}`);
 
     let indexed = currentIndexed;
@@ -353,7 +526,8 @@ export class IndexingService {
     for (const file of batch) {
       const content = this.shouldProcessFileContent(file) ? await this.app.vault.cachedRead(file) : '';
       const indexData = await this.prepareNoteForIndexing(file, content);
-      await this.database.indexNote(indexData);
+      const tables = await this.database.indexNote(indexData);
+      tables.forEach(table => changedTables.add(table));
 
       indexed++;
       this.setIndexingProgress(indexed, totalToIndex, file.path);
@@ -363,7 +537,7 @@ export class IndexingService {
   }
 
   private async prepareBatchData(batch: TFile[], currentIndexed: number, totalToIndex: number): Promise<IndexNoteData[]> {
-    return await Promise.all(
+    const notes = await Promise.all(
       batch.map(async (file) => {
         this.setIndexingProgress(currentIndexed + 1, totalToIndex, file.path);
 
@@ -371,9 +545,11 @@ export class IndexingService {
           ? await this.app.vault.cachedRead(file)
           : '';
 
-        return await this.prepareNoteForIndexing(file, content);
+        return { file, content };
       })
     );
+
+    return await this.prepareNotesForIndexing(notes);
   }
 
   private updateProgressAfterBatch(indexed: number, totalToIndex: number): void {
@@ -388,270 +564,75 @@ export class IndexingService {
     }
   }
 
-  private prepareNoteForIndexing(file: TFile, content: string): IndexNoteData {
-    const startTime = performance.now();
-    const cache = this.app.metadataCache.getFileCache(file);
-
-    const { contentWithoutFrontmatter, fmTime } = this.extractContentWithoutFrontmatter(content, cache);
-    const note = this.createNoteRecord(file, contentWithoutFrontmatter);
-    const { frontmatterData, frontmatterTime } = this.processFrontmatter(cache);
-    const featureData = this.processFeatures(file, content, contentWithoutFrontmatter, cache);
-
-    this.trackPerformance(file, startTime, {
-      fmTime,
-      frontmatterTime,
-      ...featureData.timings
-    });
-
-    return {
-      note,
-      frontmatterData,
-      ...featureData.results
-    };
+  private async prepareNoteForIndexing(file: TFile, content: string): Promise<IndexNoteData> {
+    const [indexData] = await this.prepareNotesForIndexing([{ file, content }]);
+    return indexData;
   }
 
-  private extractContentWithoutFrontmatter(content: string, cache: CachedMetadata | null): { contentWithoutFrontmatter: string; fmTime: number } {
-    if (!this.needsContentProcessing()) {
-      return { contentWithoutFrontmatter: '', fmTime: 0 };
-    }
+  /**
+   * Parse notes in the indexing worker. The metadata cache stays on the main thread:
+   * the parts the parser needs are posted with the content, and links and embeds are resolved here.
+   */
+  private async prepareNotesForIndexing(notes: Array<{ file: TFile; content: string }>): Promise<IndexNoteData[]> {
+    const inputs = notes.map(({ file, content }) => this.createParseInput(file, content));
+    const parsedNotes = await this.workerClient.parseNotes(inputs, this.settings.enabledFeatures, {
+      statuses: this.settings.customTaskStatuses,
+      format: this.settings.taskFormat
+    });
 
-    const fmStartTime = performance.now();
-    let contentWithoutFrontmatter = '';
+    return parsedNotes.map(({ timings, parseTime, ...parsed }, index) => {
+      const file = notes[index].file;
+      const cache = this.app.metadataCache.getFileCache(file);
+      const { links, time: linksTime } = this.processLinksFeature(cache, file.path);
+      const { embeds, time: embedsTime } = this.processEmbedsFeature(cache, file.path);
 
-    if (cache?.frontmatterPosition) {
-      contentWithoutFrontmatter = content.substring(cache.frontmatterPosition.end.offset).trim();
-    }
-    else {
-      contentWithoutFrontmatter = content;
-    }
+      this.performanceMonitor.trackFile(
+        file,
+        parseTime + linksTime + embedsTime,
+        { ...timings, linksTime, embedsTime },
+        needsContentProcessing(this.settings.enabledFeatures)
+      );
 
-    const fmTime = performance.now() - fmStartTime;
-    return { contentWithoutFrontmatter, fmTime };
+      return { ...parsed, codeBlocks: this.filterCodeBlocks(parsed.codeBlocks), links, embeds };
+    });
   }
 
-  private createNoteRecord(file: TFile, contentWithoutFrontmatter: string): NoteRecord {
-    const now = Date.now();
-    const minValidTimestamp = 946684800000; // 2000-01-01 in ms - any file should be newer than this
-
-    let created = file.stat.ctime;
-    let modified = file.stat.mtime;
-
-    if (!modified || modified < minValidTimestamp) {
-      modified = now;
-    }
-
-    if (!created || created < minValidTimestamp) {
-      created = modified;
-    }
+  /**
+   * VaultQuery's own blocks are queries rather than content, so they are left out unless asked for.
+   */
+  private filterCodeBlocks(codeBlocks: IndexNoteData['codeBlocks']): IndexNoteData['codeBlocks'] {
+    if (!codeBlocks || this.settings.indexVaultQueryCodeBlocks) return codeBlocks;
+    return codeBlocks.filter(block => !/^vaultquery(-|$)/.test(block.language ?? ''));
+  }
 
+  private createParseInput(file: TFile, content: string): NoteParseInput {
+    const cache = this.app.metadataCache.getFileCache(file);
     return {
       path: file.path,
-      title: this.deriveTitle(file.path, file.basename),
-      content: this.settings.enabledFeatures.indexContent ? contentWithoutFrontmatter : '',
-      created,
-      modified,
-      size: this.deriveSize(file.stat.size, contentWithoutFrontmatter)
-    };
-  }
-
-  private processFrontmatter(cache: CachedMetadata | null): {
-    frontmatterData: Array<{
-      key: string;
-      value: string;
-      valueType: string;
-      arrayIndex: number | null;
-    }>;
-    frontmatterTime: number;
-  } {
-    if (!this.settings.enabledFeatures.indexFrontmatter || !cache?.frontmatter) {
-      return { frontmatterData: [], frontmatterTime: 0 };
-    }
-
-    const frontmatterStartTime = performance.now();
-    const frontmatterData = this.processFrontmatterProperties(cache.frontmatter);
-    const frontmatterTime = performance.now() - frontmatterStartTime;
-
-    return { frontmatterData, frontmatterTime };
-  }
-
-  private processFeatures(file: TFile, content: string, contentWithoutFrontmatter: string, cache: CachedMetadata | null): {
-    results: {
-      tables: IndexNoteData['tables'];
-      tableCells: IndexNoteData['tableCells'];
-      tasks: IndexNoteData['tasks'];
-      headings: IndexNoteData['headings'];
-      links: IndexNoteData['links'];
-      tags: IndexNoteData['tags'];
-      listItems: IndexNoteData['listItems'];
-      userViews: IndexNoteData['userViews'];
-      userFunctions: IndexNoteData['userFunctions'];
-    };
-    timings: {
-      tablesTime: number;
-      tasksTime: number;
-      headingsTime: number;
-      linksTime: number;
-      tagsTime: number;
-      listItemsTime: number;
-    };
-  } {
-    const timings = {
-      tablesTime: 0,
-      tasksTime: 0,
-      headingsTime: 0,
-      linksTime: 0,
-      tagsTime: 0,
-      listItemsTime: 0
-    };
-
-    const frontmatterOffset = cache?.frontmatterPosition?.end.offset ?? 0;
-    const trimmedOffset = frontmatterOffset > 0 ?
-      content.substring(frontmatterOffset).length - content.substring(frontmatterOffset).trimStart().length : 0;
-    const contentOffset = frontmatterOffset + trimmedOffset;
-
-    const fullLines = content ? content.split('\n') : [];
-    const contentLines = contentWithoutFrontmatter ? contentWithoutFrontmatter.split('\n') : [];
-
-    let lineOffset = 0;
-    if (contentOffset > 0 && fullLines.length > 0) {
-      let charCount = 0;
-      for (let i = 0; i < fullLines.length; i++) {
-        charCount += fullLines[i].length + 1; // +1 for newline
-        if (charCount >= contentOffset) {
-          lineOffset = i + 1;
-          break;
-        }
-      }
-    }
-
-    const { tables, tableCells, time: tablesTime } = this.processTablesFeature(
-      contentWithoutFrontmatter,
-      contentOffset,
-      lineOffset,
-      cache,
-      file.basename
-    );
-    timings.tablesTime = tablesTime;
-
-    const { tasks, time: tasksTime } = this.processTasksFeature(
+      basename: file.basename,
+      ctime: file.stat.ctime,
+      mtime: file.stat.mtime,
+      size: file.stat.size,
       content,
-      fullLines,
-      contentLines,
-      contentOffset,
-      lineOffset,
-      cache
-    );
-    timings.tasksTime = tasksTime;
-
-    const { headings, time: headingsTime } = this.processHeadingsFeature(content, fullLines, cache);
-    timings.headingsTime = headingsTime;
-
-    const { links, time: linksTime } = this.processLinksFeature(cache, file.path);
-    timings.linksTime = linksTime;
-
-    const { tags, time: tagsTime } = this.processTagsFeature(cache);
-    timings.tagsTime = tagsTime;
-
-    const { listItems, time: listItemsTime } = this.processListItemsFeature(content, fullLines, cache);
-    timings.listItemsTime = listItemsTime;
-
-    const userViews = this.extractUserViews(content);
-    const userFunctions = this.extractUserFunctions(content);
-
-    return {
-      results: {
-        tables,
-        tableCells,
-        tasks,
-        headings,
-        links,
-        tags,
-        listItems,
-        userViews: userViews.length > 0 ? userViews : undefined,
-        userFunctions: userFunctions.length > 0 ? userFunctions : undefined
-      },
-      timings
+      cache: toNoteParseCache(cache),
+      propertyTypes: this.getDeclaredPropertyTypes(cache?.frontmatter)
     };
   }
 
-  private processTablesFeature(contentWithoutFrontmatter: string, contentOffset: number, lineOffset: number, cache: CachedMetadata | null, noteTitle: string): {
-    tables: IndexNoteData['tables'];
-    tableCells: IndexNoteData['tableCells'];
-    time: number;
-  } {
-    if (!this.settings.enabledFeatures.indexTables || !contentWithoutFrontmatter) {
-      return { tables: undefined, tableCells: undefined, time: 0 };
-    }
-
-    const hasSections = cache?.sections && cache.sections.length > 0;
-    if (!hasSections) {
-      return { tables: undefined, tableCells: undefined, time: 0 };
-    }
-
-    const startTime = performance.now();
-    const tables = MarkdownTableUtils.detectAllTables(contentWithoutFrontmatter, contentOffset, noteTitle);
-    const tableCells = this.parseAndIndexTables(contentWithoutFrontmatter, lineOffset, contentOffset, tables ?? []);
-    const time = performance.now() - startTime;
-
-    return { tables, tableCells, time };
-  }
-
-  private processTasksFeature(fullContent: string, fullLines: string[], contentLines: string[], contentOffset: number, lineOffset: number, cache: CachedMetadata | null): {
-    tasks: IndexNoteData['tasks'];
-    time: number;
-  } {
-    if (!this.settings.enabledFeatures.indexTasks) {
-      return { tasks: undefined, time: 0 };
-    }
+  /**
+   * Property types from the Properties view for the note's top-level frontmatter keys. Keys
+   * without a type Obsidian knows are left out, and the parser infers theirs from the value.
+   */
+  private getDeclaredPropertyTypes(frontmatter: Record<string, unknown> | undefined): Record<string, PropertyType> {
+    const types: Record<string, PropertyType> = {};
+    const manager = (this.app as App & { metadataTypeManager?: MetadataTypeManager }).metadataTypeManager;
+    if (!frontmatter || !manager) return types;
 
-    const taskItems = cache?.listItems?.filter(item => item.task !== undefined);
-    if (!taskItems || taskItems.length === 0) {
-      return { tasks: undefined, time: 0 };
+    for (const key of Object.keys(frontmatter)) {
+      const type = normalizePropertyType(manager.getAssignedType?.(key) ?? manager.properties?.[key.toLowerCase()]?.type);
+      if (type) types[key] = type;
     }
-
-    const startTime = performance.now();
-    const tasks = this.parseTasksFromCache(fullContent, fullLines, contentLines, lineOffset, taskItems, cache);
-    const time = performance.now() - startTime;
-
-    return { tasks, time };
-  }
-
-  private processHeadingsFeature(content: string, lines: string[], cache: CachedMetadata | null): {
-    headings: IndexNoteData['headings'];
-    time: number;
-  } {
-    if (!this.settings.enabledFeatures.indexHeadings) {
-      return { headings: undefined, time: 0 };
-    }
-
-    const startTime = performance.now();
-
-    const headings = cache?.headings?.map((heading: HeadingCache) => {
-      const lineIndex = heading.position.start.line;
-      const { start, end } = ContentLocationService.getLineOffsets(content, lineIndex);
-      const anchorHash = ContentLocationService.computeAnchorHash(content, lineIndex, lines);
-
-      let blockId: string | undefined;
-      if (lineIndex < lines.length - 1) {
-        const nextLineBlockMatch = lines[lineIndex + 1]?.match(/^\s*\^([\w-]+)\s*$/);
-        if (nextLineBlockMatch) {
-          blockId = nextLineBlockMatch[1];
-        }
-      }
-
-      return {
-        level: heading.level,
-        heading_text: heading.heading,
-        line_number: heading.position.start.line + 1,
-        block_id: blockId,
-        start_offset: start,
-        end_offset: end,
-        anchor_hash: anchorHash
-      };
-    }) || [];
-
-    const time = performance.now() - startTime;
-    return { headings, time };
+    return types;
   }
 
   private processLinksFeature(cache: CachedMetadata | null, sourcePath: string): {
@@ -678,571 +659,36 @@ export class IndexingService {
     return { links, time };
   }
 
-  private processTagsFeature(cache: CachedMetadata | null): {
-    tags: IndexNoteData['tags'];
+  private processEmbedsFeature(cache: CachedMetadata | null, sourcePath: string): {
+    embeds: IndexNoteData['embeds'];
     time: number;
   } {
-    if (!this.settings.enabledFeatures.indexTags) {
-      return { tags: undefined, time: 0 };
-    }
-
-    const startTime = performance.now();
-    const tags = cache?.tags?.map((tag: TagCache) => ({
-      tag_name: tag.tag,
-      line_number: tag.position.start.line + 1
-    })) || [];
-
-    const time = performance.now() - startTime;
-    return { tags, time };
-  }
-
-  private processListItemsFeature(content: string, lines: string[], cache: CachedMetadata | null): {
-    listItems: IndexNoteData['listItems'];
-    time: number;
-  } {
-    if (!this.settings.enabledFeatures.indexListItems) {
-      return { listItems: undefined, time: 0 };
-    }
-
-    const cacheListItems = cache?.listItems;
-    if (!cacheListItems || cacheListItems.length === 0) {
-      return { listItems: undefined, time: 0 };
+    if (!this.settings.enabledFeatures.indexEmbeds) {
+      return { embeds: undefined, time: 0 };
     }
 
     const startTime = performance.now();
-    const listItems: ListItemData[] = [];
-
-    let currentListIndex = 0;
-    let lastRootLineNumber = -1;
-
-    const lineNumberToItemIndex = new Map<number, number>();
-
-    const nonTaskItems = cacheListItems
-      .map((item, index) => ({ item, cacheIndex: index }))
-      .filter(({ item }) => item.task === undefined);
-
-    nonTaskItems.forEach(({ item, cacheIndex: _cacheIndex }, _arrayIndex) => {
-      const lineIndex = item.position.start.line;
-      const line = lines[lineIndex] || '';
-
-      const isRootItem = item.parent < 0;
-
-      if (isRootItem && lastRootLineNumber >= 0 && lineIndex - lastRootLineNumber > 1) {
-        currentListIndex++;
-      }
-      if (isRootItem) {
-        lastRootLineNumber = lineIndex;
-      }
-
-      const bulletMatch = line.match(/^(\s*)[-*+]\s/);
-      const numberMatch = line.match(/^(\s*)\d+[.)]\s/);
-      const listType: 'bullet' | 'number' = numberMatch ? 'number' : 'bullet';
-
-      const leadingWhitespace = bulletMatch?.[1] || numberMatch?.[1] || '';
-      let indentLevel = 0;
-      for (const char of leadingWhitespace) {
-        if (char === '\t') {
-          indentLevel += 1;
-        }
-        else if (char === ' ') {
-          // Accumulate spaces - every 2 spaces = 1 indent level
-        }
-      }
-      // Add space-based indentation (2 spaces per level)
-      const spaceCount = (leadingWhitespace.match(/ /g) || []).length;
-      indentLevel += Math.floor(spaceCount / 2);
-
-      let itemContent = '';
-      if (bulletMatch) {
-        itemContent = line.substring(line.indexOf(bulletMatch[0]) + bulletMatch[0].length);
-      }
-      else if (numberMatch) {
-        itemContent = line.substring(line.indexOf(numberMatch[0]) + numberMatch[0].length);
-      }
-      else {
-        const genericMatch = line.match(/^\s*(?:[-*+]|\d+[.)])\s*(.*)/);
-        itemContent = genericMatch?.[1] || line.trim();
-      }
-
-      let blockId: string | undefined;
-      const blockMatch = line.match(/\^([\w-]+)\s*$/);
-      if (blockMatch) {
-        blockId = blockMatch[1];
-        itemContent = itemContent.replace(/\s*\^[\w-]+\s*$/, '');
-      }
-      else if (lineIndex < lines.length - 1) {
-        const nextLineBlockMatch = lines[lineIndex + 1].match(/^\s*\^([\w-]+)\s*$/);
-        if (nextLineBlockMatch) {
-          blockId = nextLineBlockMatch[1];
-        }
-      }
-
-      const startOffset = item.position.start.offset;
-      const endOffset = item.position.end.offset;
-
-      const anchorHash = ContentLocationService.computeAnchorHash(content, lineIndex, lines);
+    const embeds = cache?.embeds?.map((embed: EmbedCache) => {
+      const parts = parseEmbedMarkup(embed.original, embed.link);
+      // ![[#Heading]] embeds a section of the note itself
+      const targetPath = parts.target
+        ? this.app.metadataCache.getFirstLinkpathDest(parts.target, sourcePath)?.path ?? null
+        : sourcePath;
 
-      let parentIndex: number | null = null;
-      if (item.parent >= 0) {
-        const mappedParentIndex = lineNumberToItemIndex.get(item.parent);
-        if (mappedParentIndex !== undefined) {
-          parentIndex = mappedParentIndex;
-        }
-        // If parent mapping failed, check if parent was filtered out as a task
-        // In that case, the list item becomes a root item (null parent)
-        // This is expected behavior when tasks have non-task children
-      }
-
-      // Map this item's line number to its index for child lookups
-      lineNumberToItemIndex.set(lineIndex, listItems.length);
-
-      const listItemData: ListItemData = {
-        list_index: currentListIndex,
-        item_index: listItems.length,
-        parent_index: parentIndex,
-        content: itemContent.trim(),
-        list_type: listType,
-        indent_level: indentLevel,
-        line_number: lineIndex + 1, // 1-based
-        block_id: blockId,
-        start_offset: startOffset,
-        end_offset: endOffset,
-        anchor_hash: anchorHash
+      return {
+        embed_target: parts.target,
+        embed_target_path: targetPath,
+        subpath: parts.subpath,
+        alt_text: parts.altText,
+        width: parts.width,
+        height: parts.height,
+        embed_type: parts.embedType,
+        markup: embed.original,
+        line_number: embed.position.start.line + 1
       };
-
-      listItems.push(listItemData);
-    });
+    }) || [];
 
     const time = performance.now() - startTime;
-    return { listItems: listItems.length > 0 ? listItems : undefined, time };
-  }
-
-  private trackPerformance(file: TFile, startTime: number, timings: IndexingTimings): void {
-    this.performanceMonitor.trackFile(
-      file,
-      startTime,
-      timings,
-      this.needsContentProcessing()
-    );
+    return { embeds, time };
   }
-  
-  private processFrontmatterProperties(obj: Record<string, unknown>, keyPrefix: string = ''): Array<{ 
-    key: string; 
-    value: string; 
-    valueType: string; 
-    arrayIndex: number | null 
-  }> {
-    const results: Array<{ 
-      key: string; 
-      value: string; 
-      valueType: string; 
-      arrayIndex: number | null 
-    }> = [];
-    
-    for (const [key, value] of Object.entries(obj)) {
-      const fullKey = keyPrefix ? `${keyPrefix}.${key}` : key;
-      
-      if (Array.isArray(value)) {
-        value.forEach((item, index) => {
-          const valueType = typeof item;
-          const valueString = item === null || item === undefined ? '' : 
-                     typeof item === 'string' ? item : JSON.stringify(item);
-          
-          results.push({
-            key: fullKey,
-            value: valueString,
-            valueType,
-            arrayIndex: index
-          });
-        });
-      }
-      else if (typeof value === 'object' && value !== null) {
-        results.push(...this.processFrontmatterProperties(value as Record<string, unknown>, fullKey));
-      }
-      else {
-        const valueType = value === null || value === undefined ? 'null' : typeof value;
-        const valueString = value === null || value === undefined ? '' : 
-                   typeof value === 'string' ? value : JSON.stringify(value);
-        
-        results.push({
-          key: fullKey,
-          value: valueString,
-          valueType,
-          arrayIndex: null
-        });
-      }
-    }
-    
-    return results;
-  }
-
-  private parseAndIndexTables(content: string, lineOffset: number, contentOffset: number, detectedTables: Array<{ table_index: number; table_name?: string; block_id?: string; start_offset: number; end_offset: number }>): TableCellData[] {
-    const tableCells: TableCellData[] = [];
-    const lines = content.split('\n');
-    let fallbackTableIdx = 0;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-
-      if (line.includes('|') && line.split('|').length > 2) {
-        const tableData = this.parseTableAt(lines, i);
-
-        if (tableData.headers.length > 0 && tableData.rows.length > 0) {
-          const tableStartOffset = ContentLocationService.getLineStartOffset(content, i) + contentOffset;
-
-          const detectedTable = detectedTables.find(dt => Math.abs(dt.start_offset - tableStartOffset) < 10);
-
-          const tableIndex = detectedTable?.table_index ?? fallbackTableIdx;
-          fallbackTableIdx++;
-
-          // table_name already resolved by MarkdownTableUtils (block_id > heading > noteTitle)
-          const tableName = detectedTable?.table_name ?? null;
-
-          tableData.rows.forEach((row, rowIndex) => {
-            const dataRowLineNumber = i + 2 + rowIndex + lineOffset + 1;
-
-            tableData.headers.forEach((columnName, columnIndex) => {
-              const cellValue = row[columnIndex] || '';
-
-              const cellData: TableCellData = {
-                tableIndex,
-                tableName,
-                rowIndex,
-                columnName,
-                cellValue,
-                lineNumber: dataRowLineNumber
-              };
-
-              tableCells.push(cellData);
-            });
-          });
-
-          i += tableData.totalLines - 1;
-        }
-      }
-    }
-
-    return tableCells;
-  }
-
-
-  private parseTableAt(lines: string[], startIndex: number): { headers: string[], rows: string[][], totalLines: number } {
-    const tableLines: string[] = [];
-    let currentIndex = startIndex;
-    
-    while (currentIndex < lines.length) {
-      const line = lines[currentIndex];
-      if (line.includes('|') && line.split('|').length > 2) {
-        tableLines.push(line);
-        currentIndex++;
-      }
-      else {
-        break;
-      }
-    }
-    
-    if (tableLines.length < 2) {
-      return { headers: [], rows: [], totalLines: 0 };
-    }
-    
-    let headerLineIndex = -1;
-    let separatorLineIndex = -1;
-    
-    for (let i = 0; i < Math.min(3, tableLines.length); i++) {
-      const line = tableLines[i];
-      const cells = line.split('|').map(cell => cell.trim()).filter(cell => cell !== '');
-      
-      const isSeparator = cells.length > 0 && cells.every(cell => /^:?-+:?$/.test(cell));
-      
-      if (isSeparator) {
-        separatorLineIndex = i;
-      }
-      else if (headerLineIndex === -1 && cells.length > 0) {
-        headerLineIndex = i;
-      }
-    }
-    
-    if (headerLineIndex === -1) {
-      return { headers: [], rows: [], totalLines: 0 };
-    }
-    
-    const headers = tableLines[headerLineIndex].split('|')
-      .map(cell => cell.trim())
-      .filter(cell => cell !== '');
-    
-    const rows: string[][] = [];
-    for (let i = 0; i < tableLines.length; i++) {
-      if (i === headerLineIndex || i === separatorLineIndex) {
-        continue;
-      }
-      
-      const cells = tableLines[i].split('|')
-        .map(cell => cell.trim())
-        .filter(cell => cell !== '');
-      
-      const isSeparator = cells.length > 0 && cells.every(cell => /^:?-+:?$/.test(cell));
-      if (isSeparator) {
-        continue;
-      }
-      
-      if (cells.length > 0) {
-        while (cells.length < headers.length) {
-          cells.push('');
-        }
-        if (cells.length > headers.length) {
-          cells.splice(headers.length);
-        }
-        rows.push(cells);
-      }
-    }
-    
-    return {
-      headers,
-      rows,
-      totalLines: tableLines.length
-    };
-  }
-
-  private parseTasksFromCache(fullContent: string, fullLines: string[], contentLines: string[], lineOffset: number, taskItems: ListItemCache[], cache: CachedMetadata | null): TaskData[] {
-    const tasks: TaskData[] = [];
-
-    const headingsByLine = new Map<number, string>();
-    if (cache?.headings) {
-      for (const heading of cache.headings) {
-        headingsByLine.set(heading.position.start.line, heading.heading);
-      }
-    }
-
-    const findSectionHeading = (lineIndex: number): string | undefined => {
-      let lastHeading: string | undefined;
-      for (const [headingLine, headingText] of headingsByLine) {
-        if (headingLine < lineIndex) {
-          lastHeading = headingText;
-        }
-        else {
-          break;
-        }
-      }
-      return lastHeading;
-    };
-
-    for (const item of taskItems) {
-      const lineIndex = item.position.start.line;
-      const line = fullLines[lineIndex] || '';
-      const checkbox = item.task || ' ';
-
-      let completed: boolean;
-      let status: string;
-      switch (checkbox.toLowerCase()) {
-        case 'x':
-          completed = true;
-          status = 'DONE';
-          break;
-        case '/':
-          completed = false;
-          status = 'IN_PROGRESS';
-          break;
-        case '-':
-          completed = false;
-          status = 'CANCELLED';
-          break;
-        default:
-          completed = false;
-          status = 'TODO';
-      }
-
-      const taskTextMatch = line.match(/^\s*[-*+]\s*\[.\]\s*(.*)$/);
-      const taskText = taskTextMatch ? taskTextMatch[1] : line;
-
-      const { start, end } = ContentLocationService.getLineOffsets(fullContent, lineIndex);
-      const anchorHash = ContentLocationService.computeAnchorHash(fullContent, lineIndex, fullLines);
-
-      let blockId: string | undefined;
-      const blockMatch = line.match(/\^([\w-]+)\s*$/);
-      if (blockMatch) {
-        blockId = blockMatch[1];
-      }
-      else if (lineIndex < fullLines.length - 1) {
-        const nextLineBlockMatch = fullLines[lineIndex + 1]?.match(/^\s*\^([\w-]+)\s*$/);
-        if (nextLineBlockMatch) {
-          blockId = nextLineBlockMatch[1];
-        }
-      }
-
-      const metadata = this.extractTaskMetadata(taskText);
-
-      const taskData: TaskData = {
-        line_number: lineIndex + 1, 
-        task_text: taskText.trim(),
-        completed,
-        status,
-        priority: metadata.priority,
-        due_date: metadata.dueDate,
-        scheduled_date: metadata.scheduledDate,
-        start_date: metadata.startDate,
-        created_date: metadata.createdDate,
-        done_date: metadata.doneDate,
-        cancelled_date: metadata.cancelledDate,
-        recurrence: metadata.recurrence,
-        on_completion: metadata.onCompletion,
-        task_id: metadata.taskId,
-        depends_on: metadata.dependsOn,
-        tags: metadata.tags,
-        block_id: blockId,
-        start_offset: start,
-        end_offset: end,
-        anchor_hash: anchorHash,
-        section_heading: findSectionHeading(lineIndex)
-      };
-
-      tasks.push(taskData);
-    }
-
-    return tasks;
-  }
-
-  private extractTaskMetadata(taskText: string): {
-    priority?: string;
-    createdDate?: string;
-    scheduledDate?: string;
-    startDate?: string;
-    dueDate?: string;
-    doneDate?: string;
-    cancelledDate?: string;
-    recurrence?: string;
-    onCompletion?: string;
-    taskId?: string;
-    dependsOn?: string;
-    tags?: string;
-  } {
-    let priority: string | undefined;
-    if (taskText.includes('🔺')) {
-      priority = 'highest';
-    }
-    else if (taskText.includes('⏫')) {
-      priority = 'high';
-    }
-    else if (taskText.includes('🔼')) {
-      priority = 'medium';
-    }
-    else if (taskText.includes('🔽')) {
-      priority = 'low';
-    }
-    else if (taskText.includes('⏬')) {
-      priority = 'lowest';
-    }
-
-    const createdDateMatch = taskText.match(/➕\s*(\d{4}-\d{2}-\d{2})/);
-    const createdDate = createdDateMatch?.[1];
-
-    const scheduledDateMatch = taskText.match(/⏳\s*(\d{4}-\d{2}-\d{2})/);
-    const scheduledDate = scheduledDateMatch?.[1];
-
-    const startDateMatch = taskText.match(/🛫\s*(\d{4}-\d{2}-\d{2})/);
-    const startDate = startDateMatch?.[1];
-
-    const dueDateMatch = taskText.match(/📅\s*(\d{4}-\d{2}-\d{2})/);
-    const dueDate = dueDateMatch?.[1];
-
-    const doneDateMatch = taskText.match(/✅\s*(\d{4}-\d{2}-\d{2})/);
-    const doneDate = doneDateMatch?.[1];
-
-    const cancelledDateMatch = taskText.match(/❌\s*(\d{4}-\d{2}-\d{2})/);
-    const cancelledDate = cancelledDateMatch?.[1];
-
-    const recurrenceMatch = taskText.match(/🔁\s*([^📅⏳🛫➕✅❌🔺⏫🔼🔽⏬🆔⛔🏁#]+)/);
-    const recurrence = recurrenceMatch?.[1]?.trim();
-
-    const onCompletionMatch = taskText.match(/🏁\s*(\w+)/);
-    const onCompletion = onCompletionMatch?.[1];
-
-    const taskIdMatch = taskText.match(/🆔\s*([\w-]+)/);
-    const taskId = taskIdMatch?.[1];
-
-    const dependsOnMatch = taskText.match(/⛔\s*([\w,-]+)/);
-    const dependsOn = dependsOnMatch?.[1];
-
-    const tagMatches = taskText.match(/#[\w-]+/g);
-    const tags = tagMatches ? tagMatches.join(' ') : undefined;
-
-    return {
-      priority,
-      createdDate,
-      scheduledDate,
-      startDate,
-      dueDate,
-      doneDate,
-      cancelledDate,
-      recurrence,
-      onCompletion,
-      taskId,
-      dependsOn,
-      tags
-    };
-  }
-
-  private deriveTitle(path: string, basename: string): string {
-    if (basename && basename !== '') {
-      return basename;
-    }
-    
-    if (path.includes('/')) {
-      return path.substring(path.lastIndexOf('/') + 1).replace('.md', '');
-    }
-    else {
-      return path.replace('.md', '');
-    }
-  }
-  
-  private deriveSize(statSize: number, content: string): number {
-    if (statSize && statSize > 0) {
-      return statSize;
-    }
-
-    return content ? content.length : 0;
-  }
-
-  private extractUserViews(content: string): UserViewData[] {
-    const views: UserViewData[] = [];
-    const viewBlockRegex = /```vaultquery-view\s*\n([\s\S]*?)```/g;
-    let match;
-
-    while ((match = viewBlockRegex.exec(content)) !== null) {
-      const sql = match[1].trim();
-      const viewNameMatch = sql.match(/CREATE\s+VIEW\s+(?:IF\s+NOT\s+EXISTS\s+)?["'`]?(\w+)["'`]?\s+AS/i);
-      if (viewNameMatch) {
-        views.push({
-          view_name: viewNameMatch[1],
-          sql: sql
-        });
-      }
-    }
-
-    return views;
-  }
-
-  private extractUserFunctions(content: string): UserFunctionData[] {
-    const functions: UserFunctionData[] = [];
-    const functionBlockRegex = /```vaultquery-function\s*\n([\s\S]*?)```/g;
-    let match;
-
-    while ((match = functionBlockRegex.exec(content)) !== null) {
-      const blockContent = match[1].trim();
-      const separatorIndex = blockContent.indexOf('\n---');
-      
-      if (separatorIndex > 0) {
-        const functionName = blockContent.substring(0, separatorIndex).trim();
-        const source = blockContent.substring(separatorIndex + 4).trim();
-        if (functionName && source) {
-          functions.push({
-            function_name: functionName,
-            source: source
-          });
-        }
-      }
-    }
-
-    return functions;
-  }
-
-}
\ No newline at end of file
+}
@@ -0,0 +1,128 @@
+import indexingWorkerSource from 'worker:../Workers/IndexingWorker';
+import { NoteParser } from './NoteParser';
+import type { NoteParseInput, ParsedNote, TaskParseOptions } from './NoteParser';
+import type { EnabledFeatures } from '../Settings/Settings';
+import { WARNING_MESSAGES } from '../utils/ErrorMessages';
+
+export interface IndexingWorkerRequest {
+  id: number;
+  features: EnabledFeatures;
+  taskOptions: TaskParseOptions;
+  notes: NoteParseInput[];
+}
+
+export type IndexingWorkerResponse =
+  | { id: number; results: ParsedNote[] }
+  | { id: number; error: string };
+
+interface PendingRequest {
+  resolve: (results: ParsedNote[]) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Message-based facade over the indexing worker. Notes are parsed off the UI thread;
+ * if the worker cannot be started or fails, parsing falls back to the main thread
+ * for the rest of the session.
+ */
+export class IndexingWorkerClient {
+  private worker: Worker | null = null;
+  private workerUrl: string | null = null;
+  private workerFailed = false;
+  private nextRequestId = 0;
+  private pending = new Map<number, PendingRequest>();
+
+  public async parseNotes(notes: NoteParseInput[], features: EnabledFeatures, taskOptions: TaskParseOptions): Promise<ParsedNote[]> {
+    if (notes.length === 0) return [];
+
+    const worker = this.getWorker();
+    if (worker) {
+      try {
+        return await this.request(worker, notes, features, taskOptions);
+      }
+      catch (error) {
+        console.warn(`[VaultQuery] ${WARNING_MESSAGES.INDEXING_WORKER_FAILED}:`, error);
+        this.disableWorker();
+      }
+    }
+
+    const parser = new NoteParser(features, taskOptions);
+    return notes.map(note => parser.parse(note));
+  }
+
+  public terminate(): void {
+    this.worker?.terminate();
+    this.worker = null;
+
+    if (this.workerUrl) {
+      URL.revokeObjectURL(this.workerUrl);
+      this.workerUrl = null;
+    }
+
+    this.rejectPending(new Error('Indexing worker terminated'));
+  }
+
+  private request(worker: Worker, notes: NoteParseInput[], features: EnabledFeatures, taskOptions: TaskParseOptions): Promise<ParsedNote[]> {
+    const id = this.nextRequestId++;
+    const message: IndexingWorkerRequest = { id, features, taskOptions, notes };
+
+    return new Promise<ParsedNote[]>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      try {
+        worker.postMessage(message);
+      }
+      catch (error) {
+        // DataCloneError when the metadata cache holds something structured clone cannot copy
+        this.pending.delete(id);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerFailed) return this.worker;
+
+    try {
+      this.workerUrl = URL.createObjectURL(new Blob([indexingWorkerSource], { type: 'text/javascript' }));
+      const worker = new Worker(this.workerUrl);
+
+      worker.addEventListener('message', (event: MessageEvent<IndexingWorkerResponse>) => {
+        const response = event.data;
+        const pending = this.pending.get(response.id);
+        if (!pending) return;
+
+        this.pending.delete(response.id);
+        if ('error' in response) {
+          pending.reject(new Error(response.error));
+        }
+        else {
+          pending.resolve(response.results);
+        }
+      });
+
+      worker.addEventListener('error', (event: ErrorEvent) => {
+        console.warn(`[VaultQuery] ${WARNING_MESSAGES.INDEXING_WORKER_FAILED}:`, event.message);
+        this.disableWorker();
+      });
+
+      this.worker = worker;
+    }
+    catch (error) {
+      console.warn(`[VaultQuery] ${WARNING_MESSAGES.INDEXING_WORKER_UNAVAILABLE}:`, error);
+      this.disableWorker();
+    }
+
+    return this.worker;
+  }
+
+  private disableWorker(): void {
+    this.workerFailed = true;
+    this.terminate();
+  }
+
+  private rejectPending(error: Error): void {
+    const pending = [...this.pending.values()];
+    this.pending.clear();
+    pending.forEach(request => request.reject(error));
+  }
+}
@@ -0,0 +1,1115 @@
+import type { CachedMetadata, HeadingCache, ListItemCache, TagCache } from 'obsidian';
+import type { EnabledFeatures, TaskFormat, TaskStatusDefinition } from '../Settings/Settings';
+import type { IndexingTimings } from './PerformanceMonitor';
+import { MarkdownTableUtils } from '../utils/MarkdownTableUtils';
+import { computeAnchorHash, getLineOffsets, getLineStartOffset } from '../utils/LineUtils';
+import { parseCalloutLines } from '../utils/CalloutUtils';
+import { findInlineFields } from '../utils/InlineFieldUtils';
+import { inferPropertyType, inferPropertyTypeFromText, type PropertyType } from '../utils/PropertyTypeUtils';
+import { resolveTaskStatus } from '../utils/TaskStatusUtils';
+import { parseDataviewTaskFields, parseTaskIdList } from '../utils/TaskFormatUtils';
+import type { IndexNoteData, NoteRecord, FrontmatterJsonData, TableCellData, TaskData, ListItemData, CalloutData, CodeBlockData, InlineFieldData, UserViewData, UserFunctionData } from '../types';
+
+/*
+ * Pure-text parsing for indexing. Runs inside the indexing worker, so it must not use
+ * anything from 'obsidian' at runtime; metadata cache lookups happen on the main thread
+ * and arrive here as plain data.
+ */
+
+export type NoteParseCache = Pick<CachedMetadata, 'frontmatter' | 'frontmatterPosition' | 'sections' | 'listItems' | 'headings' | 'tags'>;
+
+export interface NoteParseInput {
+  path: string;
+  basename: string;
+  ctime: number;
+  mtime: number;
+  size: number;
+  content: string;
+  cache: NoteParseCache | null;
+  /** Types Obsidian declares for the note's frontmatter keys, looked up on the main thread */
+  propertyTypes: Record<string, PropertyType>;
+}
+
+/** Task settings the parser needs; copied into every worker request */
+export interface TaskParseOptions {
+  statuses: readonly TaskStatusDefinition[];
+  format: TaskFormat;
+}
+
+const DEFAULT_TASK_PARSE_OPTIONS: TaskParseOptions = { statuses: [], format: 'emoji' };
+
+export type ParsedNote = Omit<IndexNoteData, 'links' | 'embeds'> & {
+  timings: Omit<IndexingTimings, 'linksTime' | 'embedsTime'>;
+  parseTime: number;
+};
+
+export function needsContentProcessing(features: EnabledFeatures): boolean {
+  return features.indexContent ||
+       features.indexTables ||
+       features.indexTasks ||
+       features.indexListItems ||
+       features.indexCallouts ||
+       features.indexCodeBlocks ||
+       features.indexInlineFields;
+}
+
+/**
+ * Copy the parts of the metadata cache the parser reads, so only plain data is posted to the worker.
+ */
+export function toNoteParseCache(cache: CachedMetadata | null): NoteParseCache | null {
+  if (!cache) return null;
+
+  return {
+    frontmatter: cache.frontmatter,
+    frontmatterPosition: cache.frontmatterPosition,
+    sections: cache.sections,
+    listItems: cache.listItems,
+    headings: cache.headings,
+    tags: cache.tags
+  };
+}
+
+export class NoteParser {
+  public constructor(private features: EnabledFeatures, private taskOptions: TaskParseOptions = DEFAULT_TASK_PARSE_OPTIONS) {}
+
+  public parse(input: NoteParseInput): ParsedNote {
+    const startTime = performance.now();
+    const { content, cache } = input;
+
+    const { contentWithoutFrontmatter, fmTime } = this.extractContentWithoutFrontmatter(content, cache);
+    const note = this.createNoteRecord(input, contentWithoutFrontmatter);
+    const { frontmatterData, frontmatterJson, frontmatterTime } = this.processFrontmatter(cache, input.propertyTypes);
+    const featureData = this.processFeatures(input, contentWithoutFrontmatter);
+
+    return {
+      note,
+      frontmatterData,
+      frontmatterJson,
+      ...featureData.results,
+      timings: {
+        fmTime,
+        frontmatterTime,
+        ...featureData.timings
+      },
+      parseTime: performance.now() - startTime
+    };
+  }
+
+  private extractContentWithoutFrontmatter(content: string, cache: NoteParseCache | null): { contentWithoutFrontmatter: string; fmTime: number } {
+    if (!needsContentProcessing(this.features)) {
+      return { contentWithoutFrontmatter: '', fmTime: 0 };
+    }
+
+    const fmStartTime = performance.now();
+    let contentWithoutFrontmatter = '';
+
+    if (cache?.frontmatterPosition) {
+      contentWithoutFrontmatter = content.substring(cache.frontmatterPosition.end.offset).trim();
+    }
+    else {
+      contentWithoutFrontmatter = content;
+    }
+
+    const fmTime = performance.now() - fmStartTime;
+    return { contentWithoutFrontmatter, fmTime };
+  }
+
+  private createNoteRecord(input: NoteParseInput, contentWithoutFrontmatter: string): NoteRecord {
+    const now = Date.now();
+    const minValidTimestamp = 946684800000; // 2000-01-01 in ms - any file should be newer than this
+
+    let created = input.ctime;
+    let modified = input.mtime;
+
+    if (!modified || modified < minValidTimestamp) {
+      modified = now;
+    }
+
+    if (!created || created < minValidTimestamp) {
+      created = modified;
+    }
+
+    return {
+      path: input.path,
+      title: this.deriveTitle(input.path, input.basename),
+      content: this.features.indexContent ? contentWithoutFrontmatter : '',
+      created,
+      modified,
+      size: this.deriveSize(input.size, contentWithoutFrontmatter)
+    };
+  }
+
+  private processFrontmatter(cache: NoteParseCache | null, propertyTypes: Record<string, PropertyType>): {
+    frontmatterData: Array<{
+      key: string;
+      value: string;
+      valueType: string;
+      arrayIndex: number | null;
+    }>;
+    frontmatterJson: FrontmatterJsonData[];
+    frontmatterTime: number;
+  } {
+    if (!this.features.indexFrontmatter || !cache?.frontmatter) {
+      return { frontmatterData: [], frontmatterJson: [], frontmatterTime: 0 };
+    }
+
+    const frontmatterStartTime = performance.now();
+    const frontmatterData = this.processFrontmatterProperties(cache.frontmatter, propertyTypes);
+    const frontmatterJson = Object.entries(cache.frontmatter).map(([key, value]) => ({
+      key,
+      value_json: JSON.stringify(value) ?? 'null'
+    }));
+    const frontmatterTime = performance.now() - frontmatterStartTime;
+
+    return { frontmatterData, frontmatterJson, frontmatterTime };
+  }
+
+  private processFeatures(input: NoteParseInput, contentWithoutFrontmatter: string): {
+    results: {
+      tables: IndexNoteData['tables'];
+      tableCells: IndexNoteData['tableCells'];
+      tasks: IndexNoteData['tasks'];
+      headings: IndexNoteData['headings'];
+      tags: IndexNoteData['tags'];
+      listItems: IndexNoteData['listItems'];
+      callouts: IndexNoteData['callouts'];
+      codeBlocks: IndexNoteData['codeBlocks'];
+      inlineFields: IndexNoteData['inlineFields'];
+      userViews: IndexNoteData['userViews'];
+      userFunctions: IndexNoteData['userFunctions'];
+    };
+    timings: {
+      tablesTime: number;
+      tasksTime: number;
+      headingsTime: number;
+      tagsTime: number;
+      listItemsTime: number;
+      calloutsTime: number;
+      codeBlocksTime: number;
+      inlineFieldsTime: number;
+    };
+  } {
+    const { content, cache } = input;
+    const timings = {
+      tablesTime: 0,
+      tasksTime: 0,
+      headingsTime: 0,
+      tagsTime: 0,
+      listItemsTime: 0,
+      calloutsTime: 0,
+      codeBlocksTime: 0,
+      inlineFieldsTime: 0
+    };
+
+    const frontmatterOffset = cache?.frontmatterPosition?.end.offset ?? 0;
+    const trimmedOffset = frontmatterOffset > 0 ?
+      content.substring(frontmatterOffset).length - content.substring(frontmatterOffset).trimStart().length : 0;
+    const contentOffset = frontmatterOffset + trimmedOffset;
+
+    const fullLines = content ? content.split('\n') : [];
+
+    let lineOffset = 0;
+    if (contentOffset > 0 && fullLines.length > 0) {
+      let charCount = 0;
+      for (let i = 0; i < fullLines.length; i++) {
+        charCount += fullLines[i].length + 1; // +1 for newline
+        if (charCount >= contentOffset) {
+          lineOffset = i + 1;
+          break;
+        }
+      }
+    }
+
+    const { tables, tableCells, time: tablesTime } = this.processTablesFeature(
+      contentWithoutFrontmatter,
+      contentOffset,
+      lineOffset,
+      cache,
+      input.basename
+    );
+    timings.tablesTime = tablesTime;
+
+    const { tasks, time: tasksTime } = this.processTasksFeature(content, fullLines, cache);
+    timings.tasksTime = tasksTime;
+
+    const { headings, time: headingsTime } = this.processHeadingsFeature(content, fullLines, cache);
+    timings.headingsTime = headingsTime;
+
+    const { tags, time: tagsTime } = this.processTagsFeature(cache);
+    timings.tagsTime = tagsTime;
+
+    const { listItems, time: listItemsTime } = this.processListItemsFeature(fullLines, cache);
+    timings.listItemsTime = listItemsTime;
+
+    const { callouts, time: calloutsTime } = this.processCalloutsFeature(content, fullLines, cache);
+    timings.calloutsTime = calloutsTime;
+
+    const { codeBlocks, time: codeBlocksTime } = this.processCodeBlocksFeature(fullLines, cache);
+    timings.codeBlocksTime = codeBlocksTime;
+
+    const { inlineFields, time: inlineFieldsTime } = this.processInlineFieldsFeature(fullLines, cache);
+    timings.inlineFieldsTime = inlineFieldsTime;
+
+    const userViews = this.extractUserViews(content);
+    const userFunctions = this.extractUserFunctions(content);
+
+    return {
+      results: {
+        tables,
+        tableCells,
+        tasks,
+        headings,
+        tags,
+        listItems,
+        callouts,
+        codeBlocks,
+        inlineFields,
+        userViews: userViews.length > 0 ? userViews : undefined,
+        userFunctions: userFunctions.length > 0 ? userFunctions : undefined
+      },
+      timings
+    };
+  }
+
+  private processTablesFeature(contentWithoutFrontmatter: string, contentOffset: number, lineOffset: number, cache: NoteParseCache | null, noteTitle: string): {
+    tables: IndexNoteData['tables'];
+    tableCells: IndexNoteData['tableCells'];
+    time: number;
+  } {
+    if (!this.features.indexTables || !contentWithoutFrontmatter) {
+      return { tables: undefined, tableCells: undefined, time: 0 };
+    }
+
+    const hasSections = cache?.sections && cache.sections.length > 0;
+    if (!hasSections) {
+      return { tables: undefined, tableCells: undefined, time: 0 };
+    }
+
+    const startTime = performance.now();
+    const tables = MarkdownTableUtils.detectAllTables(contentWithoutFrontmatter, contentOffset, noteTitle);
+    const tableCells = this.parseAndIndexTables(contentWithoutFrontmatter, lineOffset, contentOffset, tables ?? []);
+    const time = performance.now() - startTime;
+
+    return { tables, tableCells, time };
+  }
+
+  private processTasksFeature(fullContent: string, fullLines: string[], cache: NoteParseCache | null): {
+    tasks: IndexNoteData['tasks'];
+    time: number;
+  } {
+    if (!this.features.indexTasks) {
+      return { tasks: undefined, time: 0 };
+    }
+
+    const taskItems = cache?.listItems?.filter(item => item.task !== undefined);
+    if (!taskItems || taskItems.length === 0) {
+      return { tasks: undefined, time: 0 };
+    }
+
+    const startTime = performance.now();
+    const tasks = this.parseTasksFromCache(fullContent, fullLines, taskItems, cache);
+    const time = performance.now() - startTime;
+
+    return { tasks, time };
+  }
+
+  private processHeadingsFeature(content: string, lines: string[], cache: NoteParseCache | null): {
+    headings: IndexNoteData['headings'];
+    time: number;
+  } {
+    if (!this.features.indexHeadings) {
+      return { headings: undefined, time: 0 };
+    }
+
+    const startTime = performance.now();
+
+    const cacheHeadings = cache?.headings ?? [];
+    const lastLineNumber = content.endsWith('\n') ? lines.length - 1 : lines.length;
+    const ancestors: HeadingCache[] = [];
+
+    const headings = cacheHeadings.map((heading: HeadingCache, index: number) => {
+      const lineIndex = heading.position.start.line;
+      const { start, end } = getLineOffsets(content, lineIndex);
+      const anchorHash = computeAnchorHash(lineIndex, lines);
+
+      let blockId: string | undefined;
+      if (lineIndex < lines.length - 1) {
+        const nextLineBlockMatch = lines[lineIndex + 1]?.match(/^\s*\^([\w-]+)\s*$/);
+        if (nextLineBlockMatch) {
+          blockId = nextLineBlockMatch[1];
+        }
+      }
+
+      while (ancestors.length > 0 && ancestors[ancestors.length - 1].level >= heading.level) {
+        ancestors.pop();
+      }
+      const headingPath = [...ancestors, heading].map(h => h.heading).join(' > ');
+      ancestors.push(heading);
+
+      // A section runs until the next heading of the same or a higher level
+      const sectionEnd = cacheHeadings.slice(index + 1).find(next => next.level <= heading.level);
+      const sectionEndLine = sectionEnd ? sectionEnd.position.start.line : lastLineNumber;
+
+      // The body stops at the next heading of any level; subsections keep their own body
+      const bodyEndLine = cacheHeadings[index + 1]?.position.start.line ?? lastLineNumber;
+      const bodyStartLine = blockId ? lineIndex + 2 : lineIndex + 1;
+      const body = lines.slice(bodyStartLine, bodyEndLine).join('\n').replace(/^(?:[ \t]*\r?\n)+/, '').trimEnd();
+
+      return {
+        level: heading.level,
+        heading_text: heading.heading,
+        line_number: heading.position.start.line + 1,
+        block_id: blockId,
+        start_offset: start,
+        end_offset: end,
+        anchor_hash: anchorHash,
+        heading_path: headingPath,
+        section_end_offset: sectionEnd ? sectionEnd.position.start.offset : content.length,
+        section_end_line: sectionEndLine,
+        body
+      };
+    });
+
+    const time = performance.now() - startTime;
+    return { headings, time };
+  }
+
+  private processTagsFeature(cache: NoteParseCache | null): {
+    tags: IndexNoteData['tags'];
+    time: number;
+  } {
+    if (!this.features.indexTags) {
+      return { tags: undefined, time: 0 };
+    }
+
+    const startTime = performance.now();
+    const tags = cache?.tags?.map((tag: TagCache) => ({
+      tag_name: tag.tag,
+      line_number: tag.position.start.line + 1
+    })) || [];
+
+    const time = performance.now() - startTime;
+    return { tags, time };
+  }
+
+  private processListItemsFeature(lines: string[], cache: NoteParseCache | null): {
+    listItems: IndexNoteData['listItems'];
+    time: number;
+  } {
+    if (!this.features.indexListItems) {
+      return { listItems: undefined, time: 0 };
+    }
+
+    const cacheListItems = cache?.listItems;
+    if (!cacheListItems || cacheListItems.length === 0) {
+      return { listItems: undefined, time: 0 };
+    }
+
+    const startTime = performance.now();
+    const listItems: ListItemData[] = [];
+
+    let currentListIndex = 0;
+    let lastRootLineNumber = -1;
+
+    const lineNumberToItemIndex = new Map<number, number>();
+
+    const nonTaskItems = cacheListItems.filter(item => item.task === undefined);
+
+    nonTaskItems.forEach(item => {
+      const lineIndex = item.position.start.line;
+      const line = lines[lineIndex] || '';
+
+      const isRootItem = item.parent < 0;
+
+      if (isRootItem && lastRootLineNumber >= 0 && lineIndex - lastRootLineNumber > 1) {
+        currentListIndex++;
+      }
+      if (isRootItem) {
+        lastRootLineNumber = lineIndex;
+      }
+
+      const bulletMatch = line.match(/^(\s*)[-*+]\s/);
+      const numberMatch = line.match(/^(\s*)\d+[.)]\s/);
+      const listType: 'bullet' | 'number' = numberMatch ? 'number' : 'bullet';
+
+      const leadingWhitespace = bulletMatch?.[1] || numberMatch?.[1] || '';
+      let indentLevel = 0;
+      for (const char of leadingWhitespace) {
+        if (char === '\t') {
+          indentLevel += 1;
+        }
+      }
+      // Add space-based indentation (2 spaces per level)
+      const spaceCount = (leadingWhitespace.match(/ /g) || []).length;
+      indentLevel += Math.floor(spaceCount / 2);
+
+      let itemContent = '';
+      if (bulletMatch) {
+        itemContent = line.substring(line.indexOf(bulletMatch[0]) + bulletMatch[0].length);
+      }
+      else if (numberMatch) {
+        itemContent = line.substring(line.indexOf(numberMatch[0]) + numberMatch[0].length);
+      }
+      else {
+        const genericMatch = line.match(/^\s*(?:[-*+]|\d+[.)])\s*(.*)/);
+        itemContent = genericMatch?.[1] || line.trim();
+      }
+
+      let blockId: string | undefined;
+      const blockMatch = line.match(/\^([\w-]+)\s*$/);
+      if (blockMatch) {
+        blockId = blockMatch[1];
+        itemContent = itemContent.replace(/\s*\^[\w-]+\s*$/, '');
+      }
+      else if (lineIndex < lines.length - 1) {
+        const nextLineBlockMatch = lines[lineIndex + 1].match(/^\s*\^([\w-]+)\s*$/);
+        if (nextLineBlockMatch) {
+          blockId = nextLineBlockMatch[1];
+        }
+      }
+
+      const startOffset = item.position.start.offset;
+      const endOffset = item.position.end.offset;
+
+      const anchorHash = computeAnchorHash(lineIndex, lines);
+
+      let parentIndex: number | null = null;
+      if (item.parent >= 0) {
+        const mappedParentIndex = lineNumberToItemIndex.get(item.parent);
+        if (mappedParentIndex !== undefined) {
+          parentIndex = mappedParentIndex;
+        }
+        // If parent mapping failed, check if parent was filtered out as a task
+        // In that case, the list item becomes a root item (null parent)
+        // This is expected behavior when tasks have non-task children
+      }
+
+      // Map this item's line number to its index for child lookups
+      lineNumberToItemIndex.set(lineIndex, listItems.length);
+
+      const listItemData: ListItemData = {
+        list_index: currentListIndex,
+        item_index: listItems.length,
+        parent_index: parentIndex,
+        content: itemContent.trim(),
+        list_type: listType,
+        indent_level: indentLevel,
+        line_number: lineIndex + 1, // 1-based
+        block_id: blockId,
+        start_offset: startOffset,
+        end_offset: endOffset,
+        anchor_hash: anchorHash
+      };
+
+      listItems.push(listItemData);
+    });
+
+    const time = performance.now() - startTime;
+    return { listItems: listItems.length > 0 ? listItems : undefined, time };
+  }
+
+  private processCalloutsFeature(content: string, lines: string[], cache: NoteParseCache | null): {
+    callouts: IndexNoteData['callouts'];
+    time: number;
+  } {
+    if (!this.features.indexCallouts) {
+      return { callouts: undefined, time: 0 };
+    }
+
+    const quoteSections = cache?.sections?.filter(section => section.type === 'callout' || section.type === 'blockquote');
+    if (!quoteSections || quoteSections.length === 0) {
+      return { callouts: [], time: 0 };
+    }
+
+    const startTime = performance.now();
+    const findSectionHeading = this.createSectionHeadingLookup(cache);
+
+    const callouts = quoteSections.map((section): CalloutData => {
+      const startLine = section.position.start.line;
+      const endLine = section.position.end.line;
+      const parts = parseCalloutLines(lines.slice(startLine, endLine + 1));
+
+      // Block ids for quotes usually sit on their own line right after the block
+      let blockId = parts.blockId ?? section.id;
+      if (!blockId && endLine < lines.length - 1) {
+        blockId = lines[endLine + 1]?.match(/^\s*\^([\w-]+)\s*$/)?.[1];
+      }
+
+      return {
+        type: parts.type,
+        title: parts.title,
+        fold_state: parts.foldState,
+        body: parts.body,
+        line_number: startLine + 1,
+        end_line_number: endLine + 1,
+        block_id: blockId ?? undefined,
+        start_offset: getLineOffsets(content, startLine).start,
+        end_offset: getLineOffsets(content, endLine).end,
+        anchor_hash: computeAnchorHash(startLine, lines),
+        section_heading: findSectionHeading(startLine)
+      };
+    });
+
+    const time = performance.now() - startTime;
+    return { callouts, time };
+  }
+
+  private processCodeBlocksFeature(lines: string[], cache: NoteParseCache | null): {
+    codeBlocks: IndexNoteData['codeBlocks'];
+    time: number;
+  } {
+    if (!this.features.indexCodeBlocks) {
+      return { codeBlocks: undefined, time: 0 };
+    }
+
+    const codeSections = cache?.sections?.filter(section => section.type === 'code');
+    if (!codeSections || codeSections.length === 0) {
+      return { codeBlocks: [], time: 0 };
+    }
+
+    const startTime = performance.now();
+    const findSectionHeading = this.createSectionHeadingLookup(cache);
+    const codeBlocks: CodeBlockData[] = [];
+
+    for (const section of codeSections) {
+      const startLine = section.position.start.line;
+      const endLine = section.position.end.line;
+
+      // Indented code blocks have no fence and no info string, so they are skipped
+      const openingFence = lines[startLine]?.match(/^\s*(`{3,}|~{3,})(.*)$/);
+      if (!openingFence) continue;
+
+      const fence = openingFence[1];
+      const closingFence = new RegExp(`^\\s*${fence[0]}{${fence.length},}\\s*$`);
+      const hasClosingFence = endLine > startLine && closingFence.test(lines[endLine] ?? '');
+      const infoString = openingFence[2].trim();
+
+      codeBlocks.push({
+        language: infoString ? infoString.split(/\s+/)[0] : null,
+        info_string: infoString || null,
+        content: lines.slice(startLine + 1, hasClosingFence ? endLine : endLine + 1).join('\n'),
+        line_number: startLine + 1,
+        end_line_number: endLine + 1,
+        section_heading: findSectionHeading(startLine)
+      });
+    }
+
+    const time = performance.now() - startTime;
+    return { codeBlocks, time };
+  }
+
+  private processInlineFieldsFeature(lines: string[], cache: NoteParseCache | null): {
+    inlineFields: IndexNoteData['inlineFields'];
+    time: number;
+  } {
+    if (!this.features.indexInlineFields) {
+      return { inlineFields: undefined, time: 0 };
+    }
+
+    const startTime = performance.now();
+
+    // Frontmatter and code blocks can contain `::` without being fields
+    const skippedLines = new Set<number>();
+    const frontmatterEnd = cache?.frontmatterPosition?.end.line ?? -1;
+    for (let i = 0; i <= frontmatterEnd; i++) {
+      skippedLines.add(i);
+    }
+    cache?.sections?.filter(section => section.type === 'code').forEach(section => {
+      for (let i = section.position.start.line; i <= section.position.end.line; i++) {
+        skippedLines.add(i);
+      }
+    });
+
+    // Items come in document order, so nested items overwrite their parents' lines
+    const containingItems = new Map<number, ListItemCache>();
+    cache?.listItems?.forEach(item => {
+      for (let i = item.position.start.line; i <= item.position.end.line; i++) {
+        containingItems.set(i, item);
+      }
+    });
+
+    const inlineFields: InlineFieldData[] = [];
+
+    lines.forEach((line, lineIndex) => {
+      if (skippedLines.has(lineIndex) || !line.includes('::')) return;
+
+      const item = containingItems.get(lineIndex);
+      for (const field of findInlineFields(line)) {
+        if (!field.key) continue;
+
+        inlineFields.push({
+          key: field.key,
+          value: field.value,
+          value_type: inferPropertyTypeFromText(field.value),
+          line_number: lineIndex + 1,
+          item_line_number: item ? item.position.start.line + 1 : null,
+          item_type: item ? (item.task !== undefined ? 'task' : 'list_item') : null
+        });
+      }
+    });
+
+    const time = performance.now() - startTime;
+    return { inlineFields, time };
+  }
+
+  /**
+   * Flatten frontmatter into property rows. value_type is the type Obsidian declares for a
+   * top-level key; nested keys and undeclared ones get a type inferred from the YAML value.
+   */
+  private processFrontmatterProperties(obj: Record<string, unknown>, propertyTypes: Record<string, PropertyType>, keyPrefix: string = ''): Array<{
+    key: string;
+    value: string;
+    valueType: string;
+    arrayIndex: number | null
+  }> {
+    const results: Array<{
+      key: string;
+      value: string;
+      valueType: string;
+      arrayIndex: number | null
+    }> = [];
+
+    for (const [key, value] of Object.entries(obj)) {
+      const fullKey = keyPrefix ? `${keyPrefix}.${key}` : key;
+      const declaredType = keyPrefix ? undefined : propertyTypes[key];
+
+      if (Array.isArray(value)) {
+        value.forEach((item, index) => {
+          const valueType = declaredType ?? 'list';
+          const valueString = item === null || item === undefined ? '' :
+                     typeof item === 'string' ? item : JSON.stringify(item);
+
+          results.push({
+            key: fullKey,
+            value: valueString,
+            valueType,
+            arrayIndex: index
+          });
+        });
+      }
+      else if (typeof value === 'object' && value !== null) {
+        results.push(...this.processFrontmatterProperties(value as Record<string, unknown>, propertyTypes, fullKey));
+      }
+      else {
+        const valueType = declaredType ?? inferPropertyType(value);
+        const valueString = value === null || value === undefined ? '' :
+                   typeof value === 'string' ? value : JSON.stringify(value);
+
+        results.push({
+          key: fullKey,
+          value: valueString,
+          valueType,
+          arrayIndex: null
+        });
+      }
+    }
+
+    return results;
+  }
+
+  private parseAndIndexTables(content: string, lineOffset: number, contentOffset: number, detectedTables: Array<{ table_index: number; table_name?: string; block_id?: string; start_offset: number; end_offset: number }>): TableCellData[] {
+    const tableCells: TableCellData[] = [];
+    const lines = content.split('\n');
+    let fallbackTableIdx = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      if (line.includes('|') && line.split('|').length > 2) {
+        const tableData = this.parseTableAt(lines, i);
+
+        if (tableData.headers.length > 0 && tableData.rows.length > 0) {
+          const tableStartOffset = getLineStartOffset(content, i) + contentOffset;
+
+          const detectedTable = detectedTables.find(dt => Math.abs(dt.start_offset - tableStartOffset) < 10);
+
+          const tableIndex = detectedTable?.table_index ?? fallbackTableIdx;
+          fallbackTableIdx++;
+
+          // table_name already resolved by MarkdownTableUtils (block_id > heading > noteTitle)
+          const tableName = detectedTable?.table_name ?? null;
+
+          tableData.rows.forEach((row, rowIndex) => {
+            const dataRowLineNumber = i + 2 + rowIndex + lineOffset + 1;
+
+            tableData.headers.forEach((columnName, columnIndex) => {
+              const cellValue = row[columnIndex] || '';
+
+              const cellData: TableCellData = {
+                tableIndex,
+                tableName,
+                rowIndex,
+                columnName,
+                cellValue,
+                lineNumber: dataRowLineNumber
+              };
+
+              tableCells.push(cellData);
+            });
+          });
+
+          i += tableData.totalLines - 1;
+        }
+      }
+    }
+
+    return tableCells;
+  }
+
+  private parseTableAt(lines: string[], startIndex: number): { headers: string[], rows: string[][], totalLines: number } {
+    const tableLines: string[] = [];
+    let currentIndex = startIndex;
+
+    while (currentIndex < lines.length) {
+      const line = lines[currentIndex];
+      if (line.includes('|') && line.split('|').length > 2) {
+        tableLines.push(line);
+        currentIndex++;
+      }
+      else {
+        break;
+      }
+    }
+
+    if (tableLines.length < 2) {
+      return { headers: [], rows: [], totalLines: 0 };
+    }
+
+    let headerLineIndex = -1;
+    let separatorLineIndex = -1;
+
+    for (let i = 0; i < Math.min(3, tableLines.length); i++) {
+      const line = tableLines[i];
+      const cells = line.split('|').map(cell => cell.trim()).filter(cell => cell !== '');
+
+      const isSeparator = cells.length > 0 && cells.every(cell => /^:?-+:?$/.test(cell));
+
+      if (isSeparator) {
+        separatorLineIndex = i;
+      }
+      else if (headerLineIndex === -1 && cells.length > 0) {
+        headerLineIndex = i;
+      }
+    }
+
+    if (headerLineIndex === -1) {
+      return { headers: [], rows: [], totalLines: 0 };
+    }
+
+    const headers = tableLines[headerLineIndex].split('|')
+      .map(cell => cell.trim())
+      .filter(cell => cell !== '');
+
+    const rows: string[][] = [];
+    for (let i = 0; i < tableLines.length; i++) {
+      if (i === headerLineIndex || i === separatorLineIndex) {
+        continue;
+      }
+
+      const cells = tableLines[i].split('|')
+        .map(cell => cell.trim())
+        .filter(cell => cell !== '');
+
+      const isSeparator = cells.length > 0 && cells.every(cell => /^:?-+:?$/.test(cell));
+      if (isSeparator) {
+        continue;
+      }
+
+      if (cells.length > 0) {
+        while (cells.length < headers.length) {
+          cells.push('');
+        }
+        if (cells.length > headers.length) {
+          cells.splice(headers.length);
+        }
+        rows.push(cells);
+      }
+    }
+
+    return {
+      headers,
+      rows,
+      totalLines: tableLines.length
+    };
+  }
+
+  private parseTasksFromCache(fullContent: string, fullLines: string[], taskItems: ListItemCache[], cache: NoteParseCache | null): TaskData[] {
+    const tasks: TaskData[] = [];
+    const findSectionHeading = this.createSectionHeadingLookup(cache);
+
+    // ListItemCache.parent is the parent item's line, or negative for a root item
+    const itemsByLine = new Map((cache?.listItems ?? []).map(item => [item.position.start.line, item]));
+    const getParent = (item: ListItemCache): ListItemCache | undefined =>
+      item.parent >= 0 && item.parent < item.position.start.line ? itemsByLine.get(item.parent) : undefined;
+
+    for (const [taskIndex, item] of taskItems.entries()) {
+      const lineIndex = item.position.start.line;
+      const line = fullLines[lineIndex] || '';
+      const checkbox = item.task || ' ';
+      const { status, type: statusType } = resolveTaskStatus(checkbox, this.taskOptions.statuses);
+
+      const taskTextMatch = line.match(/^\s*[-*+]\s*\[.\]\s*(.*)$/);
+      const taskText = taskTextMatch ? taskTextMatch[1] : line;
+
+      const { start, end } = getLineOffsets(fullContent, lineIndex);
+      const anchorHash = computeAnchorHash(lineIndex, fullLines);
+
+      let blockId: string | undefined;
+      const blockMatch = line.match(/\^([\w-]+)\s*$/);
+      if (blockMatch) {
+        blockId = blockMatch[1];
+      }
+      else if (lineIndex < fullLines.length - 1) {
+        const nextLineBlockMatch = fullLines[lineIndex + 1]?.match(/^\s*\^([\w-]+)\s*$/);
+        if (nextLineBlockMatch) {
+          blockId = nextLineBlockMatch[1];
+        }
+      }
+
+      const metadata = this.extractTaskMetadata(taskText);
+
+      // The parent task may sit above plain list items, so walk up to the nearest task
+      let indentLevel = 0;
+      let parentTask: ListItemCache | undefined;
+      for (let parent = getParent(item); parent; parent = getParent(parent)) {
+        indentLevel++;
+        if (!parentTask && parent.task !== undefined) {
+          parentTask = parent;
+        }
+      }
+
+      const taskData: TaskData = {
+        line_number: lineIndex + 1,
+        task_text: taskText.trim(),
+        completed: statusType === 'DONE',
+        status,
+        status_symbol: checkbox,
+        status_type: statusType,
+        priority: metadata.priority,
+        due_date: metadata.dueDate,
+        scheduled_date: metadata.scheduledDate,
+        start_date: metadata.startDate,
+        created_date: metadata.createdDate,
+        done_date: metadata.doneDate,
+        cancelled_date: metadata.cancelledDate,
+        recurrence: metadata.recurrence,
+        on_completion: metadata.onCompletion,
+        task_id: metadata.taskId,
+        depends_on: metadata.dependsOn,
+        tags: metadata.tags,
+        block_id: blockId,
+        start_offset: start,
+        end_offset: end,
+        anchor_hash: anchorHash,
+        section_heading: findSectionHeading(lineIndex),
+        parent_line_number: parentTask ? parentTask.position.start.line + 1 : null,
+        indent_level: indentLevel,
+        task_index: taskIndex
+      };
+
+      tasks.push(taskData);
+    }
+
+    return tasks;
+  }
+
+  private createSectionHeadingLookup(cache: NoteParseCache | null): (lineIndex: number) => string | undefined {
+    const headingsByLine = new Map<number, string>();
+    if (cache?.headings) {
+      for (const heading of cache.headings) {
+        headingsByLine.set(heading.position.start.line, heading.heading);
+      }
+    }
+
+    return (lineIndex: number): string | undefined => {
+      let lastHeading: string | undefined;
+      for (const [headingLine, headingText] of headingsByLine) {
+        if (headingLine < lineIndex) {
+          lastHeading = headingText;
+        }
+        else {
+          break;
+        }
+      }
+      return lastHeading;
+    };
+  }
+
+  private extractTaskMetadata(taskText: string): {
+    priority?: string;
+    createdDate?: string;
+    scheduledDate?: string;
+    startDate?: string;
+    dueDate?: string;
+    doneDate?: string;
+    cancelledDate?: string;
+    recurrence?: string;
+    onCompletion?: string;
+    taskId?: string;
+    dependsOn?: string;
+    tags?: string;
+  } {
+    const tagMatches = taskText.match(/#[\w-]+/g);
+    const tags = tagMatches ? tagMatches.join(' ') : undefined;
+
+    const { format } = this.taskOptions;
+    const emoji = format === 'dataview' ? {} : this.extractEmojiTaskMetadata(taskText);
+    const dataview = format === 'emoji' ? {} : parseDataviewTaskFields(taskText);
+    const dependsOn = parseTaskIdList(emoji.dependsOn ?? dataview.depends_on);
+
+    // With both formats on a line, the emoji value wins
+    return {
+      priority: emoji.priority ?? dataview.priority,
+      createdDate: emoji.createdDate ?? dataview.created_date,
+      scheduledDate: emoji.scheduledDate ?? dataview.scheduled_date,
+      startDate: emoji.startDate ?? dataview.start_date,
+      dueDate: emoji.dueDate ?? dataview.due_date,
+      doneDate: emoji.doneDate ?? dataview.done_date,
+      cancelledDate: emoji.cancelledDate ?? dataview.cancelled_date,
+      recurrence: emoji.recurrence ?? dataview.recurrence,
+      onCompletion: emoji.onCompletion ?? dataview.on_completion,
+      taskId: emoji.taskId ?? dataview.task_id,
+      dependsOn: dependsOn.length > 0 ? dependsOn.join(',') : undefined,
+      tags
+    };
+  }
+
+  private extractEmojiTaskMetadata(taskText: string): {
+    priority?: string;
+    createdDate?: string;
+    scheduledDate?: string;
+    startDate?: string;
+    dueDate?: string;
+    doneDate?: string;
+    cancelledDate?: string;
+    recurrence?: string;
+    onCompletion?: string;
+    taskId?: string;
+    dependsOn?: string;
+  } {
+    let priority: string | undefined;
+    if (taskText.includes('🔺')) {
+      priority = 'highest';
+    }
+    else if (taskText.includes('⏫')) {
+      priority = 'high';
+    }
+    else if (taskText.includes('🔼')) {
+      priority = 'medium';
+    }
+    else if (taskText.includes('🔽')) {
+      priority = 'low';
+    }
+    else if (taskText.includes('⏬')) {
+      priority = 'lowest';
+    }
+
+    const createdDateMatch = taskText.match(/➕\s*(\d{4}-\d{2}-\d{2})/);
+    const createdDate = createdDateMatch?.[1];
+
+    const scheduledDateMatch = taskText.match(/⏳\s*(\d{4}-\d{2}-\d{2})/);
+    const scheduledDate = scheduledDateMatch?.[1];
+
+    const startDateMatch = taskText.match(/🛫\s*(\d{4}-\d{2}-\d{2})/);
+    const startDate = startDateMatch?.[1];
+
+    const dueDateMatch = taskText.match(/📅\s*(\d{4}-\d{2}-\d{2})/);
+    const dueDate = dueDateMatch?.[1];
+
+    const doneDateMatch = taskText.match(/✅\s*(\d{4}-\d{2}-\d{2})/);
+    const doneDate = doneDateMatch?.[1];
+
+    const cancelledDateMatch = taskText.match(/❌\s*(\d{4}-\d{2}-\d{2})/);
+    const cancelledDate = cancelledDateMatch?.[1];
+
+    const recurrenceMatch = taskText.match(/🔁\s*([^📅⏳🛫➕✅❌🔺⏫🔼🔽⏬🆔⛔🏁#]+)/);
+    const recurrence = recurrenceMatch?.[1]?.trim();
+
+    const onCompletionMatch = taskText.match(/🏁\s*(\w+)/);
+    const onCompletion = onCompletionMatch?.[1];
+
+    const taskIdMatch = taskText.match(/🆔\s*([\w-]+)/);
+    const taskId = taskIdMatch?.[1];
+
+    const dependsOnMatch = taskText.match(/⛔\s*([\w-]+(?:\s*,\s*[\w-]+)*)/);
+    const dependsOn = dependsOnMatch?.[1];
+
+    return {
+      priority,
+      createdDate,
+      scheduledDate,
+      startDate,
+      dueDate,
+      doneDate,
+      cancelledDate,
+      recurrence,
+      onCompletion,
+      taskId,
+      dependsOn
+    };
+  }
+
+  private deriveTitle(path: string, basename: string): string {
+    if (basename && basename !== '') {
+      return basename;
+    }
+
+    if (path.includes('/')) {
+      return path.substring(path.lastIndexOf('/') + 1).replace('.md', '');
+    }
+    else {
+      return path.replace('.md', '');
+    }
+  }
+
+  private deriveSize(statSize: number, content: string): number {
+    if (statSize && statSize > 0) {
+      return statSize;
+    }
+
+    return content ? content.length : 0;
+  }
+
+  private extractUserViews(content: string): UserViewData[] {
+    const views: UserViewData[] = [];
+    const viewBlockRegex = /```vaultquery-view\s*\n([\s\S]*?)```/g;
+    let match;
+
+    while ((match = viewBlockRegex.exec(content)) !== null) {
+      const sql = match[1].trim();
+      const viewNameMatch = sql.match(/CREATE\s+VIEW\s+(?:IF\s+NOT\s+EXISTS\s+)?["'`]?(\w+)["'`]?\s+AS/i);
+      if (viewNameMatch) {
+        views.push({
+          view_name: viewNameMatch[1],
+          sql: sql
+        });
+      }
+    }
+
+    return views;
+  }
+
+  private extractUserFunctions(content: string): UserFunctionData[] {
+    const functions: UserFunctionData[] = [];
+    const functionBlockRegex = /```vaultquery-function\s*\n([\s\S]*?)```/g;
+    let match;
+
+    while ((match = functionBlockRegex.exec(content)) !== null) {
+      const blockContent = match[1].trim();
+      const separatorIndex = blockContent.indexOf('\n---');
+
+      if (separatorIndex > 0) {
+        const functionName = blockContent.substring(0, separatorIndex).trim();
+        const source = blockContent.substring(separatorIndex + 4).trim();
+        if (functionName && source) {
+          functions.push({
+            function_name: functionName,
+            source: source
+          });
+        }
+      }
+    }
+
+    return functions;
+  }
+}
@@ -9,8 +9,12 @@ export interface IndexingTimings {
   tasksTime: number;
   headingsTime: number;
   linksTime: number;
+  embedsTime: number;
   tagsTime: number;
   listItemsTime: number;
+  calloutsTime: number;
+  codeBlocksTime: number;
+  inlineFieldsTime: number;
 }
 
 interface SlowFileEntry {
@@ -36,8 +40,7 @@ export class PerformanceMonitor {
     this.totalFilesProcessed = 0;
   }
 
-  public trackFile(file: TFile, startTime: number, timings: IndexingTimings, needsContentProcessing: boolean): void {
-    const totalTime = performance.now() - startTime;
+  public trackFile(file: TFile, totalTime: number, timings: IndexingTimings, needsContentProcessing: boolean): void {
     this.totalFilesProcessed++;
 
     if (totalTime <= PerformanceMonitor.SLOW_THRESHOLD_MS) {
@@ -101,7 +104,7 @@ export class PerformanceMonitor {
       return 'metadata-only';
     }
 
-    return `content+metadata (fm: ${timings.fmTime.toFixed(1)}ms, frontmatter: ${timings.frontmatterTime.toFixed(1)}ms, tables: ${timings.tablesTime.toFixed(1)}ms, tasks: ${timings.tasksTime.toFixed(1)}ms, headings: ${timings.headingsTime.toFixed(1)}ms, links: ${timings.linksTime.toFixed(1)}ms, tags: ${timings.tagsTime.toFixed(1)}ms, listItems: ${timings.listItemsTime.toFixed(1)}ms)`;
+    return `content+metadata (fm: ${timings.fmTime.toFixed(1)}ms, frontmatter: ${timings.frontmatterTime.toFixed(1)}ms, tables: ${timings.tablesTime.toFixed(1)}ms, tasks: ${timings.tasksTime.toFixed(1)}ms, headings: ${timings.headingsTime.toFixed(1)}ms, links: ${timings.linksTime.toFixed(1)}ms, embeds: ${timings.embedsTime.toFixed(1)}ms, tags: ${timings.tagsTime.toFixed(1)}ms, listItems: ${timings.listItemsTime.toFixed(1)}ms, callouts: ${timings.calloutsTime.toFixed(1)}ms, codeBlocks: ${timings.codeBlocksTime.toFixed(1)}ms, inlineFields: ${timings.inlineFieldsTime.toFixed(1)}ms)`;
   }
 
   private getTopSlowFiles(): IndexingStats['slowFiles'] {
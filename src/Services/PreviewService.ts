@@ -1,9 +1,9 @@
 import { Database } from 'sql.js';
-import { App, normalizePath } from 'obsidian';
 import { friendlySqliteError } from '../utils/ErrorMessages';
+import type { QueryParams } from '../types';
 
 type Row = Record<string, unknown>;
-type SqlAndParams = { sql: string; params?: unknown[] };
+type SqlAndParams = { sql: string; params?: QueryParams };
 
 export type PreviewResult = {
   op: "insert" | "update" | "delete" | "multi";
@@ -18,9 +18,9 @@ export type PreviewResult = {
 };
 
 export class PreviewService {
-  public constructor(private db: Database, private app?: App) {}
+  public constructor(private db: Database) {}
 
-  public previewDmlFromSql(sql: string, params: unknown[] = []): PreviewResult {
+  public previewDmlFromSql(sql: string, params: QueryParams = []): PreviewResult {
 
     const statements = splitSqlStatements(sql);
 
@@ -42,7 +42,7 @@ export class PreviewService {
     }
   }
 
-  private previewSingleStatementDml(sql: string, params: unknown[] = []): PreviewResult {
+  private previewSingleStatementDml(sql: string, params: QueryParams = []): PreviewResult {
     const strippedSql = stripLeadingCte(sql);
     const op = detectOperation(strippedSql);
     if (!op) throw new Error("Only INSERT, UPDATE, or DELETE are supported.");
@@ -121,7 +121,7 @@ export class PreviewService {
     }
   }
 
-  private previewMultiStatementDml(statements: string[], params: unknown[] = []): PreviewResult {
+  private previewMultiStatementDml(statements: string[], params: QueryParams = []): PreviewResult {
     const validatedStatements: Array<{ sql: string; op: string; table: string }> = [];
     
     for (const stmt of statements) {
@@ -208,39 +208,13 @@ export class PreviewService {
 
     return [];
   }
-
-  public enhanceWithVaultValidation(result: PreviewResult): PreviewResult & { warnings?: string[] } {
-    if (!this.app?.vault || !this.app?.metadataCache) return result;
-
-    const warnings: string[] = [];
-    
-    if (result.table === 'notes' || result.table === 'notes_with_properties') {
-      [...result.before, ...result.after].forEach(row => {
-        if (row.path) {
-          const pathStr = String(row.path);
-          const file = this.app?.vault.getAbstractFileByPath(normalizePath(pathStr));
-          if (!file && result.op !== 'insert') {
-            warnings.push(`File not found in vault: ${pathStr}`);
-          }
-          else if (file && result.op === 'insert') {
-            warnings.push(`File already exists in vault: ${pathStr}`);
-          }
-        }
-      });
-    }
-
-    return {
-      ...result,
-      warnings: warnings.length > 0 ? warnings : undefined
-    } as PreviewResult & { warnings?: string[] };
-  }
 }
 
-function selectRows(db: Database, sql: string, params: unknown[] = []): Row[] {
+function selectRows(db: Database, sql: string, params: QueryParams | unknown[] = []): Row[] {
   const stmt = db.prepare(sql);
   const out: Row[] = [];
   try {
-    stmt.bind(params as (string | number | null | Uint8Array)[]);
+    stmt.bind(params as QueryParams);
     const columnNames = stmt.getColumnNames();
     while (stmt.step()) {
       // Use "first wins" behavior for duplicate column names (important for JOINs)
@@ -705,7 +679,7 @@ export function applyBatch(db: Database, batch: SqlAndParams[]) {
     for (const { sql, params } of batch) {
       const stmt = db.prepare(sql);
       try {
-        stmt.bind((params ?? []) as (string | number | null | Uint8Array)[]);
+        stmt.bind(params ?? []);
         stmt.step();
       } finally {
         stmt.free();
@@ -0,0 +1,77 @@
+import { DataAdapter } from 'obsidian';
+import { CONSOLE_ERRORS } from '../utils/ErrorMessages';
+
+export interface QueryHistoryEntry {
+  query: string;
+  executedAt: number;
+}
+
+const MAX_HISTORY_ENTRIES = 100;
+
+/**
+ * Persists queries run from the SQL console as a JSON file next to the database.
+ * The most recent query comes first and re-running a query moves it back to the top.
+ */
+export class QueryHistoryService {
+  private entries: QueryHistoryEntry[] = [];
+  private loaded = false;
+
+  public constructor(private adapter: DataAdapter, private historyPath: string) {}
+
+  public async load(): Promise<QueryHistoryEntry[]> {
+    if (this.loaded) return this.entries;
+
+    try {
+      if (await this.adapter.exists(this.historyPath)) {
+        const raw: unknown = JSON.parse(await this.adapter.read(this.historyPath));
+        if (Array.isArray(raw)) {
+          this.entries = raw
+            .filter((entry): entry is QueryHistoryEntry =>
+              typeof entry?.query === 'string' && typeof entry?.executedAt === 'number')
+            .slice(0, MAX_HISTORY_ENTRIES);
+        }
+      }
+    }
+    catch (error) {
+      console.error(`[VaultQuery] ${CONSOLE_ERRORS.CONSOLE_HISTORY_LOAD_FAILED}:`, error);
+    }
+
+    this.loaded = true;
+    return this.entries;
+  }
+
+  public getEntries(): QueryHistoryEntry[] {
+    return this.entries;
+  }
+
+  public async add(query: string): Promise<void> {
+    const trimmed = query.trim();
+    if (!trimmed) return;
+
+    await this.load();
+    this.entries = [
+      { query: trimmed, executedAt: Date.now() },
+      ...this.entries.filter(entry => entry.query !== trimmed)
+    ].slice(0, MAX_HISTORY_ENTRIES);
+
+    await this.save();
+  }
+
+  public async clear(): Promise<void> {
+    this.entries = [];
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    try {
+      const dir = this.historyPath.substring(0, this.historyPath.lastIndexOf('/'));
+      if (dir && !(await this.adapter.exists(dir))) {
+        await this.adapter.mkdir(dir);
+      }
+      await this.adapter.write(this.historyPath, JSON.stringify(this.entries, null, 2));
+    }
+    catch (error) {
+      console.error(`[VaultQuery] ${CONSOLE_ERRORS.CONSOLE_HISTORY_SAVE_FAILED}:`, error);
+    }
+  }
+}
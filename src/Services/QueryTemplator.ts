@@ -1,5 +1,6 @@
 import { App } from 'obsidian';
 import { PlaceholderResolver, ObsidianContextProvider, obsidianHelpers, escapeSqlString, FileSource } from 'placeholder-resolver';
+import type { QueryParams, QueryParamValue } from '../types';
 
 export async function resolveQueryTemplate(sql: string, app: App, fileSource: FileSource): Promise<string> {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Required for cross-package type compatibility
@@ -16,3 +17,33 @@ export async function resolveQueryTemplate(sql: string, app: App, fileSource: Fi
   return resolver.resolve(sql);
 }
 
+
+/**
+ * Resolve `{this.*}` placeholders inside string bind values. Resolved values are
+ * bound as-is rather than SQL-escaped, since binding already handles quoting.
+ */
+export async function resolveQueryParams(params: QueryParams, app: App, fileSource: FileSource): Promise<QueryParams> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Required for cross-package type compatibility
+  const contextProvider = new ObsidianContextProvider(app as any, fileSource as any);
+
+  const resolver = new PlaceholderResolver(contextProvider, {
+    escapeValue: (value: unknown) => String(value ?? ''),
+    prefix: 'this',
+    throwOnUnresolved: false,
+    customHelpers: obsidianHelpers,
+    helpersName: 'h',
+  });
+
+  const resolveValue = async (value: QueryParamValue): Promise<QueryParamValue> =>
+    typeof value === 'string' && value.includes('{') ? resolver.resolve(value) : value;
+
+  if (Array.isArray(params)) {
+    return Promise.all(params.map(resolveValue));
+  }
+
+  const resolved: Record<string, QueryParamValue> = {};
+  for (const [name, value] of Object.entries(params)) {
+    resolved[name] = await resolveValue(value);
+  }
+  return resolved;
+}
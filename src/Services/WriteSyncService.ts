@@ -9,7 +9,7 @@ import { EntityHandlerRegistry, type PreviewResult, type EditPlannerPreviewResul
 
 import type { PreviewResult as ServicePreviewResult } from './PreviewService';
 import type { EditPlan, Edit, ReplaceRangeEdit, FrontmatterEdit } from './EditPlanner';
-import type { TaskRow, HeadingRow, ListItemRow, TableCellRow } from './ContentLocationService';
+import type { TaskRow, HeadingRow, ListItemRow, CalloutRow, TableCellRow } from './ContentLocationService';
 
 export class WriteOperationError extends Error {
   public constructor(message: string, public readonly operation: string, public readonly filePath?: string, public readonly cause?: Error) {
@@ -29,7 +29,12 @@ export class WriteSyncService {
       metadataCache: this.app.metadataCache,
       readFile: this.readFileContent.bind(this),
       discoverTableRange: (content: string, tableIndex: number) => MarkdownTableUtils.findTableByIndex(content, tableIndex),
-      queryListItemsByListIndex: this.queryListItemsByListIndex.bind(this)
+      queryListItemsByListIndex: this.queryListItemsByListIndex.bind(this),
+      getTaskOptions: () => ({
+        statuses: this.settings.customTaskStatuses,
+        format: this.settings.taskFormat,
+        transitions: this.settings.taskTransitions
+      })
     });
 
     this.handlerRegistry = new EntityHandlerRegistry();
@@ -249,7 +254,7 @@ export class WriteSyncService {
       'tasks_view': 'tasks'
     };
 
-    const syncTables = ['notes', 'properties', 'tasks', 'table_cells', 'headings', 'table_rows', 'headings_view', 'list_items', 'list_items_view', 'tags', 'links'];
+    const syncTables = ['notes', 'properties', 'note_frontmatter', 'tasks', 'table_cells', 'headings', 'table_rows', 'headings_view', 'list_items', 'list_items_view', 'callouts', 'tags', 'links', 'embeds'];
     let effectiveTable = viewToTable[previewResult.table] || previewResult.table;
 
     const isDynamicTableView = effectiveTable.endsWith('_table') && !syncTables.includes(effectiveTable);
@@ -276,6 +281,8 @@ export class WriteSyncService {
     const allHeadingsToDelete: HeadingRow[] = [];
     const allListItems: ListItemRow[] = [];
     const allListItemsToDelete: ListItemRow[] = [];
+    const allCallouts: CalloutRow[] = [];
+    const allCalloutsToDelete: CalloutRow[] = [];
     const allFilesToCreate: Array<{ path: string; content: string }> = [];
     const allFilesToDelete: string[] = [];
 
@@ -305,6 +312,8 @@ export class WriteSyncService {
         allHeadingsToDelete.push(...(converted.headingsToDelete || []));
         allListItems.push(...(converted.listItemsAfter || []));
         allListItemsToDelete.push(...(converted.listItemsToDelete || []));
+        allCallouts.push(...(converted.calloutsAfter || []));
+        allCalloutsToDelete.push(...(converted.calloutsToDelete || []));
         allFilesToCreate.push(...(converted.filesToCreate || []));
         allFilesToDelete.push(...(converted.filesToDelete || []));
       }
@@ -345,6 +354,8 @@ export class WriteSyncService {
       tableCellsAfter: allTableCells,
       listItemsAfter: allListItems,
       listItemsToDelete: allListItemsToDelete,
+      calloutsAfter: allCallouts,
+      calloutsToDelete: allCalloutsToDelete,
       filesToCreate: allFilesToCreate.length > 0 ? allFilesToCreate : undefined,
       filesToDelete: allFilesToDelete.length > 0 ? allFilesToDelete : undefined
     };
@@ -1,5 +1,7 @@
 export const getDatabaseDir = (configDir: string): string => `${configDir}/plugins/vaultquery`;
 export const getDatabasePath = (configDir: string): string => `${getDatabaseDir(configDir)}/database.db`;
+export const getDatabaseChunksDir = (configDir: string): string => `${getDatabaseDir(configDir)}/database-chunks`;
+export const getConsoleHistoryPath = (configDir: string): string => `${getDatabaseDir(configDir)}/console-history.json`;
 
 export interface EnabledFeatures {
   indexContent: boolean;
@@ -8,10 +10,45 @@ export interface EnabledFeatures {
   indexTasks: boolean;
   indexHeadings: boolean;
   indexLinks: boolean;
+  indexEmbeds: boolean;
   indexTags: boolean;
   indexListItems: boolean;
+  indexCallouts: boolean;
+  indexCodeBlocks: boolean;
+  indexInlineFields: boolean;
+  indexFiles: boolean;
+  indexCanvases: boolean;
+  indexFullText: boolean;
 }
 
+/** Mirrors the status types of the Tasks plugin */
+export type TaskStatusType = 'TODO' | 'IN_PROGRESS' | 'ON_HOLD' | 'DONE' | 'CANCELLED' | 'NON_TASK';
+
+export interface TaskStatusDefinition {
+  /** Single character between the checkbox brackets, e.g. '>' for [>] */
+  symbol: string;
+  /** Stored in tasks.status */
+  name: string;
+  type: TaskStatusType;
+}
+
+/** Dates task writes fill in or clear when a status changes, like checking a box in the Tasks plugin */
+export interface TaskTransitionSettings {
+  /** done_date (✅) when a task becomes DONE */
+  stampDoneDate: boolean;
+  /** cancelled_date (❌) when a task becomes CANCELLED */
+  stampCancelledDate: boolean;
+  /** Drop done_date and cancelled_date when a DONE or CANCELLED task is reopened */
+  clearDatesOnReopen: boolean;
+  /** created_date (➕) on inserted tasks */
+  stampCreatedDate: boolean;
+}
+
+/** How task dates, priority and the like are written: Tasks plugin emoji or [key:: value] fields */
+export type TaskFormat = 'emoji' | 'dataview' | 'both';
+
+export type DatabaseStorage = 'memory' | 'disk' | 'incremental';
+
 export type WasmSource = 'auto' | 'cdn' | 'local';
 
 export interface WasmSettings {
@@ -24,8 +61,15 @@ export interface VaultQuerySettings {
   indexingInterval: 'realtime' | 'manual' | 'startup';
   excludePatterns: string[];
   maxFileSizeKB: number;
-  databaseStorage: 'memory' | 'disk';
+  queryTimeoutSeconds: number;
+  databaseStorage: DatabaseStorage;
   enabledFeatures: EnabledFeatures;
+  /** Checkbox symbols beyond (or overriding) [ ], [x], [/] and [-] */
+  customTaskStatuses: TaskStatusDefinition[];
+  taskFormat: TaskFormat;
+  taskTransitions: TaskTransitionSettings;
+  /** Also index vaultquery* code blocks into code_blocks */
+  indexVaultQueryCodeBlocks: boolean;
   allowWriteOperations: boolean;
   allowDeleteNotes: boolean;
   enableInlineButtons: boolean;
@@ -41,6 +85,10 @@ export function validateSettings(settings: VaultQuerySettings): void {
   if (!settings.enabledFeatures.indexContent) {
     settings.enabledFeatures.indexTables = false;
     settings.enabledFeatures.indexTasks = false;
+    settings.enabledFeatures.indexCallouts = false;
+    settings.enabledFeatures.indexCodeBlocks = false;
+    settings.enabledFeatures.indexInlineFields = false;
+    settings.enabledFeatures.indexFullText = false;
     settings.enableDynamicTableViews = false;
   }
 
@@ -58,6 +106,10 @@ export function validateSettings(settings: VaultQuerySettings): void {
     settings.allowDeleteNotes = false;
     settings.enableInlineButtons = false;
   }
+
+  if (!Number.isFinite(settings.queryTimeoutSeconds) || settings.queryTimeoutSeconds < 0) {
+    settings.queryTimeoutSeconds = DEFAULT_SETTINGS.queryTimeoutSeconds;
+  }
 }
 
 export const DEFAULT_SETTINGS: VaultQuerySettings = {
@@ -66,6 +118,7 @@ export const DEFAULT_SETTINGS: VaultQuerySettings = {
 
   ],
   maxFileSizeKB: 1000, 
+  queryTimeoutSeconds: 30,
   databaseStorage: 'memory', 
   enabledFeatures: {
     indexContent: true,
@@ -74,9 +127,25 @@ export const DEFAULT_SETTINGS: VaultQuerySettings = {
     indexTasks: true,
     indexHeadings: true,
     indexLinks: false,
+    indexEmbeds: false,
     indexTags: true,
-    indexListItems: false
+    indexListItems: false,
+    indexCallouts: false,
+    indexCodeBlocks: false,
+    indexInlineFields: false,
+    indexFiles: false,
+    indexCanvases: false,
+    indexFullText: false
+  },
+  customTaskStatuses: [],
+  taskFormat: 'emoji',
+  taskTransitions: {
+    stampDoneDate: true,
+    stampCancelledDate: true,
+    clearDatesOnReopen: true,
+    stampCreatedDate: false
   },
+  indexVaultQueryCodeBlocks: false,
   allowWriteOperations: false,
   allowDeleteNotes: false,
   enableInlineButtons: false,
@@ -1,7 +1,7 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
 import VaultQueryPlugin from '../main';
 import { IndexingStatsModal } from '../Modals/IndexingStatsModal';
-import type { WasmSource } from './Settings';
+import type { DatabaseStorage, TaskFormat, TaskStatusType, WasmSource } from './Settings';
 
 declare const activeWindow: Window;
 
@@ -70,15 +70,30 @@ export class VaultQuerySettingTab extends PluginSettingTab {
           }
         }));
 
+    new Setting(containerEl)
+      .setName('Query timeout')
+      .setDesc('Stop queries that run longer than this many seconds. Set to 0 to disable. Queries are checked between result rows, so a single aggregate over a very large join may still run past the limit.')
+      .addText(text => text
+        .setPlaceholder('30')
+        .setValue(this.plugin.settings.queryTimeoutSeconds.toString())
+        .onChange((value) => {
+          const seconds = parseInt(value);
+          if (!isNaN(seconds) && seconds >= 0) {
+            this.plugin.settings.queryTimeoutSeconds = seconds;
+            void this.plugin.saveSettings();
+          }
+        }));
+
     new Setting(containerEl)
       .setName('Database storage')
-      .setDesc('Choose how to store the database. Disk storage persists between sessions. Memory storage is faster but requires re-indexing on startup.')
+      .setDesc('Choose how to store the database. Disk storage persists between sessions as a single file. Incremental disk storage only writes the parts of the database that changed, which keeps saves fast on large vaults. Memory storage is faster but requires re-indexing on startup. Reload the plugin for changes to take effect.')
       .addDropdown(dropdown => dropdown
+        .addOption('incremental', 'Incremental disk storage (persistent)')
         .addOption('disk', 'Disk storage (persistent)')
         .addOption('memory', 'Memory storage (faster)')
         .setValue(this.plugin.settings.databaseStorage)
         .onChange((value: string) => {
-          this.plugin.settings.databaseStorage = value as 'memory' | 'disk';
+          this.plugin.settings.databaseStorage = value as DatabaseStorage;
           void this.plugin.saveSettings();
         }));
 
@@ -117,6 +132,36 @@ export class VaultQuerySettingTab extends PluginSettingTab {
           void this.plugin.saveSettings();
         }));
 
+    new Setting(containerEl)
+      .setName('Index embeds')
+      .setDesc('Index embedded files and transclusions such as images and note sections.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.enabledFeatures.indexEmbeds)
+        .onChange((value) => {
+          this.plugin.settings.enabledFeatures.indexEmbeds = value;
+          void this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Index all vault files')
+      .setDesc('Keep a files table of every file in the vault, including attachments, canvases and PDFs, with size and timestamps. Combined with link and embed indexing, the orphaned_attachments view lists files nothing points to.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.enabledFeatures.indexFiles)
+        .onChange((value) => {
+          this.plugin.settings.enabledFeatures.indexFiles = value;
+          void this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Index canvases')
+      .setDesc('Parse canvas files into canvas_nodes and canvas_edges tables, to find which notes appear on which boards and what text cards say.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.enabledFeatures.indexCanvases)
+        .onChange((value) => {
+          this.plugin.settings.enabledFeatures.indexCanvases = value;
+          void this.plugin.saveSettings();
+        }));
+
     new Setting(containerEl)
       .setName('Index tags')
       .setDesc('Index hashtags found in notes.')
@@ -147,7 +192,7 @@ export class VaultQuerySettingTab extends PluginSettingTab {
 
     new Setting(containerEl)
       .setName('Index note content')
-      .setDesc('Include the full text content of notes in the database. Disabling this will also disable tables and tasks indexing.')
+      .setDesc('Include the full text content of notes in the database. Disabling this will also disable tables, tasks, callouts, code blocks, inline fields and full-text search indexing.')
       .addToggle(toggle => {
         toggle
           .setValue(contentEnabled)
@@ -157,6 +202,10 @@ export class VaultQuerySettingTab extends PluginSettingTab {
             if (!value) {
               this.plugin.settings.enabledFeatures.indexTables = false;
               this.plugin.settings.enabledFeatures.indexTasks = false;
+              this.plugin.settings.enabledFeatures.indexCallouts = false;
+              this.plugin.settings.enabledFeatures.indexCodeBlocks = false;
+              this.plugin.settings.enabledFeatures.indexInlineFields = false;
+              this.plugin.settings.enabledFeatures.indexFullText = false;
               this.plugin.settings.enableDynamicTableViews = false;
             }
             void this.plugin.saveSettings();
@@ -200,6 +249,63 @@ export class VaultQuerySettingTab extends PluginSettingTab {
           void this.plugin.saveSettings();
         }));
 
+    new Setting(containerEl)
+      .setName('Index callouts')
+      .setDesc('Parse callouts such as > [!note] into structured data with their type, title, fold state and body.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.enabledFeatures.indexCallouts)
+        .setDisabled(!contentEnabled)
+        .onChange((value) => {
+          this.plugin.settings.enabledFeatures.indexCallouts = value;
+          void this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Index code blocks')
+      .setDesc('Index fenced code blocks with their language, info string and content.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.enabledFeatures.indexCodeBlocks)
+        .setDisabled(!contentEnabled)
+        .onChange((value) => {
+          this.plugin.settings.enabledFeatures.indexCodeBlocks = value;
+          void this.plugin.saveSettings();
+          this.refreshDisplay();
+        }));
+
+    new Setting(containerEl)
+      .setName('Include plugin code blocks')
+      .setDesc('Also index this plugin\'s own vaultquery blocks, such as queries, views and function definitions. Takes effect on the next index rebuild.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.indexVaultQueryCodeBlocks)
+        .setDisabled(!contentEnabled || !this.plugin.settings.enabledFeatures.indexCodeBlocks)
+        .onChange((value) => {
+          this.plugin.settings.indexVaultQueryCodeBlocks = value;
+          void this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Index inline fields')
+      .setDesc('Index key:: value and [key:: value] fields in the note body into the properties table, alongside frontmatter. Frontmatter wins when both define the same key.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.enabledFeatures.indexInlineFields)
+        .setDisabled(!contentEnabled)
+        .onChange((value) => {
+          this.plugin.settings.enabledFeatures.indexInlineFields = value;
+          void this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Full-text search')
+      // eslint-disable-next-line obsidianmd/ui/sentence-case -- FTS5 and SQL function names
+      .setDesc('Maintain a notes_fts table for fast MATCH queries with bm25() ranking and snippet()/highlight() helpers. Roughly doubles the memory used by note content. Requires a sql.js build with FTS5 (see Advanced). Takes effect on the next index rebuild.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.enabledFeatures.indexFullText)
+        .setDisabled(!contentEnabled)
+        .onChange((value) => {
+          this.plugin.settings.enabledFeatures.indexFullText = value;
+          void this.plugin.saveSettings();
+        }));
+
 
     new Setting(containerEl)
       .setName('Exclude patterns')
@@ -251,6 +357,118 @@ export class VaultQuerySettingTab extends PluginSettingTab {
           this.refreshDisplay();
         }));
 
+    new Setting(containerEl)
+      .setName('Tasks')
+      .setHeading();
+
+    new Setting(containerEl)
+      .setName('Task metadata format')
+      // eslint-disable-next-line obsidianmd/ui/sentence-case -- Dataview and Tasks are plugin names
+      .setDesc('How dates, priority and recurrence are read from and written to task lines: Tasks plugin emoji (📅 2026-01-05) or Dataview fields ([due:: 2026-01-05]). With both, each task line keeps the format it is written in and new tasks use emoji. A full reindex is needed for changes to take effect.')
+      .addDropdown(dropdown => dropdown
+        .addOption('emoji', 'Emoji')
+        .addOption('dataview', 'Dataview')
+        .addOption('both', 'Both')
+        .setValue(this.plugin.settings.taskFormat)
+        .onChange((value: string) => {
+          this.plugin.settings.taskFormat = value as TaskFormat;
+          void this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Stamp done date on completion')
+      .setDesc('When a write marks a task done, add today as its done date (✅) unless one is given.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.taskTransitions.stampDoneDate)
+        .onChange((value) => {
+          this.plugin.settings.taskTransitions.stampDoneDate = value;
+          void this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Stamp cancelled date on cancellation')
+      .setDesc('When a write cancels a task, add today as its cancelled date (❌) unless one is given.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.taskTransitions.stampCancelledDate)
+        .onChange((value) => {
+          this.plugin.settings.taskTransitions.stampCancelledDate = value;
+          void this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Clear dates on reopen')
+      .setDesc('When a write reopens a done or cancelled task, remove its done and cancelled dates.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.taskTransitions.clearDatesOnReopen)
+        .onChange((value) => {
+          this.plugin.settings.taskTransitions.clearDatesOnReopen = value;
+          void this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Stamp created date on new tasks')
+      .setDesc('Add today as the created date (➕) of tasks inserted without one.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.taskTransitions.stampCreatedDate)
+        .onChange((value) => {
+          this.plugin.settings.taskTransitions.stampCreatedDate = value;
+          void this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Custom task statuses')
+      .setDesc('Map checkbox symbols such as [>] or [?] to a status name and type, like the Tasks plugin. The name is stored in tasks.status and written back as this symbol. A full reindex is needed for changes to take effect.');
+
+    this.plugin.settings.customTaskStatuses.forEach((status, index) => {
+      new Setting(containerEl)
+        .setName(`Status ${index + 1}`)
+        .addText(text => {
+          text.setPlaceholder('Symbol').setValue(status.symbol);
+          text.inputEl.maxLength = 1;
+          text.onChange((value) => {
+            status.symbol = value;
+            void this.plugin.saveSettings();
+          });
+        })
+        .addText(text => text
+          .setPlaceholder('Name')
+          .setValue(status.name)
+          .onChange((value) => {
+            status.name = value;
+            void this.plugin.saveSettings();
+          }))
+        .addDropdown(dropdown => dropdown
+          .addOption('TODO', 'To do')
+          .addOption('IN_PROGRESS', 'In progress')
+          .addOption('ON_HOLD', 'On hold')
+          .addOption('DONE', 'Done')
+          .addOption('CANCELLED', 'Cancelled')
+          .addOption('NON_TASK', 'Not a task')
+          .setValue(status.type)
+          .onChange((value: string) => {
+            status.type = value as TaskStatusType;
+            void this.plugin.saveSettings();
+          }))
+        .addButton(button => button
+          .setButtonText('Remove')
+          .setWarning()
+          .onClick(() => {
+            this.plugin.settings.customTaskStatuses.splice(index, 1);
+            void this.plugin.saveSettings();
+            this.refreshDisplay();
+          }));
+    });
+
+    new Setting(containerEl)
+      .addButton(button => button
+        .setButtonText('Add task status')
+        .setCta()
+        .onClick(() => {
+          this.plugin.settings.customTaskStatuses.push({ symbol: '>', name: 'DEFERRED', type: 'ON_HOLD' });
+          void this.plugin.saveSettings();
+          this.refreshDisplay();
+        }));
+
     new Setting(containerEl)
       .setName('Write operations')
       .setHeading();
@@ -344,7 +562,7 @@ export class VaultQuerySettingTab extends PluginSettingTab {
 
     new Setting(containerEl)
       .setName('Auto-refresh on index change')
-      .setDesc('Automatically refresh query results when files are indexed. This keeps results up-to-date but may impact performance on large vaults with frequent changes.')
+      .setDesc('Automatically refresh query results when files are indexed. Only blocks that read a table touched by the change are re-run. This keeps results up-to-date but may impact performance on large vaults with frequent changes.')
       .addToggle(toggle => toggle
         .setValue(this.plugin.settings.autoRefreshOnIndexChange)
         .onChange((value) => {
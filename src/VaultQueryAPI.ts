@@ -3,24 +3,30 @@ import { VaultDatabase } from './Database/DatabaseService';
 import { VaultQuerySettings, EnabledFeatures } from './Settings/Settings';
 import { IndexingService } from './Services/IndexingService';
 import { WriteSyncService } from './Services/WriteSyncService';
-import { resolveQueryTemplate } from './Services/QueryTemplator';
-import { getErrorMessage, ERROR_MESSAGES, CONSOLE_ERRORS } from './utils/ErrorMessages';
-import type { IndexingStats, IndexingStatus, NoteSource } from './types';
+import { resolveQueryTemplate, resolveQueryParams } from './Services/QueryTemplator';
+import { getErrorMessage, friendlySqliteError, ERROR_MESSAGES, CONSOLE_ERRORS } from './utils/ErrorMessages';
+import type { IndexingStats, IndexingStatus, NoteSource, QueryOptions, QueryParams, QueryParamValue } from './types';
 import type { PreviewResult } from './Services/PreviewService';
 
 export interface FileIndexedEvent {
   path: string;
   isUpdate: boolean;
+  /** Tables whose rows changed while indexing the file */
+  tables: string[];
 }
 
 export interface FileRemovedEvent {
   path: string;
+  /** Tables that held rows for the file before it was removed */
+  tables: string[];
 }
 
 export interface VaultIndexedEvent {
   filesIndexed: number;
   filesRemoved: number;
   isForced: boolean;
+  /** Tables whose rows changed while indexing and syncing files; removed notes are reported by file-removed */
+  tables: string[];
 }
 
 const TABLE_FEATURE_CONFIG: Record<string, {
@@ -31,18 +37,47 @@ const TABLE_FEATURE_CONFIG: Record<string, {
   'properties': { setting: 'indexFrontmatter', featureName: 'Property indexing', settingLabel: 'Index frontmatter' },
   'notes_with_properties': { setting: 'indexFrontmatter', featureName: 'Property indexing', settingLabel: 'Index frontmatter' },
   'note_properties': { setting: 'indexFrontmatter', featureName: 'Property indexing', settingLabel: 'Index frontmatter' },
+  'note_frontmatter': { setting: 'indexFrontmatter', featureName: 'Property indexing', settingLabel: 'Index frontmatter' },
   'table_cells': { setting: 'indexTables', featureName: 'Table indexing', settingLabel: 'Index tables' },
   'table_rows': { setting: 'indexTables', featureName: 'Table indexing', settingLabel: 'Index tables' },
   'tasks': { setting: 'indexTasks', featureName: 'Task indexing', settingLabel: 'Index tasks' },
   'tasks_view': { setting: 'indexTasks', featureName: 'Task indexing', settingLabel: 'Index tasks' },
+  'task_tree': { setting: 'indexTasks', featureName: 'Task indexing', settingLabel: 'Index tasks' },
+  'task_dependencies': { setting: 'indexTasks', featureName: 'Task indexing', settingLabel: 'Index tasks' },
+  'blocked_tasks': { setting: 'indexTasks', featureName: 'Task indexing', settingLabel: 'Index tasks' },
+  'ready_tasks': { setting: 'indexTasks', featureName: 'Task indexing', settingLabel: 'Index tasks' },
+  'task_dependency_cycles': { setting: 'indexTasks', featureName: 'Task indexing', settingLabel: 'Index tasks' },
   'headings': { setting: 'indexHeadings', featureName: 'Heading indexing', settingLabel: 'Index headings' },
   'headings_view': { setting: 'indexHeadings', featureName: 'Heading indexing', settingLabel: 'Index headings' },
+  'sections': { setting: 'indexHeadings', featureName: 'Heading indexing', settingLabel: 'Index headings' },
   'links': { setting: 'indexLinks', featureName: 'Link indexing', settingLabel: 'Index links' },
+  'embeds': { setting: 'indexEmbeds', featureName: 'Embed indexing', settingLabel: 'Index embeds' },
   'tags': { setting: 'indexTags', featureName: 'Tag indexing', settingLabel: 'Index tags' },
   'list_items': { setting: 'indexListItems', featureName: 'List item indexing', settingLabel: 'Index list items' },
-  'list_items_view': { setting: 'indexListItems', featureName: 'List item indexing', settingLabel: 'Index list items' }
+  'list_items_view': { setting: 'indexListItems', featureName: 'List item indexing', settingLabel: 'Index list items' },
+  'callouts': { setting: 'indexCallouts', featureName: 'Callout indexing', settingLabel: 'Index callouts' },
+  'code_blocks': { setting: 'indexCodeBlocks', featureName: 'Code block indexing', settingLabel: 'Index code blocks' },
+  'files': { setting: 'indexFiles', featureName: 'File indexing', settingLabel: 'Index all vault files' },
+  'orphaned_attachments': { setting: 'indexFiles', featureName: 'File indexing', settingLabel: 'Index all vault files' },
+  'canvas_nodes': { setting: 'indexCanvases', featureName: 'Canvas indexing', settingLabel: 'Index canvases' },
+  'canvas_edges': { setting: 'indexCanvases', featureName: 'Canvas indexing', settingLabel: 'Index canvases' },
+  'notes_fts': { setting: 'indexFullText', featureName: 'Full-text search', settingLabel: 'Full-text search' }
 };
 
+/**
+ * Convert API params to sql.js bind values. sql.js expects named keys to include
+ * their prefix, so `{ status: 'TODO' }` becomes `{ ':status': 'TODO' }`.
+ */
+function toBindParams(params?: QueryParams): QueryParamValue[] | Record<string, QueryParamValue> {
+  if (!params) return [];
+  if (Array.isArray(params)) return params;
+
+  const named: Record<string, QueryParamValue> = {};
+  for (const [name, value] of Object.entries(params)) {
+    named[/^[:@$]/.test(name) ? name : `:${name}`] = value;
+  }
+  return named;
+}
 
 interface QueryResult {
   [key: string]: string | number | boolean | null;
@@ -55,14 +90,19 @@ export interface IVaultQueryAPI {
    * Uses prepared statements with caching for performance.
    *
    * @param sql - The SQL query to execute
-   * @param noteSource - Optional TFile or path for `{this.*}` template variable substitution
+   * @param params - Optional bind values: an array for positional `?` placeholders or an object for named `:name` placeholders
+   * @param noteSource - Optional TFile or path for `{this.*}` template variable substitution in the SQL and in string params
+   * @param options - Optional abort signal and timeout override; the query timeout from settings applies otherwise
    * @returns Array of result rows as key-value objects
    *
    * @example
    * const results = await api.query('SELECT * FROM notes WHERE title LIKE ?', ['%Daily%']);
+   * const named = await api.query('SELECT * FROM tasks WHERE status = :status', { status: 'TODO' });
    * const withTemplate = await api.query('SELECT * FROM tasks WHERE path = {this.path}', currentFile);
+   * const cancellable = await api.query('SELECT * FROM notes', [], undefined, { signal: controller.signal });
    */
   query(sql: string, noteSource?: NoteSource): Promise<QueryResult[]>;
+  query(sql: string, params: QueryParams, noteSource?: NoteSource, options?: QueryOptions): Promise<QueryResult[]>;
 
   /**
    * Incrementally reindex the vault.
@@ -119,12 +159,45 @@ export interface IVaultQueryAPI {
   /**
    * Remove a note from the index without deleting the file.
    * Deletes all indexed data (properties, tasks, headings, etc.) for this note
-   * from the database. The file remains on disk.
+   * from the database. The file remains on disk. The rows are removed in the database
+   * worker once the call returns.
    *
    * @param notePath - Path to the note to remove from index
    */
   removeNote(notePath: string): void;
 
+  /**
+   * Record any vault file (attachments, canvases, PDFs as well as notes) in the files table.
+   * Does nothing when file indexing is disabled or the path matches an exclude pattern.
+   *
+   * @param file - The TFile to record
+   * @returns true if the file was recorded
+   */
+  indexFileRecord(file: TFile): Promise<boolean>;
+
+  /**
+   * Remove a file from the files table. The file remains on disk.
+   *
+   * @param filePath - Path of the file to remove from the index
+   */
+  removeFileRecord(filePath: string): Promise<void>;
+
+  /**
+   * Parse a .canvas file into the canvas_nodes and canvas_edges tables, replacing its previous rows.
+   * Does nothing when canvas indexing is disabled, the path is excluded, or the JSON is invalid.
+   *
+   * @param file - The .canvas TFile to index
+   * @returns true if the canvas was indexed
+   */
+  indexCanvas(file: TFile): Promise<boolean>;
+
+  /**
+   * Remove a canvas's nodes and edges from the index. The file remains on disk.
+   *
+   * @param filePath - Path of the canvas to remove from the index
+   */
+  removeCanvas(filePath: string): Promise<void>;
+
   /**
    * Get all indexed files with their modification timestamps.
    * Queries the notes table for path and modified columns.
@@ -168,6 +241,16 @@ export interface IVaultQueryAPI {
    */
   getSchemaInfo(): string;
 
+  /**
+   * Get the tables and views a query reads from. Views are expanded to the tables
+   * they are built on, so the result can be matched against the `tables` of
+   * file-indexed and file-removed events to decide whether a result is stale.
+   *
+   * @param sql - The SQL query to inspect
+   * @returns Lower-cased table and view names
+   */
+  getReferencedTables(sql: string): string[];
+
   /**
    * Check if a file should be indexed based on plugin settings.
    * Returns false if:
@@ -207,8 +290,12 @@ export interface IVaultQueryAPI {
    *
    * Note: Standard DML should use previewQuery/applyPreview for bidirectional sync.
    *
+   * The statement runs in the database worker after the call returns, in order with every
+   * other statement, so the number of affected rows isn't known yet and a statement that fails
+   * is logged to the console. Queries made after this call see its effect.
+   *
    * @param sql - The SQL statement to execute
-   * @returns Number of rows affected (0 for DDL statements)
+   * @returns Always 0
    */
   execute(sql: string): number;
 
@@ -229,8 +316,15 @@ export interface IVaultQueryAPI {
       tasks: boolean;
       headings: boolean;
       links: boolean;
+      embeds: boolean;
       tags: boolean;
       listItems: boolean;
+      callouts: boolean;
+      codeBlocks: boolean;
+      inlineFields: boolean;
+      files: boolean;
+      canvases: boolean;
+      fullText: boolean;
     };
   };
 
@@ -256,11 +350,11 @@ export interface IVaultQueryAPI {
    * Use applyPreview() to actually apply the changes after user confirmation.
    *
    * @param sql - The DML query to preview (INSERT, UPDATE, DELETE)
-   * @param params - Optional parameters for the query
-   * @param noteSource - Optional TFile or path for `{this.*}` template variable substitution
+   * @param params - Optional bind values: an array for positional `?` placeholders or an object for named `:name` placeholders
+   * @param noteSource - Optional TFile or path for `{this.*}` template variable substitution in the SQL and in string params
    * @returns Preview result with before/after states and affected rows
    */
-  previewQuery(sql: string, params?: unknown[], noteSource?: NoteSource): Promise<PreviewResult>;
+  previewQuery(sql: string, params?: QueryParams, noteSource?: NoteSource): Promise<PreviewResult>;
 
   /**
    * Apply a previewed DML operation to the database and sync to vault files.
@@ -342,14 +436,14 @@ export class VaultQueryAPI implements IVaultQueryAPI {
 
     // Connect IndexingService events to our emitter
     this.indexingService.setEventEmitter({
-      emitFileIndexed: (path: string, isUpdate: boolean) => {
-        this.emit('file-indexed', { path, isUpdate });
+      emitFileIndexed: (path: string, isUpdate: boolean, tables: string[]) => {
+        this.emit('file-indexed', { path, isUpdate, tables });
       },
-      emitFileRemoved: (path: string) => {
-        this.emit('file-removed', { path });
+      emitFileRemoved: (path: string, tables: string[]) => {
+        this.emit('file-removed', { path, tables });
       },
-      emitVaultIndexed: (filesIndexed: number, filesRemoved: number, isForced: boolean) => {
-        this.emit('vault-indexed', { filesIndexed, filesRemoved, isForced });
+      emitVaultIndexed: (filesIndexed: number, filesRemoved: number, isForced: boolean, tables: string[]) => {
+        this.emit('vault-indexed', { filesIndexed, filesRemoved, isForced, tables });
       }
     });
   }
@@ -362,7 +456,8 @@ export class VaultQueryAPI implements IVaultQueryAPI {
       readBinary: (path: string) => app.vault.adapter.readBinary(path),
       writeBinary: (path: string, data: ArrayBuffer) => app.vault.adapter.writeBinary(path, data),
       exists: (path: string) => app.vault.adapter.exists(path),
-      mkdir: (path: string) => app.vault.adapter.mkdir(path)
+      mkdir: (path: string) => app.vault.adapter.mkdir(path),
+      remove: (path: string) => app.vault.adapter.remove(path)
     };
 
     // Adapter for loading WASM (always needed, even for memory mode)
@@ -374,7 +469,9 @@ export class VaultQueryAPI implements IVaultQueryAPI {
     };
 
     const pluginDir = `${app.vault.configDir}/plugins/vaultquery`;
-    const database = await VaultDatabase.create(app, app.vault.configDir, fileAdapter, useMemoryStorage, undefined, pluginDir, wasmAdapter, settings.wasm);
+    const incrementalStorage = settings.databaseStorage === 'incremental';
+    const database = await VaultDatabase.create(app, app.vault.configDir, fileAdapter, useMemoryStorage, undefined, pluginDir, wasmAdapter, settings.wasm, incrementalStorage);
+    await database.configureFullTextSearch(settings.enabledFeatures.indexFullText);
 
     const indexingService = new IndexingService(app, database, settings);
     const writeSyncService = new WriteSyncService(app, database, settings);
@@ -411,11 +508,29 @@ export class VaultQueryAPI implements IVaultQueryAPI {
   }
 
   public removeNote(notePath: string): void {
-    this.indexingService.removeNote(notePath);
+    this.indexingService.removeNote(notePath).catch(error => {
+      console.error(`[VaultQuery] ${CONSOLE_ERRORS.REMOVE_NOTE_FAILED(notePath)}:`, error);
+    });
   }
 
-  public clearAllNotes(): void {
-    this.indexingService.clearAllNotes();
+  public async indexFileRecord(file: TFile): Promise<boolean> {
+    return this.indexingService.indexFileRecord(file);
+  }
+
+  public async removeFileRecord(filePath: string): Promise<void> {
+    return this.indexingService.removeFileRecord(filePath);
+  }
+
+  public async indexCanvas(file: TFile): Promise<boolean> {
+    return this.indexingService.indexCanvas(file);
+  }
+
+  public async removeCanvas(filePath: string): Promise<void> {
+    return this.indexingService.removeCanvas(filePath);
+  }
+
+  public async clearAllNotes(): Promise<void> {
+    await this.indexingService.clearAllNotes();
   }
 
   public async saveToDisk(): Promise<void> {
@@ -431,15 +546,30 @@ export class VaultQueryAPI implements IVaultQueryAPI {
   }
 
   public rebuildTableViews(): void {
-    this.database.rebuildTableViews(this.settings.enableDynamicTableViews);
+    this.database.rebuildTableViews(this.settings.enableDynamicTableViews).catch(error => {
+      console.error(`[VaultQuery] ${CONSOLE_ERRORS.TABLE_VIEWS_REBUILD_ERROR}:`, error);
+    });
   }
 
   public execute(sql: string): number {
+    this.checkExecutable(sql);
+    this.database.run(sql).catch(error => {
+      console.error(`[VaultQuery] ${CONSOLE_ERRORS.EXECUTE_FAILED}:`, error);
+    });
+    return 0;
+  }
+
+  /** Like execute, but waits for the statement and returns the number of rows affected */
+  public async executeStatement(sql: string): Promise<number> {
+    this.checkExecutable(sql);
+    return this.database.run(sql);
+  }
+
+  private checkExecutable(sql: string): void {
     // Allow DDL operations (CREATE INDEX, CREATE VIEW, etc.) through execute()
     if (this.containsBlockedSQL(sql, true)) {
       throw new Error(ERROR_MESSAGES.QUERY_UNSAFE_OPERATIONS);
     }
-    return this.database.run(sql);
   }
 
   public getCapabilities(): {
@@ -452,8 +582,15 @@ export class VaultQueryAPI implements IVaultQueryAPI {
       tasks: boolean;
       headings: boolean;
       links: boolean;
+      embeds: boolean;
       tags: boolean;
       listItems: boolean;
+      callouts: boolean;
+      codeBlocks: boolean;
+      inlineFields: boolean;
+      files: boolean;
+      canvases: boolean;
+      fullText: boolean;
     };
   } {
     return {
@@ -466,8 +603,15 @@ export class VaultQueryAPI implements IVaultQueryAPI {
         tasks: this.settings.enabledFeatures.indexTasks,
         headings: this.settings.enabledFeatures.indexHeadings,
         links: this.settings.enabledFeatures.indexLinks,
+        embeds: this.settings.enabledFeatures.indexEmbeds,
         tags: this.settings.enabledFeatures.indexTags,
         listItems: this.settings.enabledFeatures.indexListItems,
+        callouts: this.settings.enabledFeatures.indexCallouts,
+        codeBlocks: this.settings.enabledFeatures.indexCodeBlocks,
+        inlineFields: this.settings.enabledFeatures.indexInlineFields,
+        files: this.settings.enabledFeatures.indexFiles,
+        canvases: this.settings.enabledFeatures.indexCanvases,
+        fullText: this.database.isFullTextSearchEnabled(),
       },
     };
   }
@@ -492,9 +636,35 @@ export class VaultQueryAPI implements IVaultQueryAPI {
     return this.database.getAllUserFunctions();
   }
 
-  public async query(sql: string, noteSource?: NoteSource): Promise<QueryResult[]> {
+  /**
+   * Get the tables and views available to queries with their column names,
+   * plus all frontmatter property keys. Used for editor autocompletion.
+   */
+  public getCompletionSchema(): {
+    objects: Array<{ name: string; type: 'table' | 'view'; columns: string[] }>;
+    propertyKeys: string[];
+  } {
+    return {
+      objects: this.database.getQueryableObjects().map(object => ({
+        ...object,
+        columns: this.database.getViewColumns(object.name)
+      })),
+      propertyKeys: this.settings.enabledFeatures.indexFrontmatter ? this.database.getAllPropertyKeys() : []
+    };
+  }
+
+  public async query(sql: string, noteSource?: NoteSource): Promise<QueryResult[]>;
+  public async query(sql: string, params: QueryParams, noteSource?: NoteSource, options?: QueryOptions): Promise<QueryResult[]>;
+  public async query(sql: string, paramsOrNoteSource?: QueryParams | NoteSource, maybeNoteSource?: NoteSource, options?: QueryOptions): Promise<QueryResult[]> {
+    const isNoteSource = typeof paramsOrNoteSource === 'string' || paramsOrNoteSource instanceof TFile;
+    let params = isNoteSource ? undefined : paramsOrNoteSource;
+    const noteSource = isNoteSource ? paramsOrNoteSource : maybeNoteSource;
+
     if (noteSource) {
       sql = await resolveQueryTemplate(sql, this.app, noteSource);
+      if (params) {
+        params = await resolveQueryParams(params, this.app, noteSource);
+      }
     }
 
     if (this.containsBlockedSQL(sql, false)) {
@@ -509,7 +679,15 @@ export class VaultQueryAPI implements IVaultQueryAPI {
     // Don't wait for indexing - queries can run with partial data
     // Users see results immediately and can refresh after indexing completes
 
-    return this.executeQuerySafely(() => this.database.all(sql), sql) as Promise<QueryResult[]>;
+    // Only a caller that can cancel the query or set its own timeout gets the reader, which
+    // can stop it mid-statement; the default timeout is checked between rows
+    const executionOptions = {
+      timeoutMs: options?.timeoutMs ?? this.settings.queryTimeoutSeconds * 1000,
+      signal: options?.signal,
+      interruptible: options?.signal !== undefined || options?.timeoutMs !== undefined
+    };
+
+    return this.executeQuerySafely(() => this.database.all(sql, toBindParams(params), executionOptions), sql) as Promise<QueryResult[]>;
   }
 
 
@@ -545,6 +723,7 @@ export class VaultQueryAPI implements IVaultQueryAPI {
   }
 
   public async close(): Promise<void> {
+    this.indexingService.dispose();
     await this.database.close();
   }
 
@@ -575,14 +754,37 @@ export class VaultQueryAPI implements IVaultQueryAPI {
       { name: 'size', type: 'INTEGER', description: 'File size in bytes' },
     ]));
 
-    if (this.settings.enabledFeatures.indexFrontmatter) {
+    if (this.database.isFullTextSearchEnabled()) {
+      sections.push(makeTable('notes_fts', [
+        { name: 'rowid', type: 'INTEGER', description: 'Same as notes.rowid' },
+        { name: 'path', type: 'TEXT', description: 'File path (not searchable)' },
+        { name: 'title', type: 'TEXT', description: 'Note title' },
+        { name: 'content', type: 'TEXT', description: 'Full text content' },
+      ]) + '\n> FTS5 table, read-only. Filter with `notes_fts MATCH \'query\'`, rank with `ORDER BY bm25(notes_fts)` (lower is better), excerpt with `snippet(notes_fts, 2, \'**\', \'**\', \'…\', 12)` or mark up matches with `highlight(notes_fts, 2, \'**\', \'**\')`.\n');
+    }
+
+    if (this.settings.enabledFeatures.indexFrontmatter || this.settings.enabledFeatures.indexInlineFields) {
       sections.push(makeTable('properties', [
         { name: 'path', type: 'TEXT', description: 'File path (foreign key)' },
         { name: 'key', type: 'TEXT', description: 'Property name' },
         { name: 'value', type: 'TEXT', description: 'Property value as string' },
-        { name: 'value_type', type: 'TEXT', description: 'Type: string, number, boolean, array, object' },
+        { name: 'value_type', type: 'TEXT', description: 'Obsidian property type: text, list, number, checkbox, date or datetime' },
+        { name: 'value_num', type: 'REAL', description: 'Numeric value of number properties, 1 or 0 for checkboxes' },
+        { name: 'value_date', type: 'TEXT', description: 'ISO date (YYYY-MM-DD) or datetime (YYYY-MM-DDTHH:MM:SS) of date properties' },
         { name: 'array_index', type: 'INTEGER', description: 'Array index (NULL for scalar values)' },
-      ]));
+        { name: 'source', type: 'TEXT', defaultVal: 'frontmatter', description: 'frontmatter or inline (key:: value in the note body)' },
+        { name: 'line_number', type: 'INTEGER', description: 'Line of an inline field (1-based)' },
+        { name: 'item_type', type: 'TEXT', description: 'task or list_item when the inline field is inside one' },
+        { name: 'item_id', type: 'INTEGER', description: 'id of the containing task or list item' },
+      ]) + '\n> Inline fields are edited in place on UPDATE and DELETE. INSERT with source = \'inline\' adds [key:: value] to line_number, or a key:: value line at the end of the note.\n');
+
+      if (this.settings.enabledFeatures.indexFrontmatter) {
+        sections.push(makeTable('note_frontmatter', [
+          { name: 'path', type: 'TEXT', description: 'File path (foreign key)' },
+          { name: 'key', type: 'TEXT', description: 'Top-level property name' },
+          { name: 'value_json', type: 'TEXT', description: 'Property value as JSON, nested objects and lists included' },
+        ]) + '\n> Query with json_extract(value_json, \'$.name\') or json_each(value_json). UPDATE with json_set()/json_remove() writes only the nested values that changed.\n');
+      }
 
       // notes_with_properties view with actual columns
       const viewColumns = this.database.getViewColumns('notes_with_properties');
@@ -616,7 +818,9 @@ export class VaultQueryAPI implements IVaultQueryAPI {
         { name: 'id', type: 'INTEGER', description: 'Auto-incrementing ID' },
         { name: 'path', type: 'TEXT', description: 'File path (foreign key)' },
         { name: 'task_text', type: 'TEXT', description: 'Task content' },
-        { name: 'status', type: 'TEXT', description: 'TODO, DONE, IN_PROGRESS, CANCELLED' },
+        { name: 'status', type: 'TEXT', description: 'TODO, DONE, IN_PROGRESS, CANCELLED or a custom status name' },
+        { name: 'status_symbol', type: 'TEXT', description: 'Character between the checkbox brackets' },
+        { name: 'status_type', type: 'TEXT', description: 'TODO, IN_PROGRESS, ON_HOLD, DONE, CANCELLED or NON_TASK' },
         { name: 'priority', type: 'TEXT', description: 'highest, high, medium, low, lowest' },
         { name: 'due_date', type: 'TEXT', description: 'YYYY-MM-DD format' },
         { name: 'scheduled_date', type: 'TEXT', description: 'YYYY-MM-DD format' },
@@ -635,13 +839,19 @@ export class VaultQueryAPI implements IVaultQueryAPI {
         { name: 'end_offset', type: 'INTEGER', description: 'Character offset end' },
         { name: 'anchor_hash', type: 'TEXT', description: 'Content hash for change detection' },
         { name: 'section_heading', type: 'TEXT', description: 'Parent heading text' },
+        { name: 'heading_id', type: 'INTEGER', description: 'Enclosing heading (headings.id), NULL when heading indexing is off' },
+        { name: 'parent_task_id', type: 'INTEGER', description: 'Nearest enclosing task (tasks.id), NULL for top-level tasks' },
+        { name: 'indent_level', type: 'INTEGER', description: 'List nesting depth (0 = top)' },
+        { name: 'task_index', type: 'INTEGER', description: 'Order of the task within the note (0-based)' },
       ]));
 
       sections.push(makeTable('tasks_view', [
         { name: 'id', type: 'INTEGER', description: 'Auto-incrementing ID' },
         { name: 'path', type: 'TEXT', description: 'File path' },
         { name: 'task_text', type: 'TEXT', description: 'Task content' },
-        { name: 'status', type: 'TEXT', defaultVal: 'TODO', description: 'TODO, DONE, IN_PROGRESS, CANCELLED' },
+        { name: 'status', type: 'TEXT', defaultVal: 'TODO', description: 'TODO, DONE, IN_PROGRESS, CANCELLED or a custom status name' },
+        { name: 'status_symbol', type: 'TEXT', description: 'Character between the checkbox brackets' },
+        { name: 'status_type', type: 'TEXT', description: 'TODO, IN_PROGRESS, ON_HOLD, DONE, CANCELLED or NON_TASK' },
         { name: 'priority', type: 'TEXT', description: 'highest, high, medium, low, lowest' },
         { name: 'due_date', type: 'TEXT', description: 'YYYY-MM-DD format' },
         { name: 'scheduled_date', type: 'TEXT', description: 'YYYY-MM-DD format' },
@@ -657,12 +867,77 @@ export class VaultQueryAPI implements IVaultQueryAPI {
         { name: 'line_number', type: 'INTEGER', defaultVal: 'auto', description: 'After last task line, or line 1 if no tasks' },
         { name: 'block_id', type: 'TEXT', description: 'Block reference ID' },
         { name: 'section_heading', type: 'TEXT', description: 'Parent heading text' },
+        { name: 'heading_id', type: 'INTEGER', description: 'Enclosing heading (headings.id), NULL when heading indexing is off' },
+        { name: 'parent_task_id', type: 'INTEGER', description: 'Nearest enclosing task (tasks.id), NULL for top-level tasks' },
+        { name: 'indent_level', type: 'INTEGER', description: 'List nesting depth (0 = top)' },
+        { name: 'task_index', type: 'INTEGER', description: 'Order of the task within the note (0-based)' },
         { name: 'status_order', type: 'INTEGER', description: 'Sort order for status (computed)' },
         { name: 'priority_order', type: 'INTEGER', description: 'Sort order for priority (computed)' },
-        { name: 'is_complete', type: 'INTEGER', description: '1 if DONE/CANCELLED (computed)' },
+        { name: 'is_complete', type: 'INTEGER', description: '1 if the status type is DONE/CANCELLED (computed)' },
         { name: 'is_overdue', type: 'INTEGER', description: '1 if past due (computed)' },
         { name: 'days_until_due', type: 'INTEGER', description: 'Days until due date (computed)' },
-      ], true) + '\n> Supports INSERT, UPDATE, DELETE. When no tasks exist, new tasks insert at line 1 (beginning of file).\n');
+      ], true) + '\n> Supports INSERT, UPDATE, DELETE. When no tasks exist, new tasks insert at line 1 (beginning of file). Deleting a task deletes its subtasks; changing line_number moves the task with its subtasks.\n');
+
+      sections.push(makeTable('task_tree', [
+        { name: 'id', type: 'INTEGER', description: 'Task ID' },
+        { name: 'path', type: 'TEXT', description: 'File path' },
+        { name: 'task_text', type: 'TEXT', description: 'Task content' },
+        { name: 'status', type: 'TEXT', description: 'Task status' },
+        { name: 'status_symbol', type: 'TEXT', description: 'Character between the checkbox brackets' },
+        { name: 'line_number', type: 'INTEGER', description: 'Line number (1-based)' },
+        { name: 'task_index', type: 'INTEGER', description: 'Order within the note' },
+        { name: 'indent_level', type: 'INTEGER', description: 'List nesting depth' },
+        { name: 'parent_task_id', type: 'INTEGER', description: 'Parent task ID' },
+        { name: 'root_task_id', type: 'INTEGER', description: 'Top-level task of the tree' },
+        { name: 'depth', type: 'INTEGER', description: 'Task depth (0 = top-level task)' },
+        { name: 'tree_path', type: 'TEXT', description: 'Sortable path of task_index values' },
+        { name: 'child_count', type: 'INTEGER', description: 'Direct subtasks' },
+        { name: 'descendant_count', type: 'INTEGER', description: 'All subtasks at any depth' },
+        { name: 'complete_descendant_count', type: 'INTEGER', description: 'DONE or CANCELLED subtasks' },
+        { name: 'open_descendant_count', type: 'INTEGER', description: 'Subtasks not yet complete' },
+        { name: 'completion_percent', type: 'REAL', description: 'Percent of subtasks complete, NULL without subtasks' },
+        { name: 'is_complete', type: 'INTEGER', description: '1 if DONE/CANCELLED' },
+      ], true) + '\n> Read-only.\n');
+
+      sections.push(makeTable('task_dependencies', [
+        { name: 'id', type: 'INTEGER', description: 'Auto-incrementing ID' },
+        { name: 'path', type: 'TEXT', description: 'File path of the dependent task (foreign key)' },
+        { name: 'task_row_id', type: 'INTEGER', description: 'Dependent task (tasks.id)' },
+        { name: 'depends_on_task_id', type: 'TEXT', description: 'One task ID from its depends_on list' },
+        { name: 'target_task_row_id', type: 'INTEGER', description: 'Task carrying that task_id (tasks.id), NULL if none' },
+      ]) + '\n> Read-only. Update tasks.depends_on to change dependencies.\n');
+
+      const dependencyViewColumns = [
+        { name: 'id', type: 'INTEGER', description: 'Task ID' },
+        { name: 'path', type: 'TEXT', description: 'File path' },
+        { name: 'task_text', type: 'TEXT', description: 'Task content' },
+        { name: 'status', type: 'TEXT', description: 'Task status' },
+        { name: 'line_number', type: 'INTEGER', description: 'Line number (1-based)' },
+        { name: 'task_id', type: 'TEXT', description: 'Unique task identifier' },
+        { name: 'priority', type: 'TEXT', description: 'highest, high, medium, low, lowest' },
+        { name: 'due_date', type: 'TEXT', description: 'YYYY-MM-DD format' },
+      ];
+
+      sections.push(makeTable('blocked_tasks', [
+        ...dependencyViewColumns,
+        { name: 'blocking_count', type: 'INTEGER', description: 'Open tasks it waits on' },
+        { name: 'blocking_task_ids', type: 'TEXT', description: 'Comma-separated task IDs of those tasks' },
+      ], true) + '\n> Read-only.\n');
+
+      sections.push(makeTable('ready_tasks', [
+        ...dependencyViewColumns,
+        { name: 'dependency_count', type: 'INTEGER', description: 'Dependencies, all complete or unknown' },
+      ], true) + '\n> Read-only.\n');
+
+      sections.push(makeTable('task_dependency_cycles', [
+        { name: 'id', type: 'INTEGER', description: 'Task ID' },
+        { name: 'path', type: 'TEXT', description: 'File path' },
+        { name: 'task_text', type: 'TEXT', description: 'Task content' },
+        { name: 'task_id', type: 'TEXT', description: 'Unique task identifier' },
+        { name: 'line_number', type: 'INTEGER', description: 'Line number (1-based)' },
+        { name: 'cycle_length', type: 'INTEGER', description: 'Dependencies in the shortest loop' },
+        { name: 'cycle', type: 'TEXT', description: 'Task IDs along the loop, e.g. a -> b -> a' },
+      ], true) + '\n> Read-only.\n');
     }
 
     if (this.settings.enabledFeatures.indexHeadings) {
@@ -676,6 +951,11 @@ export class VaultQueryAPI implements IVaultQueryAPI {
         { name: 'start_offset', type: 'INTEGER', description: 'Character offset start' },
         { name: 'end_offset', type: 'INTEGER', description: 'Character offset end' },
         { name: 'anchor_hash', type: 'TEXT', description: 'Content hash for change detection' },
+        { name: 'parent_heading_id', type: 'INTEGER', description: 'Nearest enclosing heading of a lower level' },
+        { name: 'heading_path', type: 'TEXT', description: 'Ancestor headings and this one, e.g. Project > Risks' },
+        { name: 'section_end_offset', type: 'INTEGER', description: 'Offset where the section ends (next heading of the same or higher level)' },
+        { name: 'section_end_line', type: 'INTEGER', description: 'Last line of the section (1-based)' },
+        { name: 'body', type: 'TEXT', description: 'Text up to the next heading of any level' },
       ]));
 
       sections.push(makeTable('headings_view', [
@@ -687,7 +967,24 @@ export class VaultQueryAPI implements IVaultQueryAPI {
         { name: 'start_offset', type: 'INTEGER', description: 'Character offset start' },
         { name: 'end_offset', type: 'INTEGER', description: 'Character offset end' },
         { name: 'anchor_hash', type: 'TEXT', description: 'Content hash for change detection' },
+        { name: 'heading_path', type: 'TEXT', description: 'Ancestor headings and this one (read-only)' },
+        { name: 'parent_heading_id', type: 'INTEGER', description: 'Parent heading ID (read-only)' },
       ], true) + '\n> Supports INSERT, UPDATE, DELETE. When no headings exist, new headings insert at line 1 (beginning of file).\n');
+
+      sections.push(makeTable('sections', [
+        { name: 'heading_id', type: 'INTEGER', description: 'Heading ID' },
+        { name: 'path', type: 'TEXT', description: 'File path' },
+        { name: 'level', type: 'INTEGER', description: 'Heading level (1-6)' },
+        { name: 'heading_text', type: 'TEXT', description: 'Heading content' },
+        { name: 'heading_path', type: 'TEXT', description: 'Ancestor headings and this one' },
+        { name: 'parent_heading_id', type: 'INTEGER', description: 'Parent heading ID' },
+        { name: 'line_number', type: 'INTEGER', description: 'Heading line (1-based)' },
+        { name: 'end_line_number', type: 'INTEGER', description: 'Last line of the section (1-based)' },
+        { name: 'start_offset', type: 'INTEGER', description: 'Heading start offset' },
+        { name: 'end_offset', type: 'INTEGER', description: 'Section end offset' },
+        { name: 'body', type: 'TEXT', description: 'Text up to the first subsection' },
+        { name: 'content', type: 'TEXT', description: 'Section text including subsections' },
+      ], true) + '\n> Read-only. Subsection heading lines in content are rebuilt from level and text.\n');
     }
 
     if (this.settings.enabledFeatures.indexTags) {
@@ -711,6 +1008,22 @@ export class VaultQueryAPI implements IVaultQueryAPI {
       ]));
     }
 
+    if (this.settings.enabledFeatures.indexEmbeds) {
+      sections.push(makeTable('embeds', [
+        { name: 'id', type: 'INTEGER', description: 'Auto-incrementing ID' },
+        { name: 'path', type: 'TEXT', description: 'File path (foreign key)' },
+        { name: 'embed_target', type: 'TEXT', description: 'Embedded file as written, without subpath' },
+        { name: 'embed_target_path', type: 'TEXT', description: 'Resolved target file path' },
+        { name: 'subpath', type: 'TEXT', description: 'Heading (#Section) or block (#^id) reference' },
+        { name: 'alt_text', type: 'TEXT', description: 'Alt text or display text' },
+        { name: 'width', type: 'INTEGER', description: 'Width from a size parameter (e.g. |300)' },
+        { name: 'height', type: 'INTEGER', description: 'Height from a size parameter (e.g. |300x200)' },
+        { name: 'embed_type', type: 'TEXT', description: 'wikilink or markdown' },
+        { name: 'markup', type: 'TEXT', description: 'Embed markup as written in the note' },
+        { name: 'line_number', type: 'INTEGER', description: 'Line number (1-based)' },
+      ]));
+    }
+
     if (this.settings.enabledFeatures.indexListItems) {
       sections.push(makeTable('list_items', [
         { name: 'id', type: 'INTEGER', description: 'Auto-incrementing ID' },
@@ -726,6 +1039,7 @@ export class VaultQueryAPI implements IVaultQueryAPI {
         { name: 'start_offset', type: 'INTEGER', description: 'Character offset start' },
         { name: 'end_offset', type: 'INTEGER', description: 'Character offset end' },
         { name: 'anchor_hash', type: 'TEXT', description: 'Content hash for change detection' },
+        { name: 'heading_id', type: 'INTEGER', description: 'Enclosing heading (headings.id), NULL when heading indexing is off' },
       ]));
 
       sections.push(makeTable('list_items_view', [
@@ -746,6 +1060,84 @@ export class VaultQueryAPI implements IVaultQueryAPI {
       ], true) + '\n> Supports INSERT, UPDATE, DELETE. When no list items exist, new items insert at line 1 (beginning of file).\n');
     }
 
+    if (this.settings.enabledFeatures.indexCallouts) {
+      sections.push(makeTable('callouts', [
+        { name: 'id', type: 'INTEGER', description: 'Auto-incrementing ID' },
+        { name: 'path', type: 'TEXT', description: 'File path (foreign key)' },
+        { name: 'type', type: 'TEXT', description: 'Callout type (note, warning, ...); NULL for a plain blockquote' },
+        { name: 'title', type: 'TEXT', description: 'Title after the type marker' },
+        { name: 'fold_state', type: 'TEXT', description: '+ (expanded), - (collapsed) or NULL' },
+        { name: 'body', type: 'TEXT', description: 'Body text without the > markers' },
+        { name: 'line_number', type: 'INTEGER', description: 'First line (1-based)' },
+        { name: 'end_line_number', type: 'INTEGER', description: 'Last line (1-based)' },
+        { name: 'block_id', type: 'TEXT', description: 'Block reference ID' },
+        { name: 'section_heading', type: 'TEXT', description: 'Nearest heading above the callout' },
+        { name: 'start_offset', type: 'INTEGER', description: 'Character offset start' },
+        { name: 'end_offset', type: 'INTEGER', description: 'Character offset end' },
+        { name: 'anchor_hash', type: 'TEXT', description: 'Content hash for change detection' },
+      ]) + '\n> Supports INSERT, UPDATE, DELETE. New callouts are appended to the note unless line_number is given.\n');
+    }
+
+    if (this.settings.enabledFeatures.indexCodeBlocks) {
+      sections.push(makeTable('code_blocks', [
+        { name: 'id', type: 'INTEGER', description: 'Auto-incrementing ID' },
+        { name: 'path', type: 'TEXT', description: 'File path (foreign key)' },
+        { name: 'language', type: 'TEXT', description: 'First word of the info string' },
+        { name: 'info_string', type: 'TEXT', description: 'Everything after the opening fence' },
+        { name: 'content', type: 'TEXT', description: 'Code between the fences' },
+        { name: 'line_number', type: 'INTEGER', description: 'Opening fence line (1-based)' },
+        { name: 'end_line_number', type: 'INTEGER', description: 'Closing fence line (1-based)' },
+        { name: 'section_heading', type: 'TEXT', description: 'Nearest heading above the block' },
+      ]) + '\n> Read-only. vaultquery blocks are skipped unless "Include plugin code blocks" is enabled.\n');
+    }
+
+    if (this.settings.enabledFeatures.indexFiles) {
+      const fileColumns = [
+        { name: 'path', type: 'TEXT', description: 'File path (primary key)' },
+        { name: 'name', type: 'TEXT', description: 'File name with extension' },
+        { name: 'basename', type: 'TEXT', description: 'File name without extension' },
+        { name: 'extension', type: 'TEXT', description: 'Lower-cased extension without the dot' },
+        { name: 'folder', type: 'TEXT', description: 'Parent folder path, empty for the vault root' },
+        { name: 'size', type: 'INTEGER', description: 'Size in bytes' },
+        { name: 'ctime', type: 'INTEGER', description: 'Created timestamp (ms)' },
+        { name: 'mtime', type: 'INTEGER', description: 'Modified timestamp (ms)' },
+      ];
+      sections.push(makeTable('files', fileColumns) + '\n> Read-only. Covers every file in the vault, including notes and files over the size limit.\n');
+      sections.push(makeTable('orphaned_attachments', fileColumns, true) + '\n> Non-markdown files that no indexed link, embed or canvas file card points to. Enable link and embed indexing for accurate results.\n');
+    }
+
+    if (this.settings.enabledFeatures.indexCanvases) {
+      sections.push(makeTable('canvas_nodes', [
+        { name: 'id', type: 'INTEGER', description: 'Auto-incrementing ID' },
+        { name: 'path', type: 'TEXT', description: 'Canvas file path' },
+        { name: 'node_id', type: 'TEXT', description: 'Node ID within the canvas' },
+        { name: 'type', type: 'TEXT', description: 'text, file, link or group' },
+        { name: 'text', type: 'TEXT', description: 'Markdown of a text card' },
+        { name: 'file', type: 'TEXT', description: 'Vault path of a file node' },
+        { name: 'subpath', type: 'TEXT', description: 'Heading or block of a file node (#...)' },
+        { name: 'url', type: 'TEXT', description: 'URL of a link node' },
+        { name: 'label', type: 'TEXT', description: 'Group label' },
+        { name: 'x', type: 'INTEGER', description: 'Left position' },
+        { name: 'y', type: 'INTEGER', description: 'Top position' },
+        { name: 'width', type: 'INTEGER', description: 'Width' },
+        { name: 'height', type: 'INTEGER', description: 'Height' },
+        { name: 'color', type: 'TEXT', description: 'Preset number (1-6) or hex color' },
+      ]) + '\n> Read-only.\n');
+      sections.push(makeTable('canvas_edges', [
+        { name: 'id', type: 'INTEGER', description: 'Auto-incrementing ID' },
+        { name: 'path', type: 'TEXT', description: 'Canvas file path' },
+        { name: 'edge_id', type: 'TEXT', description: 'Edge ID within the canvas' },
+        { name: 'from_node', type: 'TEXT', description: 'node_id the edge starts at' },
+        { name: 'from_side', type: 'TEXT', description: 'top, right, bottom or left' },
+        { name: 'from_end', type: 'TEXT', description: 'none or arrow' },
+        { name: 'to_node', type: 'TEXT', description: 'node_id the edge ends at' },
+        { name: 'to_side', type: 'TEXT', description: 'top, right, bottom or left' },
+        { name: 'to_end', type: 'TEXT', description: 'none or arrow' },
+        { name: 'label', type: 'TEXT', description: 'Edge label' },
+        { name: 'color', type: 'TEXT', description: 'Preset number (1-6) or hex color' },
+      ]) + '\n> Read-only. Join from_node/to_node to canvas_nodes.node_id on the same path.\n');
+    }
+
     if (this.settings.enabledFeatures.indexTables) {
       sections.push(makeTable('table_cells', [
         { name: 'id', type: 'INTEGER', description: 'Auto-incrementing ID' },
@@ -757,6 +1149,7 @@ export class VaultQueryAPI implements IVaultQueryAPI {
         { name: 'cell_value', type: 'TEXT', description: 'Cell content' },
         { name: 'value_type', type: 'TEXT', description: 'Value type (default: text)' },
         { name: 'line_number', type: 'INTEGER', description: 'Line number' },
+        { name: 'heading_id', type: 'INTEGER', description: 'Enclosing heading (headings.id), NULL when heading indexing is off' },
       ]));
 
       sections.push(makeTable('table_rows', [
@@ -769,7 +1162,7 @@ export class VaultQueryAPI implements IVaultQueryAPI {
 
     // Dynamic views section - show each view with its columns
     const views = this.database.getViewNames();
-    const builtInViews = ['notes_with_properties', 'headings_view', 'list_items_view', 'tasks_view', 'table_rows', 'table_columns', 'note_properties'];
+    const builtInViews = ['notes_with_properties', 'headings_view', 'list_items_view', 'tasks_view', 'table_rows', 'table_columns', 'note_properties', 'orphaned_attachments', 'sections', 'task_tree', 'blocked_tasks', 'ready_tasks', 'task_dependency_cycles'];
     const dynamicViews = views.filter(v => !builtInViews.includes(v));
     if (dynamicViews.length > 0) {
       sections.push('## Dynamic Table Views\n');
@@ -791,13 +1184,19 @@ export class VaultQueryAPI implements IVaultQueryAPI {
 
     // Disabled features
     const disabledFeatures: string[] = [];
-    if (!this.settings.enabledFeatures.indexFrontmatter) disabledFeatures.push('properties');
+    if (!this.settings.enabledFeatures.indexFrontmatter && !this.settings.enabledFeatures.indexInlineFields) disabledFeatures.push('properties');
     if (!this.settings.enabledFeatures.indexTables) disabledFeatures.push('table_cells');
     if (!this.settings.enabledFeatures.indexTasks) disabledFeatures.push('tasks');
     if (!this.settings.enabledFeatures.indexHeadings) disabledFeatures.push('headings');
     if (!this.settings.enabledFeatures.indexLinks) disabledFeatures.push('links');
+    if (!this.settings.enabledFeatures.indexEmbeds) disabledFeatures.push('embeds');
     if (!this.settings.enabledFeatures.indexTags) disabledFeatures.push('tags');
     if (!this.settings.enabledFeatures.indexListItems) disabledFeatures.push('list_items');
+    if (!this.settings.enabledFeatures.indexCallouts) disabledFeatures.push('callouts');
+    if (!this.settings.enabledFeatures.indexCodeBlocks) disabledFeatures.push('code_blocks');
+    if (!this.settings.enabledFeatures.indexFiles) disabledFeatures.push('files');
+    if (!this.settings.enabledFeatures.indexCanvases) disabledFeatures.push('canvas_nodes', 'canvas_edges');
+    if (!this.database.isFullTextSearchEnabled()) disabledFeatures.push('notes_fts');
     if (disabledFeatures.length > 0) {
       sections.push(`\n> [!note] Disabled Tables\n> ${disabledFeatures.join(', ')} - enable in Settings → VaultQuery\n`);
     }
@@ -817,12 +1216,14 @@ export class VaultQueryAPI implements IVaultQueryAPI {
       return await operation();
     }
     catch (error: unknown) {
-      const friendlyError = this.getFriendlyErrorMessage(getErrorMessage(error), query);
+      const friendlyError = this.getFriendlyErrorMessage(error, query);
       throw new Error(friendlyError);
     }
   }
 
-  private getFriendlyErrorMessage(errorMessage: string, _query: string): string {
+  private getFriendlyErrorMessage(error: unknown, query: string): string {
+    const errorMessage = getErrorMessage(error);
+
     if (errorMessage.includes('no such table')) {
       const tableMatch = errorMessage.match(/no such table: (\w+)/);
       if (tableMatch) {
@@ -835,11 +1236,11 @@ export class VaultQueryAPI implements IVaultQueryAPI {
       }
     }
 
-    return errorMessage;
+    return friendlySqliteError(error, { sql: query });
   }
 
   private checkForUnindexedData(sql: string): string | null {
-    const tableNames = this.getReferencedTables(sql);
+    const tableNames = this.extractTableNames(sql);
 
     const warnings = Object.entries(TABLE_FEATURE_CONFIG)
       .filter(([table, config]) =>
@@ -851,18 +1252,38 @@ export class VaultQueryAPI implements IVaultQueryAPI {
     return warnings.length > 0 ? warnings.join('\n\n') : null;
   }
 
-  private getReferencedTables(sql: string): Set<string> {
-    const tableMatches = sql.match(/(?:FROM|JOIN)\s+(\w+)/gi);
+  public getReferencedTables(sql: string): string[] {
+    const tables = new Set<string>();
+
+    const visit = (name: string): void => {
+      if (tables.has(name)) return;
+      tables.add(name);
+
+      // Views are expanded so a query on e.g. tasks_view depends on tasks
+      const definition = this.database.getViewDefinition(name);
+      if (definition) {
+        this.extractTableNames(definition).forEach(visit);
+      }
+    };
+
+    this.extractTableNames(sql).forEach(visit);
+    return [...tables];
+  }
+
+  private extractTableNames(sql: string): Set<string> {
+    // UPDATE and INTO cover the target table of a write
+    const tableMatches = sql.match(/(?:FROM|JOIN|UPDATE|INTO)\s+(\w+)/gi);
     if (!tableMatches) return new Set();
 
     return tableMatches
-      .map(match => match.replace(/(?:FROM|JOIN)\s+/i, '').toLowerCase())
+      .map(match => match.replace(/(?:FROM|JOIN|UPDATE|INTO)\s+/i, '').toLowerCase())
       .reduce((set, name) => set.add(name), new Set<string>());
   }
 
-  public async previewQuery(sql: string, params: unknown[] = [], noteSource?: NoteSource): Promise<PreviewResult> {
+  public async previewQuery(sql: string, params: QueryParams = [], noteSource?: NoteSource): Promise<PreviewResult> {
     if (noteSource) {
       sql = await resolveQueryTemplate(sql, this.app, noteSource);
+      params = await resolveQueryParams(params, this.app, noteSource);
     }
 
     if (this.containsBlockedSQL(sql, true)) {
@@ -877,7 +1298,7 @@ export class VaultQueryAPI implements IVaultQueryAPI {
     // and can work with partial data
 
     try {
-      return await this.database.previewDML(sql, params);
+      return await this.database.previewDML(sql, toBindParams(params));
     }
     catch (error: unknown) {
       // Don't log syntax errors to console - they're expected during editing
@@ -0,0 +1,262 @@
+import { ItemView, MarkdownRenderer, WorkspaceLeaf, setIcon } from 'obsidian';
+import { EditorState } from '@codemirror/state';
+import { EditorView, keymap } from '@codemirror/view';
+import { defaultKeymap, history, historyKeymap } from '@codemirror/commands';
+import { autocompletion, completionKeymap } from '@codemirror/autocomplete';
+import { sqlEditorHighlightPlugin } from '../Editor/SqlHighlightExtension';
+import { createSqlCompletionSource } from '../Editor/SqlAutocompleteExtension';
+import { WriteCodeBlockProcessor } from '../CodeBlockProcessors/WriteCodeBlockProcessor';
+import { SlickGridRenderer } from '../Renderers/SlickGridRenderer';
+import { BaseRenderer } from '../Renderers/BaseRenderer';
+import { QueryHistoryService } from '../Services/QueryHistoryService';
+import { SaveQueryToNoteModal } from '../Modals/SaveQueryToNoteModal';
+import { getConsoleHistoryPath } from '../Settings/Settings';
+import { ERROR_MESSAGES } from '../utils/ErrorMessages';
+import { runWithCancellableLoading } from '../utils/IndexingUtils';
+import { parseQueryBlock, containsWriteOperations } from '../utils/QueryParsingUtils';
+import VaultQueryPlugin from '../main';
+import type { RenderContext } from '../Renderers/BaseRenderer';
+import type { ParsedQuery } from '../utils/QueryParsingUtils';
+
+export const SQL_CONSOLE_VIEW_TYPE = 'vaultquery-sql-console';
+
+const HISTORY_PREVIEW_LENGTH = 80;
+
+const THIS_PLACEHOLDER = /\{this\./;
+
+export class SqlConsoleView extends ItemView {
+  private editor: EditorView | null = null;
+  private resultsEl: HTMLElement;
+  private historySelect: HTMLSelectElement;
+  private history: QueryHistoryService;
+  private writeProcessor: WriteCodeBlockProcessor;
+
+  public constructor(leaf: WorkspaceLeaf, private plugin: VaultQueryPlugin) {
+    super(leaf);
+    this.history = new QueryHistoryService(this.app.vault.adapter, getConsoleHistoryPath(this.app.vault.configDir));
+    this.writeProcessor = new WriteCodeBlockProcessor(this.app, plugin, plugin.settings);
+  }
+
+  public getViewType(): string {
+    return SQL_CONSOLE_VIEW_TYPE;
+  }
+
+  public getDisplayText(): string {
+    // eslint-disable-next-line obsidianmd/ui/sentence-case -- SQL is an acronym
+    return 'SQL console';
+  }
+
+  public getIcon(): string {
+    return 'database';
+  }
+
+  public async onOpen(): Promise<void> {
+    const root = this.contentEl;
+    root.empty();
+    root.addClass('vaultquery-console');
+
+    const toolbar = root.createDiv({ cls: 'vaultquery-console-toolbar' });
+
+    const runButton = toolbar.createEl('button', { cls: 'mod-cta', attr: { 'aria-label': 'Run query (Mod+Enter)' } });
+    setIcon(runButton.createSpan(), 'play');
+    runButton.createSpan({ text: 'Run' });
+    runButton.addEventListener('click', () => void this.runQuery());
+
+    const saveButton = toolbar.createEl('button', { attr: { 'aria-label': 'Save query to a note' } });
+    setIcon(saveButton.createSpan(), 'file-plus');
+    saveButton.createSpan({ text: 'Save to note' });
+    saveButton.addEventListener('click', () => this.saveToNote());
+
+    this.historySelect = toolbar.createEl('select', { cls: 'dropdown vaultquery-console-history' });
+    this.historySelect.addEventListener('change', () => {
+      const index = Number(this.historySelect.value);
+      const entry = this.history.getEntries()[index];
+      if (entry) {
+        this.setQuery(entry.query);
+      }
+      this.historySelect.value = '';
+    });
+
+    const clearButton = toolbar.createEl('button', { cls: 'clickable-icon', attr: { 'aria-label': 'Clear history' } });
+    setIcon(clearButton, 'trash-2');
+    clearButton.addEventListener('click', () => {
+      void this.history.clear().then(() => this.renderHistory());
+    });
+
+    const editorEl = root.createDiv({ cls: 'vaultquery-console-editor' });
+    this.editor = new EditorView({
+      parent: editorEl,
+      state: EditorState.create({
+        doc: 'SELECT path, title, modified\nFROM notes\nORDER BY modified DESC\nLIMIT 20',
+        extensions: [
+          history(),
+          autocompletion({ override: [createSqlCompletionSource(this.plugin)] }),
+          keymap.of([
+            { key: 'Mod-Enter', run: () => { void this.runQuery(); return true; } },
+            ...completionKeymap,
+            ...defaultKeymap,
+            ...historyKeymap
+          ]),
+          sqlEditorHighlightPlugin,
+          EditorView.lineWrapping
+        ]
+      })
+    });
+
+    this.resultsEl = root.createDiv({ cls: 'vaultquery-console-results vaultquery-container' });
+
+    await this.history.load();
+    this.renderHistory();
+  }
+
+  public onClose(): Promise<void> {
+    if (this.resultsEl) {
+      this.clearResults();
+    }
+    this.editor?.destroy();
+    this.editor = null;
+    return Promise.resolve();
+  }
+
+  private getQuery(): string {
+    return this.editor?.state.doc.toString() ?? '';
+  }
+
+  private setQuery(query: string): void {
+    if (!this.editor) return;
+    this.editor.dispatch({
+      changes: { from: 0, to: this.editor.state.doc.length, insert: query }
+    });
+    this.editor.focus();
+  }
+
+  private renderHistory(): void {
+    this.historySelect.empty();
+    const entries = this.history.getEntries();
+
+    this.historySelect.createEl('option', {
+      text: entries.length > 0 ? `History (${entries.length})` : 'No history',
+      value: ''
+    });
+
+    entries.forEach((entry, index) => {
+      const singleLine = entry.query.replace(/\s+/g, ' ');
+      const label = singleLine.length > HISTORY_PREVIEW_LENGTH
+        ? `${singleLine.substring(0, HISTORY_PREVIEW_LENGTH)}...`
+        : singleLine;
+      this.historySelect.createEl('option', { text: label, value: String(index) });
+    });
+
+    this.historySelect.value = '';
+  }
+
+  private clearResults(): void {
+    this.plugin.liveQueryManager.unregister(this.resultsEl);
+    if (this.resultsEl.id) {
+      SlickGridRenderer.destroyGrids(this.resultsEl.id);
+    }
+    this.resultsEl.empty();
+  }
+
+  /** Parse errors, such as an invalid params section, are shown in the results pane */
+  private parseSource(source: string): ParsedQuery | null {
+    try {
+      return parseQueryBlock(source);
+    }
+    catch (error: unknown) {
+      this.clearResults();
+      BaseRenderer.renderQueryError(this.app, this.resultsEl, error, source);
+      return null;
+    }
+  }
+
+  private async runQuery(): Promise<void> {
+    const source = this.getQuery();
+    const parsed = this.parseSource(source);
+    if (!parsed) return;
+
+    const container = this.resultsEl;
+    this.clearResults();
+
+    if (!parsed.query) {
+      container.createDiv({ cls: 'vaultquery-empty', text: 'Enter a query to run.' });
+      return;
+    }
+
+    const api = this.plugin.api;
+    if (!api) {
+      container.createDiv({ cls: 'vaultquery-error', text: ERROR_MESSAGES.API_NOT_INITIALIZED });
+      return;
+    }
+
+    // {this.*} refers to the note that was active when the query was run, like a block in that note
+    const sourcePath = this.app.workspace.getActiveFile()?.path;
+    if (!sourcePath && THIS_PLACEHOLDER.test(source)) {
+      container.createDiv({ cls: 'vaultquery-error', text: ERROR_MESSAGES.CONSOLE_NO_ACTIVE_NOTE });
+      return;
+    }
+
+    await this.history.add(source);
+    this.renderHistory();
+
+    if (containsWriteOperations(parsed.query)) {
+      await this.writeProcessor.processWriteBlockInContainer(container, parsed, sourcePath);
+      return;
+    }
+
+    await this.runSelect(container, parsed, sourcePath);
+    this.plugin.liveQueryManager.register(container, parsed.query, () => this.refreshSelect(container, parsed, sourcePath), sourcePath);
+  }
+
+  private async refreshSelect(container: HTMLElement, parsed: ParsedQuery, sourcePath?: string): Promise<void> {
+    container.empty();
+    await this.runSelect(container, parsed, sourcePath);
+  }
+
+  private async runSelect(container: HTMLElement, parsed: ParsedQuery, sourcePath?: string): Promise<void> {
+    const api = this.plugin.api;
+    if (!api) return;
+
+    try {
+      const results = await runWithCancellableLoading(container, signal =>
+        api.query(parsed.query, parsed.params ?? [], sourcePath, { signal }));
+
+      const onRefresh = () => this.refreshSelect(container, parsed, sourcePath);
+
+      const renderContext: RenderContext = {
+        results,
+        parsed,
+        container,
+        app: this.app,
+        openFile: (path: string) => this.app.workspace.openLinkText(path, ''),
+        MarkdownRenderer,
+        pluginContext: this.plugin,
+        settings: this.plugin.settings,
+        onRefresh
+      };
+
+      container.createDiv({ cls: 'vaultquery-console-summary', text: `${results.length} row${results.length === 1 ? '' : 's'}` });
+      SlickGridRenderer.render(renderContext);
+
+      const buttonContainer = container.createDiv('vaultquery-floating-buttons');
+      if (results.length > 0) {
+        BaseRenderer.addCopyAsMarkdownButton(buttonContainer, results);
+      }
+      BaseRenderer.addRefreshButton(buttonContainer, onRefresh);
+    }
+    catch (error: unknown) {
+      BaseRenderer.renderQueryError(this.app, container, error, parsed.query);
+    }
+  }
+
+  private saveToNote(): void {
+    const source = this.getQuery().trim();
+    if (!source) return;
+
+    const parsed = this.parseSource(source);
+    if (!parsed) return;
+
+    const language = containsWriteOperations(parsed.query) ? 'vaultquery-write' : 'vaultquery';
+    new SaveQueryToNoteModal(this.app, source, language).open();
+  }
+}
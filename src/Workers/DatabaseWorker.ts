@@ -0,0 +1,59 @@
+import { DatabaseEngine, callDatabaseEngine } from '../Database/DatabaseEngine';
+import type { DatabaseImage, DatabaseSchemaSnapshot } from '../Database/DatabaseEngine';
+import { getErrorMessage } from '../utils/ErrorMessages';
+import type { DatabaseWorkerRequest, DatabaseWorkerResponse } from '../Database/DatabaseWorkerClient';
+
+/*
+ * Entry point of the database worker, which owns a sql.js database and runs every statement
+ * against it, one message at a time. Bundled and inlined into main.js like the indexing
+ * worker, so nothing imported here may depend on 'obsidian' at runtime.
+ */
+
+interface WorkerScope {
+  addEventListener(type: 'message', listener: (event: MessageEvent<DatabaseWorkerRequest>) => void): void;
+  postMessage(message: DatabaseWorkerResponse, transfer?: Transferable[]): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+let engine: DatabaseEngine | null = null;
+let reportSchema = false;
+
+function takeSchemaSnapshot(): DatabaseSchemaSnapshot | null {
+  return engine && reportSchema ? engine.takeSchemaSnapshot() : null;
+}
+
+// Exported images are handed over rather than copied
+function transferablesOf(result: unknown): Transferable[] {
+  const data = (result as Partial<DatabaseImage> | null)?.data;
+  return data instanceof Uint8Array ? [data.buffer] : [];
+}
+
+scope.addEventListener('message', (event) => {
+  const request = event.data;
+
+  if (request.type === 'open') {
+    reportSchema = request.reportSchema;
+    DatabaseEngine.open(request.options).then(
+      opened => {
+        engine = opened;
+        scope.postMessage({ id: request.id, result: null, schema: takeSchemaSnapshot() });
+      },
+      error => scope.postMessage({ id: request.id, error: getErrorMessage(error), schema: null })
+    );
+    return;
+  }
+
+  if (!engine) {
+    scope.postMessage({ id: request.id, error: 'Database worker has no database open', schema: null });
+    return;
+  }
+
+  try {
+    const result = callDatabaseEngine(engine, request.method, request.args);
+    scope.postMessage({ id: request.id, result, schema: takeSchemaSnapshot() }, transferablesOf(result));
+  }
+  catch (error) {
+    scope.postMessage({ id: request.id, error: getErrorMessage(error), schema: takeSchemaSnapshot() });
+  }
+});
@@ -0,0 +1,28 @@
+import { NoteParser } from '../Services/NoteParser';
+import { getErrorMessage } from '../utils/ErrorMessages';
+import type { IndexingWorkerRequest, IndexingWorkerResponse } from '../Services/IndexingWorkerClient';
+
+/*
+ * Entry point of the indexing worker. esbuild bundles this file separately and inlines it
+ * into main.js as a string (see esbuild.config.mjs), so nothing imported here may depend
+ * on 'obsidian' at runtime.
+ */
+
+interface WorkerScope {
+  addEventListener(type: 'message', listener: (event: MessageEvent<IndexingWorkerRequest>) => void): void;
+  postMessage(message: IndexingWorkerResponse): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+scope.addEventListener('message', (event) => {
+  const { id, features, taskOptions, notes } = event.data;
+
+  try {
+    const parser = new NoteParser(features, taskOptions);
+    scope.postMessage({ id, results: notes.map(note => parser.parse(note)) });
+  }
+  catch (error) {
+    scope.postMessage({ id, error: getErrorMessage(error) });
+  }
+});
@@ -0,0 +1,105 @@
+import type { CalloutRow } from '../Services/ContentLocationService';
+import type { EntityHandler, EntityHandlerContext, PreviewResult, EditPlannerPreviewResult } from './types';
+import { extractSql } from './types';
+
+export class CalloutHandler implements EntityHandler {
+  readonly supportedTables = ['callouts'];
+
+  canHandle(table: string): boolean {
+    return this.supportedTables.includes(table);
+  }
+
+  convertPreviewResult(
+    previewResult: PreviewResult,
+    _context: EntityHandlerContext
+  ): Promise<EditPlannerPreviewResult> {
+    if (previewResult.op === 'delete') {
+      return Promise.resolve({
+        sqlToApply: extractSql(previewResult),
+        tasksAfter: [],
+        headingsAfter: [],
+        tableCellsAfter: [],
+        calloutsAfter: [],
+        calloutsToDelete: previewResult.before.map(row => this.convertToCalloutRow(row))
+      });
+    }
+
+    // For updates, locate the callout by where it was before the change
+    if (previewResult.op === 'update') {
+      const callouts = previewResult.after.map(row => {
+        const callout = this.convertToCalloutRow(row);
+        const beforeRow = previewResult.before.find(b => b.id === row.id);
+        if (beforeRow) {
+          callout.start_offset = typeof beforeRow.start_offset === 'number' ? beforeRow.start_offset : callout.start_offset;
+          callout.end_offset = typeof beforeRow.end_offset === 'number' ? beforeRow.end_offset : callout.end_offset;
+          callout.anchor_hash = typeof beforeRow.anchor_hash === 'string' ? beforeRow.anchor_hash : callout.anchor_hash;
+          if (callout.block_id == null && typeof beforeRow.block_id === 'string') {
+            callout.block_id = beforeRow.block_id;
+          }
+        }
+        return callout;
+      });
+
+      return Promise.resolve({
+        sqlToApply: extractSql(previewResult),
+        tasksAfter: [],
+        headingsAfter: [],
+        tableCellsAfter: [],
+        calloutsAfter: callouts
+      });
+    }
+
+    return Promise.resolve({
+      sqlToApply: extractSql(previewResult),
+      tasksAfter: [],
+      headingsAfter: [],
+      tableCellsAfter: [],
+      calloutsAfter: previewResult.after.map(row => this.convertToCalloutRow(row))
+    });
+  }
+
+  handleInsertOperation(
+    previewResult: PreviewResult,
+    _context: EntityHandlerContext
+  ): Promise<EditPlannerPreviewResult> {
+    const newCallouts = previewResult.after.map(row => {
+      const callout = this.convertToCalloutRow(row);
+      // Use user-specified line_number if provided, otherwise -1 to append to the note
+      if (callout.line_number === null || callout.line_number === undefined) {
+        callout.line_number = -1;
+      }
+      return callout;
+    });
+
+    return Promise.resolve({
+      sqlToApply: extractSql(previewResult),
+      tasksAfter: [],
+      headingsAfter: [],
+      tableCellsAfter: [],
+      calloutsAfter: newCallouts
+    });
+  }
+
+  convertToCalloutRow(row: Record<string, unknown>): CalloutRow {
+    const path = typeof row.path === 'string' ? row.path : '';
+    if (!path) {
+      console.warn('[VaultQuery] CalloutHandler.convertToCalloutRow: missing required field "path"', row);
+    }
+
+    return {
+      id: typeof row.id === 'number' ? row.id : 0,
+      path,
+      type: typeof row.type === 'string' && row.type.trim() ? row.type.trim() : null,
+      title: typeof row.title === 'string' ? row.title : null,
+      fold_state: typeof row.fold_state === 'string' ? row.fold_state : null,
+      body: typeof row.body === 'string' ? row.body : '',
+      line_number: typeof row.line_number === 'number' ? row.line_number : null,
+      end_line_number: typeof row.end_line_number === 'number' ? row.end_line_number : null,
+      block_id: typeof row.block_id === 'string' ? row.block_id : null,
+      section_heading: typeof row.section_heading === 'string' ? row.section_heading : null,
+      start_offset: typeof row.start_offset === 'number' ? row.start_offset : null,
+      end_offset: typeof row.end_offset === 'number' ? row.end_offset : null,
+      anchor_hash: typeof row.anchor_hash === 'string' ? row.anchor_hash : null
+    };
+  }
+}
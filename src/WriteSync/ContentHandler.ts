@@ -1,13 +1,14 @@
-import type { EntityHandler, EntityHandlerContext, PreviewResult, EditPlannerPreviewResult } from './types';
+import type { EntityHandler, EntityHandlerContext, PreviewResult, EditPlannerPreviewResult, PropertyRow } from './types';
 import { escapeRegex, processEscapeSequences } from '../utils/StringUtils';
+import { formatEmbed, parseEmbedMarkup } from '../utils/EmbedUtils';
 import { extractSql, createEmptyResult } from './types';
 
 /**
- * Handler for content-based operations: notes, tags, links
+ * Handler for content-based operations: notes, tags, links, embeds
  * These operations modify file content directly rather than structured data
  */
 export class ContentHandler implements EntityHandler {
-  readonly supportedTables = ['notes', 'notes_with_properties', 'tags', 'links'];
+  readonly supportedTables = ['notes', 'notes_with_properties', 'tags', 'links', 'embeds'];
 
   canHandle(table: string): boolean {
     return this.supportedTables.includes(table);
@@ -26,6 +27,8 @@ export class ContentHandler implements EntityHandler {
         return this.handleTagsOperation(previewResult, context);
       case 'links':
         return this.handleLinksOperation(previewResult, context);
+      case 'embeds':
+        return this.handleEmbedsOperation(previewResult, context);
       default:
         return createEmptyResult(extractSql(previewResult));
     }
@@ -44,6 +47,8 @@ export class ContentHandler implements EntityHandler {
         return this.handleTagsInsert(previewResult, context);
       case 'links':
         return this.handleLinksInsert(previewResult, context);
+      case 'embeds':
+        throw new Error('INSERT INTO embeds is not supported. Add the embed to the note content, or UPDATE an existing embed to retarget it.');
       default:
         return createEmptyResult(extractSql(previewResult));
     }
@@ -78,7 +83,7 @@ export class ContentHandler implements EntityHandler {
 
     if (previewResult.op === 'update') {
       if (previewResult.table === 'notes_with_properties') {
-        return Promise.resolve(this.handleNotesWithPropertiesUpdate(previewResult));
+        return this.handleNotesWithPropertiesUpdate(previewResult, _context);
       }
 
       // Regular notes table update (content only)
@@ -101,10 +106,10 @@ export class ContentHandler implements EntityHandler {
     return Promise.resolve(createEmptyResult(extractSql(previewResult)));
   }
 
-  private handleNotesWithPropertiesUpdate(previewResult: PreviewResult): EditPlannerPreviewResult {
+  private async handleNotesWithPropertiesUpdate(previewResult: PreviewResult, context: EntityHandlerContext): Promise<EditPlannerPreviewResult> {
     const notesCoreColumns = ['path', 'title', 'content', 'created', 'modified', 'size'];
-    const propertiesAfter: Array<{ path: string; key: string; value: string | null; type: string | null }> = [];
-    const propertiesToDelete: Array<{ path: string; key: string; value: string | null; type: string | null }> = [];
+    const propertiesAfter: PropertyRow[] = [];
+    const propertiesToDelete: PropertyRow[] = [];
     const contentUpdates: Array<{ path: string; content: string }> = [];
 
     for (let i = 0; i < previewResult.after.length; i++) {
@@ -124,12 +129,20 @@ export class ContentHandler implements EntityHandler {
         const beforeValue = beforeRow?.[key];
 
         if (afterValue !== beforeValue) {
+          // The view shows frontmatter first, then the first inline field, and its triggers change the same row
+          const sources = await this.getScalarPropertySources(context, path, key);
+
           if (afterValue === null || afterValue === undefined) {
-            propertiesToDelete.push({ path, key, value: null, type: null });
+            if (sources.length === 0) {
+              propertiesToDelete.push({ path, key, value: null, type: null });
+            }
+            for (const source of sources) {
+              propertiesToDelete.push({ path, key, value: null, type: null, ...source });
+            }
           }
 
           else {
-            propertiesAfter.push({ path, key, value: String(afterValue), type: null });
+            propertiesAfter.push({ path, key, value: String(afterValue), type: null, ...sources[0] });
           }
         }
       }
@@ -146,6 +159,21 @@ export class ContentHandler implements EntityHandler {
     };
   }
 
+  /**
+   * Where the scalar values of a property live, in the order the properties views rank them.
+   * The database still holds the rows from before the statement when this runs.
+   */
+  private async getScalarPropertySources(
+    context: EntityHandlerContext,
+    path: string,
+    key: string
+  ): Promise<Array<{ source: string; line_number: number | null }>> {
+    return context.queryDatabase<{ source: string; line_number: number | null }>(
+      'SELECT source, line_number FROM properties WHERE path = ? AND key = ? AND array_index IS NULL ORDER BY source = \'inline\', line_number',
+      [path, key]
+    );
+  }
+
   private handleNotesInsert(previewResult: PreviewResult): EditPlannerPreviewResult {
     const isFromPropertiesView = previewResult.table === 'notes_with_properties';
     const notesCoreColumns = ['path', 'title', 'content', 'created', 'modified', 'size'];
@@ -641,4 +669,125 @@ export class ContentHandler implements EntityHandler {
       notesContentUpdates: contentUpdates
     };
   }
+
+  // ============= Embeds Operations =============
+
+  private async handleEmbedsOperation(
+    previewResult: PreviewResult,
+    context: EntityHandlerContext
+  ): Promise<EditPlannerPreviewResult> {
+    if (previewResult.op === 'update') {
+      return this.handleEmbedsUpdate(previewResult, context);
+    }
+
+    if (previewResult.op === 'delete') {
+      return this.handleEmbedsDelete(previewResult, context);
+    }
+
+    return createEmptyResult(extractSql(previewResult));
+  }
+
+  private async handleEmbedsUpdate(
+    previewResult: PreviewResult,
+    context: EntityHandlerContext
+  ): Promise<EditPlannerPreviewResult> {
+    const embedChangesByPath = new Map<string, Array<{ lineNumber: number | null; oldMarkup: string; newMarkup: string }>>();
+
+    for (let i = 0; i < previewResult.before.length; i++) {
+      const before = previewResult.before[i];
+      const after = previewResult.after[i];
+      if (!before || !after) continue;
+
+      const oldMarkup = before.markup as string;
+      const parsed = parseEmbedMarkup(oldMarkup, `${before.embed_target as string}${(before.subpath as string | null) ?? ''}`);
+      const subpath = (after.subpath as string | null) || null;
+
+      // Rebuild from the edited columns; the resolved path and markup are refreshed on reindex
+      const newMarkup = formatEmbed({
+        target: (after.embed_target as string | null) ?? parsed.target,
+        subpath: subpath && !subpath.startsWith('#') ? `#${subpath}` : subpath,
+        altText: (after.alt_text as string | null) || null,
+        width: typeof after.width === 'number' ? after.width : null,
+        height: typeof after.height === 'number' ? after.height : null,
+        embedType: after.embed_type === 'markdown' || after.embed_type === 'wikilink' ? after.embed_type : parsed.embedType
+      });
+
+      if (newMarkup === oldMarkup) continue;
+
+      const path = after.path as string;
+      const changes = embedChangesByPath.get(path) || [];
+      changes.push({ lineNumber: before.line_number as number | null, oldMarkup, newMarkup });
+      embedChangesByPath.set(path, changes);
+    }
+
+    const contentUpdates = await this.replaceEmbedMarkup(embedChangesByPath, context);
+
+    return {
+      sqlToApply: extractSql(previewResult),
+      tasksAfter: [],
+      headingsAfter: [],
+      tableCellsAfter: [],
+      notesContentUpdates: contentUpdates
+    };
+  }
+
+  private async handleEmbedsDelete(
+    previewResult: PreviewResult,
+    context: EntityHandlerContext
+  ): Promise<EditPlannerPreviewResult> {
+    const embedDeletesByPath = new Map<string, Array<{ lineNumber: number | null; oldMarkup: string; newMarkup: string }>>();
+
+    for (const row of previewResult.before) {
+      const path = row.path as string;
+      const deletes = embedDeletesByPath.get(path) || [];
+      deletes.push({ lineNumber: row.line_number as number | null, oldMarkup: row.markup as string, newMarkup: '' });
+      embedDeletesByPath.set(path, deletes);
+    }
+
+    const contentUpdates = await this.replaceEmbedMarkup(embedDeletesByPath, context);
+
+    return {
+      sqlToApply: extractSql(previewResult),
+      tasksAfter: [],
+      headingsAfter: [],
+      tableCellsAfter: [],
+      notesContentUpdates: contentUpdates
+    };
+  }
+
+  /**
+   * Replace embed markup on its indexed line, falling back to the first occurrence in
+   * the file when the line has shifted since the last index.
+   */
+  private async replaceEmbedMarkup(
+    changesByPath: Map<string, Array<{ lineNumber: number | null; oldMarkup: string; newMarkup: string }>>,
+    context: EntityHandlerContext
+  ): Promise<Array<{ path: string; content: string }>> {
+    const contentUpdates: Array<{ path: string; content: string }> = [];
+
+    for (const [path, changes] of changesByPath) {
+      const content = await context.readFileContent(path);
+      if (!content) continue;
+
+      const lines = content.split('\n');
+
+      for (const change of changes) {
+        const lineIdx = change.lineNumber !== null ? change.lineNumber - 1 : -1;
+
+        if (lineIdx >= 0 && lineIdx < lines.length && lines[lineIdx].includes(change.oldMarkup)) {
+          lines[lineIdx] = lines[lineIdx].replace(change.oldMarkup, change.newMarkup);
+        }
+        else {
+          const fallbackIdx = lines.findIndex(line => line.includes(change.oldMarkup));
+          if (fallbackIdx !== -1) {
+            lines[fallbackIdx] = lines[fallbackIdx].replace(change.oldMarkup, change.newMarkup);
+          }
+        }
+      }
+
+      contentUpdates.push({ path, content: lines.join('\n') });
+    }
+
+    return contentUpdates;
+  }
 }
@@ -1,8 +1,9 @@
 import type { EntityHandler, EntityHandlerContext, PreviewResult, EditPlannerPreviewResult, PropertyRow } from './types';
 import { extractSql } from './types';
+import { diffJson } from '../utils/JsonPathUtils';
 
 export class PropertyHandler implements EntityHandler {
-  readonly supportedTables = ['properties'];
+  readonly supportedTables = ['properties', 'note_frontmatter'];
 
   canHandle(table: string): boolean {
     return this.supportedTables.includes(table);
@@ -12,6 +13,10 @@ export class PropertyHandler implements EntityHandler {
     previewResult: PreviewResult,
     _context: EntityHandlerContext
   ): Promise<EditPlannerPreviewResult> {
+    if (previewResult.table === 'note_frontmatter') {
+      return Promise.resolve(this.convertFrontmatterJson(previewResult));
+    }
+
     if (previewResult.op === 'delete') {
       return Promise.resolve({
         sqlToApply: extractSql(previewResult),
@@ -33,7 +38,22 @@ export class PropertyHandler implements EntityHandler {
       for (let i = 0; i < beforeProps.length; i++) {
         const before = beforeProps[i];
         const after = afterProps[i];
-        if (before && after && before.key !== after.key) {
+        if (!before || !after) continue;
+
+        // Only a typed column was set, so it carries the new value
+        if (after.value === before.value) {
+          const typedValue = this.typedValueChange(previewResult.before[i], previewResult.after[i]);
+          if (typedValue !== null) after.value = typedValue;
+        }
+
+        if (before.source === 'inline' && after.source === 'inline') {
+          // Inline fields are edited where they are, so a rename keeps the field in place
+          after.line_number = before.line_number;
+          if (before.key !== after.key) {
+            after.previous_key = before.key;
+          }
+        }
+        else if (before.key !== after.key || before.source !== after.source) {
           propsToDelete.push(before);
         }
       }
@@ -54,7 +74,7 @@ export class PropertyHandler implements EntityHandler {
       tasksAfter: [],
       headingsAfter: [],
       tableCellsAfter: [],
-      propertiesAfter: previewResult.after.map(row => this.convertToPropertyRow(row))
+      propertiesAfter: previewResult.after.map(row => ({ ...this.convertToPropertyRow(row), is_new: true }))
     });
   }
 
@@ -62,12 +82,16 @@ export class PropertyHandler implements EntityHandler {
     previewResult: PreviewResult,
     _context: EntityHandlerContext
   ): Promise<EditPlannerPreviewResult> {
+    if (previewResult.table === 'note_frontmatter') {
+      return Promise.resolve(this.convertFrontmatterJson(previewResult));
+    }
+
     return Promise.resolve({
       sqlToApply: extractSql(previewResult),
       tasksAfter: [],
       headingsAfter: [],
       tableCellsAfter: [],
-      propertiesAfter: previewResult.after.map(row => this.convertToPropertyRow(row))
+      propertiesAfter: previewResult.after.map(row => ({ ...this.convertToPropertyRow(row), is_new: true }))
     });
   }
 
@@ -81,7 +105,91 @@ export class PropertyHandler implements EntityHandler {
       path,
       key: typeof row.key === 'string' ? row.key : '',
       value: typeof row.value === 'string' ? row.value : null,
-      type: typeof row.type === 'string' ? row.type : null
+      type: typeof row.value_type === 'string' && row.value_type !== '' ? row.value_type : null,
+      array_index: typeof row.array_index === 'number' ? row.array_index : null,
+      source: typeof row.source === 'string' ? row.source : null,
+      line_number: typeof row.line_number === 'number' ? row.line_number : null
     };
   }
+
+  /**
+   * note_frontmatter rows hold a whole top-level property as JSON. An UPDATE is diffed
+   * against the row before it, so json_set() on one nested value writes only that value
+   * and leaves its siblings as they are in the note.
+   */
+  private convertFrontmatterJson(previewResult: PreviewResult): EditPlannerPreviewResult {
+    const before = previewResult.before.map(row => this.convertToFrontmatterJsonRow(row));
+    const after = previewResult.after.map(row => this.convertToFrontmatterJsonRow(row));
+    const propertiesAfter: PropertyRow[] = [];
+    const propertiesToDelete: PropertyRow[] = [];
+
+    if (previewResult.op === 'delete') {
+      propertiesToDelete.push(...before);
+    }
+    else if (previewResult.op === 'update') {
+      after.forEach((next, i) => {
+        const previous = before[i];
+        if (!previous || previous.path !== next.path || previous.key !== next.key) {
+          if (previous) propertiesToDelete.push(previous);
+          propertiesAfter.push(next);
+          return;
+        }
+
+        for (const change of diffJson(parseJsonValue(previous.value), parseJsonValue(next.value))) {
+          if (change.deleted) {
+            propertiesToDelete.push({ ...next, value: null, json_path: change.path });
+          }
+          else {
+            propertiesAfter.push({ ...next, value: JSON.stringify(change.value ?? null), json_path: change.path });
+          }
+        }
+      });
+    }
+    else {
+      propertiesAfter.push(...after.map(row => ({ ...row, is_new: true })));
+    }
+
+    return {
+      sqlToApply: extractSql(previewResult),
+      tasksAfter: [],
+      headingsAfter: [],
+      tableCellsAfter: [],
+      propertiesAfter,
+      propertiesToDelete: propertiesToDelete.length > 0 ? propertiesToDelete : undefined
+    };
+  }
+
+  private convertToFrontmatterJsonRow(row: Record<string, unknown>): PropertyRow {
+    return {
+      path: typeof row.path === 'string' ? row.path : '',
+      key: typeof row.key === 'string' ? row.key : '',
+      value: typeof row.value_json === 'string' ? row.value_json : null,
+      type: 'json',
+      source: 'frontmatter',
+      // Keys are literal top-level keys, never the dotted flattened keys of properties
+      json_path: []
+    };
+  }
+
+  /** value_num or value_date as the new value, when an UPDATE changed one of them instead of value */
+  private typedValueChange(before: Record<string, unknown>, after: Record<string, unknown>): string | null {
+    if (typeof after.value_num === 'number' && after.value_num !== before.value_num) {
+      return after.value_type === 'checkbox' ? String(after.value_num !== 0) : String(after.value_num);
+    }
+    if (typeof after.value_date === 'string' && after.value_date !== before.value_date) {
+      return after.value_type === 'date' ? after.value_date.slice(0, 10) : after.value_date;
+    }
+    return null;
+  }
+}
+
+/** Parsed value_json; text that is not JSON stands for itself */
+function parseJsonValue(value: string | null): unknown {
+  if (value === null) return null;
+  try {
+    return JSON.parse(value);
+  }
+  catch {
+    return value;
+  }
 }
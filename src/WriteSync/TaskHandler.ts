@@ -48,6 +48,13 @@ export class TaskHandler implements EntityHandler {
         if (task.block_id == null && beforeRow.block_id != null) {
           task.block_id = beforeRow.block_id as string;
         }
+        if (typeof beforeRow.line_number === 'number' && task.line_number != null && task.line_number !== beforeRow.line_number) {
+          task.previous_line_number = beforeRow.line_number;
+        }
+        // Only the symbol was set, so it decides the checkbox instead of the unchanged status
+        if (task.status_symbol != null && task.status_symbol !== beforeRow.status_symbol && task.status === beforeRow.status) {
+          task.status = null;
+        }
       }
 
       if (isNewTasks || !hasMatchingBefore) {
@@ -99,6 +106,7 @@ export class TaskHandler implements EntityHandler {
       task_text: typeof row.task_text === 'string' ? row.task_text : '',
       completed: row.completed === 1 ? 1 : 0,
       status: typeof row.status === 'string' ? row.status : null,
+      status_symbol: typeof row.status_symbol === 'string' ? row.status_symbol : null,
       priority: typeof row.priority === 'string' ? row.priority : null,
       due_date: typeof row.due_date === 'string' ? row.due_date : null,
       scheduled_date: typeof row.scheduled_date === 'string' ? row.scheduled_date : null,
@@ -2,6 +2,7 @@ export * from './types';
 export { TaskHandler } from './TaskHandler';
 export { HeadingHandler } from './HeadingHandler';
 export { ListItemHandler } from './ListItemHandler';
+export { CalloutHandler } from './CalloutHandler';
 export { PropertyHandler } from './PropertyHandler';
 export { TableCellHandler } from './TableCellHandler';
 export { ContentHandler } from './ContentHandler';
@@ -11,6 +12,7 @@ import { createEmptyResult, extractSql } from './types';
 import { TaskHandler } from './TaskHandler';
 import { HeadingHandler } from './HeadingHandler';
 import { ListItemHandler } from './ListItemHandler';
+import { CalloutHandler } from './CalloutHandler';
 import { PropertyHandler } from './PropertyHandler';
 import { TableCellHandler } from './TableCellHandler';
 import { ContentHandler } from './ContentHandler';
@@ -28,6 +30,7 @@ export class EntityHandlerRegistry {
       new TaskHandler(),
       new HeadingHandler(),
       new ListItemHandler(),
+      new CalloutHandler(),
       new PropertyHandler(),
       this.tableCellHandler,
       new ContentHandler()
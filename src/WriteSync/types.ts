@@ -1,10 +1,23 @@
-import type { TaskRow, HeadingRow, ListItemRow, TableCellRow } from '../Services/ContentLocationService';
+import type { TaskRow, HeadingRow, ListItemRow, CalloutRow, TableCellRow } from '../Services/ContentLocationService';
+import type { JsonPath } from '../utils/JsonPathUtils';
 
 export interface PropertyRow {
   path: string;
   key: string;
   value: string | null;
+  /** properties.value_type, which decides the YAML type the value is written as */
   type: string | null;
+  /** Element of a list property; null for the whole value */
+  array_index?: number | null;
+  /** Value inside the property's JSON that this row sets or removes, empty for the whole key (note_frontmatter writes) */
+  json_path?: JsonPath;
+  /** 'inline' rows are edited in the note body instead of the frontmatter */
+  source?: string | null;
+  line_number?: number | null;
+  /** Key the inline field had before a rename */
+  previous_key?: string;
+  /** Set for INSERTs, so an inline field that cannot be found is added rather than reported missing */
+  is_new?: boolean;
 }
 
 export interface EditPlannerPreviewResult {
@@ -18,6 +31,8 @@ export interface EditPlannerPreviewResult {
   propertiesToDelete?: PropertyRow[];
   listItemsAfter?: ListItemRow[];
   listItemsToDelete?: ListItemRow[];
+  calloutsAfter?: CalloutRow[];
+  calloutsToDelete?: CalloutRow[];
   fileHashes?: Record<string, string>;
   fileMtimes?: Record<string, number>;
   filesToCreate?: Array<{ path: string; content: string }>;
@@ -1,9 +1,10 @@
-import { Plugin, loadPrism } from 'obsidian';
+import { Notice, Plugin, loadPrism } from 'obsidian';
 import { VaultQueryAPI } from './VaultQueryAPI';
-import { VaultQuerySettings, DEFAULT_SETTINGS, validateSettings } from './Settings/Settings';
+import { VaultQuerySettings, DEFAULT_SETTINGS, validateSettings, type TaskStatusDefinition } from './Settings/Settings';
 import { VaultQuerySettingTab } from './Settings/SettingsTab';
 import { SlickGridRenderer } from './Renderers/SlickGridRenderer';
 import { IndexingStateManager } from './Managers/IndexingStateManager';
+import { LiveQueryManager } from './Managers/LiveQueryManager';
 import { QueryCodeBlockProcessor } from './CodeBlockProcessors/QueryCodeBlockProcessor';
 import { WriteCodeBlockProcessor } from './CodeBlockProcessors/WriteCodeBlockProcessor';
 import { ChartCodeBlockProcessor } from './CodeBlockProcessors/ChartCodeBlockProcessor';
@@ -17,8 +18,12 @@ import { ExamplesCodeBlockProcessor } from './CodeBlockProcessors/ExamplesCodeBl
 import { ApiGuideCodeBlockProcessor } from './CodeBlockProcessors/ApiGuideCodeBlockProcessor';
 import { sqlHighlightPlugin, disableAutoPairInVaultquery } from './Editor/SqlHighlightExtension';
 import { createInlineButtonExtension, processReadingViewInlineButtons } from './Editor/InlineButtonExtension';
+import { createSqlAutocompleteExtension } from './Editor/SqlAutocompleteExtension';
 import { renderIndexingProgress } from './utils/IndexingUtils';
 import { SQL_HIGHLIGHTED_LANGUAGES, JS_HIGHLIGHTED_LANGUAGES } from './Constants/EditorConstants';
+import { IndexingStatsModal } from './Modals/IndexingStatsModal';
+import { SqlConsoleView, SQL_CONSOLE_VIEW_TYPE } from './Views/SqlConsoleView';
+import { ERROR_MESSAGES, INFO_MESSAGES, getErrorMessage } from './utils/ErrorMessages';
 import type { IndexingStatus } from './types';
 import type { BlockProcessor } from './utils/IndexingUtils';
 
@@ -31,6 +36,7 @@ export default class VaultQueryPlugin extends Plugin {
   public api: VaultQueryAPI;
   public settings: VaultQuerySettings;
   public indexingStateManager: IndexingStateManager;
+  public liveQueryManager: LiveQueryManager;
   private queryBlockProcessor: QueryCodeBlockProcessor;
   private writeBlockProcessor: WriteCodeBlockProcessor;
   private chartBlockProcessor: ChartCodeBlockProcessor;
@@ -56,6 +62,11 @@ export default class VaultQueryPlugin extends Plugin {
         ...DEFAULT_SETTINGS.enabledFeatures,
         ...(savedData.enabledFeatures || {})
       },
+      taskTransitions: {
+        ...DEFAULT_SETTINGS.taskTransitions,
+        ...(savedData.taskTransitions || {})
+      },
+      customTaskStatuses: (savedData.customTaskStatuses || DEFAULT_SETTINGS.customTaskStatuses).map((status: TaskStatusDefinition) => ({ ...status })),
       wasm: {
         ...DEFAULT_SETTINGS.wasm,
         ...(savedData.wasm || {})
@@ -95,12 +106,18 @@ export default class VaultQueryPlugin extends Plugin {
       this.registerEditorExtension(sqlHighlightPlugin);
       this.registerEditorExtension(disableAutoPairInVaultquery);
       this.registerEditorExtension(createInlineButtonExtension(this));
+      this.registerEditorExtension(createSqlAutocompleteExtension(this));
 
       this.registerPrismLanguages();
 
       this.addSettingTab(new VaultQuerySettingTab(this.app, this));
 
+      this.registerView(SQL_CONSOLE_VIEW_TYPE, (leaf) => new SqlConsoleView(leaf, this));
+
+      this.registerCommands();
+
       this.indexingStateManager = new IndexingStateManager(this.app, this);
+      this.liveQueryManager = new LiveQueryManager(this);
 
       this.queryBlockProcessor = new QueryCodeBlockProcessor(this.app, this);
       this.writeBlockProcessor = new WriteCodeBlockProcessor(this.app, this, this.settings);
@@ -142,6 +159,134 @@ export default class VaultQueryPlugin extends Plugin {
   }
 
 
+  private registerCommands(): void {
+    this.addCommand({
+      id: 'reindex-vault',
+      name: 'Reindex changed notes',
+      callback: () => this.runApiAction('Reindex', async (api) => {
+        await api.reindexVault();
+        return INFO_MESSAGES.REINDEX_COMPLETE;
+      }, true)
+    });
+
+    this.addCommand({
+      id: 'force-reindex-vault',
+      name: 'Rebuild index from scratch',
+      callback: () => this.runApiAction('Rebuild index', async (api) => {
+        await api.forceReindexVault();
+        return INFO_MESSAGES.REBUILD_INDEX_COMPLETE;
+      }, true)
+    });
+
+    this.addCommand({
+      id: 'reindex-current-note',
+      name: 'Reindex current note',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || file.extension !== 'md') return false;
+
+        if (!checking) {
+          this.runApiAction('Reindex note', async (api) => {
+            await api.reindexNote(file.path);
+            await api.saveToDisk();
+            return INFO_MESSAGES.NOTE_REINDEXED(file.path);
+          });
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'save-database',
+      name: 'Save database to disk',
+      checkCallback: (checking: boolean) => {
+        if (this.settings.databaseStorage === 'memory') return false;
+
+        if (!checking) {
+          this.runApiAction('Save database', async (api) => {
+            await api.saveToDisk();
+            return INFO_MESSAGES.DATABASE_SAVED;
+          });
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'rebuild-table-views',
+      name: 'Rebuild table views',
+      checkCallback: (checking: boolean) => {
+        if (!this.settings.enableDynamicTableViews) return false;
+
+        if (!checking) {
+          this.runApiAction('Rebuild table views', (api) => {
+            api.rebuildTableViews();
+            return Promise.resolve(INFO_MESSAGES.TABLE_VIEWS_REBUILT);
+          });
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'show-indexing-stats',
+      name: 'Show indexing performance stats',
+      callback: () => {
+        if (!this.api) {
+          new Notice(ERROR_MESSAGES.API_NOT_INITIALIZED);
+          return;
+        }
+        new IndexingStatsModal(this.app, this.api.getPerformanceStats()).open();
+      }
+    });
+
+    this.addCommand({
+      id: 'open-sql-console',
+      // eslint-disable-next-line obsidianmd/ui/sentence-case -- SQL is an acronym
+      name: 'Open SQL console',
+      callback: () => {
+        void this.activateSqlConsole();
+      }
+    });
+  }
+
+  private async activateSqlConsole(): Promise<void> {
+    const { workspace } = this.app;
+    const existing = workspace.getLeavesOfType(SQL_CONSOLE_VIEW_TYPE);
+    if (existing.length > 0) {
+      await workspace.revealLeaf(existing[0]);
+      return;
+    }
+
+    const leaf = workspace.getLeaf('tab');
+    await leaf.setViewState({ type: SQL_CONSOLE_VIEW_TYPE, active: true });
+    await workspace.revealLeaf(leaf);
+  }
+
+  /**
+   * Run an API call from a command, reporting the outcome with a notice.
+   * Vault-wide actions are skipped while another indexing run is in progress.
+   */
+  private runApiAction(action: string, fn: (api: VaultQueryAPI) => Promise<string>, requiresIdle = false): void {
+    const api = this.api;
+    if (!api) {
+      new Notice(ERROR_MESSAGES.API_NOT_INITIALIZED);
+      return;
+    }
+
+    if (requiresIdle && api.getIndexingStatus().isIndexing) {
+      new Notice(INFO_MESSAGES.INDEXING_ALREADY_RUNNING);
+      return;
+    }
+
+    void fn(api)
+      .then(message => new Notice(message))
+      .catch((error: unknown) => {
+        console.error(`[VaultQuery] ${action} failed:`, error);
+        new Notice(INFO_MESSAGES.COMMAND_FAILED(action, getErrorMessage(error)), 8000);
+      });
+  }
+
   /**
    * Wait for Obsidian's metadata cache to be fully populated.
    * This ensures we have access to cached headings, links, tags, etc.
@@ -177,6 +322,7 @@ export default class VaultQueryPlugin extends Plugin {
       this.api = await VaultQueryAPI.create(this.app, this.settings);
 
       this.indexingStateManager.setupFileWatchers();
+      this.liveQueryManager.start();
 
       if (this.settings.indexingInterval === 'startup' || this.settings.indexingInterval === 'realtime') {
         // Wait for metadata cache before indexing for better performance
@@ -314,6 +460,7 @@ export default class VaultQueryPlugin extends Plugin {
       }
 
       this.indexingStateManager.cleanup();
+      this.liveQueryManager.stop();
 
       this.queryBlockProcessor.clearPendingBlocks();
       this.writeBlockProcessor.clearPendingBlocks();
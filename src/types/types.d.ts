@@ -9,6 +9,21 @@ declare global {
 
 export type NoteSource = string | TFile;
 
+export type QueryParamValue = string | number | null;
+
+/**
+ * Bind values for a query: an array for positional `?` placeholders,
+ * or an object for named `:name` placeholders (the leading colon is optional in keys).
+ */
+export type QueryParams = QueryParamValue[] | Record<string, QueryParamValue>;
+
+export interface QueryOptions {
+  /** Abort the query when this signal fires */
+  signal?: AbortSignal;
+  /** Override the query timeout from settings, in milliseconds. 0 disables the timeout. */
+  timeoutMs?: number;
+}
+
 export interface NoteRecord {
   path: string;
   title: string;
@@ -18,7 +33,7 @@ export interface NoteRecord {
   size: number;
 }
 
-export type TableName = 'notes' | 'properties' | 'table_cells' | 'tasks' | 'headings' | 'links' | 'tags' | 'list_items';
+export type TableName = 'notes' | 'properties' | 'note_frontmatter' | 'table_cells' | 'tasks' | 'task_dependencies' | 'headings' | 'links' | 'embeds' | 'tags' | 'list_items' | 'callouts' | 'code_blocks' | 'files' | 'canvas_nodes' | 'canvas_edges';
 
 export interface IndexNoteData {
   note: NoteRecord;
@@ -28,6 +43,7 @@ export interface IndexNoteData {
     valueType: string;
     arrayIndex: number | null;
   }>;
+  frontmatterJson?: FrontmatterJsonData[];
   tables?: Array<{
     table_index: number;
     table_name?: string;
@@ -45,6 +61,14 @@ export interface IndexNoteData {
     start_offset?: number;
     end_offset?: number;
     anchor_hash?: string;
+    /** Heading texts from the top-level ancestor down to this heading, joined with ' > ' */
+    heading_path?: string;
+    /** Offset where the next heading of the same or a higher level starts */
+    section_end_offset?: number;
+    /** Last line (1-based) of the section, subsections included */
+    section_end_line?: number;
+    /** Text between this heading and the next heading of any level */
+    body?: string;
   }>;
   links?: Array<{
     link_text: string;
@@ -53,11 +77,15 @@ export interface IndexNoteData {
     link_type: string;
     line_number: number;
   }>;
+  embeds?: EmbedData[];
   tags?: Array<{
     tag_name: string;
     line_number: number;
   }>;
   listItems?: ListItemData[];
+  callouts?: CalloutData[];
+  codeBlocks?: CodeBlockData[];
+  inlineFields?: InlineFieldData[];
   userViews?: UserViewData[];
   userFunctions?: UserFunctionData[];
 }
@@ -77,6 +105,7 @@ export interface ParsedQuery {
   query: string;
   template?: string;
   chart?: Record<string, unknown>;
+  params?: QueryParams;
 }
 
 export interface UserViewData {
@@ -116,6 +145,10 @@ export interface TaskData {
   line_number: number;
   task_text: string;
   status: string;
+  /** Raw character between the checkbox brackets */
+  status_symbol?: string;
+  /** TODO, IN_PROGRESS, ON_HOLD, DONE, CANCELLED or NON_TASK */
+  status_type?: string;
   completed?: boolean;
   priority?: string;
   due_date?: string;
@@ -134,6 +167,12 @@ export interface TaskData {
   end_offset?: number;
   anchor_hash?: string;
   section_heading?: string;
+  /** Line (1-based) of the nearest enclosing task; resolved to parent_task_id when stored */
+  parent_line_number?: number | null;
+  /** List nesting depth, 0 for a top-level item */
+  indent_level?: number;
+  /** Position of the task among the note's tasks (0-based) */
+  task_index?: number;
 }
 
 export interface ListItemData {
@@ -150,6 +189,101 @@ export interface ListItemData {
   anchor_hash?: string;
 }
 
+export interface CalloutData {
+  /** Null for a plain blockquote */
+  type: string | null;
+  title: string | null;
+  fold_state: string | null;
+  body: string;
+  line_number: number;
+  end_line_number: number;
+  block_id?: string;
+  start_offset: number;
+  end_offset: number;
+  anchor_hash?: string;
+  section_heading?: string;
+}
+
+export interface CodeBlockData {
+  /** First word of the info string, or null when the fence has none */
+  language: string | null;
+  info_string: string | null;
+  content: string;
+  line_number: number;
+  end_line_number: number;
+  section_heading?: string;
+}
+
+export interface CanvasNodeData {
+  node_id: string;
+  /** text, file, link or group */
+  type: string;
+  text: string | null;
+  /** Vault path of a file node */
+  file: string | null;
+  subpath: string | null;
+  url: string | null;
+  /** Group label */
+  label: string | null;
+  x: number | null;
+  y: number | null;
+  width: number | null;
+  height: number | null;
+  color: string | null;
+}
+
+export interface CanvasEdgeData {
+  edge_id: string;
+  from_node: string;
+  from_side: string | null;
+  from_end: string | null;
+  to_node: string;
+  to_side: string | null;
+  to_end: string | null;
+  label: string | null;
+  color: string | null;
+}
+
+export interface FileRecord {
+  path: string;
+  name: string;
+  basename: string;
+  extension: string;
+  /** Parent folder path, '' for the vault root */
+  folder: string;
+  size: number;
+  ctime: number;
+  mtime: number;
+}
+
+/** One top-level frontmatter property, stored in note_frontmatter */
+export interface FrontmatterJsonData {
+  key: string;
+  value_json: string;
+}
+
+export interface InlineFieldData {
+  key: string;
+  value: string;
+  value_type: string;
+  line_number: number;
+  /** Line of the innermost list item or task containing the field, resolved to its row id on insert */
+  item_line_number: number | null;
+  item_type: 'task' | 'list_item' | null;
+}
+
+export interface EmbedData {
+  embed_target: string;
+  embed_target_path: string | null;
+  subpath: string | null;
+  alt_text: string | null;
+  width: number | null;
+  height: number | null;
+  embed_type: 'wikilink' | 'markdown';
+  markup: string;
+  line_number: number;
+}
+
 export interface DatabaseTableCell extends TableCellData {}
 export interface DatabaseTask extends TaskData {}
 
@@ -0,0 +1,5 @@
+// Bundled worker scripts, inlined as source text by the inline-worker plugin in esbuild.config.mjs
+declare module 'worker:*' {
+  const source: string;
+  export default source;
+}
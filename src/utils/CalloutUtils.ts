@@ -0,0 +1,92 @@
+/*
+ * Callout markup helpers shared by indexing and write sync.
+ * Handles callouts (> [!type]+ Title) and plain blockquotes, which are treated as callouts without a type.
+ */
+
+export type CalloutFoldState = '+' | '-';
+
+export interface CalloutParts {
+  /** Null for a plain blockquote */
+  type: string | null;
+  title: string | null;
+  foldState: CalloutFoldState | null;
+  /** Body lines with one level of `>` removed, joined with newlines */
+  body: string;
+  /** Block id written at the end of the last line (`> text ^id`) */
+  blockId: string | null;
+}
+
+const CALLOUT_HEADER_PATTERN = /^\s*>\s*\[!([^\]\s]+)\]([+-]?)\s*(.*)$/;
+const QUOTE_MARKER_PATTERN = /^\s*>\s?/;
+const TRAILING_BLOCK_ID_PATTERN = /\s+\^([\w-]+)\s*$/;
+
+export function isCalloutHeader(line: string): boolean {
+  return CALLOUT_HEADER_PATTERN.test(line);
+}
+
+/**
+ * Parse the lines of a blockquote section. Nested quotes stay in the body with their extra `>` markers.
+ */
+export function parseCalloutLines(lines: string[]): CalloutParts {
+  let type: string | null = null;
+  let title: string | null = null;
+  let foldState: CalloutFoldState | null = null;
+  let bodyLines = lines;
+
+  const header = lines.length > 0 ? lines[0].match(CALLOUT_HEADER_PATTERN) : null;
+  if (header) {
+    type = header[1];
+    foldState = header[2] ? header[2] as CalloutFoldState : null;
+    title = header[3].trim() || null;
+    bodyLines = lines.slice(1);
+  }
+
+  bodyLines = bodyLines.map(line => line.replace(QUOTE_MARKER_PATTERN, ''));
+
+  let blockId: string | null = null;
+  if (bodyLines.length > 0) {
+    const lastIndex = bodyLines.length - 1;
+    const blockMatch = bodyLines[lastIndex].match(TRAILING_BLOCK_ID_PATTERN);
+    if (blockMatch) {
+      blockId = blockMatch[1];
+      bodyLines = [...bodyLines.slice(0, lastIndex), bodyLines[lastIndex].replace(TRAILING_BLOCK_ID_PATTERN, '')];
+    }
+  }
+  else if (title) {
+    const blockMatch = title.match(TRAILING_BLOCK_ID_PATTERN);
+    if (blockMatch) {
+      blockId = blockMatch[1];
+      title = title.replace(TRAILING_BLOCK_ID_PATTERN, '') || null;
+    }
+  }
+
+  return { type, title, foldState, body: bodyLines.join('\n'), blockId };
+}
+
+/**
+ * Build callout markup. A null type produces a plain blockquote, so clearing the type
+ * turns a callout back into a quote (its title becomes the first body line).
+ */
+export function formatCallout(parts: CalloutParts): string {
+  const bodyLines = parts.body === '' ? [] : parts.body.split('\n');
+  const lines: string[] = [];
+
+  if (parts.type) {
+    lines.push(`> [!${parts.type}]${parts.foldState ?? ''}${parts.title ? ` ${parts.title}` : ''}`);
+  }
+  else if (parts.title) {
+    bodyLines.unshift(parts.title);
+  }
+
+  lines.push(...bodyLines.map(line => line === '' ? '>' : `> ${line}`));
+
+  if (lines.length === 0) {
+    lines.push('>');
+  }
+
+  if (parts.blockId) {
+    lines[lines.length - 1] += ` ^${parts.blockId}`;
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,68 @@
+import type { CanvasEdgeData, CanvasNodeData } from '../types';
+
+/*
+ * JSON Canvas parsing for indexing (https://jsoncanvas.org).
+ * Unknown node types and fields are kept as far as the columns allow, so canvases written
+ * by other tools still index.
+ */
+
+export interface ParsedCanvas {
+  nodes: CanvasNodeData[];
+  edges: CanvasEdgeData[];
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === 'string' && value !== '' ? value : null;
+}
+
+function asNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Parse the contents of a .canvas file. Throws when the file is not valid JSON;
+ * entries without an id are skipped.
+ */
+export function parseCanvas(json: string): ParsedCanvas {
+  // New canvases can be empty files until something is added
+  if (json.trim() === '') {
+    return { nodes: [], edges: [] };
+  }
+
+  const data = JSON.parse(json) as { nodes?: unknown; edges?: unknown };
+  const rawNodes = Array.isArray(data?.nodes) ? data.nodes as Array<Record<string, unknown>> : [];
+  const rawEdges = Array.isArray(data?.edges) ? data.edges as Array<Record<string, unknown>> : [];
+
+  const nodes: CanvasNodeData[] = rawNodes
+    .filter(node => asString(node?.id))
+    .map(node => ({
+      node_id: node.id as string,
+      type: asString(node.type) ?? 'text',
+      text: asString(node.text),
+      file: asString(node.file),
+      subpath: asString(node.subpath),
+      url: asString(node.url),
+      label: asString(node.label),
+      x: asNumber(node.x),
+      y: asNumber(node.y),
+      width: asNumber(node.width),
+      height: asNumber(node.height),
+      color: asString(node.color)
+    }));
+
+  const edges: CanvasEdgeData[] = rawEdges
+    .filter(edge => asString(edge?.id) && asString(edge.fromNode) && asString(edge.toNode))
+    .map(edge => ({
+      edge_id: edge.id as string,
+      from_node: edge.fromNode as string,
+      from_side: asString(edge.fromSide),
+      from_end: asString(edge.fromEnd),
+      to_node: edge.toNode as string,
+      to_side: asString(edge.toSide),
+      to_end: asString(edge.toEnd),
+      label: asString(edge.label),
+      color: asString(edge.color)
+    }));
+
+  return { nodes, edges };
+}
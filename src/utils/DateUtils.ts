@@ -0,0 +1,40 @@
+/*
+ * Calendar dates as the YYYY-MM-DD strings tasks store. Arithmetic runs on UTC midnight
+ * so time zones and daylight saving cannot shift a date by a day.
+ */
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Null for anything that is not a real YYYY-MM-DD date */
+export function parseDateString(value: string | null | undefined): Date | null {
+  const match = value?.trim().match(DATE_PATTERN);
+  if (!match) return null;
+
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return formatDateString(date) === match[0] ? date : null;
+}
+
+export function formatDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Today in the local time zone, which is the day the user sees */
+export function todayDateString(): string {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * MS_PER_DAY);
+}
+
+export function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / MS_PER_DAY);
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
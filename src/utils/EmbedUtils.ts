@@ -0,0 +1,80 @@
+/*
+ * Embed markup helpers shared by indexing and write sync.
+ * Handles wikilink embeds (![[target#subpath|alt|300x200]]) and markdown embeds (![alt|300](target#subpath)).
+ */
+
+export type EmbedType = 'wikilink' | 'markdown';
+
+export interface EmbedParts {
+  target: string;
+  subpath: string | null;
+  altText: string | null;
+  width: number | null;
+  height: number | null;
+  embedType: EmbedType;
+}
+
+const SIZE_PATTERN = /^(\d+)(?:x(\d+))?$/;
+
+/**
+ * Split a link like `Note#Section` or `Note#^block` into its target and `#`-prefixed subpath.
+ */
+export function splitEmbedLink(link: string): { target: string; subpath: string | null } {
+  const hashIndex = link.indexOf('#');
+  if (hashIndex === -1) {
+    return { target: link, subpath: null };
+  }
+  return { target: link.slice(0, hashIndex), subpath: link.slice(hashIndex) };
+}
+
+/**
+ * Parse embed markup as written in the note. `link` is the already-decoded link target
+ * reported by the metadata cache; markup that cannot be parsed falls back to it.
+ */
+export function parseEmbedMarkup(markup: string, link: string): EmbedParts {
+  const embedType: EmbedType = markup.startsWith('![[') ? 'wikilink' : 'markdown';
+
+  let parameters = '';
+  if (embedType === 'wikilink') {
+    const inner = markup.replace(/^!\[\[/, '').replace(/\]\]$/, '');
+    const pipeIndex = inner.indexOf('|');
+    parameters = pipeIndex === -1 ? '' : inner.slice(pipeIndex + 1);
+  }
+  else {
+    parameters = markup.match(/^!\[([^\]]*)\]/)?.[1] ?? '';
+  }
+
+  const parts = parameters ? parameters.split('|') : [];
+  let width: number | null = null;
+  let height: number | null = null;
+
+  const sizeMatch = parts.length > 0 ? parts[parts.length - 1].trim().match(SIZE_PATTERN) : null;
+  if (sizeMatch) {
+    width = parseInt(sizeMatch[1], 10);
+    height = sizeMatch[2] ? parseInt(sizeMatch[2], 10) : null;
+    parts.pop();
+  }
+
+  const altText = parts.join('|').trim();
+
+  return {
+    ...splitEmbedLink(link),
+    altText: altText || null,
+    width,
+    height,
+    embedType
+  };
+}
+
+export function formatEmbed(parts: EmbedParts): string {
+  const destination = `${parts.target}${parts.subpath ?? ''}`;
+  const size = parts.width !== null ? `${parts.width}${parts.height !== null ? `x${parts.height}` : ''}` : '';
+  const parameters = [parts.altText ?? '', size].filter(Boolean);
+
+  if (parts.embedType === 'wikilink') {
+    return `![[${[destination, ...parameters].join('|')}]]`;
+  }
+
+  const markdownDestination = /\s/.test(destination) ? `<${destination}>` : destination;
+  return `![${parameters.join('|')}](${markdownDestination})`;
+}
@@ -11,6 +11,8 @@ export const ERROR_MESSAGES = {
   DATABASE_READ_FAILED: (path: string, error: string) => `Failed to read existing database from disk at '${path}': ${error}`,
   SQL_QUERY_FAILED: (error: string) => `SQL query failed: ${error}`,
   SQL_RUN_FAILED: (error: string) => `SQL run failed: ${error}`,
+  QUERY_TIMED_OUT: (seconds: number) => `Query timed out after ${seconds} seconds`,
+  QUERY_CANCELLED: 'Query cancelled',
   SQL_PREPARE_FAILED: 'Failed to prepare SQL statement',
   SQL_STATEMENT_NOT_FOUND: 'Failed to get prepared statement',
 
@@ -26,6 +28,7 @@ export const ERROR_MESSAGES = {
   TEMPLATE_SEMICOLON_REQUIRED: 'Template configuration requires SQL query to end with a semicolon (;)',
 
   API_NOT_INITIALIZED: 'VaultQuery API is not initialized. Plugin may have been unloaded.',
+  CONSOLE_NO_ACTIVE_NOTE: 'The query uses {this.*} placeholders, which refer to the active note. Open a note and run it again.',
   CHARTJS_INIT_FAILED: 'Failed to initialize Chart.js components',
 
   WRITE_SYNC_FAILED: (message: string) => `Write sync operation failed: ${message}`,
@@ -50,6 +53,7 @@ export const WARNING_MESSAGES = {
 
   FILE_READ_FAILED: (path: string, error: string) => `Could not read file ${path}: ${error}`,
   FILE_CONTENT_READ_FAILED: (path: string) => `Failed to read file content for ${path}`,
+  CANVAS_PARSE_FAILED: (path: string, error: string) => `Skipping canvas ${path}, it is not valid JSON: ${error}`,
 
   NESTED_TEMPLATE_DETECTED: 'Detected nested template render attempt, skipping to prevent recursion',
   MARKDOWN_RENDER_FAILED: 'Failed to render markdown',
@@ -67,11 +71,26 @@ export const WARNING_MESSAGES = {
   EDIT_PLAN_WARNINGS: (count: number) => `${count} warnings during edit planning. Check console for details.`,
   VIEW_CHECK_FAILED: 'Failed to check if target is a view',
   EXPLAIN_ROOTPAGE_FAILED: 'EXPLAIN rootpage mapping failed, falling back to regex parsing',
+  INDEXING_WORKER_UNAVAILABLE: 'Indexing worker could not be started, parsing notes on the main thread',
+  INDEXING_WORKER_FAILED: 'Indexing worker failed, parsing notes on the main thread',
+  DATABASE_WORKER_UNAVAILABLE: 'Database worker could not be started, running the database on the main thread',
+  QUERY_READER_UNAVAILABLE: 'Query reader could not be started, running cancellable queries in the database worker',
+  SCHEMA_NEWER_THAN_PLUGIN: (stored: number, latest: number) =>
+    `Database schema version ${stored} is newer than this plugin supports (${latest}), rebuilding the index`,
+  FTS5_UNAVAILABLE: 'Full-text search is enabled but the loaded sql.js WASM build does not include FTS5. Set the WASM source to a custom FTS5-enabled build to use notes_fts.',
 } as const;
 
 export const INFO_MESSAGES = {
   FILES_UPDATED: (count: number) => `Successfully updated ${count} file(s)`,
   SYNC_FAILED: (message: string) => `VaultQuery sync failed: ${message}`,
+  REINDEX_COMPLETE: 'Reindex complete',
+  REBUILD_INDEX_COMPLETE: 'Index rebuilt from scratch',
+  NOTE_REINDEXED: (path: string) => `Reindexed ${path}`,
+  DATABASE_SAVED: 'Database saved to disk',
+  TABLE_VIEWS_REBUILT: 'Table views rebuilt',
+  INDEXING_ALREADY_RUNNING: 'Indexing is already in progress',
+  COMMAND_FAILED: (action: string, message: string) => `${action} failed: ${message}`,
+  QUERY_SAVED_TO_NOTE: (path: string) => `Query saved to ${path}`,
 } as const;
 
 export const CONSOLE_ERRORS = {
@@ -79,9 +98,15 @@ export const CONSOLE_ERRORS = {
   PLUGIN_INIT_FAILED: 'Failed to initialize plugin',
   PLUGIN_UNLOAD_ERROR: 'Error during plugin unload',
   DATABASE_CLOSE_ERROR: 'Error closing database',
+  DATABASE_WORKER_FAILED: 'Database worker failed',
+  LINK_TARGETS_UPDATE_FAILED: 'Failed to update the link targets of resolve_link',
+  CUSTOM_FUNCTION_REGISTER_FAILED: (name: string) => `Failed to register function ${name}`,
+  EXECUTE_FAILED: 'Failed to execute statement',
+  REMOVE_NOTE_FAILED: (path: string) => `Failed to remove ${path} from the index`,
   DATABASE_SAVE_FAILED: 'Failed to save database to disk',
   DATABASE_ROLLBACK_FAILED: 'Transaction rollback failed - database may be in inconsistent state',
   DATABASE_SAVEPOINT_ROLLBACK_FAILED: 'Savepoint rollback failed - database may be in inconsistent state',
+  SCHEMA_MIGRATION_FAILED: 'Schema migration failed',
 
   INDEX_NOTE_FAILED: (path: string) => `Failed to index note ${path}`,
   INDEX_FILE_FAILED: (path: string) => `Failed to index file ${path}`,
@@ -111,6 +136,8 @@ export const CONSOLE_ERRORS = {
   CHARTJS_REGISTRATION_FAILED: 'Chart.js registration failed',
   COPY_FAILED: 'Copy failed',
   REFRESH_FAILED: 'Refresh failed',
+  CONSOLE_HISTORY_LOAD_FAILED: 'Failed to load SQL console history',
+  CONSOLE_HISTORY_SAVE_FAILED: 'Failed to save SQL console history',
 } as const;
 
 export const PERFORMANCE_MESSAGES = {
@@ -147,6 +174,15 @@ export function friendlySqliteError(error: unknown, context?: { sql?: string; ta
     return `Foreign key constraint failed: ${tableHint}${pathHint} Create the note first, or use an existing file path.`;
   }
 
+  if (message.includes(ERROR_MESSAGES.QUERY_CANCELLED)) {
+    return 'Query cancelled.';
+  }
+
+  const timeoutMatch = message.match(/Query timed out after (\d+(?:\.\d+)?) seconds/);
+  if (timeoutMatch) {
+    return `Query stopped after ${timeoutMatch[1]} seconds. Add a LIMIT, make sure recursive CTEs have a terminating condition, or narrow the joins. The timeout can be changed in settings.`;
+  }
+
   const notNullMatch = message.match(/NOT NULL constraint failed: (\w+)\.(\w+)/);
   if (notNullMatch) {
     return `Missing required column: '${notNullMatch[2]}' cannot be NULL in table '${notNullMatch[1]}'.`;
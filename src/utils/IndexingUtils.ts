@@ -18,7 +18,10 @@ export interface BlockProcessor {
   process(source: string, el: HTMLElement, ctx: MarkdownPostProcessorContext): Promise<void>;
 }
 
-export function createLoadingIndicator(container: HTMLElement, initialText: string = 'Loading...'): {
+/**
+ * @param onCancel - When given, a cancel button is shown that calls it once
+ */
+export function createLoadingIndicator(container: HTMLElement, initialText: string = 'Loading...', onCancel?: () => void): {
   setText: (text: string) => void;
   remove: () => void;
 } {
@@ -29,12 +32,36 @@ export function createLoadingIndicator(container: HTMLElement, initialText: stri
   });
   loadingContainer.createDiv({ cls: 'vaultquery-loading-spinner' });
 
+  if (onCancel) {
+    const cancelButton = loadingContainer.createEl('button', { text: 'Cancel', cls: 'vaultquery-loading-cancel' });
+    cancelButton.addEventListener('click', () => {
+      cancelButton.disabled = true;
+      cancelButton.textContent = 'Cancelling...';
+      onCancel();
+    });
+  }
+
   return {
     setText: (text: string) => { loadingText.textContent = text; },
     remove: () => loadingContainer.remove()
   };
 }
 
+/**
+ * Shows a cancellable "Running query..." indicator while `run` executes and removes it afterwards.
+ */
+export async function runWithCancellableLoading<T>(container: HTMLElement, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  const loading = createLoadingIndicator(container, 'Running query...', () => controller.abort());
+
+  try {
+    return await run(controller.signal);
+  }
+  finally {
+    loading.remove();
+  }
+}
+
 export function renderIndexingProgress(loadingDiv: HTMLElement, progress?: IndexingProgress): void {
   loadingDiv.empty();
   loadingDiv.addClass('vaultquery-loading');
@@ -0,0 +1,69 @@
+/*
+ * Dataview-style inline field helpers shared by indexing and write sync.
+ * Handles whole-line fields (Key:: value, optionally after a list or task marker)
+ * and bracketed fields ([key:: value] or (key:: value)) anywhere in a line.
+ */
+
+export type InlineFieldSyntax = 'line' | 'bracket' | 'paren';
+
+export interface InlineFieldMatch {
+  key: string;
+  value: string;
+  syntax: InlineFieldSyntax;
+  /** Offsets within the line of the whole field, brackets included */
+  start: number;
+  end: number;
+}
+
+const LINE_FIELD_PATTERN = /^(\s*(?:>\s*)*(?:(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?)?)([^\s[\]()`:][^[\]()`:]*?)::(.*)$/;
+const BRACKET_FIELD_PATTERN = /\[([^[\]():`]+?)::((?:\[\[[^\]]*\]\]|[^\]])*)\]|\(([^[\]():`]+?)::((?:\[\[[^\]]*\]\]|[^)])*)\)/g;
+
+/**
+ * Find the inline fields in one line. Inline code spans are ignored.
+ */
+export function findInlineFields(line: string): InlineFieldMatch[] {
+  // Blank out code spans so offsets stay valid
+  const searchable = line.replace(/`[^`]*`/g, span => ' '.repeat(span.length));
+
+  const lineMatch = searchable.match(LINE_FIELD_PATTERN);
+  if (lineMatch) {
+    const start = lineMatch[1].length;
+    return [{
+      key: lineMatch[2].trim(),
+      value: line.slice(start + lineMatch[2].length + 2).trim(),
+      syntax: 'line',
+      start,
+      end: line.length
+    }];
+  }
+
+  const fields: InlineFieldMatch[] = [];
+  for (const match of searchable.matchAll(BRACKET_FIELD_PATTERN)) {
+    const isBracket = match[1] !== undefined;
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const inner = line.slice(start + 1, end - 1);
+    const separator = inner.indexOf('::');
+
+    fields.push({
+      key: inner.slice(0, separator).trim(),
+      value: inner.slice(separator + 2).trim(),
+      syntax: isBracket ? 'bracket' : 'paren',
+      start,
+      end
+    });
+  }
+  return fields;
+}
+
+export function formatInlineField(key: string, value: string, syntax: InlineFieldSyntax): string {
+  const field = value === '' ? `${key}::` : `${key}:: ${value}`;
+  switch (syntax) {
+    case 'bracket':
+      return `[${field}]`;
+    case 'paren':
+      return `(${field})`;
+    default:
+      return field;
+  }
+}
@@ -0,0 +1,123 @@
+/*
+ * Paths into parsed frontmatter: object keys and array indexes, e.g. ['attendees', 0, 'role']
+ * for attendees[0].role. Used to write a single nested value without rewriting its siblings.
+ */
+
+export type JsonPath = Array<string | number>;
+
+export interface JsonChange {
+  path: JsonPath;
+  /** Absent when the value at `path` was removed */
+  value?: unknown;
+  deleted?: boolean;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * The smallest set of changes that turns `before` into `after`. Objects and arrays are
+ * compared member by member, so only the values that differ are reported. Array elements
+ * beyond the shorter array are reported last to first, which keeps indexes valid when the
+ * removals are applied in order.
+ */
+export function diffJson(before: unknown, after: unknown, path: JsonPath = []): JsonChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const changes: JsonChange[] = [];
+    for (const [key, value] of Object.entries(after)) {
+      changes.push(...(key in before ? diffJson(before[key], value, [...path, key]) : [{ path: [...path, key], value }]));
+    }
+    for (const key of Object.keys(before)) {
+      if (!(key in after)) changes.push({ path: [...path, key], deleted: true });
+    }
+    return changes;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: JsonChange[] = [];
+    const shared = Math.min(before.length, after.length);
+    for (let i = 0; i < shared; i++) {
+      changes.push(...diffJson(before[i], after[i], [...path, i]));
+    }
+    for (let i = shared; i < after.length; i++) {
+      changes.push({ path: [...path, i], value: after[i] });
+    }
+    for (let i = before.length - 1; i >= shared; i--) {
+      changes.push({ path: [...path, i], deleted: true });
+    }
+    return changes;
+  }
+
+  return isEqual(before, after) ? [] : [{ path, value: after }];
+}
+
+export function getAtJsonPath(root: unknown, path: JsonPath): unknown {
+  let current = root;
+  for (const segment of path) {
+    if (typeof current !== 'object' || current === null) return undefined;
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Set the value at `path`, creating objects, or arrays for numeric segments, where the
+ * path does not exist yet. An index past the end of an array appends.
+ */
+export function setAtJsonPath(root: Record<string, unknown>, path: JsonPath, value: unknown): void {
+  if (path.length === 0) return;
+
+  let container: Record<string | number, unknown> | unknown[] = root;
+  for (let i = 0; i < path.length - 1; i++) {
+    const segment = path[i];
+    const next = (container as Record<string | number, unknown>)[segment];
+    if (typeof next === 'object' && next !== null) {
+      container = next as Record<string | number, unknown>;
+      continue;
+    }
+    const created = typeof path[i + 1] === 'number' ? [] : {};
+    assign(container, segment, created);
+    container = created;
+  }
+  assign(container, path[path.length - 1], value);
+}
+
+/** Remove the value at `path`; array elements are spliced out. A missing path is a no-op */
+export function deleteAtJsonPath(root: Record<string, unknown>, path: JsonPath): void {
+  if (path.length === 0) return;
+
+  const container = getAtJsonPath(root, path.slice(0, -1));
+  const last = path[path.length - 1];
+  if (Array.isArray(container) && typeof last === 'number') {
+    if (last < container.length) container.splice(last, 1);
+  }
+  else if (isPlainObject(container)) {
+    delete container[String(last)];
+  }
+}
+
+/**
+ * Path of a properties key in parsed frontmatter. Nested keys are indexed flattened, as
+ * "author.name", so a key that is not a literal top-level key but whose first segment is
+ * an object is split on dots.
+ */
+export function resolvePropertyPath(frontmatter: Record<string, unknown>, key: string): JsonPath {
+  if (key in frontmatter || !key.includes('.')) return [key];
+
+  const segments = key.split('.');
+  return isPlainObject(frontmatter[segments[0]]) ? segments : [key];
+}
+
+function assign(container: Record<string | number, unknown> | unknown[], segment: string | number, value: unknown): void {
+  if (Array.isArray(container) && typeof segment === 'number') {
+    container[Math.min(segment, container.length)] = value;
+  }
+  else {
+    (container as Record<string | number, unknown>)[segment] = value;
+  }
+}
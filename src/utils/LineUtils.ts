@@ -0,0 +1,52 @@
+import { hashString } from './StringUtils';
+
+/*
+ * Line and offset helpers shared by the indexing worker and the main thread.
+ * Keep this module free of runtime imports from 'obsidian' so it can be bundled into the worker.
+ */
+
+export function computeAnchorHash(lineIndex: number, lines: string[]): string {
+  const prevLine = lineIndex > 0 ? lines[lineIndex - 1] : '';
+  const currentLine = lines[lineIndex] || '';
+  const nextLine = lineIndex < lines.length - 1 ? lines[lineIndex + 1] : '';
+
+  const contextWindow = [prevLine, currentLine, nextLine]
+    .map(line => line.trim().toLowerCase())
+    .join('\n');
+
+  const hashInput = `${contextWindow}::L${lineIndex}`;
+
+  return hashString(hashInput);
+}
+
+export function getLineOffsets(content: string, lineIndex: number): { start: number; end: number } {
+  if (lineIndex < 0) return { start: 0, end: 0 };
+
+  let currentPos = 0;
+  let currentLine = 0;
+
+  while (currentLine < lineIndex && currentPos < content.length) {
+    const nextNewline = content.indexOf('\n', currentPos);
+    if (nextNewline === -1) break;
+    currentPos = nextNewline + 1;
+    currentLine++;
+  }
+
+  const start = currentPos;
+
+  const nextNewline = content.indexOf('\n', currentPos);
+  const end = nextNewline === -1 ? content.length : nextNewline;
+
+  return { start, end };
+}
+
+export function getLineStartOffset(content: string, lineIndex: number): number {
+  if (lineIndex <= 0) return 0;
+  let pos = 0, line = 0;
+  while (line < lineIndex && pos !== -1) {
+    pos = content.indexOf('\n', pos);
+    if (pos === -1) return content.length;
+    pos += 1; line++;
+  }
+  return pos === -1 ? content.length : pos;
+}
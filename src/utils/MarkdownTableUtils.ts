@@ -1,4 +1,4 @@
-import { ContentLocationService } from '../Services/ContentLocationService';
+import { getLineStartOffset } from './LineUtils';
 
 interface MarkdownTable {
   table_index: number;
@@ -33,7 +33,7 @@ export class MarkdownTableUtils {
       }
 
       if (i < lines.length - 1 && isTableHeader(lines[i]) && isAlignRow(lines[i + 1])) {
-        const start_offset = ContentLocationService.getLineStartOffset(content, i) + contentOffset;
+        const start_offset = getLineStartOffset(content, i) + contentOffset;
         let j = i + 2;
         while (j < lines.length && isTableRow(lines[j])) j++;
 
@@ -46,7 +46,7 @@ export class MarkdownTableUtils {
           }
         }
 
-        const end_offset = ContentLocationService.getLineStartOffset(content, j) + contentOffset;
+        const end_offset = getLineStartOffset(content, j) + contentOffset;
         // Priority: block_id > heading > note title
         const table_name = block_id ?? currentHeading ?? noteTitle;
         tables.push({
@@ -77,14 +77,14 @@ export class MarkdownTableUtils {
         /^\s*\|\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)+\|\s*$/.test(nextLine)) {
         
         if (found === tableIndex) {
-          const start = ContentLocationService.getLineStartOffset(content, i);
+          const start = getLineStartOffset(content, i);
           let j = i + 2;
 
           while (j < lines.length && /^\s*\|.*\|\s*$/.test(lines[j])) {
             j++;
           }
 
-          const end = ContentLocationService.getLineStartOffset(content, j);
+          const end = getLineStartOffset(content, j);
           return { start, end };
         }
         
@@ -0,0 +1,55 @@
+import { parseDateString } from './DateUtils';
+
+/*
+ * properties.value_type vocabulary. Follows the property types Obsidian's Properties view
+ * declares, with multitext, tags and aliases folded into list.
+ */
+
+export type PropertyType = 'text' | 'list' | 'number' | 'checkbox' | 'date' | 'datetime';
+
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?$/;
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+/** Null for widget types that have no counterpart, so the type is inferred from the value instead */
+export function normalizePropertyType(widget: string | null | undefined): PropertyType | null {
+  switch (widget?.toLowerCase()) {
+    case 'text':
+      return 'text';
+    case 'multitext':
+    case 'tags':
+    case 'aliases':
+      return 'list';
+    case 'number':
+      return 'number';
+    case 'checkbox':
+      return 'checkbox';
+    case 'date':
+      return 'date';
+    case 'datetime':
+      return 'datetime';
+    default:
+      return null;
+  }
+}
+
+/** Type of a string whose YAML type is unknown, such as an inline field value */
+export function inferPropertyTypeFromText(value: string): PropertyType {
+  const trimmed = value.trim();
+  if (/^(true|false)$/i.test(trimmed)) return 'checkbox';
+  if (NUMBER_PATTERN.test(trimmed)) return 'number';
+  if (parseDateString(trimmed)) return 'date';
+  if (DATETIME_PATTERN.test(trimmed) && parseDateString(trimmed.slice(0, 10))) return 'datetime';
+  return 'text';
+}
+
+/** Type of a parsed frontmatter value for a key Obsidian has no declared type for */
+export function inferPropertyType(value: unknown): PropertyType {
+  if (Array.isArray(value)) return 'list';
+  if (typeof value === 'boolean') return 'checkbox';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'string') {
+    const type = inferPropertyTypeFromText(value);
+    return type === 'date' || type === 'datetime' ? type : 'text';
+  }
+  return 'text';
+}
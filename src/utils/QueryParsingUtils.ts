@@ -1,4 +1,4 @@
-import type { ParsedQuery } from '../types';
+import type { ParsedQuery, QueryParams, QueryParamValue } from '../types';
 
 export interface ParsedQuerySections {
   sqlQuery: string;
@@ -63,7 +63,8 @@ export function splitQuerySections(source: string): ParsedQuerySections {
 }
 
 export function parseQueryBlock(source: string): ParsedQuery {
-  const sections = splitQuerySections(source);
+  const { source: querySource, params } = extractParamsSection(source);
+  const sections = splitQuerySections(querySource);
 
   const result: ParsedQuery = {
     query: sections.sqlQuery
@@ -73,9 +74,89 @@ export function parseQueryBlock(source: string): ParsedQuery {
     result.template = sections.templateConfigText;
   }
 
+  if (params) {
+    result.params = params;
+  }
+
   return result;
 }
 
+/**
+ * Remove a `params:` section from a code block and parse its bind values.
+ *
+ * The section starts with a `params:` line and runs until a `template:` or
+ * `config:` line or the end of the block. Entries are either `name: value`
+ * lines for named `:name` placeholders or `- value` lines for positional `?`
+ * placeholders. String values may contain `{this.*}` placeholders, which are
+ * resolved against the note when the query runs.
+ */
+export function extractParamsSection(source: string): { source: string; params?: QueryParams } {
+  const lines = source.split('\n');
+  const startIndex = lines.findIndex(line => line.trim().toLowerCase() === 'params:');
+  if (startIndex === -1) {
+    return { source };
+  }
+
+  let endIndex = startIndex + 1;
+  while (endIndex < lines.length) {
+    const trimmed = lines[endIndex].trim().toLowerCase();
+    if (trimmed.startsWith('template:') || trimmed === 'config:') break;
+    endIndex++;
+  }
+
+  const entries = lines.slice(startIndex + 1, endIndex).map(line => line.trim()).filter(line => line.length > 0);
+  const remaining = [...lines.slice(0, startIndex), ...lines.slice(endIndex)].join('\n');
+
+  if (entries.length === 0) {
+    return { source: remaining };
+  }
+
+  if (entries.every(entry => entry.startsWith('- '))) {
+    return { source: remaining, params: entries.map(entry => parseParamValue(entry.substring(2))) };
+  }
+
+  const named: Record<string, QueryParamValue> = {};
+  for (const entry of entries) {
+    const colonIndex = entry.indexOf(':');
+    if (colonIndex <= 0) {
+      throw new Error(`Invalid params entry "${entry}". Use "name: value" or "- value".`);
+    }
+    named[entry.substring(0, colonIndex).trim()] = parseParamValue(entry.substring(colonIndex + 1));
+  }
+
+  return { source: remaining, params: named };
+}
+
+/**
+ * Convert a params literal to a bind value: quoted text stays text, `null`
+ * becomes NULL, `true`/`false` become 1/0 and plain numbers become numbers.
+ */
+export function parseParamValue(raw: string): QueryParamValue {
+  const value = raw.trim();
+
+  const quoted = value.match(/^(['"])(.*)\1$/);
+  if (quoted) return quoted[2];
+
+  const lower = value.toLowerCase();
+  if (lower === 'null') return null;
+  if (lower === 'true') return 1;
+  if (lower === 'false') return 0;
+
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+
+  return value;
+}
+
+export function containsWriteOperations(query: string): boolean {
+  const upperQuery = query.toUpperCase().trim();
+  const writeOperations = ['INSERT', 'UPDATE', 'DELETE', 'DROP', 'CREATE', 'ALTER'];
+
+  return writeOperations.some(op => {
+    const regex = new RegExp(`\\b${op}\\b`, 'i');
+    return regex.test(upperQuery);
+  });
+}
+
 export function parseConfigSection(configText: string): Record<string, string> {
   const config: Record<string, string> = {};
 
@@ -0,0 +1,226 @@
+import { addDays, daysBetween, daysInMonth, formatDateString, parseDateString } from './DateUtils';
+
+/*
+ * Recurrence rules as written after 🔁 or in [repeat:: ...], following the Tasks plugin:
+ * "every day", "every 2 weeks on Monday", "every weekday", "every month on the last Friday",
+ * "every year" and so on, optionally ending in "when done".
+ */
+
+export type RecurrenceUnit = 'day' | 'week' | 'month' | 'year';
+
+export interface RecurrenceRule {
+  interval: number;
+  unit: RecurrenceUnit;
+  /** Weekly rules: days of the week, 0 = Sunday */
+  weekdays: number[];
+  /** Monthly rules: day of the month, -1 for the last day */
+  monthDay: number | null;
+  /** Monthly rules: the nth weekday of the month, nth -1 for the last one */
+  monthWeekday: { nth: number; weekday: number } | null;
+  /** Yearly rules: month (0-based) and day */
+  yearDate: { month: number; day: number } | null;
+  /** Count from the completion date instead of the task's own dates */
+  whenDone: boolean;
+}
+
+export interface TaskOccurrenceDates {
+  due_date?: string | null;
+  scheduled_date?: string | null;
+  start_date?: string | null;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const ORDINALS: Record<string, number> = { first: 1, second: 2, third: 3, fourth: 4, fifth: 5, last: -1 };
+
+function parseWeekday(word: string): number {
+  const name = word.trim().replace(/s$/, '');
+  return WEEKDAYS.findIndex(weekday => weekday === name || weekday.slice(0, 3) === name);
+}
+
+/** "monday, wednesday and friday" */
+function parseWeekdayList(text: string): number[] | null {
+  const days = text.split(/\s*,\s*|\s+and\s+/).filter(part => part !== '').map(parseWeekday);
+  if (days.length === 0 || days.some(day => day < 0)) return null;
+  return [...new Set(days)].sort((a, b) => a - b);
+}
+
+/** "15th", "1st", "last", "2nd" */
+function parseOrdinal(word: string): number | null {
+  if (word in ORDINALS) return ORDINALS[word];
+  const match = word.match(/^(\d{1,2})(?:st|nd|rd|th)?$/);
+  return match ? Number(match[1]) : null;
+}
+
+function emptyRule(interval: number, unit: RecurrenceUnit, whenDone: boolean): RecurrenceRule {
+  return { interval, unit, weekdays: [], monthDay: null, monthWeekday: null, yearDate: null, whenDone };
+}
+
+/** Null when the text is not a rule this engine understands */
+export function parseRecurrence(text: string | null | undefined): RecurrenceRule | null {
+  let rest = (text ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+  const whenDone = /\s*when done$/.test(rest);
+  rest = rest.replace(/\s*when done$/, '');
+
+  const everyMatch = rest.match(/^every\s+(.*)$/);
+  if (!everyMatch) return null;
+  rest = everyMatch[1];
+
+  if (rest === 'weekday') {
+    return { ...emptyRule(1, 'week', whenDone), weekdays: [1, 2, 3, 4, 5] };
+  }
+
+  const weekdayList = parseWeekdayList(rest);
+  if (weekdayList) {
+    return { ...emptyRule(1, 'week', whenDone), weekdays: weekdayList };
+  }
+
+  const unitMatch = rest.match(/^(?:(\d+|other)\s+)?(day|week|month|year)s?(?:\s+on\s+(.+))?$/);
+  if (!unitMatch) return null;
+
+  const interval = unitMatch[1] === undefined ? 1 : unitMatch[1] === 'other' ? 2 : Number(unitMatch[1]);
+  if (!Number.isInteger(interval) || interval < 1) return null;
+
+  const rule = emptyRule(interval, unitMatch[2] as RecurrenceUnit, whenDone);
+  const on = unitMatch[3]?.replace(/^the\s+/, '');
+  if (on === undefined) return rule;
+
+  switch (rule.unit) {
+    case 'week': {
+      const weekdays = parseWeekdayList(on);
+      if (!weekdays) return null;
+      rule.weekdays = weekdays;
+      return rule;
+    }
+    case 'month': {
+      const [first, second] = on.split(' ');
+      const nth = parseOrdinal(first);
+      if (nth === null) return null;
+
+      if (second === undefined || second === 'day') {
+        if (nth === 0 || nth > 31) return null;
+        rule.monthDay = nth;
+        return rule;
+      }
+      const weekday = parseWeekday(second);
+      if (weekday < 0 || nth === 0 || nth > 5) return null;
+      rule.monthWeekday = { nth, weekday };
+      return rule;
+    }
+    case 'year': {
+      const dateMatch = on.match(/^([a-z]+)\s+(\d{1,2})(?:st|nd|rd|th)?$/);
+      const month = dateMatch ? MONTHS.findIndex(name => name === dateMatch[1] || name.slice(0, 3) === dateMatch[1]) : -1;
+      if (!dateMatch || month < 0) return null;
+      rule.yearDate = { month, day: Number(dateMatch[2]) };
+      return rule;
+    }
+    default:
+      return null;
+  }
+}
+
+function utcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, Math.min(day, daysInMonth(year, month))));
+}
+
+/** Same day of the month, clamped to the month's length (31 January + 1 month = 28/29 February) */
+function addMonths(date: Date, months: number): Date {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  return utcDate(target.getUTCFullYear(), target.getUTCMonth(), date.getUTCDate());
+}
+
+function nthWeekdayOfMonth(year: number, month: number, nth: number, weekday: number): Date | null {
+  if (nth === -1) {
+    const last = utcDate(year, month, 31);
+    return addDays(last, -((last.getUTCDay() - weekday + 7) % 7));
+  }
+  const first = utcDate(year, month, 1);
+  const day = 1 + (weekday - first.getUTCDay() + 7) % 7 + (nth - 1) * 7;
+  return day <= daysInMonth(year, month) ? utcDate(year, month, day) : null;
+}
+
+/** First period (offset 0, interval, 2 * interval, ...) with a candidate after `from` */
+function firstCandidateAfter(from: Date, interval: number, candidateFor: (offset: number) => Date | null): Date {
+  for (let offset = 0; offset <= 1000 * interval; offset += interval) {
+    const candidate = candidateFor(offset);
+    if (candidate && candidate.getTime() > from.getTime()) return candidate;
+  }
+  return candidateFor(interval) ?? from;
+}
+
+/** The first occurrence strictly after `from` */
+export function nextRecurrenceDate(rule: RecurrenceRule, from: Date): Date {
+  const year = from.getUTCFullYear();
+  const month = from.getUTCMonth();
+
+  switch (rule.unit) {
+    case 'day':
+      return addDays(from, rule.interval);
+
+    case 'week': {
+      if (rule.weekdays.length === 0) return addDays(from, 7 * rule.interval);
+
+      // Weeks start on Monday, so Sunday sorts last
+      const mondayBased = (weekday: number): number => (weekday + 6) % 7;
+      const laterThisWeek = rule.weekdays
+        .map(mondayBased)
+        .filter(day => day > mondayBased(from.getUTCDay()))
+        .sort((a, b) => a - b);
+      if (laterThisWeek.length > 0) {
+        return addDays(from, laterThisWeek[0] - mondayBased(from.getUTCDay()));
+      }
+      const monday = addDays(from, -mondayBased(from.getUTCDay()) + 7 * rule.interval);
+      return addDays(monday, Math.min(...rule.weekdays.map(mondayBased)));
+    }
+
+    case 'month': {
+      if (rule.monthDay !== null) {
+        const day = rule.monthDay;
+        return firstCandidateAfter(from, rule.interval, offset => {
+          const start = addMonths(utcDate(year, month, 1), offset);
+          return utcDate(start.getUTCFullYear(), start.getUTCMonth(), day === -1 ? 31 : day);
+        });
+      }
+      if (rule.monthWeekday !== null) {
+        const { nth, weekday } = rule.monthWeekday;
+        return firstCandidateAfter(from, rule.interval, offset => {
+          const start = addMonths(utcDate(year, month, 1), offset);
+          return nthWeekdayOfMonth(start.getUTCFullYear(), start.getUTCMonth(), nth, weekday);
+        });
+      }
+      return addMonths(from, rule.interval);
+    }
+
+    case 'year': {
+      const yearDate = rule.yearDate;
+      if (yearDate !== null) {
+        return firstCandidateAfter(from, rule.interval, offset => utcDate(year + offset, yearDate.month, yearDate.day));
+      }
+      return addMonths(from, 12 * rule.interval);
+    }
+  }
+}
+
+/**
+ * Dates for the next occurrence of a recurring task. The due date, or else the scheduled
+ * or start date, moves to the next occurrence (counted from `completionDate` for
+ * "when done" rules) and the other dates keep their distance to it. A task without
+ * dates recurs without dates.
+ */
+export function nextOccurrenceDates(rule: RecurrenceRule, dates: TaskOccurrenceDates, completionDate: string): Required<TaskOccurrenceDates> {
+  const due = parseDateString(dates.due_date);
+  const scheduled = parseDateString(dates.scheduled_date);
+  const start = parseDateString(dates.start_date);
+  const reference = due ?? scheduled ?? start;
+
+  if (!reference) {
+    return { due_date: null, scheduled_date: null, start_date: null };
+  }
+
+  const base = rule.whenDone ? parseDateString(completionDate) ?? reference : reference;
+  const shift = daysBetween(reference, nextRecurrenceDate(rule, base));
+  const move = (date: Date | null): string | null => date ? formatDateString(addDays(date, shift)) : null;
+
+  return { due_date: move(due), scheduled_date: move(scheduled), start_date: move(start) };
+}
@@ -0,0 +1,14 @@
+/**
+ * Build a row object instead of using getAsObject() to handle duplicate column names
+ * with "first wins" behavior - important for LEFT JOINs where left table columns come first.
+ */
+export function buildRow(columnNames: string[], values: unknown[]): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  for (let i = 0; i < columnNames.length; i++) {
+    const colName = columnNames[i];
+    if (!(colName in row)) {
+      row[colName] = values[i];
+    }
+  }
+  return row;
+}
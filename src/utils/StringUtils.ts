@@ -1,4 +1,16 @@
-export { fast1a32hex as hashString } from 'fnv-plus';
+/**
+ * 32-bit FNV-1a hash of the string's UTF-16 code units as 8 hex digits. Matches fnv-plus's
+ * fast1a32hex, which stored anchor hashes were computed with, without bundling all of fnv-plus
+ * into the indexing worker.
+ */
+export function hashString(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
 
 /**
  * Separator used for compound keys (e.g., path@@table_index)
@@ -63,8 +75,8 @@ export function generateUniqueId(prefix = ''): string {
     const array = new Uint32Array(2);
     crypto.getRandomValues(array);
     random = array[0].toString(36) + array[1].toString(36);
-  }
-
+  }
+
   else {
     random = Math.random().toString(36).slice(2, 11);
   }
@@ -0,0 +1,92 @@
+import type { TaskFormat } from '../Settings/Settings';
+
+/*
+ * Dataview-style task metadata, e.g. `[due:: 2026-01-05]` or `(priority:: high)`, using the
+ * field names the Tasks plugin writes in its Dataview format. The emoji format is handled
+ * inline by NoteParser and TaskEditPlanner.
+ */
+
+export type DataviewTaskColumn =
+  | 'created_date' | 'scheduled_date' | 'start_date' | 'due_date' | 'done_date' | 'cancelled_date'
+  | 'recurrence' | 'on_completion' | 'priority' | 'task_id' | 'depends_on';
+
+/** In the order the fields are written */
+export const DATAVIEW_TASK_FIELDS: ReadonlyArray<[DataviewTaskColumn, string]> = [
+  ['created_date', 'created'],
+  ['scheduled_date', 'scheduled'],
+  ['start_date', 'start'],
+  ['due_date', 'due'],
+  ['done_date', 'completion'],
+  ['cancelled_date', 'cancelled'],
+  ['recurrence', 'repeat'],
+  ['on_completion', 'onCompletion'],
+  ['priority', 'priority'],
+  ['task_id', 'id'],
+  ['depends_on', 'dependsOn']
+];
+
+const COLUMN_BY_KEY = new Map(DATAVIEW_TASK_FIELDS.map(([column, key]) => [key.toLowerCase(), column]));
+
+// Brackets must pair up, so `[due:: x)` is left alone
+const FIELD_PATTERN = /\[\s*([A-Za-z]+)\s*::\s*([^\]]*?)\s*\]|\(\s*([A-Za-z]+)\s*::\s*([^)]*?)\s*\)/g;
+
+function forEachTaskField(text: string, callback: (column: DataviewTaskColumn, value: string, match: string) => void): void {
+  for (const match of text.matchAll(FIELD_PATTERN)) {
+    const key = (match[1] ?? match[3]).toLowerCase();
+    const column = COLUMN_BY_KEY.get(key);
+    if (column) {
+      callback(column, match[2] ?? match[4], match[0]);
+    }
+  }
+}
+
+/** Known task fields in the text; the first occurrence of a field wins */
+export function parseDataviewTaskFields(text: string): Partial<Record<DataviewTaskColumn, string>> {
+  const fields: Partial<Record<DataviewTaskColumn, string>> = {};
+  forEachTaskField(text, (column, value) => {
+    if (value && fields[column] === undefined) {
+      fields[column] = column === 'priority' ? value.toLowerCase() : value;
+    }
+  });
+  return fields;
+}
+
+export function hasDataviewTaskFields(text: string): boolean {
+  let found = false;
+  forEachTaskField(text, () => { found = true; });
+  return found;
+}
+
+/** Removes known task fields, with the space before them, and leaves any other inline fields in place */
+export function stripDataviewTaskFields(text: string): string {
+  let stripped = text;
+  forEachTaskField(text, (_column, _value, match) => {
+    const index = stripped.indexOf(match);
+    const start = stripped.slice(0, index).search(/[ \t]*$/);
+    stripped = stripped.slice(0, start) + stripped.slice(index + match.length);
+  });
+  return stripped;
+}
+
+export function formatDataviewTaskField(column: DataviewTaskColumn, value: string): string {
+  const key = DATAVIEW_TASK_FIELDS.find(([fieldColumn]) => fieldColumn === column)?.[1] ?? column;
+  return `[${key}:: ${value}]`;
+}
+
+/**
+ * Task IDs from a dependency list. Both `⛔ a,b` and `[dependsOn:: a, b]` are accepted,
+ * so the list is split on commas and whitespace; duplicates are dropped.
+ */
+export function parseTaskIdList(value: string | null | undefined): string[] {
+  if (!value) return [];
+  return [...new Set(value.split(/[\s,]+/).filter(id => id !== ''))];
+}
+
+/**
+ * Format to write a task line in. With 'both', an existing line keeps the format it is
+ * written in so an update does not convert it; new lines use emoji.
+ */
+export function resolveTaskWriteFormat(format: TaskFormat, existing?: string): 'emoji' | 'dataview' {
+  if (format !== 'both') return format;
+  return existing && hasDataviewTaskFields(existing) ? 'dataview' : 'emoji';
+}
@@ -0,0 +1,50 @@
+import type { TaskStatusDefinition, TaskStatusType } from '../Settings/Settings';
+
+/*
+ * Task checkbox symbols and the statuses they stand for, shared by indexing and write sync.
+ * Custom statuses from settings are consulted before the built-ins, so they can also
+ * rename or retype a built-in symbol.
+ */
+
+export const BUILT_IN_TASK_STATUSES: readonly TaskStatusDefinition[] = [
+  { symbol: ' ', name: 'TODO', type: 'TODO' },
+  { symbol: 'x', name: 'DONE', type: 'DONE' },
+  { symbol: 'X', name: 'DONE', type: 'DONE' },
+  { symbol: '/', name: 'IN_PROGRESS', type: 'IN_PROGRESS' },
+  { symbol: '-', name: 'CANCELLED', type: 'CANCELLED' }
+];
+
+export interface ResolvedTaskStatus {
+  status: string;
+  type: TaskStatusType;
+}
+
+function usableStatuses(customStatuses: readonly TaskStatusDefinition[]): TaskStatusDefinition[] {
+  const custom = customStatuses.filter(status => status.symbol.length === 1 && status.name.trim() !== '');
+  return [...custom, ...BUILT_IN_TASK_STATUSES];
+}
+
+/**
+ * Status for a checkbox symbol. Symbols nobody defined are indexed as TODO, like the
+ * Tasks plugin does, while the raw symbol is still kept in status_symbol.
+ */
+export function resolveTaskStatus(symbol: string, customStatuses: readonly TaskStatusDefinition[]): ResolvedTaskStatus {
+  const match = usableStatuses(customStatuses).find(status => status.symbol === symbol);
+  return match ? { status: match.name.trim(), type: match.type } : { status: 'TODO', type: 'TODO' };
+}
+
+/**
+ * Symbol to write for a status name (case-insensitive). The current symbol wins when it
+ * already stands for that status, so `[X]` is not rewritten to `[x]`. Returns null for
+ * a status no symbol is defined for.
+ */
+export function symbolForTaskStatus(status: string, customStatuses: readonly TaskStatusDefinition[], currentSymbol?: string | null): string | null {
+  const name = status.trim().toUpperCase();
+  const candidates = usableStatuses(customStatuses).filter(definition => definition.name.trim().toUpperCase() === name);
+  if (candidates.length === 0) return null;
+
+  if (currentSymbol != null && candidates.some(definition => definition.symbol === currentSymbol)) {
+    return currentSymbol;
+  }
+  return candidates[0].symbol;
+}